@@ -4,15 +4,24 @@
  * Add Meal Page
  *
  * Main workflow for adding a new meal:
- * 1. User selects/takes photo
- * 2. Photo is compressed
+ * 1. User selects/takes one or more photos of the meal
+ * 2. Photos are compressed
  * 3. Check consent, show dialog if needed
- * 4. Call recognition API (with consent)
+ * 4. Call recognition API (with consent) with all photos together
  * 5. Show recognition result in form
  * 6. User confirms/corrects and saves
+ *
+ * In label mode a single photo of a packaged food's nutrition facts label is
+ * read instead, and the form is pre-filled with the label values.
+ * A first photo showing a product barcode is looked up in the product
+ * database and pre-fills the form without recognition.
+ * In text mode the meal is described in words ("兩顆茶葉蛋和一杯無糖豆漿")
+ * and recognized items fill the form just like a photo result.
+ * The reference object set in settings (bowl, card, chopsticks) is sent with
+ * meal photos so portion weights can be scaled from it.
  */
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
 import AppLayout from '@/app/components/layout/AppLayout';
@@ -20,30 +29,64 @@ import CameraCapture from '@/app/components/camera/CameraCapture';
 import { MultiItemMealForm } from '@/app/components/meals/MultiItemMealForm';
 import ConsentDialog, { CONSENT_VERSION } from '@/app/components/ui/ConsentDialog';
 import { useI18n } from '@/lib/i18n';
-import { recognizeMultipleFoodWithRetry } from '@/lib/services/recognition';
-import { getCloudRecognitionConsent, saveCloudRecognitionConsent } from '@/lib/db/indexeddb';
-import type { MultiItemRecognitionResponse } from '@/types/recognition';
+import { useLearnedCorrections } from '@/lib/hooks';
+import {
+  recognizeMealText,
+  recognizeMultipleFoodStreamWithRetry,
+  recognizeNutritionLabel,
+} from '@/lib/services/recognition';
+import { mapNutritionLabelToMealItem } from '@/lib/services/nutrition-label';
+import { lookupProductByBarcode, mapProductToMealItem } from '@/lib/services/products';
+import {
+  getCloudRecognitionConsent,
+  getReferenceObject,
+  saveCloudRecognitionConsent,
+} from '@/lib/db/indexeddb';
+import {
+  MAX_RECOGNITION_IMAGES,
+  MAX_RECOGNITION_TEXT_LENGTH,
+  type MultiItemRecognitionResponse,
+  type ReferenceObject,
+} from '@/types/recognition';
+import type { MealItem } from '@/types/sync';
 
 type WorkflowStep = 'capture' | 'processing' | 'confirm' | 'manualEntry' | 'success';
+type CaptureMode = 'meal' | 'label' | 'text';
+
+const CAPTURE_MODE_LABEL_KEYS: Record<CaptureMode, string> = {
+  meal: 'home.captureModeMeal',
+  label: 'home.captureModeLabel',
+  text: 'home.captureModeText',
+};
 
 export default function AddMealPage() {
-  const { t } = useI18n();
+  const { t, locale } = useI18n();
+  // Start loading learned corrections now so they are ready when results arrive
+  useLearnedCorrections();
   const router = useRouter();
 
   // Workflow state
   const [step, setStep] = useState<WorkflowStep>('capture');
+  const [captureMode, setCaptureMode] = useState<CaptureMode>('meal');
   const [error, setError] = useState<string | null>(null);
 
-  // Photo state
-  const [photoBlob, setPhotoBlob] = useState<Blob | null>(null);
-  const [photoPreviewUrl, setPhotoPreviewUrl] = useState<string | null>(null);
-  const [photoFile, setPhotoFile] = useState<File | null>(null);
+  // Photo state (ordered; the first photo is saved with the meal)
+  const [photoBlobs, setPhotoBlobs] = useState<Blob[]>([]);
+  const [photoPreviewUrls, setPhotoPreviewUrls] = useState<string[]>([]);
+
+  // Text mode meal description
+  const [mealText, setMealText] = useState('');
 
   // Recognition state
   const [recognitionResult, setRecognitionResult] = useState<MultiItemRecognitionResponse | null>(
     null,
   );
   const [isRecognizing, setIsRecognizing] = useState(false);
+  const [useEnsemble, setUseEnsemble] = useState(false);
+  const [useSpread, setUseSpread] = useState(false);
+  const [referenceObject, setReferenceObject] = useState<ReferenceObject | undefined>(undefined);
+  // Items read from a nutrition label or a barcode lookup
+  const [prefilledItems, setPrefilledItems] = useState<MealItem[] | undefined>(undefined);
 
   // Consent state
   const [hasConsent, setHasConsent] = useState<boolean | null>(null);
@@ -64,29 +107,112 @@ export default function AddMealPage() {
     checkConsent();
   }, []);
 
+  // Load the reference object set in settings
   useEffect(() => {
-    if (!photoBlob) {
-      setPhotoPreviewUrl(null);
-      return;
-    }
+    getReferenceObject()
+      .then(setReferenceObject)
+      .catch((err) => console.error('Failed to load reference object:', err));
+  }, []);
 
-    const previewUrl = URL.createObjectURL(photoBlob);
-    setPhotoPreviewUrl(previewUrl);
+  useEffect(() => {
+    const previewUrls = photoBlobs.map((blob) => URL.createObjectURL(blob));
+    setPhotoPreviewUrls(previewUrls);
 
     return () => {
-      URL.revokeObjectURL(previewUrl);
+      previewUrls.forEach((url) => URL.revokeObjectURL(url));
     };
-  }, [photoBlob]);
+  }, [photoBlobs]);
+
+  // A nutrition label is read from a single photo; text mode takes no photos
+  const maxPhotos =
+    captureMode === 'label' ? 1 : captureMode === 'text' ? 0 : MAX_RECOGNITION_IMAGES;
+  const hasRecognitionInput =
+    captureMode === 'text' ? mealText.trim().length > 0 : photoBlobs.length > 0;
+
+  const photoFile = useMemo(() => {
+    const primaryBlob = photoBlobs[0];
+    if (!primaryBlob) return null;
+    return new File([primaryBlob], `meal-${Date.now()}.jpg`, {
+      type: primaryBlob.type || 'image/jpeg',
+    });
+  }, [photoBlobs]);
 
   // Start recognition process
   const startRecognition = useCallback(
-    async (blob: Blob) => {
+    async (blobs: Blob[]) => {
       setStep('processing');
       setIsRecognizing(true);
       setError(null);
 
+      if (captureMode === 'text') {
+        try {
+          const result = await recognizeMealText(mealText.trim(), true, locale);
+
+          if (result.success && result.data) {
+            setRecognitionResult(result.data);
+            setStep('confirm');
+          } else if (result.error?.code === 'NO_FOOD_DETECTED') {
+            // Nothing to log in the text - let the user rephrase it
+            setStep('capture');
+            setError(t('home.textNoFood'));
+          } else {
+            // Other errors (timeout, network) - allow retry
+            setStep('processing');
+            setError(result.error?.message || t('errors.recognitionFailedManual'));
+          }
+        } catch (err) {
+          console.error('Text recognition error:', err);
+          setStep('processing');
+          setError(t('errors.recognitionErrorManual'));
+        } finally {
+          setIsRecognizing(false);
+        }
+        return;
+      }
+
+      if (captureMode === 'label') {
+        try {
+          const result = await recognizeNutritionLabel(blobs[0], true, locale);
+
+          if (result.success && result.data) {
+            setPrefilledItems([
+              mapNutritionLabelToMealItem(result.data, t('home.labelItemName'), locale),
+            ]);
+            setStep('confirm');
+          } else {
+            // No label or other errors - allow retry or manual entry
+            setStep('processing');
+            setError(result.error?.message || t('errors.recognitionFailedManual'));
+          }
+        } catch (err) {
+          console.error('Nutrition label error:', err);
+          setStep('processing');
+          setError(t('errors.recognitionErrorManual'));
+        } finally {
+          setIsRecognizing(false);
+        }
+        return;
+      }
+
       try {
-        const result = await recognizeMultipleFoodWithRetry(blob, true);
+        // Show the form as soon as the first item streams in; cards fill in one at a time
+        const result = await recognizeMultipleFoodStreamWithRetry(blobs, true, locale, {
+          onItem: (item, index) => {
+            setRecognitionResult((prev) => {
+              const items = [...(prev?.items ?? [])];
+              items[index] = item;
+              return { items, locale: prev?.locale ?? locale };
+            });
+            setStep('confirm');
+          },
+          onReset: () => {
+            setRecognitionResult(null);
+            setStep('processing');
+          },
+          ensemble: useEnsemble,
+          spread: useSpread,
+          referenceObject,
+        });
 
         if (result.success && result.data) {
           setRecognitionResult(result.data);
@@ -99,54 +225,88 @@ export default function AddMealPage() {
             setStep('confirm');
           } else {
             // Other errors (timeout, network) - allow retry
+            setStep('processing');
             setError(result.error?.message || t('errors.recognitionFailedManual'));
           }
         }
       } catch (err) {
         console.error('Recognition error:', err);
+        setRecognitionResult(null);
+        setStep('processing');
         setError(t('errors.recognitionErrorManual'));
       } finally {
         setIsRecognizing(false);
       }
     },
-    [t],
+    [t, locale, useEnsemble, useSpread, referenceObject, captureMode, mealText],
   );
 
-  // Handle image captured
+  // Handle image captured - collect shots until the user starts recognition
   const handleImageCaptured = useCallback(
     (blob: Blob) => {
-      setPhotoBlob(blob);
-      setPhotoFile(
-        new File([blob], `meal-${Date.now()}.jpg`, {
-          type: blob.type || 'image/jpeg',
-        }),
-      );
+      setPhotoBlobs((prev) => (prev.length >= maxPhotos ? prev : [...prev, blob]));
       setError(null);
+    },
+    [maxPhotos],
+  );
 
-      // Check if we need consent
-      if (hasConsent === false) {
-        setShowConsentDialog(true);
-        setPendingRecognition(true);
-      } else if (hasConsent === true) {
-        // Start recognition immediately
-        startRecognition(blob);
+  // Handle a barcode in the first meal photo - use the product database when it knows the product
+  const handleBarcodeDetected = useCallback(
+    async (barcode: string) => {
+      const result = await lookupProductByBarcode(barcode);
+
+      if (result.success && result.data) {
+        setPrefilledItems([mapProductToMealItem(result.data, locale)]);
+        setRecognitionResult(null);
+        setError(null);
+        setStep('confirm');
+        return true;
       }
+
+      // Unknown product or lookup error - keep the photo for recognition
+      return false;
     },
-    [hasConsent, startRecognition],
+    [locale],
   );
 
+  // Handle switching between meal photos and nutrition label reading
+  const handleCaptureModeChange = useCallback((mode: CaptureMode) => {
+    setCaptureMode(mode);
+    setPhotoBlobs([]);
+    setError(null);
+  }, []);
+
+  // Handle removing a captured photo
+  const handleRemovePhoto = useCallback((index: number) => {
+    setPhotoBlobs((prev) => prev.filter((_, idx) => idx !== index));
+  }, []);
+
+  // Handle starting recognition for all captured photos
+  const handleStartRecognition = useCallback(() => {
+    if (!hasRecognitionInput) return;
+
+    // Check if we need consent
+    if (hasConsent === false) {
+      setShowConsentDialog(true);
+      setPendingRecognition(true);
+    } else if (hasConsent === true) {
+      startRecognition(photoBlobs);
+    }
+  }, [hasConsent, hasRecognitionInput, photoBlobs, startRecognition]);
+
   // Handle retry recognition
   const handleRetryRecognition = useCallback(() => {
-    if (photoBlob) {
+    if (hasRecognitionInput) {
       setError(null);
-      startRecognition(photoBlob);
+      startRecognition(photoBlobs);
     }
-  }, [photoBlob, startRecognition]);
+  }, [hasRecognitionInput, photoBlobs, startRecognition]);
 
   // Handle skip to manual entry from processing
   const handleSkipToManual = useCallback(() => {
     setError(null);
     setRecognitionResult(null);
+    setPrefilledItems(undefined);
     setStep('confirm');
   }, []);
 
@@ -161,16 +321,16 @@ export default function AddMealPage() {
       setHasConsent(true);
       setShowConsentDialog(false);
 
-      // Start recognition if we have a pending photo
-      if (pendingRecognition && photoBlob) {
+      // Start recognition if we have pending photos
+      if (pendingRecognition && hasRecognitionInput) {
         setPendingRecognition(false);
-        startRecognition(photoBlob);
+        startRecognition(photoBlobs);
       }
     } catch (err) {
       console.error('Failed to save consent:', err);
       setError(t('errors.consentSaveFailed'));
     }
-  }, [pendingRecognition, photoBlob, startRecognition, t]);
+  }, [pendingRecognition, hasRecognitionInput, photoBlobs, startRecognition, t]);
 
   // Handle consent declined
   const handleConsentDecline = useCallback(() => {
@@ -189,20 +349,20 @@ export default function AddMealPage() {
   // Handle cancel
   const handleCancel = useCallback(() => {
     setStep('capture');
-    setPhotoBlob(null);
-    setPhotoPreviewUrl(null);
-    setPhotoFile(null);
+    setPhotoBlobs([]);
     setRecognitionResult(null);
+    setPrefilledItems(undefined);
+    setMealText('');
     setError(null);
   }, []);
 
   // Handle new meal after success
   const handleNewMeal = useCallback(() => {
     setStep('capture');
-    setPhotoBlob(null);
-    setPhotoPreviewUrl(null);
-    setPhotoFile(null);
+    setPhotoBlobs([]);
     setRecognitionResult(null);
+    setPrefilledItems(undefined);
+    setMealText('');
     setError(null);
   }, []);
 
@@ -213,9 +373,7 @@ export default function AddMealPage() {
 
   // Handle manual entry (without photo)
   const handleManualEntry = useCallback(() => {
-    setPhotoBlob(null);
-    setPhotoPreviewUrl(null);
-    setPhotoFile(null);
+    setPhotoBlobs([]);
     setRecognitionResult(null);
     setError(null);
     setStep('manualEntry');
@@ -246,7 +404,120 @@ export default function AddMealPage() {
               <h2 className="text-lg font-medium text-slate-800">{t('home.logMealTitle')}</h2>
               <p className="text-sm text-slate-500 mt-1">{t('home.logMealSubtitle')}</p>
             </div>
-            <CameraCapture onImageCaptured={handleImageCaptured} onError={handleImageError} />
+            <div className="grid grid-cols-3 gap-1 rounded-2xl bg-slate-100 p-1">
+              {(['meal', 'label', 'text'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => handleCaptureModeChange(mode)}
+                  className={`rounded-xl px-3 py-2 text-sm font-medium transition-colors ${
+                    captureMode === mode
+                      ? 'bg-white text-slate-800 shadow-sm'
+                      : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  {t(CAPTURE_MODE_LABEL_KEYS[mode])}
+                </button>
+              ))}
+            </div>
+            {captureMode === 'label' && (
+              <p className="text-center text-xs text-slate-500">{t('home.labelModeHint')}</p>
+            )}
+            {captureMode === 'text' && (
+              <div className="space-y-3">
+                <textarea
+                  value={mealText}
+                  onChange={(event) => setMealText(event.target.value)}
+                  maxLength={MAX_RECOGNITION_TEXT_LENGTH}
+                  rows={4}
+                  placeholder={t('home.textPlaceholder')}
+                  aria-label={t('home.captureModeText')}
+                  className="w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm text-slate-800 placeholder:text-slate-400 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+                <button
+                  type="button"
+                  onClick={handleStartRecognition}
+                  disabled={!hasRecognitionInput}
+                  className="w-full px-6 py-3 bg-blue-500 text-white rounded-2xl hover:bg-blue-600 transition-colors font-medium shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {t('home.recognizeText')}
+                </button>
+              </div>
+            )}
+            {photoPreviewUrls.length > 0 && (
+              <div className="space-y-3">
+                <PhotoPreviewStrip
+                  urls={photoPreviewUrls}
+                  alt={t('home.photoAlt')}
+                  removeLabel={t('camera.clearPhoto')}
+                  onRemove={handleRemovePhoto}
+                />
+                {captureMode === 'meal' && (
+                  <p className="text-center text-xs text-slate-500">
+                    {t('home.photoCount', {
+                      count: photoPreviewUrls.length,
+                      max: MAX_RECOGNITION_IMAGES,
+                    })}
+                  </p>
+                )}
+                {captureMode === 'meal' && (
+                  <label className="flex items-start gap-2 text-sm text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={useEnsemble}
+                      onChange={(event) => setUseEnsemble(event.target.checked)}
+                      className="mt-0.5 h-4 w-4 rounded border-slate-300 text-blue-500 focus:ring-blue-500"
+                    />
+                    <span>
+                      {t('home.ensembleMode')}
+                      <span className="block text-xs text-slate-400">
+                        {t('home.ensembleModeHint')}
+                      </span>
+                    </span>
+                  </label>
+                )}
+                {captureMode === 'meal' && (
+                  <label className="flex items-start gap-2 text-sm text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={useSpread}
+                      onChange={(event) => setUseSpread(event.target.checked)}
+                      className="mt-0.5 h-4 w-4 rounded border-slate-300 text-blue-500 focus:ring-blue-500"
+                    />
+                    <span>
+                      {t('home.spreadMode')}
+                      <span className="block text-xs text-slate-400">
+                        {t('home.spreadModeHint')}
+                      </span>
+                    </span>
+                  </label>
+                )}
+                <button
+                  type="button"
+                  onClick={handleStartRecognition}
+                  className="w-full px-6 py-3 bg-blue-500 text-white rounded-2xl hover:bg-blue-600 transition-colors font-medium shadow-sm"
+                >
+                  {captureMode === 'label' ? t('home.readLabel') : t('home.startRecognition')}
+                </button>
+              </div>
+            )}
+            {photoPreviewUrls.length < maxPhotos && (
+              <div className="space-y-2">
+                {photoPreviewUrls.length > 0 && (
+                  <p className="text-sm font-medium text-slate-700">{t('home.addAnotherPhoto')}</p>
+                )}
+                <CameraCapture
+                  onImageCaptured={handleImageCaptured}
+                  onError={handleImageError}
+                  onBarcodeDetected={
+                    captureMode === 'meal' && photoPreviewUrls.length === 0
+                      ? handleBarcodeDetected
+                      : undefined
+                  }
+                  multiple
+                />
+              </div>
+            )}
             <div className="text-center pt-4 border-t border-slate-100">
               <button
                 type="button"
@@ -271,15 +542,9 @@ export default function AddMealPage() {
             ) : (
               <>
                 {/* Photo Preview */}
-                {photoPreviewUrl && (
-                  <div className="relative mb-6 h-48 w-full">
-                    <Image
-                      src={photoPreviewUrl}
-                      alt={t('home.photoAlt')}
-                      fill
-                      className="object-contain rounded-2xl"
-                      unoptimized
-                    />
+                {photoPreviewUrls.length > 0 && (
+                  <div className="mb-6">
+                    <PhotoPreviewStrip urls={photoPreviewUrls} alt={t('home.photoAlt')} />
                   </div>
                 )}
 
@@ -316,22 +581,11 @@ export default function AddMealPage() {
               <h2 className="text-lg font-medium text-slate-800">{t('home.confirmTitle')}</h2>
             </div>
 
-            {/* Photo Preview */}
-            {photoPreviewUrl && (
-              <div className="relative mb-4 h-48 w-full">
-                <Image
-                  src={photoPreviewUrl}
-                  alt={t('home.photoAlt')}
-                  fill
-                  className="object-contain rounded-2xl"
-                  unoptimized
-                />
-              </div>
-            )}
-
             <MultiItemMealForm
-              recognitionResult={recognitionResult}
-              photoFile={photoFile}
+              recognitionResult={captureMode === 'label' ? null : recognitionResult}
+              photoFile={captureMode === 'label' ? null : photoFile}
+              photoUrls={captureMode === 'label' ? [] : photoPreviewUrls}
+              initialItems={prefilledItems}
               isLoading={isRecognizing}
               onSubmitSuccess={handleSubmitSuccess}
               onCancel={handleCancel}
@@ -403,3 +657,58 @@ export default function AddMealPage() {
     </AppLayout>
   );
 }
+
+/**
+ * Captured photo previews. A single photo is shown large; several photos are
+ * shown as a scrollable strip in capture order.
+ */
+interface PhotoPreviewStripProps {
+  urls: string[];
+  alt: string;
+  removeLabel?: string;
+  onRemove?: (index: number) => void;
+}
+
+function PhotoPreviewStrip({ urls, alt, removeLabel, onRemove }: PhotoPreviewStripProps) {
+  const isSingle = urls.length === 1;
+
+  return (
+    <div className={isSingle ? '' : 'flex gap-3 overflow-x-auto pb-1'}>
+      {urls.map((url, index) => (
+        <div
+          key={url}
+          className={isSingle ? 'relative h-48 w-full' : 'relative h-32 w-32 shrink-0'}
+        >
+          <Image
+            src={url}
+            alt={`${alt} ${index + 1}`}
+            fill
+            className={isSingle ? 'object-contain rounded-2xl' : 'object-cover rounded-2xl'}
+            unoptimized
+          />
+          {onRemove && (
+            <button
+              type="button"
+              onClick={() => onRemove(index)}
+              className="absolute top-2 right-2 bg-black/40 text-white rounded-full p-1.5 hover:bg-black/60 transition-colors backdrop-blur-sm"
+              aria-label={removeLabel}
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-4 w-4"
+                viewBox="0 0 20 20"
+                fill="currentColor"
+              >
+                <path
+                  fillRule="evenodd"
+                  d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                  clipRule="evenodd"
+                />
+              </svg>
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+/**
+ * Food Corrections API Route
+ *
+ * GET /api/corrections            - List the signed-in user's learned corrections
+ * POST /api/corrections           - Record corrections from a saved meal
+ * DELETE /api/corrections?id=...  - Forget one correction (all of them without an id)
+ *
+ * Every method responds with the user's remaining corrections, most frequent first.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { translate } from '@/lib/i18n';
+import { isValidFoodCorrection } from '@/lib/corrections/learned';
+import { MAX_SPREAD_RECOGNITION_ITEMS } from '@/types/recognition';
+import {
+  deleteFoodCorrections,
+  listFoodCorrections,
+  recordFoodCorrections,
+} from '@/lib/corrections/store';
+import type {
+  CorrectionApiError,
+  CorrectionsApiResponse,
+  RecordCorrectionsApiRequest,
+} from '@/types/correction';
+
+const MAX_SOURCE_ID_LENGTH = 64;
+
+function errorResponse(
+  code: CorrectionApiError,
+  messageKey: string,
+  status: number,
+): NextResponse<CorrectionsApiResponse> {
+  return NextResponse.json(
+    { success: false, error: { code, message: translate(messageKey) } },
+    { status },
+  );
+}
+
+/**
+ * Accept a short id (prompt version or meal id) from the request body.
+ */
+function readSourceId(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 && value.length <= MAX_SOURCE_ID_LENGTH
+    ? value
+    : undefined;
+}
+
+/**
+ * Run a handler for the signed-in user, mapping auth and database failures to responses.
+ */
+async function withUser(
+  handler: (userId: string) => Promise<NextResponse<CorrectionsApiResponse>>,
+): Promise<NextResponse<CorrectionsApiResponse>> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return errorResponse('UNAUTHORIZED', 'errors.signInRequired', 401);
+  }
+
+  try {
+    return await handler(session.user.id);
+  } catch (error) {
+    console.error('Food corrections error:', error);
+    return errorResponse('API_ERROR', 'errors.correctionsUnavailable', 500);
+  }
+}
+
+export async function GET(): Promise<NextResponse<CorrectionsApiResponse>> {
+  return withUser(async (userId) =>
+    NextResponse.json({ success: true, data: await listFoodCorrections(userId) }),
+  );
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<CorrectionsApiResponse>> {
+  return withUser(async (userId) => {
+    const body: Partial<RecordCorrectionsApiRequest> = await request.json().catch(() => ({}));
+    const corrections = body.corrections;
+
+    if (
+      !Array.isArray(corrections) ||
+      corrections.length === 0 ||
+      corrections.length > MAX_SPREAD_RECOGNITION_ITEMS ||
+      !corrections.every(isValidFoodCorrection)
+    ) {
+      return errorResponse('VALIDATION_ERROR', 'errors.invalidCorrections', 400);
+    }
+
+    await recordFoodCorrections(userId, corrections, {
+      promptVersion: readSourceId(body.promptVersion),
+      mealId: readSourceId(body.mealId),
+    });
+    return NextResponse.json({ success: true, data: await listFoodCorrections(userId) });
+  });
+}
+
+export async function DELETE(request: NextRequest): Promise<NextResponse<CorrectionsApiResponse>> {
+  return withUser(async (userId) => {
+    const id = request.nextUrl.searchParams.get('id') ?? undefined;
+    await deleteFoodCorrections(userId, id);
+    return NextResponse.json({ success: true, data: await listFoodCorrections(userId) });
+  });
+}
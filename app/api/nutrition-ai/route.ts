@@ -4,11 +4,19 @@
  * POST /api/nutrition-ai
  *
  * Uses OpenAI to estimate nutrition data when USDA database has no results.
+ * Estimates are shared by all users through the server cache (keyed by food
+ * name and portion, see lib/nutrition/cache.ts); cache hits use no AI quota.
  * Server-side route to protect API key.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { translate } from '@/lib/i18n';
+import { withNutritionCache } from '@/lib/nutrition/cache';
+import { createUsageMeter, type UsageMeter } from '@/lib/usage/ledger';
+import { getQuotaExceededMessage, getQuotaHeaders } from '@/lib/usage/quota';
+import type { UsageQuotaStatus } from '@/types/usage';
+
+const NUTRITION_MODEL = 'gpt-4o-mini';
 
 interface NutritionAIRequest {
   foodName: string;
@@ -84,8 +92,33 @@ export async function POST(request: NextRequest): Promise<NextResponse<Nutrition
       );
     }
 
-    // Call OpenAI for nutrition estimation
-    const result = await estimateNutritionWithAI(body.foodName.trim(), body.portionSize, apiKey);
+    // Set by the lookup when the caller's quota is used up
+    const quota: { exceeded: UsageQuotaStatus | null } = { exceeded: null };
+    const result = await withNutritionCache(
+      { source: 'ai', foodName: body.foodName.trim(), variant: body.portionSize || 'default' },
+      async () => {
+        // Enforce the caller's AI usage quota before calling OpenAI
+        const usageMeter = await createUsageMeter(request, 'nutrition-ai');
+        if (usageMeter.exceededQuota) {
+          quota.exceeded = usageMeter.exceededQuota;
+          return {
+            success: false,
+            error: {
+              code: 'QUOTA_EXCEEDED',
+              message: getQuotaExceededMessage(usageMeter.exceededQuota),
+            },
+          };
+        }
+
+        // Call OpenAI for nutrition estimation
+        return estimateNutritionWithAI(body.foodName.trim(), body.portionSize, apiKey, usageMeter);
+      },
+    );
+
+    // A stale estimate may still answer once the quota is used up
+    if (!result.success && quota.exceeded) {
+      return NextResponse.json(result, { status: 429, headers: getQuotaHeaders(quota.exceeded) });
+    }
 
     return NextResponse.json(result);
   } catch (error) {
@@ -110,6 +143,7 @@ async function estimateNutritionWithAI(
   foodName: string,
   portionSize: string | undefined,
   apiKey: string,
+  usageMeter: UsageMeter,
 ): Promise<NutritionAIResponse> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 seconds for detailed nutrition
@@ -124,7 +158,7 @@ async function estimateNutritionWithAI(
         Authorization: `Bearer ${apiKey}`,
       },
       body: JSON.stringify({
-        model: 'gpt-4o-mini',
+        model: NUTRITION_MODEL,
         messages: [
           {
             role: 'system',
@@ -178,6 +212,14 @@ Use reasonable estimates based on typical nutritional data. All values must be n
     const data = await response.json();
     const content = data.choices?.[0]?.message?.content;
 
+    if (data.usage) {
+      await usageMeter.record('openai', {
+        model: NUTRITION_MODEL,
+        inputTokens: data.usage.prompt_tokens ?? 0,
+        outputTokens: data.usage.completion_tokens ?? 0,
+      });
+    }
+
     if (!content) {
       return {
         success: false,
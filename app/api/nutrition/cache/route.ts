@@ -0,0 +1,106 @@
+/**
+ * Nutrition Cache Admin API Route
+ *
+ * GET /api/nutrition/cache                           - Hit/miss counters and entry counts
+ * DELETE /api/nutrition/cache?food=...&source=...    - Invalidate entries of one food
+ *                                                      and/or source (all without either)
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_TOKEN>`; responds 404 when
+ * ADMIN_API_TOKEN is not set. Counters are per server instance since it
+ * started; entry counts are of the shared table.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { hasAdminToken, isAdminTokenConfigured } from '@/lib/auth/admin-token';
+import {
+  NUTRITION_CACHE_SOURCES,
+  getNutritionCacheStatus,
+  invalidateNutritionCache,
+  isNutritionCacheEnabled,
+  type NutritionCacheSource,
+} from '@/lib/nutrition/cache';
+
+type NutritionCacheStatus = Awaited<ReturnType<typeof getNutritionCacheStatus>>;
+
+interface NutritionCacheApiResponse {
+  success: boolean;
+  data?: NutritionCacheStatus | { deleted: number };
+  error?: {
+    code: 'NOT_FOUND' | 'UNAUTHORIZED' | 'INVALID_REQUEST' | 'CACHE_DISABLED' | 'API_ERROR';
+    message: string;
+  };
+}
+
+function errorResponse(
+  code: NonNullable<NutritionCacheApiResponse['error']>['code'],
+  message: string,
+  status: number,
+): NextResponse<NutritionCacheApiResponse> {
+  return NextResponse.json({ success: false, error: { code, message } }, { status });
+}
+
+/**
+ * Check the admin token, mapping failures to responses.
+ */
+function authorize(request: NextRequest): NextResponse<NutritionCacheApiResponse> | null {
+  if (!isAdminTokenConfigured()) {
+    return errorResponse('NOT_FOUND', 'Not found', 404);
+  }
+  if (!hasAdminToken(request)) {
+    return errorResponse('UNAUTHORIZED', 'Admin token required', 401);
+  }
+  return null;
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse<NutritionCacheApiResponse>> {
+  const denied = authorize(request);
+  if (denied) return denied;
+
+  try {
+    return NextResponse.json({ success: true, data: await getNutritionCacheStatus() });
+  } catch (error) {
+    console.error('Nutrition cache status error:', error);
+    return errorResponse('API_ERROR', 'Failed to read the nutrition cache', 500);
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+): Promise<NextResponse<NutritionCacheApiResponse>> {
+  const denied = authorize(request);
+  if (denied) return denied;
+
+  if (!isNutritionCacheEnabled()) {
+    return errorResponse('CACHE_DISABLED', 'The nutrition cache is disabled', 409);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const foodName = searchParams.get('food')?.trim() || undefined;
+  const source = searchParams.get('source') ?? undefined;
+  if (source !== undefined && !NUTRITION_CACHE_SOURCES.includes(source as NutritionCacheSource)) {
+    return errorResponse(
+      'INVALID_REQUEST',
+      `source must be one of: ${NUTRITION_CACHE_SOURCES.join(', ')}`,
+      400,
+    );
+  }
+
+  try {
+    const deleted = await invalidateNutritionCache({
+      foodName,
+      source: source as NutritionCacheSource | undefined,
+    });
+    console.info(
+      JSON.stringify({
+        event: 'nutrition_cache_invalidate',
+        foodName: foodName ?? null,
+        source: source ?? null,
+        deleted,
+      }),
+    );
+    return NextResponse.json({ success: true, data: { deleted } });
+  } catch (error) {
+    console.error('Nutrition cache invalidation error:', error);
+    return errorResponse('API_ERROR', 'Failed to invalidate the nutrition cache', 500);
+  }
+}
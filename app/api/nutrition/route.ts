@@ -3,12 +3,27 @@
  *
  * GET /api/nutrition?food={food_name}
  *
- * Returns nutrition data for a given food from USDA FoodData Central.
+ * Returns nutrition data per 100 g for a given food. The local food
+ * composition table (e.g. the Taiwan FDA dataset) is searched first, since
+ * it matches Chinese dish names far better; USDA FoodData Central is the
+ * fallback. `sourceDatabase` names the dataset that answered and
+ * `matchedDescription` the food it matched, so users can check it.
+ *
+ * USDA only understands English: Chinese names are translated first (see
+ * query-translation.ts), and cooked/prepared descriptions are preferred
+ * among the results, since logged meals are rarely raw. USDA results are
+ * shared by all users through the server cache (see lib/nutrition/cache.ts),
+ * which also answers with expired results while USDA is unreachable.
  * Server-side route to protect API key.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { translate } from '@/lib/i18n';
+import { findFoodComposition } from '@/lib/food-composition/store';
+import { withNutritionCache } from '@/lib/nutrition/cache';
+import { translateFoodQuery } from '@/lib/nutrition/query-translation';
+import { createUsageMeter } from '@/lib/usage/ledger';
+import type { NutritionLabelValues } from '@/types/recognition';
 
 interface NutritionResponse {
   success: boolean;
@@ -31,6 +46,7 @@ interface NutritionResponse {
     vitaminB12?: number;
     cholesterol?: number;
     sourceDatabase: string;
+    matchedDescription?: string; // Name of the matched food in the dataset
     dataComplete: boolean;
   };
   error?: {
@@ -77,6 +93,52 @@ const NUTRIENT_IDS = {
   CHOLESTEROL: 1253, // mg
 };
 
+const USDA_SOURCE = 'USDA FoodData Central';
+
+/**
+ * USDA results ranked per lookup.
+ */
+const USDA_PAGE_SIZE = 10;
+
+/**
+ * USDA search timeout. With the AI query translation (up to 4 s) it fits the
+ * client's 8 s timeout (API_TIMEOUT in lib/services/nutrition.ts).
+ */
+const USDA_TIMEOUT_MS = 4000;
+
+/**
+ * Description words of cooked/prepared foods, preferred over raw ones.
+ */
+const PREPARED_TERMS = [
+  'cooked',
+  'prepared',
+  'boiled',
+  'steamed',
+  'baked',
+  'roasted',
+  'grilled',
+  'broiled',
+  'braised',
+  'stewed',
+  'fried',
+  'stir-fried',
+];
+
+/**
+ * Description words of processed forms that change the food (dried fruit,
+ * juice), ranked below the food itself.
+ */
+const PROCESSED_TERMS = [
+  'dried',
+  'dehydrated',
+  'canned',
+  'frozen',
+  'juice',
+  'powder',
+  'flour',
+  'concentrate',
+];
+
 export async function GET(request: NextRequest): Promise<NextResponse<NutritionResponse>> {
   try {
     const { searchParams } = new URL(request.url);
@@ -96,6 +158,12 @@ export async function GET(request: NextRequest): Promise<NextResponse<NutritionR
       );
     }
 
+    // Local food composition dataset first
+    const localResult = await callFoodCompositionLookup(food.trim());
+    if (localResult) {
+      return NextResponse.json(localResult);
+    }
+
     // Check API key configuration
     const apiKey = process.env.NUTRITION_API_KEY;
 
@@ -113,8 +181,26 @@ export async function GET(request: NextRequest): Promise<NextResponse<NutritionR
       );
     }
 
-    // Call USDA FoodData Central API
-    const result = await callUSDAApi(food.trim(), apiKey);
+    const result = await withNutritionCache({ source: 'usda', foodName: food.trim() }, async () => {
+      // USDA needs an English query
+      const translated = await translateFoodQuery(food.trim(), () =>
+        createUsageMeter(request, 'nutrition-translate'),
+      );
+
+      // Call USDA FoodData Central API
+      const usdaResult = await callUSDAApi(translated.query, apiKey);
+
+      console.info(
+        JSON.stringify({
+          event: 'usda_lookup',
+          foodName: food.trim(),
+          query: translated.query,
+          translatedVia: translated.via,
+          matchedDescription: usdaResult.data?.matchedDescription ?? null,
+        }),
+      );
+      return usdaResult;
+    });
 
     return NextResponse.json(result);
   } catch (error) {
@@ -132,19 +218,94 @@ export async function GET(request: NextRequest): Promise<NextResponse<NutritionR
   }
 }
 
+/**
+ * Look up the food in the local food composition table.
+ * Returns null (so USDA is asked) without a match with complete basic
+ * macronutrients, or when the table cannot be read.
+ */
+async function callFoodCompositionLookup(foodName: string): Promise<NutritionResponse | null> {
+  try {
+    const match = await findFoodComposition(foodName);
+    if (!match) return null;
+
+    const data = toNutritionData(match.per100g, match.source, match.name);
+    if (!data.dataComplete) return null;
+
+    console.info(
+      JSON.stringify({
+        event: 'food_composition_match',
+        foodName,
+        matchedName: match.name,
+        similarity: match.similarity,
+        source: match.source,
+      }),
+    );
+    return { success: true, data };
+  } catch (error) {
+    console.warn('Food composition lookup failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Round per-100 g values to display precision and flag whether the basic
+ * macronutrients are all present.
+ */
+function toNutritionData(
+  values: NutritionLabelValues,
+  sourceDatabase: string,
+  matchedDescription?: string,
+): NonNullable<NutritionResponse['data']> {
+  const round = (value: number | undefined, precision: number) =>
+    value !== undefined ? Math.round(value * precision) / precision : undefined;
+  const { calories, protein, carbohydrates, fats } = values;
+
+  return {
+    // Basic macronutrients
+    calories: round(calories, 1),
+    protein: round(protein, 10),
+    carbohydrates: round(carbohydrates, 10),
+    fats: round(fats, 10),
+    // Extended macronutrients
+    fiber: round(values.fiber, 10),
+    sugar: round(values.sugar, 10),
+    saturatedFat: round(values.saturatedFat, 10),
+    // Minerals
+    sodium: round(values.sodium, 1),
+    potassium: round(values.potassium, 1),
+    calcium: round(values.calcium, 1),
+    iron: round(values.iron, 10),
+    // Vitamins
+    vitaminA: round(values.vitaminA, 1),
+    vitaminC: round(values.vitaminC, 10),
+    vitaminD: round(values.vitaminD, 10),
+    vitaminB12: round(values.vitaminB12, 100),
+    // Other
+    cholesterol: round(values.cholesterol, 1),
+    sourceDatabase,
+    matchedDescription,
+    // Basic macros must be present for dataComplete
+    dataComplete:
+      calories !== undefined &&
+      protein !== undefined &&
+      carbohydrates !== undefined &&
+      fats !== undefined,
+  };
+}
+
 /**
  * Call USDA FoodData Central API for nutrition data.
  */
 async function callUSDAApi(foodName: string, apiKey: string): Promise<NutritionResponse> {
   const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 2000);
+  const timeoutId = setTimeout(() => controller.abort(), USDA_TIMEOUT_MS);
 
   try {
     const url = new URL('https://api.nal.usda.gov/fdc/v1/foods/search');
     url.searchParams.set('api_key', apiKey);
     url.searchParams.set('query', foodName);
     url.searchParams.set('dataType', 'Foundation,SR Legacy');
-    url.searchParams.set('pageSize', '1');
+    url.searchParams.set('pageSize', `${USDA_PAGE_SIZE}`);
 
     const response = await fetch(url.toString(), {
       method: 'GET',
@@ -174,76 +335,44 @@ async function callUSDAApi(foodName: string, apiKey: string): Promise<NutritionR
       return {
         success: true,
         data: {
-          sourceDatabase: 'USDA FoodData Central',
+          sourceDatabase: USDA_SOURCE,
           dataComplete: false,
         },
       };
     }
 
-    const food = data.foods[0];
+    const food = rankUSDAFoods(data.foods, foodName);
     const nutrients = food.foodNutrients || [];
 
-    // Extract basic macronutrients
-    const calories = findNutrient(nutrients, NUTRIENT_IDS.ENERGY);
-    const protein = findNutrient(nutrients, NUTRIENT_IDS.PROTEIN);
-    const carbohydrates = findNutrient(nutrients, NUTRIENT_IDS.CARBOHYDRATES);
-    const fats = findNutrient(nutrients, NUTRIENT_IDS.FAT);
-
-    // Extract extended macronutrients
-    const fiber = findNutrient(nutrients, NUTRIENT_IDS.FIBER);
-    const sugar = findNutrient(nutrients, NUTRIENT_IDS.SUGAR);
-    const saturatedFat = findNutrient(nutrients, NUTRIENT_IDS.SATURATED_FAT);
-
-    // Extract minerals
-    const sodium = findNutrient(nutrients, NUTRIENT_IDS.SODIUM);
-    const potassium = findNutrient(nutrients, NUTRIENT_IDS.POTASSIUM);
-    const calcium = findNutrient(nutrients, NUTRIENT_IDS.CALCIUM);
-    const iron = findNutrient(nutrients, NUTRIENT_IDS.IRON);
-
-    // Extract vitamins
-    const vitaminA = findNutrient(nutrients, NUTRIENT_IDS.VITAMIN_A);
-    const vitaminC = findNutrient(nutrients, NUTRIENT_IDS.VITAMIN_C);
-    const vitaminD = findNutrient(nutrients, NUTRIENT_IDS.VITAMIN_D);
-    const vitaminB12 = findNutrient(nutrients, NUTRIENT_IDS.VITAMIN_B12);
-
-    // Extract other
-    const cholesterol = findNutrient(nutrients, NUTRIENT_IDS.CHOLESTEROL);
-
-    // Basic macros must be present for dataComplete
-    const dataComplete =
-      calories !== undefined &&
-      protein !== undefined &&
-      carbohydrates !== undefined &&
-      fats !== undefined;
-
     return {
       success: true,
-      data: {
-        // Basic macronutrients
-        calories: calories !== undefined ? Math.round(calories) : undefined,
-        protein: protein !== undefined ? Math.round(protein * 10) / 10 : undefined,
-        carbohydrates:
-          carbohydrates !== undefined ? Math.round(carbohydrates * 10) / 10 : undefined,
-        fats: fats !== undefined ? Math.round(fats * 10) / 10 : undefined,
-        // Extended macronutrients
-        fiber: fiber !== undefined ? Math.round(fiber * 10) / 10 : undefined,
-        sugar: sugar !== undefined ? Math.round(sugar * 10) / 10 : undefined,
-        saturatedFat: saturatedFat !== undefined ? Math.round(saturatedFat * 10) / 10 : undefined,
-        // Minerals
-        sodium: sodium !== undefined ? Math.round(sodium) : undefined,
-        potassium: potassium !== undefined ? Math.round(potassium) : undefined,
-        calcium: calcium !== undefined ? Math.round(calcium) : undefined,
-        iron: iron !== undefined ? Math.round(iron * 10) / 10 : undefined,
-        // Vitamins
-        vitaminA: vitaminA !== undefined ? Math.round(vitaminA) : undefined,
-        vitaminC: vitaminC !== undefined ? Math.round(vitaminC * 10) / 10 : undefined,
-        vitaminD: vitaminD !== undefined ? Math.round(vitaminD * 10) / 10 : undefined,
-        vitaminB12: vitaminB12 !== undefined ? Math.round(vitaminB12 * 100) / 100 : undefined,
-        // Other
-        cholesterol: cholesterol !== undefined ? Math.round(cholesterol) : undefined,
-        sourceDatabase: 'USDA FoodData Central',
-        dataComplete,
-      },
+      data: toNutritionData(
+        {
+          // Basic macronutrients
+          calories: findNutrient(nutrients, NUTRIENT_IDS.ENERGY),
+          protein: findNutrient(nutrients, NUTRIENT_IDS.PROTEIN),
+          carbohydrates: findNutrient(nutrients, NUTRIENT_IDS.CARBOHYDRATES),
+          fats: findNutrient(nutrients, NUTRIENT_IDS.FAT),
+          // Extended macronutrients
+          fiber: findNutrient(nutrients, NUTRIENT_IDS.FIBER),
+          sugar: findNutrient(nutrients, NUTRIENT_IDS.SUGAR),
+          saturatedFat: findNutrient(nutrients, NUTRIENT_IDS.SATURATED_FAT),
+          // Minerals
+          sodium: findNutrient(nutrients, NUTRIENT_IDS.SODIUM),
+          potassium: findNutrient(nutrients, NUTRIENT_IDS.POTASSIUM),
+          calcium: findNutrient(nutrients, NUTRIENT_IDS.CALCIUM),
+          iron: findNutrient(nutrients, NUTRIENT_IDS.IRON),
+          // Vitamins
+          vitaminA: findNutrient(nutrients, NUTRIENT_IDS.VITAMIN_A),
+          vitaminC: findNutrient(nutrients, NUTRIENT_IDS.VITAMIN_C),
+          vitaminD: findNutrient(nutrients, NUTRIENT_IDS.VITAMIN_D),
+          vitaminB12: findNutrient(nutrients, NUTRIENT_IDS.VITAMIN_B12),
+          // Other
+          cholesterol: findNutrient(nutrients, NUTRIENT_IDS.CHOLESTEROL),
+        },
+        USDA_SOURCE,
+        food.description,
+      ),
     };
   } catch (error) {
     clearTimeout(timeoutId);
@@ -260,6 +389,73 @@ async function callUSDAApi(foodName: string, apiKey: string): Promise<NutritionR
   }
 }
 
+type USDAFood = NonNullable<USDAFoodSearchResponse['foods']>[number];
+
+/**
+ * Lower-case words of a query or description.
+ */
+function toWords(text: string): string[] {
+  return text.toLowerCase().match(/[a-z][a-z-]*/g) ?? [];
+}
+
+/**
+ * Word without a plural ending, so "apple" matches "apples" and
+ * "strawberries" matches "strawberry".
+ */
+function stemWord(word: string): string {
+  return word.replace(/(ies|es|s)$/, '');
+}
+
+/**
+ * Pick the best USDA result for a query: descriptions containing every query
+ * word first, then complete basic macronutrients, then cooked/prepared over
+ * raw. Processed forms and other foods named after it ("Guava sauce",
+ * "Sweet potato leaves") rank last. Ties keep USDA's relevance order.
+ */
+function rankUSDAFoods(foods: USDAFood[], query: string): USDAFood {
+  const queryStems = toWords(query).map(stemWord);
+  const matchesWord = (stem: string, stems: string[]) =>
+    stems.some(
+      (other) =>
+        Math.min(stem.length, other.length) >= 3 &&
+        (other.startsWith(stem) || stem.startsWith(other)),
+    );
+
+  const score = (food: USDAFood) => {
+    const words = toWords(food.description);
+    const stems = words.map(stemWord);
+    const nutrients = food.foodNutrients || [];
+    const relevance =
+      queryStems.length > 0
+        ? queryStems.filter((stem) => matchesWord(stem, stems)).length / queryStems.length
+        : 0;
+    const complete = [
+      NUTRIENT_IDS.ENERGY,
+      NUTRIENT_IDS.PROTEIN,
+      NUTRIENT_IDS.CARBOHYDRATES,
+      NUTRIENT_IDS.FAT,
+    ].every((id) => findNutrient(nutrients, id) !== undefined);
+    const prepared = words.some((word) => PREPARED_TERMS.includes(word));
+    const processed = words.some((word) => PROCESSED_TERMS.includes(word));
+    // Words of the food name (before the first comma) that the query lacks
+    const extraNameWords = toWords(food.description.split(',')[0])
+      .map(stemWord)
+      .filter((stem) => !matchesWord(stem, queryStems)).length;
+
+    return (
+      relevance * 4 +
+      (complete ? 2 : 0) +
+      (prepared ? 1 : 0) -
+      (processed ? 1.5 : 0) -
+      extraNameWords * 1.5
+    );
+  };
+
+  return foods
+    .map((food, index) => ({ food, index, score: score(food) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)[0].food;
+}
+
 /**
  * Find a nutrient value by ID.
  */
@@ -0,0 +1,60 @@
+/**
+ * Barcode Product Lookup API Route
+ *
+ * GET /api/products/{barcode}
+ *
+ * Returns a packaged product with its serving size and nutrition from the
+ * server-side product table. No vision provider is involved.
+ */
+
+import { NextResponse } from 'next/server';
+import { translate } from '@/lib/i18n';
+import { normalizeBarcode } from '@/lib/products/barcode';
+import { findProductByBarcode } from '@/lib/products/store';
+import type { ProductLookupApiResponse } from '@/types/product';
+
+interface RouteParams {
+  params: Promise<{ barcode: string }>;
+}
+
+export async function GET(
+  request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse<ProductLookupApiResponse>> {
+  const barcode = normalizeBarcode((await params).barcode);
+
+  if (!barcode) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INVALID_BARCODE', message: translate('errors.invalidBarcode') },
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const product = await findProductByBarcode(barcode);
+
+    if (!product) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'PRODUCT_NOT_FOUND', message: translate('errors.productNotFound') },
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ success: true, data: product });
+  } catch (error) {
+    console.error('Product lookup error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'API_ERROR', message: translate('errors.productLookupUnavailable') },
+      },
+      { status: 500 },
+    );
+  }
+}
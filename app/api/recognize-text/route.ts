@@ -0,0 +1,197 @@
+/**
+ * Text Meal Recognition API Route
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * POST /api/recognize-text
+ *
+ * Turns a free-text meal description (e.g. "兩顆茶葉蛋和一杯無糖豆漿") into
+ * the same multi-item response as /api/recognize, with counts, units and
+ * weights. Uses the provider chain with a text prompt and no images.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { translate } from '@/lib/i18n';
+import { createProviderChain, resolveProviderChain } from '@/lib/recognition/provider/registry';
+import { createUsageMeter, recordProbeUsage, type UsageMeter } from '@/lib/usage/ledger';
+import { getQuotaHeaders } from '@/lib/usage/quota';
+import { finalizeRecognitionItems, parseAndValidate } from '@/lib/recognition/parser';
+import { buildTextRecognitionPrompt } from '@/lib/recognition/text-prompt';
+import {
+  createQuotaExceededResponse,
+  createRecognitionErrorResponse,
+  getPromptOnlyProviderErrorCode,
+  getProviderErrorStatus,
+  logRecognitionEvent,
+  shouldFallback,
+  validateTextRecognitionRequest,
+} from '@/lib/recognition/request';
+import {
+  type TextRecognitionApiRequest,
+  type MultiItemRecognitionApiResponse,
+  type SupportedLocale,
+  DEFAULT_LOCALE,
+  MultiItemRecognitionError,
+} from '@/types/recognition';
+
+/**
+ * Whether the model answered with an empty item list (the text describes no food).
+ */
+function isEmptyItemList(rawJson: string): boolean {
+  try {
+    const parsed = JSON.parse(rawJson.match(/\{[\s\S]*\}/)?.[0] ?? '');
+    return Array.isArray(parsed?.items) && parsed.items.length === 0;
+  } catch {
+    return false;
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+): Promise<NextResponse<MultiItemRecognitionApiResponse>> {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  let apiType = process.env.RECOGNITION_API_TYPE || 'gemini';
+  let status = 200;
+  let locale: SupportedLocale = DEFAULT_LOCALE;
+  let textLength: number | undefined;
+  let usageMeter: UsageMeter | undefined;
+  let response: MultiItemRecognitionApiResponse = createRecognitionErrorResponse(
+    MultiItemRecognitionError.API_ERROR,
+  );
+
+  try {
+    const body: TextRecognitionApiRequest = await request.json();
+
+    // Validate consent, text and locale
+    const validation = validateTextRecognitionRequest(body);
+    if (!validation.valid) {
+      status = validation.status;
+      response = validation.response;
+      return NextResponse.json(response, { status });
+    }
+
+    const { text } = validation;
+    locale = validation.locale;
+    textLength = text.length;
+
+    // Enforce the caller's AI usage quota before any provider is called
+    usageMeter = await createUsageMeter(request, 'recognize-text');
+    if (usageMeter.exceededQuota) {
+      status = 429;
+      response = createQuotaExceededResponse(usageMeter.exceededQuota);
+      return NextResponse.json(response, {
+        status,
+        headers: getQuotaHeaders(usageMeter.exceededQuota),
+      });
+    }
+
+    // Ordered fallback chain from the provider registry
+    const providers = usageMeter.meter(
+      createProviderChain(resolveProviderChain(), { onProbeUsage: recordProbeUsage }),
+    );
+
+    if (providers.length === 0) {
+      console.error('No recognition providers configured');
+      status = 500;
+      response = createRecognitionErrorResponse(
+        MultiItemRecognitionError.API_ERROR,
+        translate('errors.recognitionUnavailable'),
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    const prompt = buildTextRecognitionPrompt(text, locale);
+    let lastErrorCode: MultiItemRecognitionError | undefined;
+
+    for (const provider of providers) {
+      apiType = provider.name;
+      const providerResponse = await provider.getJsonResponse([], locale, prompt);
+
+      if (!providerResponse.success || !providerResponse.rawJson) {
+        const errorCode = getPromptOnlyProviderErrorCode(
+          (providerResponse.error?.code as MultiItemRecognitionError) ||
+            MultiItemRecognitionError.API_ERROR,
+        );
+
+        if (shouldFallback(errorCode)) {
+          lastErrorCode = errorCode;
+          continue;
+        }
+
+        status = errorCode === MultiItemRecognitionError.NO_FOOD_DETECTED ? 200 : 500;
+        response = createRecognitionErrorResponse(errorCode);
+        return NextResponse.json(response, { status });
+      }
+
+      // No food in the text is a valid answer, not a parse failure
+      if (isEmptyItemList(providerResponse.rawJson)) {
+        status = 200;
+        response = createRecognitionErrorResponse(MultiItemRecognitionError.NO_FOOD_DETECTED);
+        return NextResponse.json(response, { status });
+      }
+
+      const parseResult = parseAndValidate(providerResponse.rawJson, undefined, locale);
+
+      if (!parseResult.success || !parseResult.data) {
+        const errorCode =
+          (parseResult.error?.code as MultiItemRecognitionError) ||
+          MultiItemRecognitionError.VALIDATION_ERROR;
+
+        if (shouldFallback(errorCode)) {
+          lastErrorCode = errorCode;
+          continue;
+        }
+
+        status = getProviderErrorStatus(errorCode);
+        response = createRecognitionErrorResponse(errorCode);
+        return NextResponse.json(response, { status });
+      }
+
+      // Merge duplicate mentions, then truncate if more than 6 (per FR-001).
+      // Drop any photo regions the model made up; there is no photo.
+      const items = finalizeRecognitionItems(parseResult.data.items).map((item) => ({
+        ...item,
+        boundingBox: undefined,
+      }));
+
+      response = {
+        success: true,
+        data: {
+          items,
+          locale,
+        },
+      };
+      return NextResponse.json(response, { status: 200 });
+    }
+
+    const finalError = lastErrorCode ?? MultiItemRecognitionError.API_ERROR;
+    status = finalError === MultiItemRecognitionError.TIMEOUT ? 504 : 500;
+    response = createRecognitionErrorResponse(finalError);
+    return NextResponse.json(response, { status });
+  } catch (error) {
+    console.error('Text recognition API error:', error);
+    status = 500;
+    response = createRecognitionErrorResponse(
+      MultiItemRecognitionError.API_ERROR,
+      translate('errors.recognitionFailed'),
+    );
+
+    return NextResponse.json(response, { status });
+  } finally {
+    logRecognitionEvent({
+      event: 'recognition_request',
+      requestId,
+      apiType,
+      success: response.success,
+      status,
+      errorCode: response.success ? undefined : response.error.code,
+      itemCount: response.success ? response.data.items.length : undefined,
+      mode: 'text',
+      usage: usageMeter?.totals.calls ? usageMeter.totals : undefined,
+      textLength,
+      locale,
+      processingTimeMs: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * POST /api/recognize/components: breakdowns are prompt-only requests, so a
+ * provider's "invalid image" answer must not fail them as a client error.
+ * Provider APIs are stubbed at the fetch level; the provider chain, the
+ * usage ledger, auth and the database are mocked. (ESM, which module mocks need.)
+ *
+ * Run: npm test
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, before, describe, it, mock } from 'node:test';
+import { NextRequest } from 'next/server';
+import type { RecognitionProvider } from '@/lib/recognition/provider/base';
+import { createGeminiProvider } from '@/lib/recognition/provider/gemini';
+import { createOpenAIProvider } from '@/lib/recognition/provider/openai';
+import type { UsageMeter } from '@/lib/usage/ledger';
+import type { ItemComponentsApiResponse } from '@/types/recognition';
+
+const COMPONENTS_JSON = JSON.stringify({
+  components: [
+    { name: '牛肉', grams: 80 },
+    { name: '麵條', grams: 200 },
+  ],
+  locale: 'zh-TW',
+});
+
+const usageMeter: UsageMeter = {
+  quota: null,
+  exceededQuota: null,
+  totals: { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 },
+  record: async () => undefined,
+  meter: (providers) => providers,
+};
+
+let providerChain: RecognitionProvider[] = [];
+
+mock.module(new URL('../../../../lib/usage/ledger.ts', import.meta.url).href, {
+  namedExports: {
+    createUsageMeter: async () => usageMeter,
+    recordProbeUsage: async () => undefined,
+  },
+});
+mock.module(new URL('../../../../lib/recognition/provider/registry.ts', import.meta.url).href, {
+  namedExports: {
+    createProviderChain: () => providerChain,
+    resolveProviderChain: () => providerChain.map((provider) => provider.name),
+  },
+});
+// Loaded with the recognition request helpers; signed out, no database
+mock.module(new URL('../../../../auth.ts', import.meta.url).href, {
+  namedExports: { auth: async () => null },
+});
+mock.module(new URL('../../../../lib/db/prisma/client.ts', import.meta.url).href, {
+  namedExports: { prisma: {} },
+});
+
+let POST: (request: NextRequest) => Promise<Response>;
+
+/**
+ * Answer Gemini and OpenAI calls with COMPONENTS_JSON and keep the called URLs.
+ */
+function stubProviderApis(): string[] {
+  const urls: string[] = [];
+  mock.method(globalThis, 'fetch', async (url: unknown) => {
+    urls.push(String(url));
+    const body = String(url).includes('generativelanguage')
+      ? { candidates: [{ content: { role: 'model', parts: [{ text: COMPONENTS_JSON }] } }] }
+      : { choices: [{ message: { role: 'assistant', content: COMPONENTS_JSON } }] };
+    return new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  });
+  return urls;
+}
+
+function breakdownRequest(): NextRequest {
+  return new NextRequest('http://localhost/api/recognize/components', {
+    method: 'POST',
+    body: JSON.stringify({
+      name: '牛肉麵',
+      portionSize: 1,
+      portionUnit: '碗',
+      consent: true,
+      locale: 'zh-TW',
+    }),
+  });
+}
+
+describe('POST /api/recognize/components without images', () => {
+  before(async () => {
+    ({ POST } = await import('./route'));
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('answers with Gemini, the first provider of the default chain', async () => {
+    const urls = stubProviderApis();
+    providerChain = [createGeminiProvider({ apiKey: 'test-gemini-key' })];
+
+    const response = await POST(breakdownRequest());
+    const body = (await response.json()) as ItemComponentsApiResponse;
+
+    assert.equal(response.status, 200, JSON.stringify(body));
+    assert.equal(body.success && body.data.components.length, 2);
+    assert.equal(urls.length, 1);
+    assert.match(urls[0], /generativelanguage/);
+  });
+
+  it('falls back instead of answering 400 when a provider reports an invalid image', async () => {
+    const urls = stubProviderApis();
+    const rejectsPrompt = createGeminiProvider({ apiKey: 'test-gemini-key' });
+    mock.method(rejectsPrompt, 'getJsonResponse', async () => ({
+      success: false,
+      error: { code: 'INVALID_IMAGE', message: 'Invalid image data URL' },
+    }));
+    providerChain = [rejectsPrompt, createOpenAIProvider({ apiKey: 'test-openai-key' })];
+
+    const response = await POST(breakdownRequest());
+    const body = (await response.json()) as ItemComponentsApiResponse;
+
+    assert.equal(response.status, 200, JSON.stringify(body));
+    assert.equal(body.success && body.data.components.length, 2);
+    assert.deepEqual(urls, ['https://api.openai.com/v1/chat/completions']);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Ingredient Breakdown API Route
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * POST /api/recognize/components
+ *
+ * Breaks one logged mixed dish down into its ingredients with gram estimates.
+ * Text only: no photo is sent. Uses the same provider chain as /api/recognize
+ * with a dedicated prompt; nutrition of each ingredient is looked up by the
+ * client.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { translate } from '@/lib/i18n';
+import { createProviderChain, resolveProviderChain } from '@/lib/recognition/provider/registry';
+import { createUsageMeter, recordProbeUsage, type UsageMeter } from '@/lib/usage/ledger';
+import { getQuotaHeaders } from '@/lib/usage/quota';
+import { buildComponentsPrompt } from '@/lib/recognition/components-prompt';
+import { parseItemComponents } from '@/lib/recognition/components-parser';
+import {
+  createQuotaExceededResponse,
+  createRecognitionErrorResponse,
+  getPromptOnlyProviderErrorCode,
+  getProviderErrorStatus,
+  logRecognitionEvent,
+  shouldFallback,
+  validateItemComponentsRequest,
+} from '@/lib/recognition/request';
+import {
+  type ItemComponentsApiRequest,
+  type ItemComponentsApiResponse,
+  type SupportedLocale,
+  DEFAULT_LOCALE,
+  MultiItemRecognitionError,
+} from '@/types/recognition';
+
+export async function POST(request: NextRequest): Promise<NextResponse<ItemComponentsApiResponse>> {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  let apiType = process.env.RECOGNITION_API_TYPE || 'gemini';
+  let status = 200;
+  let locale: SupportedLocale = DEFAULT_LOCALE;
+  let usageMeter: UsageMeter | undefined;
+  let response: ItemComponentsApiResponse = createRecognitionErrorResponse(
+    MultiItemRecognitionError.API_ERROR,
+  );
+
+  try {
+    const body: ItemComponentsApiRequest = await request.json();
+
+    // Validate consent, the logged dish and locale
+    const validation = validateItemComponentsRequest(body);
+    if (!validation.valid) {
+      status = validation.status;
+      response = validation.response;
+      return NextResponse.json(response, { status });
+    }
+
+    const { dish } = validation;
+    locale = validation.locale;
+
+    // Enforce the caller's AI usage quota before any provider is called
+    usageMeter = await createUsageMeter(request, 'recognize-components');
+    if (usageMeter.exceededQuota) {
+      status = 429;
+      response = createQuotaExceededResponse(usageMeter.exceededQuota);
+      return NextResponse.json(response, {
+        status,
+        headers: getQuotaHeaders(usageMeter.exceededQuota),
+      });
+    }
+
+    // Ordered fallback chain from the provider registry
+    const providers = usageMeter.meter(
+      createProviderChain(resolveProviderChain(), { onProbeUsage: recordProbeUsage }),
+    );
+
+    if (providers.length === 0) {
+      console.error('No recognition providers configured');
+      status = 500;
+      response = createRecognitionErrorResponse(
+        MultiItemRecognitionError.API_ERROR,
+        translate('errors.recognitionUnavailable'),
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    const prompt = buildComponentsPrompt(dish, locale);
+    let lastErrorCode: MultiItemRecognitionError | undefined;
+
+    for (const provider of providers) {
+      apiType = provider.name;
+      const providerResponse = await provider.getJsonResponse([], locale, prompt);
+
+      if (!providerResponse.success || !providerResponse.rawJson) {
+        const errorCode = getPromptOnlyProviderErrorCode(
+          (providerResponse.error?.code as MultiItemRecognitionError) ||
+            MultiItemRecognitionError.API_ERROR,
+        );
+
+        if (shouldFallback(errorCode)) {
+          lastErrorCode = errorCode;
+          continue;
+        }
+
+        status = getProviderErrorStatus(errorCode);
+        response = createRecognitionErrorResponse(errorCode);
+        return NextResponse.json(response, { status });
+      }
+
+      const parseResult = parseItemComponents(providerResponse.rawJson);
+
+      if (!parseResult.success || !parseResult.data) {
+        const errorCode =
+          (parseResult.error?.code as MultiItemRecognitionError) ||
+          MultiItemRecognitionError.VALIDATION_ERROR;
+
+        if (shouldFallback(errorCode)) {
+          lastErrorCode = errorCode;
+          continue;
+        }
+
+        status = 500;
+        response = createRecognitionErrorResponse(errorCode);
+        return NextResponse.json(response, { status });
+      }
+
+      response = {
+        success: true,
+        data: { components: parseResult.data.components, locale },
+      };
+      return NextResponse.json(response, { status: 200 });
+    }
+
+    const finalError = lastErrorCode ?? MultiItemRecognitionError.API_ERROR;
+    status = finalError === MultiItemRecognitionError.TIMEOUT ? 504 : 500;
+    response = createRecognitionErrorResponse(finalError);
+    return NextResponse.json(response, { status });
+  } catch (error) {
+    console.error('Ingredient breakdown API error:', error);
+    status = 500;
+    response = createRecognitionErrorResponse(
+      MultiItemRecognitionError.API_ERROR,
+      translate('errors.recognitionFailed'),
+    );
+
+    return NextResponse.json(response, { status });
+  } finally {
+    logRecognitionEvent({
+      event: 'recognition_request',
+      requestId,
+      apiType,
+      success: response.success,
+      status,
+      errorCode: response.success ? undefined : response.error.code,
+      itemCount: response.success ? response.data.components.length : undefined,
+      mode: 'components',
+      usage: usageMeter?.totals.calls ? usageMeter.totals : undefined,
+      locale,
+      processingTimeMs: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Nutrition Facts Label Recognition API Route
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * POST /api/recognize/label
+ *
+ * Reads the nutrition facts label (營養標示) on a packaged food photo and
+ * returns per-serving and per-100g values. Uses the same provider chain as
+ * /api/recognize with a dedicated prompt and schema.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { translate } from '@/lib/i18n';
+import { createProviderChain, resolveProviderChain } from '@/lib/recognition/provider/registry';
+import { createUsageMeter, recordProbeUsage, type UsageMeter } from '@/lib/usage/ledger';
+import { getQuotaHeaders } from '@/lib/usage/quota';
+import { buildNutritionLabelPrompt } from '@/lib/recognition/label-prompt';
+import { parseNutritionLabel } from '@/lib/recognition/label-parser';
+import {
+  createQuotaExceededResponse,
+  createRecognitionErrorResponse,
+  getProviderErrorStatus,
+  logRecognitionEvent,
+  normalizeRequestImages,
+  shouldFallback,
+  validateNutritionLabelRequest,
+} from '@/lib/recognition/request';
+import {
+  type NutritionLabelApiRequest,
+  type NutritionLabelApiResponse,
+  type SupportedLocale,
+  DEFAULT_LOCALE,
+  MultiItemRecognitionError,
+} from '@/types/recognition';
+
+export async function POST(request: NextRequest): Promise<NextResponse<NutritionLabelApiResponse>> {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  let apiType = process.env.RECOGNITION_API_TYPE || 'gemini';
+  let status = 200;
+  let locale: SupportedLocale = DEFAULT_LOCALE;
+  let usageMeter: UsageMeter | undefined;
+  let response: NutritionLabelApiResponse = createRecognitionErrorResponse(
+    MultiItemRecognitionError.API_ERROR,
+  );
+
+  try {
+    const body: NutritionLabelApiRequest = await request.json();
+
+    // Validate consent, image data and locale
+    const validation = validateNutritionLabelRequest(body);
+    if (!validation.valid) {
+      status = validation.status;
+      response = validation.response;
+      return NextResponse.json(response, { status });
+    }
+
+    locale = validation.locale;
+
+    // Re-encode the image (limits, orientation, metadata) before any provider sees it
+    const normalized = await normalizeRequestImages([validation.image]);
+    if (!normalized.valid) {
+      status = normalized.status;
+      response = normalized.response;
+      return NextResponse.json(response, { status });
+    }
+    const [image] = normalized.images;
+
+    // Enforce the caller's AI usage quota before any provider is called
+    usageMeter = await createUsageMeter(request, 'recognize-label');
+    if (usageMeter.exceededQuota) {
+      status = 429;
+      response = createQuotaExceededResponse(usageMeter.exceededQuota);
+      return NextResponse.json(response, {
+        status,
+        headers: getQuotaHeaders(usageMeter.exceededQuota),
+      });
+    }
+
+    // Ordered fallback chain from the provider registry
+    const providers = usageMeter.meter(
+      createProviderChain(resolveProviderChain(), { onProbeUsage: recordProbeUsage }),
+    );
+
+    if (providers.length === 0) {
+      console.error('No recognition providers configured');
+      status = 500;
+      response = createRecognitionErrorResponse(
+        MultiItemRecognitionError.API_ERROR,
+        translate('errors.recognitionUnavailable'),
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    const prompt = buildNutritionLabelPrompt(locale);
+    let lastErrorCode: MultiItemRecognitionError | undefined;
+
+    for (const provider of providers) {
+      apiType = provider.name;
+      const providerResponse = await provider.getJsonResponse([image], locale, prompt);
+
+      if (!providerResponse.success || !providerResponse.rawJson) {
+        const errorCode =
+          (providerResponse.error?.code as MultiItemRecognitionError) ||
+          MultiItemRecognitionError.API_ERROR;
+
+        if (shouldFallback(errorCode)) {
+          lastErrorCode = errorCode;
+          continue;
+        }
+
+        status = getProviderErrorStatus(errorCode);
+        response = createRecognitionErrorResponse(
+          errorCode === MultiItemRecognitionError.NO_FOOD_DETECTED
+            ? MultiItemRecognitionError.NO_LABEL_DETECTED
+            : errorCode,
+        );
+        return NextResponse.json(response, { status });
+      }
+
+      const parseResult = parseNutritionLabel(providerResponse.rawJson);
+
+      if (!parseResult.success || !parseResult.data) {
+        const errorCode =
+          (parseResult.error?.code as MultiItemRecognitionError) ||
+          MultiItemRecognitionError.VALIDATION_ERROR;
+
+        if (shouldFallback(errorCode)) {
+          lastErrorCode = errorCode;
+          continue;
+        }
+
+        // No label found is still a valid response
+        status = errorCode === MultiItemRecognitionError.NO_LABEL_DETECTED ? 200 : 500;
+        response = createRecognitionErrorResponse(errorCode);
+        return NextResponse.json(response, { status });
+      }
+
+      response = {
+        success: true,
+        data: { ...parseResult.data, locale },
+      };
+      return NextResponse.json(response, { status: 200 });
+    }
+
+    const finalError = lastErrorCode ?? MultiItemRecognitionError.API_ERROR;
+    status = finalError === MultiItemRecognitionError.TIMEOUT ? 504 : 500;
+    response = createRecognitionErrorResponse(finalError);
+    return NextResponse.json(response, { status });
+  } catch (error) {
+    console.error('Nutrition label API error:', error);
+    status = 500;
+    response = createRecognitionErrorResponse(
+      MultiItemRecognitionError.API_ERROR,
+      translate('errors.recognitionFailed'),
+    );
+
+    return NextResponse.json(response, { status });
+  } finally {
+    logRecognitionEvent({
+      event: 'recognition_request',
+      requestId,
+      apiType,
+      success: response.success,
+      status,
+      errorCode: response.success ? undefined : response.error.code,
+      invalidImageReason: response.success ? undefined : response.error.reason,
+      imageCount: 1,
+      mode: 'label',
+      usage: usageMeter?.totals.calls ? usageMeter.totals : undefined,
+      locale,
+      processingTimeMs: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Leftover Photo Recognition API Route
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * POST /api/recognize/leftover
+ *
+ * Compares an "after" photo of a meal with the items logged before eating
+ * and returns the remaining fraction of each item. Uses the same provider
+ * chain as /api/recognize with a dedicated prompt and schema.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { translate } from '@/lib/i18n';
+import { createProviderChain, resolveProviderChain } from '@/lib/recognition/provider/registry';
+import { createUsageMeter, recordProbeUsage, type UsageMeter } from '@/lib/usage/ledger';
+import { getQuotaHeaders } from '@/lib/usage/quota';
+import { buildLeftoverPrompt } from '@/lib/recognition/leftover-prompt';
+import { parseLeftovers } from '@/lib/recognition/leftover-parser';
+import {
+  createQuotaExceededResponse,
+  createRecognitionErrorResponse,
+  getProviderErrorStatus,
+  logRecognitionEvent,
+  normalizeRequestImages,
+  shouldFallback,
+  validateLeftoverRequest,
+} from '@/lib/recognition/request';
+import {
+  type LeftoverApiRequest,
+  type LeftoverApiResponse,
+  type SupportedLocale,
+  DEFAULT_LOCALE,
+  MultiItemRecognitionError,
+} from '@/types/recognition';
+
+export async function POST(request: NextRequest): Promise<NextResponse<LeftoverApiResponse>> {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  let apiType = process.env.RECOGNITION_API_TYPE || 'gemini';
+  let status = 200;
+  let locale: SupportedLocale = DEFAULT_LOCALE;
+  let usageMeter: UsageMeter | undefined;
+  let response: LeftoverApiResponse = createRecognitionErrorResponse(
+    MultiItemRecognitionError.API_ERROR,
+  );
+
+  try {
+    const body: LeftoverApiRequest = await request.json();
+
+    // Validate consent, image data, logged items and locale
+    const validation = validateLeftoverRequest(body);
+    if (!validation.valid) {
+      status = validation.status;
+      response = validation.response;
+      return NextResponse.json(response, { status });
+    }
+
+    const { items } = validation;
+    locale = validation.locale;
+
+    // Re-encode the image (limits, orientation, metadata) before any provider sees it
+    const normalized = await normalizeRequestImages([validation.image]);
+    if (!normalized.valid) {
+      status = normalized.status;
+      response = normalized.response;
+      return NextResponse.json(response, { status });
+    }
+    const [image] = normalized.images;
+
+    // Enforce the caller's AI usage quota before any provider is called
+    usageMeter = await createUsageMeter(request, 'recognize-leftover');
+    if (usageMeter.exceededQuota) {
+      status = 429;
+      response = createQuotaExceededResponse(usageMeter.exceededQuota);
+      return NextResponse.json(response, {
+        status,
+        headers: getQuotaHeaders(usageMeter.exceededQuota),
+      });
+    }
+
+    // Ordered fallback chain from the provider registry
+    const providers = usageMeter.meter(
+      createProviderChain(resolveProviderChain(), { onProbeUsage: recordProbeUsage }),
+    );
+
+    if (providers.length === 0) {
+      console.error('No recognition providers configured');
+      status = 500;
+      response = createRecognitionErrorResponse(
+        MultiItemRecognitionError.API_ERROR,
+        translate('errors.recognitionUnavailable'),
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    const prompt = buildLeftoverPrompt(items, locale);
+    let lastErrorCode: MultiItemRecognitionError | undefined;
+
+    for (const provider of providers) {
+      apiType = provider.name;
+      const providerResponse = await provider.getJsonResponse([image], locale, prompt);
+
+      if (!providerResponse.success || !providerResponse.rawJson) {
+        const errorCode =
+          (providerResponse.error?.code as MultiItemRecognitionError) ||
+          MultiItemRecognitionError.API_ERROR;
+
+        if (shouldFallback(errorCode)) {
+          lastErrorCode = errorCode;
+          continue;
+        }
+
+        status = getProviderErrorStatus(errorCode);
+        response = createRecognitionErrorResponse(errorCode);
+        return NextResponse.json(response, { status });
+      }
+
+      const parseResult = parseLeftovers(providerResponse.rawJson, items.length);
+
+      if (!parseResult.success || !parseResult.data) {
+        const errorCode =
+          (parseResult.error?.code as MultiItemRecognitionError) ||
+          MultiItemRecognitionError.VALIDATION_ERROR;
+
+        if (shouldFallback(errorCode)) {
+          lastErrorCode = errorCode;
+          continue;
+        }
+
+        status = 500;
+        response = createRecognitionErrorResponse(errorCode);
+        return NextResponse.json(response, { status });
+      }
+
+      response = {
+        success: true,
+        data: { items: parseResult.data.items, locale },
+      };
+      return NextResponse.json(response, { status: 200 });
+    }
+
+    const finalError = lastErrorCode ?? MultiItemRecognitionError.API_ERROR;
+    status = finalError === MultiItemRecognitionError.TIMEOUT ? 504 : 500;
+    response = createRecognitionErrorResponse(finalError);
+    return NextResponse.json(response, { status });
+  } catch (error) {
+    console.error('Leftover API error:', error);
+    status = 500;
+    response = createRecognitionErrorResponse(
+      MultiItemRecognitionError.API_ERROR,
+      translate('errors.recognitionFailed'),
+    );
+
+    return NextResponse.json(response, { status });
+  } finally {
+    logRecognitionEvent({
+      event: 'recognition_request',
+      requestId,
+      apiType,
+      success: response.success,
+      status,
+      errorCode: response.success ? undefined : response.error.code,
+      invalidImageReason: response.success ? undefined : response.error.reason,
+      itemCount: response.success ? response.data.items.length : undefined,
+      imageCount: 1,
+      mode: 'leftover',
+      usage: usageMeter?.totals.calls ? usageMeter.totals : undefined,
+      locale,
+      processingTimeMs: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
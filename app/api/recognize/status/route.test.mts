@@ -0,0 +1,65 @@
+/**
+ * GET /api/recognize/status: only signed-in users and operators with the
+ * admin token may read the provider status. Auth is mocked. (ESM, which
+ * module mocks need.)
+ *
+ * Run: npm test
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, before, describe, it, mock } from 'node:test';
+import { NextRequest } from 'next/server';
+
+let session: { user: { id: string } } | null = null;
+
+mock.module(new URL('../../../../auth.ts', import.meta.url).href, {
+  namedExports: { auth: async () => session },
+});
+
+let GET: (request: NextRequest) => Promise<Response>;
+
+function statusRequest(headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest('http://localhost/api/recognize/status', { headers });
+}
+
+describe('GET /api/recognize/status', () => {
+  before(async () => {
+    ({ GET } = await import('./route'));
+  });
+
+  afterEach(() => {
+    session = null;
+    delete process.env.ADMIN_API_TOKEN;
+  });
+
+  it('rejects signed-out callers without the admin token', async () => {
+    process.env.ADMIN_API_TOKEN = 'secret';
+
+    const response = await GET(statusRequest({ authorization: 'Bearer wrong' }));
+
+    assert.equal(response.status, 401);
+    const body = await response.json();
+    assert.equal(body.error.code, 'UNAUTHORIZED');
+    assert.equal(body.providers, undefined);
+  });
+
+  it('reports the provider status to signed-in users', async () => {
+    session = { user: { id: 'user-1' } };
+
+    const response = await GET(statusRequest());
+
+    assert.notEqual(response.status, 401);
+    const body = await response.json();
+    assert.ok(Array.isArray(body.providers));
+    assert.ok(Array.isArray(body.chain));
+  });
+
+  it('reports the provider status with the admin token', async () => {
+    process.env.ADMIN_API_TOKEN = 'secret';
+
+    const response = await GET(statusRequest({ authorization: 'Bearer secret' }));
+
+    assert.notEqual(response.status, 401);
+    assert.ok(Array.isArray((await response.json()).providers));
+  });
+});
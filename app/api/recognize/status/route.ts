@@ -0,0 +1,75 @@
+/**
+ * Recognition Provider Status API Route
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * GET /api/recognize/status
+ *
+ * Reports the circuit breaker state, recent failure rate and latency of each
+ * recognition provider on this server instance, and how often provider output
+ * failed to parse or needed repair. Responds 503 when no
+ * configured provider in the chain is available, so it can back an uptime check.
+ *
+ * Requires a signed-in session or `Authorization: Bearer <ADMIN_API_TOKEN>`
+ * (for uptime checks). Only the tracked state is reported; no provider is called.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { hasAdminToken } from '@/lib/auth/admin-token';
+import {
+  getRegisteredProviderNames,
+  isProviderConfigured,
+  resolveEnsembleProviderChain,
+  resolveProviderChain,
+} from '@/lib/recognition/provider/registry';
+import { getProviderHealth, type ProviderHealthStatus } from '@/lib/recognition/provider/health';
+import { getParseMetrics, type ParseMetrics } from '@/lib/recognition/parser';
+
+interface ProviderStatusResponse {
+  available: boolean; // At least one configured provider in the chain is not open
+  chain: string[];
+  ensemble: string[];
+  providers: Array<ProviderHealthStatus & { configured: boolean }>;
+  parsing: ParseMetrics;
+  timestamp: string;
+}
+
+interface ProviderStatusErrorResponse {
+  error: { code: 'UNAUTHORIZED'; message: string };
+}
+
+export async function GET(
+  request: NextRequest,
+): Promise<NextResponse<ProviderStatusResponse | ProviderStatusErrorResponse>> {
+  if (!hasAdminToken(request)) {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Sign-in or admin token required' } },
+        { status: 401 },
+      );
+    }
+  }
+
+  const chain = resolveProviderChain();
+  const providers = getProviderHealth(getRegisteredProviderNames()).map((health) => ({
+    ...health,
+    configured: isProviderConfigured(health.provider),
+  }));
+  const available = providers.some(
+    (provider) =>
+      provider.configured && chain.includes(provider.provider) && provider.state !== 'open',
+  );
+
+  return NextResponse.json(
+    {
+      available,
+      chain,
+      ensemble: resolveEnsembleProviderChain(),
+      providers,
+      parsing: getParseMetrics(),
+      timestamp: new Date().toISOString(),
+    },
+    { status: available ? 200 : 503 },
+  );
+}
@@ -0,0 +1,77 @@
+/**
+ * Streaming Multi-item Food Recognition API Route
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * POST /api/recognize/stream
+ *
+ * Same request body as /api/recognize. Responds with Server-Sent Events:
+ * `item` events as soon as the provider's streamed JSON yields a complete item,
+ * then one `result` event with the final validated payload (see RecognitionStreamEvent).
+ * In ensemble mode items are sent once all providers have finished and been merged.
+ * Request validation errors are returned as plain JSON with an error status.
+ * Runs the same pipeline as /api/recognize (see createRecognitionRun).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createRecognitionRun } from '@/lib/recognition/request';
+import type { RecognitionStreamEvent } from '@/types/recognition';
+
+const encoder = new TextEncoder();
+
+function encodeEvent({ event, data }: RecognitionStreamEvent): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export async function POST(request: NextRequest): Promise<Response> {
+  const run = createRecognitionRun('recognize-stream');
+
+  try {
+    if (!(await run.prepare(request))) {
+      run.log();
+      return NextResponse.json(run.response, { status: run.status, headers: run.headers });
+    }
+  } catch (error) {
+    console.error('Recognition stream API error:', error);
+    run.fail();
+    run.log();
+    return NextResponse.json(run.response, { status: run.status });
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: RecognitionStreamEvent) => {
+        try {
+          controller.enqueue(encodeEvent(event));
+        } catch {
+          // Client disconnected; keep going so the result can still be cached
+        }
+      };
+
+      try {
+        await run.recognize({
+          onItem: (index, item) => send({ event: 'item', data: { index, item } }),
+          onReset: (provider) => send({ event: 'reset', data: { provider } }),
+        });
+      } catch (error) {
+        console.error('Recognition stream API error:', error);
+        run.fail();
+      } finally {
+        send({ event: 'result', data: run.response });
+        run.log();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -3,6 +3,7 @@ import { auth } from '@/auth';
 import { prisma } from '@/lib/db/prisma/client';
 import { deletePhoto } from '@/lib/db/s3/client';
 import { calculateNutritionTotals } from '@/lib/utils/nutrition-calculator';
+import { isAllergen } from '@/types/recognition';
 import type { MealItem } from '@/types/sync';
 
 interface RouteParams {
@@ -30,17 +31,18 @@ export async function DELETE(request: Request, { params }: RouteParams) {
     return NextResponse.json({ error: 'not_found', message: 'Meal not found' }, { status: 404 });
   }
 
-  const photoId = meal.photoId ?? undefined;
+  // The "before" photo and, if taken, the "after" photo of leftovers
+  const photoIds = [meal.photoId, meal.leftoverPhotoId].filter((id): id is string => Boolean(id));
 
   try {
-    if (photoId) {
+    for (const photoId of photoIds) {
       await deletePhoto(photoId);
     }
 
     await prisma.$transaction([
       prisma.photo.deleteMany({
         where: {
-          id: photoId,
+          id: { in: photoIds },
           userId: { in: userIds },
         },
       }),
@@ -50,7 +52,7 @@ export async function DELETE(request: Request, { params }: RouteParams) {
     return NextResponse.json({
       deleted: true,
       mealId: meal.id,
-      photoDeleted: Boolean(photoId),
+      photoDeleted: photoIds.length > 0,
     });
   } catch (error) {
     console.error('[sync] Failed to delete meal', error);
@@ -127,6 +129,8 @@ export async function PUT(request: Request, { params }: RouteParams) {
         timestamp: data.timestamp ? new Date(data.timestamp) : meal.timestamp,
         mealType: data.mealType ?? meal.mealType ?? null,
         photoId: data.photoId ?? null,
+        leftoverPhotoId: data.leftoverPhotoId ?? null,
+        promptVersion: data.promptVersion ?? meal.promptVersion ?? null,
         totalCalories: totals.totalCalories,
         totalProtein: totals.totalProtein,
         totalCarbs: totals.totalCarbs,
@@ -162,6 +166,17 @@ export async function PUT(request: Request, { params }: RouteParams) {
             sugarLevel: item.sugarLevel ?? null,
             iceLevel: item.iceLevel ?? null,
             baseSugar: item.baseSugar ?? null,
+            // Region of the recognition photo (JSON, normalized 0-1)
+            boundingBox: item.boundingBox ?? undefined,
+            // Shared dish and the share the user ate
+            shared: item.shared ?? null,
+            shareRatio: item.shareRatio ?? null,
+            // Share left uneaten, from the "after" photo
+            leftoverFraction: item.leftoverFraction ?? null,
+            // Allergens tagged by recognition
+            allergens: (item.allergens ?? []).filter(isAllergen),
+            // Ingredients of a broken-down dish (JSON)
+            components: item.components?.length ? item.components : undefined,
           })),
         },
       },
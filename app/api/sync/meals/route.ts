@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { prisma } from '@/lib/db/prisma/client';
 import { calculateNutritionTotals } from '@/lib/utils/nutrition-calculator';
+import { isAllergen } from '@/types/recognition';
 import type { MealItem } from '@/types/sync';
 
 export async function GET(request: NextRequest) {
@@ -66,6 +67,8 @@ export async function POST(request: NextRequest) {
         timestamp: data.timestamp ? new Date(data.timestamp) : new Date(),
         mealType: data.mealType ?? null,
         photoId: data.photoId ?? null,
+        leftoverPhotoId: data.leftoverPhotoId ?? null,
+        promptVersion: data.promptVersion ?? null,
         totalCalories: totals.totalCalories,
         totalProtein: totals.totalProtein,
         totalCarbs: totals.totalCarbs,
@@ -100,6 +103,17 @@ export async function POST(request: NextRequest) {
             sugarLevel: item.sugarLevel ?? null,
             iceLevel: item.iceLevel ?? null,
             baseSugar: item.baseSugar ?? null,
+            // Region of the recognition photo (JSON, normalized 0-1)
+            boundingBox: item.boundingBox ?? undefined,
+            // Shared dish and the share the user ate
+            shared: item.shared ?? null,
+            shareRatio: item.shareRatio ?? null,
+            // Share left uneaten, from the "after" photo
+            leftoverFraction: item.leftoverFraction ?? null,
+            // Allergens tagged by recognition
+            allergens: (item.allergens ?? []).filter(isAllergen),
+            // Ingredients of a broken-down dish (JSON)
+            components: item.components?.length ? item.components : undefined,
           })),
         },
       },
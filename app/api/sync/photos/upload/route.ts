@@ -15,6 +15,9 @@ export async function POST(request: NextRequest) {
   const photo = formData.get('photo');
   const thumbnail = formData.get('thumbnail');
   const mealId = formData.get('mealId');
+  // "after" photos record leftovers and link to the meal's "before" photo
+  const kind = formData.get('kind') === 'after' ? 'after' : 'before';
+  const beforePhotoId = formData.get('beforePhotoId');
 
   if (!(photo instanceof File) || !(thumbnail instanceof File)) {
     return NextResponse.json(
@@ -30,6 +33,21 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  if (kind === 'after' && typeof beforePhotoId === 'string') {
+    // Build list of user IDs that own photos (primary + provider ID if different)
+    const userIds: string[] = [session.user.id];
+    if (session.user.providerId && session.user.providerId !== session.user.id) {
+      userIds.push(session.user.providerId);
+    }
+    const beforePhoto = await prisma.photo.findUnique({ where: { id: beforePhotoId } });
+    if (!beforePhoto || !userIds.includes(beforePhoto.userId)) {
+      return NextResponse.json(
+        { error: 'validation_error', message: 'Before photo not found' },
+        { status: 400 },
+      );
+    }
+  }
+
   const photoId = crypto.randomUUID();
   const [photoBytes, thumbnailBytes] = await Promise.all([
     photo.arrayBuffer(),
@@ -52,6 +70,8 @@ export async function POST(request: NextRequest) {
         mainPhotoSize: photo.size,
         thumbnailSize: thumbnail.size,
         mimeType: photo.type || 'image/jpeg',
+        kind,
+        beforePhotoId: kind === 'after' && typeof beforePhotoId === 'string' ? beforePhotoId : null,
       },
     });
 
@@ -65,6 +85,8 @@ export async function POST(request: NextRequest) {
         mimeType: record.mimeType,
         width: record.width ?? undefined,
         height: record.height ?? undefined,
+        kind: record.kind,
+        beforePhotoId: record.beforePhotoId ?? undefined,
         uploadedAt: record.uploadedAt.toISOString(),
       },
       { status: 201 },
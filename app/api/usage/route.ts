@@ -0,0 +1,27 @@
+/**
+ * AI Usage API Route
+ *
+ * GET /api/usage - The caller's daily and monthly AI call quota
+ *
+ * Signed-out callers get the quota of their IP address (see lib/usage/ledger).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { translate } from '@/lib/i18n';
+import { getRequestUsageQuota } from '@/lib/usage/ledger';
+import type { UsageApiResponse } from '@/types/usage';
+
+export async function GET(request: NextRequest): Promise<NextResponse<UsageApiResponse>> {
+  try {
+    return NextResponse.json({ success: true, data: await getRequestUsageQuota(request) });
+  } catch (error) {
+    console.error('AI usage quota error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'API_ERROR', message: translate('errors.usageUnavailable') },
+      },
+      { status: 500 },
+    );
+  }
+}
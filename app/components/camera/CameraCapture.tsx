@@ -5,23 +5,38 @@
  *
  * Allows users to take photos or select from gallery for meal logging.
  * Compresses images using Canvas API before processing.
+ * Optionally detects product barcodes in captured photos.
  */
 
 import { useRef, useState, useCallback, useEffect } from 'react';
 import Image from 'next/image';
 import { compressImage, formatFileSize } from '@/lib/utils/image-compression';
+import { detectBarcode } from '@/lib/products/detection';
 import { useI18n } from '@/lib/i18n';
 
 interface CameraCaptureProps {
   onImageCaptured: (blob: Blob, width: number, height: number) => void;
   onError?: (error: string) => void;
   disabled?: boolean;
+  /**
+   * Capture several shots in a row: the gallery accepts multiple files and
+   * the component stays ready for the next shot instead of showing a preview.
+   */
+  multiple?: boolean;
+  /**
+   * Scan captured photos for a product barcode (EAN-13/EAN-8/UPC-A).
+   * Return true when the barcode was handled; otherwise the photo is passed
+   * to onImageCaptured as usual.
+   */
+  onBarcodeDetected?: (barcode: string) => Promise<boolean> | boolean;
 }
 
 export default function CameraCapture({
   onImageCaptured,
   onError,
   disabled = false,
+  multiple = false,
+  onBarcodeDetected,
 }: CameraCaptureProps) {
   const { t } = useI18n();
   const cameraInputRef = useRef<HTMLInputElement>(null);
@@ -54,6 +69,14 @@ export default function CameraCapture({
       setIsProcessing(true);
 
       try {
+        // Scan the full-resolution photo; barcodes lose detail after compression
+        if (onBarcodeDetected) {
+          const barcode = await detectBarcode(file);
+          if (barcode && (await onBarcodeDetected(barcode))) {
+            return;
+          }
+        }
+
         // Compress the image
         const result = await compressImage(file);
 
@@ -61,9 +84,11 @@ export default function CameraCapture({
           `Image compressed: ${formatFileSize(result.originalSize)} → ${formatFileSize(result.compressedSize)}`,
         );
 
-        // Create preview URL
-        const previewUrl = URL.createObjectURL(result.blob);
-        setPreview(previewUrl);
+        // Create preview URL (the parent shows previews in multiple mode)
+        if (!multiple) {
+          const previewUrl = URL.createObjectURL(result.blob);
+          setPreview(previewUrl);
+        }
 
         // Notify parent
         onImageCaptured(result.blob, result.width, result.height);
@@ -74,20 +99,23 @@ export default function CameraCapture({
         setIsProcessing(false);
       }
     },
-    [onImageCaptured, onError, t],
+    [onImageCaptured, onError, onBarcodeDetected, t, multiple],
   );
 
   const handleFileSelect = useCallback(
     async (event: React.ChangeEvent<HTMLInputElement>) => {
-      const file = event.target.files?.[0];
-      if (!file) return;
+      const files = Array.from(event.target.files ?? []);
+      if (files.length === 0) return;
 
-      await processFile(file);
+      // Process sequentially so captures are reported in selection order
+      for (const file of multiple ? files : files.slice(0, 1)) {
+        await processFile(file);
+      }
 
       // Reset input to allow selecting the same file again
       event.target.value = '';
     },
-    [processFile],
+    [processFile, multiple],
   );
 
   const handleTakePhoto = useCallback(() => {
@@ -121,6 +149,7 @@ export default function CameraCapture({
         ref={galleryInputRef}
         type="file"
         accept="image/*"
+        multiple={multiple}
         onChange={handleFileSelect}
         className="hidden"
         disabled={disabled || isProcessing}
@@ -234,6 +263,9 @@ export default function CameraCapture({
               <p className="text-center text-xs text-slate-400 mt-4">
                 {t('camera.supportedFormats')}
               </p>
+              {onBarcodeDetected && (
+                <p className="text-center text-xs text-slate-400 mt-1">{t('camera.barcodeHint')}</p>
+              )}
             </div>
           )}
         </div>
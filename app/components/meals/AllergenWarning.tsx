@@ -0,0 +1,49 @@
+'use client';
+
+/**
+ * AllergenWarning Component
+ *
+ * Warns when items of a meal were tagged with allergens from the user's
+ * allergen profile (see settings). Tags come from recognition and are a hint,
+ * so the warning asks the user to check rather than stating a fact.
+ */
+
+import { useI18n } from '@/lib/i18n';
+import { findAllergenMatches } from '@/lib/utils/allergens';
+import type { Allergen } from '@/types/recognition';
+import type { MealItem } from '@/types/sync';
+
+interface AllergenWarningProps {
+  items: MealItem[];
+  profile: Allergen[];
+}
+
+export function AllergenWarning({ items, profile }: AllergenWarningProps) {
+  const { t } = useI18n();
+  const matches = findAllergenMatches(items, profile);
+
+  if (matches.length === 0) {
+    return null;
+  }
+
+  return (
+    <div role="alert" className="mb-4 rounded-lg border border-red-300 bg-red-50 p-3">
+      <p className="text-sm font-semibold text-red-800">{t('allergens.warningTitle')}</p>
+      <ul className="mt-1 space-y-0.5">
+        {matches.map((match) => (
+          <li key={match.index} className="text-sm text-red-700">
+            {t('allergens.warningItem', {
+              name: match.foodName,
+              allergens: match.allergens
+                .map((allergen) => t(`allergens.names.${allergen}`))
+                .join(t('allergens.separator')),
+            })}
+          </li>
+        ))}
+      </ul>
+      <p className="mt-1 text-xs text-red-600">{t('allergens.warningHint')}</p>
+    </div>
+  );
+}
+
+export default AllergenWarning;
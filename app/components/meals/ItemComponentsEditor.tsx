@@ -0,0 +1,280 @@
+'use client';
+
+/**
+ * ItemComponentsEditor Component
+ *
+ * Optional "break down" step for a mixed dish. The provider splits the dish
+ * into ingredients with gram estimates; each ingredient is looked up on its
+ * own and the item's nutrition becomes their sum. Ingredients stay editable:
+ * renaming one looks it up again, changing its grams rescales it.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useI18n } from '@/lib/i18n';
+import { getCloudRecognitionConsent } from '@/lib/db/indexeddb';
+import { useNutritionLookup } from '@/lib/nutrition/lookup';
+import { breakDownItem } from '@/lib/services/recognition';
+import {
+  emptyComponentNutrition,
+  scaleItemComponents,
+  sumComponentNutrition,
+  toComponentNutrition,
+  toComponentsDishInput,
+  toMealItemComponents,
+} from '@/lib/services/item-components';
+import type { MealItem, MealItemComponent } from '@/types/sync';
+
+interface ItemComponentsEditorProps {
+  item: MealItem;
+  onChange: (patch: Partial<MealItem>) => void;
+  disabled: boolean;
+  enableNutritionLookup: boolean;
+}
+
+export function ItemComponentsEditor({
+  item,
+  onChange,
+  disabled,
+  enableNutritionLookup,
+}: ItemComponentsEditorProps) {
+  const { t, locale } = useI18n();
+  const [isBreakingDown, setIsBreakingDown] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const components = useMemo(() => item.components ?? [], [item.components]);
+
+  // Every change to the components replaces the item's nutrition with their sum
+  const updateComponents = useCallback(
+    (next: MealItemComponent[]) => {
+      onChange({ components: next, ...sumComponentNutrition(next) });
+    },
+    [onChange],
+  );
+
+  const updateComponent = useCallback(
+    (index: number, patch: Partial<MealItemComponent>) => {
+      updateComponents(
+        components.map((component, idx) =>
+          idx === index ? { ...component, ...patch } : component,
+        ),
+      );
+    },
+    [components, updateComponents],
+  );
+
+  const handleBreakDown = useCallback(async () => {
+    setError(null);
+    setIsBreakingDown(true);
+    try {
+      const consent = await getCloudRecognitionConsent();
+      if (!consent?.accepted) {
+        setError(t('errors.consentRequired'));
+        return;
+      }
+      const result = await breakDownItem(toComponentsDishInput(item), true, locale);
+      if (result.success && result.data) {
+        updateComponents(toMealItemComponents(result.data.components));
+      } else {
+        setError(result.error?.message ?? t('mealForm.items.components.failed'));
+      }
+    } catch (err) {
+      console.error('Ingredient breakdown failed:', err);
+      setError(t('mealForm.items.components.failed'));
+    } finally {
+      setIsBreakingDown(false);
+    }
+  }, [item, locale, t, updateComponents]);
+
+  if (components.length === 0) {
+    if (!enableNutritionLookup) return null;
+    return (
+      <div className="mt-2" onClick={(e) => e.stopPropagation()}>
+        <button
+          type="button"
+          onClick={() => void handleBreakDown()}
+          disabled={disabled || isBreakingDown || item.foodName.trim().length === 0}
+          className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+        >
+          {isBreakingDown
+            ? t('mealForm.items.components.breakingDown')
+            : t('mealForm.items.components.breakDown')}
+        </button>
+        {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+      </div>
+    );
+  }
+
+  const totalGrams = components.reduce((sum, component) => sum + component.grams, 0);
+
+  return (
+    <div className="mt-3 rounded-lg bg-sky-50 p-2" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs font-medium text-sky-900">
+          {t('mealForm.items.components.title', { grams: Math.round(totalGrams) })}
+        </p>
+        <button
+          type="button"
+          onClick={() =>
+            // Back to one lookup for the whole dish
+            onChange({ components: undefined, ...emptyComponentNutrition() })
+          }
+          disabled={disabled}
+          className="text-xs text-sky-700 hover:text-sky-900 disabled:opacity-50"
+        >
+          {t('mealForm.items.components.undo')}
+        </button>
+      </div>
+
+      <ul className="mt-2 space-y-1">
+        {components.map((component, index) => (
+          <ItemComponentRow
+            key={index}
+            component={component}
+            index={index}
+            onUpdate={updateComponent}
+            onRemove={(removeIndex) =>
+              updateComponents(components.filter((_, idx) => idx !== removeIndex))
+            }
+            canRemove={components.length > 1}
+            disabled={disabled}
+            enableNutritionLookup={enableNutritionLookup}
+          />
+        ))}
+      </ul>
+
+      <div className="mt-2 flex items-center justify-between gap-2">
+        <button
+          type="button"
+          onClick={() => updateComponents([...components, { name: '', grams: 50 }])}
+          disabled={disabled}
+          className="text-xs text-sky-700 hover:text-sky-900 disabled:opacity-50"
+        >
+          + {t('mealForm.items.components.add')}
+        </button>
+        <p className="text-xs text-sky-800">{t('mealForm.items.components.hint')}</p>
+      </div>
+    </div>
+  );
+}
+
+interface ItemComponentRowProps {
+  component: MealItemComponent;
+  index: number;
+  onUpdate: (index: number, patch: Partial<MealItemComponent>) => void;
+  onRemove: (index: number) => void;
+  canRemove: boolean;
+  disabled: boolean;
+  enableNutritionLookup: boolean;
+}
+
+/**
+ * One ingredient, looked up for its grams.
+ */
+function ItemComponentRow({
+  component,
+  index,
+  onUpdate,
+  onRemove,
+  canRemove,
+  disabled,
+  enableNutritionLookup,
+}: ItemComponentRowProps) {
+  const { t } = useI18n();
+  const [gramsInput, setGramsInput] = useState(() => `${component.grams}`);
+  const [syncedGrams, setSyncedGrams] = useState(component.grams);
+
+  // Follow grams changed from outside the input (portion changes, removed rows)
+  if (component.grams !== syncedGrams) {
+    setSyncedGrams(component.grams);
+    setGramsInput(`${component.grams}`);
+  }
+
+  const { data: nutritionResult, isLoading } = useNutritionLookup(
+    component.name,
+    component.grams,
+    'g',
+    undefined,
+    undefined,
+    undefined,
+    enableNutritionLookup,
+  );
+
+  // Apply the lookup when it completes
+  useEffect(() => {
+    if (!nutritionResult?.success || !nutritionResult.data) return;
+    const nutrition = toComponentNutrition(nutritionResult.data);
+    if (
+      nutrition.calories !== component.calories ||
+      nutrition.protein !== component.protein ||
+      nutrition.carbs !== component.carbs ||
+      nutrition.fat !== component.fat
+    ) {
+      onUpdate(index, nutrition);
+    }
+  }, [
+    nutritionResult,
+    index,
+    onUpdate,
+    component.calories,
+    component.protein,
+    component.carbs,
+    component.fat,
+  ]);
+
+  const commitGrams = () => {
+    const grams = Math.round(Number.parseFloat(gramsInput));
+    if (!Number.isFinite(grams) || grams <= 0) {
+      setGramsInput(`${component.grams}`);
+      return;
+    }
+    setGramsInput(`${grams}`);
+    if (grams === component.grams) return;
+    setSyncedGrams(grams);
+    // Rescale right away; a lookup for the new grams replaces it when it completes
+    const [scaled] = scaleItemComponents([component], grams / component.grams);
+    onUpdate(index, { ...scaled, grams });
+  };
+
+  return (
+    <li className="flex items-center gap-2">
+      <input
+        type="text"
+        value={component.name}
+        onChange={(e) => onUpdate(index, { name: e.target.value, ...emptyComponentNutrition() })}
+        placeholder={t('mealForm.items.components.namePlaceholder')}
+        disabled={disabled}
+        className="min-w-0 flex-1 rounded border border-gray-300 bg-white px-2 py-1 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50"
+      />
+      <input
+        type="text"
+        inputMode="numeric"
+        value={gramsInput}
+        onChange={(e) => setGramsInput(e.target.value)}
+        onBlur={commitGrams}
+        disabled={disabled}
+        className="w-16 rounded border border-gray-300 bg-white px-2 py-1 text-right text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50"
+      />
+      <span className="text-xs text-gray-500">g</span>
+      <span className="w-16 text-right text-xs text-gray-700">
+        {enableNutritionLookup && isLoading ? (
+          <span className="inline-block h-4 w-10 animate-pulse rounded bg-gray-200" />
+        ) : component.calories != null ? (
+          `${component.calories} kcal`
+        ) : (
+          '--'
+        )}
+      </span>
+      {canRemove && (
+        <button
+          type="button"
+          onClick={() => onRemove(index)}
+          disabled={disabled}
+          className="text-xs text-red-500 hover:text-red-700 disabled:opacity-50"
+        >
+          {t('mealForm.items.components.remove')}
+        </button>
+      )}
+    </li>
+  );
+}
+
+export default ItemComponentsEditor;
@@ -0,0 +1,144 @@
+'use client';
+
+/**
+ * LeftoverPhotoPanel Component
+ *
+ * Optional "after" photo step for a saved meal. The photo is compared with the
+ * logged items to estimate how much of each is left; once confirmed, each
+ * item's portion and nutrition are scaled to what was actually eaten.
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+import CameraCapture from '@/app/components/camera/CameraCapture';
+import { useI18n } from '@/lib/i18n';
+import { getCloudRecognitionConsent } from '@/lib/db/indexeddb';
+import { recognizeLeftovers } from '@/lib/services/recognition';
+import { applyLeftoverEstimates, toLeftoverItemInputs } from '@/lib/services/leftover';
+import type { LeftoverEstimate } from '@/types/recognition';
+import type { MealItem } from '@/types/sync';
+
+interface LeftoverPhotoPanelProps {
+  items: MealItem[];
+  onApply: (items: MealItem[], afterPhoto: Blob) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function LeftoverPhotoPanel({ items, onApply, onCancel }: LeftoverPhotoPanelProps) {
+  const { t, locale } = useI18n();
+  const [photoBlob, setPhotoBlob] = useState<Blob | null>(null);
+  const [estimates, setEstimates] = useState<LeftoverEstimate[] | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Estimate as soon as the photo is taken
+  const handleCapture = useCallback(
+    async (blob: Blob) => {
+      setPhotoBlob(blob);
+      setEstimates(null);
+      setError(null);
+      setIsEstimating(true);
+      try {
+        const consent = await getCloudRecognitionConsent();
+        if (!consent?.accepted) {
+          setError(t('errors.consentRequired'));
+          return;
+        }
+        const result = await recognizeLeftovers(blob, toLeftoverItemInputs(items), true, locale);
+        if (result.success && result.data) {
+          setEstimates(result.data.items);
+        } else {
+          setError(result.error?.message ?? t('errors.recognitionFailed'));
+        }
+      } catch (err) {
+        console.error('Leftover estimate failed:', err);
+        setError(t('errors.recognitionFailed'));
+      } finally {
+        setIsEstimating(false);
+      }
+    },
+    [items, locale, t],
+  );
+
+  const eatenItems = useMemo(
+    () => (estimates ? applyLeftoverEstimates(items, estimates) : null),
+    [items, estimates],
+  );
+
+  const handleApply = useCallback(async () => {
+    if (!photoBlob || !eatenItems) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      await onApply(eatenItems, photoBlob);
+    } catch {
+      setError(t('mealDetail.leftover.applyFailed'));
+    } finally {
+      setIsApplying(false);
+    }
+  }, [photoBlob, eatenItems, onApply, t]);
+
+  return (
+    <div className="mb-4 rounded-lg border border-emerald-200 bg-emerald-50 p-3">
+      <p className="text-sm font-medium text-emerald-900">{t('mealDetail.leftover.title')}</p>
+      <p className="mt-1 text-xs text-emerald-800">{t('mealDetail.leftover.hint')}</p>
+
+      <div className="mt-3">
+        <CameraCapture
+          onImageCaptured={(blob) => void handleCapture(blob)}
+          onError={setError}
+          disabled={isEstimating || isApplying}
+        />
+      </div>
+
+      {isEstimating && (
+        <p className="mt-2 text-xs text-emerald-800">{t('mealDetail.leftover.estimating')}</p>
+      )}
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+
+      {eatenItems && (
+        <ul className="mt-3 space-y-1">
+          {eatenItems.map((item, index) => (
+            <li
+              key={items[index].id || index}
+              className="flex items-center justify-between gap-2 text-sm"
+            >
+              <span className="text-gray-900">{item.foodName}</span>
+              <span className="text-xs text-emerald-800">
+                {item.leftoverFraction != null
+                  ? t('mealDetail.leftover.remaining', {
+                      percent: Math.round(item.leftoverFraction * 100),
+                    })
+                  : t('mealDetail.leftover.unchanged')}
+                {items[index].calories != null &&
+                  item.leftoverFraction != null &&
+                  ` · ${items[index].calories} → ${item.calories} kcal`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-3 flex gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isApplying}
+          className="flex-1 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          {t('mealForm.cancel')}
+        </button>
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={!eatenItems || isEstimating || isApplying}
+          className="flex-1 rounded-lg bg-emerald-600 px-4 py-2 text-sm font-medium text-white hover:bg-emerald-700 disabled:opacity-50"
+        >
+          {isApplying ? t('mealForm.saving') : t('mealDetail.leftover.apply')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default LeftoverPhotoPanel;
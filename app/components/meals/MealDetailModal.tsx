@@ -8,13 +8,22 @@
  * Reuses MealItemList for editing functionality.
  */
 
-import { useState, useCallback, useEffect, memo } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef, memo } from 'react';
 import Image from 'next/image';
 import { useI18n } from '@/lib/i18n';
-import { useModal } from '@/lib/hooks';
+import { useAllergenProfile, useModal } from '@/lib/hooks';
+import { PORTION_UNIT_OPTIONS } from '@/lib/nutrition/portion-conversion';
+import { getItemShareRatio } from '@/lib/utils/nutrition-calculator';
+import { findProfileAllergens } from '@/lib/utils/allergens';
+import { uploadPhotoWithThumbnail } from '@/lib/services/sync/photo-sync';
+import { NUTRITION_LABEL_SOURCE, PRODUCT_DATABASE_SOURCE } from '@/types/meal';
+import type { Allergen } from '@/types/recognition';
 import type { Meal, MealItem, MealType } from '@/types/sync';
+import { AllergenWarning } from './AllergenWarning';
+import { LeftoverPhotoPanel } from './LeftoverPhotoPanel';
 import { MealItemList } from './MealItemList';
 import { TotalNutritionSummary } from './TotalNutritionSummary';
+import { PhotoRegionOverlay, getRegionColor, type PhotoRegion } from './PhotoRegionOverlay';
 
 function pad2(value: number) {
   return value.toString().padStart(2, '0');
@@ -52,6 +61,7 @@ function toLocalTimestamp(dateValue: string, timeValue: string) {
 interface MealDetailModalProps {
   meal: Meal;
   photoUrl?: string;
+  leftoverPhotoUrl?: string;
   isOpen: boolean;
   onClose: () => void;
   onSave: (updatedMeal: Meal) => Promise<void>;
@@ -61,12 +71,13 @@ interface MealDetailModalProps {
 export function MealDetailModal({
   meal,
   photoUrl,
+  leftoverPhotoUrl,
   isOpen,
   onClose,
   onSave,
   onDelete,
 }: MealDetailModalProps) {
-  const { t } = useI18n();
+  const { t, locale } = useI18n();
   const [isEditing, setIsEditing] = useState(false);
   const [editedItems, setEditedItems] = useState<MealItem[]>(meal.items);
   const [editedMealDate, setEditedMealDate] = useState(() =>
@@ -81,6 +92,10 @@ export function MealDetailModal({
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [highlightedIndex, setHighlightedIndex] = useState<number | null>(null);
+  const [isRecordingLeftovers, setIsRecordingLeftovers] = useState(false);
+  // Local preview of an "after" photo taken in this session (not yet signed)
+  const [capturedLeftoverUrl, setCapturedLeftoverUrl] = useState<string | null>(null);
 
   const mealTypeLabel = meal.mealType ? t(`mealForm.mealTypeOptions.${meal.mealType}`) : null;
 
@@ -92,6 +107,8 @@ export function MealDetailModal({
     setEditedMealTime(formatTimeInputValue(new Date(meal.timestamp)));
     setEditedMealType(meal.mealType ?? resolveDefaultMealType(new Date(meal.timestamp)));
     setError(null);
+    setHighlightedIndex(null);
+    setIsRecordingLeftovers(false);
   }, [meal.items, meal.mealType, meal.timestamp]);
 
   // Reset state when meal prop changes or modal opens with a different meal
@@ -118,6 +135,7 @@ export function MealDetailModal({
     setEditedMealType(meal.mealType ?? resolveDefaultMealType(new Date(meal.timestamp)));
     setIsEditing(false);
     setError(null);
+    setHighlightedIndex(null);
   };
 
   const handleAddItem = () => {
@@ -126,7 +144,7 @@ export function MealDetailModal({
       {
         foodName: '',
         portionSize: 1,
-        portionUnit: '份',
+        portionUnit: PORTION_UNIT_OPTIONS[locale][0],
       },
     ]);
   };
@@ -159,6 +177,35 @@ export function MealDetailModal({
     }
   };
 
+  // Release the local "after" photo preview
+  useEffect(() => {
+    return () => {
+      if (capturedLeftoverUrl) URL.revokeObjectURL(capturedLeftoverUrl);
+    };
+  }, [capturedLeftoverUrl]);
+
+  const handleApplyLeftovers = useCallback(
+    async (items: MealItem[], afterPhoto: Blob) => {
+      if (!meal.id) return;
+      const file = new File([afterPhoto], `leftover-${Date.now()}.jpg`, {
+        type: afterPhoto.type || 'image/jpeg',
+      });
+      const uploaded = await uploadPhotoWithThumbnail(file, meal.id, {
+        kind: 'after',
+        beforePhotoId: meal.photoId ?? undefined,
+      });
+      await onSave({
+        ...meal,
+        items,
+        leftoverPhotoId: uploaded.photoId,
+        updatedAt: new Date().toISOString(),
+      });
+      setCapturedLeftoverUrl(URL.createObjectURL(afterPhoto));
+      setIsRecordingLeftovers(false);
+    },
+    [meal, onSave],
+  );
+
   const handleDelete = async () => {
     if (!onDelete) return;
 
@@ -192,9 +239,35 @@ export function MealDetailModal({
     trapFocus: true,
   });
 
-  if (!isOpen) return null;
-
+  const { allergens: allergenProfile } = useAllergenProfile();
   const displayItems = isEditing ? editedItems : meal.items;
+  const afterPhotoUrl = capturedLeftoverUrl ?? leftoverPhotoUrl;
+  const canRecordLeftovers = Boolean(meal.id) && !meal.leftoverPhotoId && !capturedLeftoverUrl;
+
+  // Only the first photo is saved with the meal, so only its regions can be shown
+  const photoRegions = useMemo(
+    () =>
+      displayItems.reduce<PhotoRegion[]>((regions, item, index) => {
+        if (item.boundingBox && (item.boundingBox.imageIndex ?? 0) === 0) {
+          regions.push({ index, label: item.foodName, box: item.boundingBox });
+        }
+        return regions;
+      }, []),
+    [displayItems],
+  );
+
+  const handleEditedItemsChange = useCallback(
+    (items: MealItem[]) => {
+      // Indexes shift when an item is removed, so drop the highlight
+      if (items.length !== editedItems.length) {
+        setHighlightedIndex(null);
+      }
+      setEditedItems(items);
+    },
+    [editedItems.length],
+  );
+
+  if (!isOpen) return null;
 
   return (
     <div
@@ -235,9 +308,57 @@ export function MealDetailModal({
         {/* Content - Scrollable */}
         <div className="max-h-[calc(90vh-140px)] overflow-y-auto px-4 py-4">
           {/* Photo */}
-          {photoUrl && (
-            <div className="relative mb-4 aspect-video w-full overflow-hidden rounded-xl">
-              <Image src={photoUrl} alt="Meal photo" fill className="object-cover" unoptimized />
+          {photoUrl && photoRegions.length > 0 ? (
+            <div className="mb-4">
+              <PhotoRegionOverlay
+                src={photoUrl}
+                alt="Meal photo"
+                regions={photoRegions}
+                activeIndex={highlightedIndex}
+                onSelect={setHighlightedIndex}
+              />
+            </div>
+          ) : (
+            photoUrl && (
+              <div className="relative mb-4 aspect-video w-full overflow-hidden rounded-xl">
+                <Image src={photoUrl} alt="Meal photo" fill className="object-cover" unoptimized />
+              </div>
+            )
+          )}
+
+          {/* After photo, shown next to the original as before/after */}
+          {afterPhotoUrl && (
+            <div className="mb-4 grid grid-cols-2 gap-2">
+              {photoUrl && (
+                <figure>
+                  <div className="relative aspect-square w-full overflow-hidden rounded-lg">
+                    <Image
+                      src={photoUrl}
+                      alt="Meal photo"
+                      fill
+                      className="object-cover"
+                      unoptimized
+                    />
+                  </div>
+                  <figcaption className="mt-1 text-center text-xs text-gray-500">
+                    {t('mealDetail.leftover.before')}
+                  </figcaption>
+                </figure>
+              )}
+              <figure>
+                <div className="relative aspect-square w-full overflow-hidden rounded-lg">
+                  <Image
+                    src={afterPhotoUrl}
+                    alt="Leftover photo"
+                    fill
+                    className="object-cover"
+                    unoptimized
+                  />
+                </div>
+                <figcaption className="mt-1 text-center text-xs text-gray-500">
+                  {t('mealDetail.leftover.after')}
+                </figcaption>
+              </figure>
             </div>
           )}
 
@@ -307,14 +428,27 @@ export function MealDetailModal({
             <div className="mb-4 rounded-lg bg-red-50 px-3 py-2 text-sm text-red-600">{error}</div>
           )}
 
+          {isRecordingLeftovers && !isEditing && (
+            <LeftoverPhotoPanel
+              items={meal.items}
+              onApply={handleApplyLeftovers}
+              onCancel={() => setIsRecordingLeftovers(false)}
+            />
+          )}
+
+          {/* Items that probably contain the user's allergens */}
+          <AllergenWarning items={displayItems} profile={allergenProfile} />
+
           {/* Items */}
           {isEditing ? (
             <MealItemList
               items={editedItems}
-              onChange={setEditedItems}
+              onChange={handleEditedItemsChange}
               onAddItem={handleAddItem}
               disabled={isSaving}
               enableNutritionLookup={true}
+              highlightedIndex={highlightedIndex}
+              onItemSelect={photoRegions.length > 0 ? setHighlightedIndex : undefined}
             />
           ) : (
             <div className="space-y-3">
@@ -322,7 +456,14 @@ export function MealDetailModal({
                 {t('mealForm.items.detected', { count: displayItems.length })}
               </p>
               {displayItems.map((item, index) => (
-                <ViewMealItemCard key={item.id || index} item={item} />
+                <ViewMealItemCard
+                  key={item.id || index}
+                  item={item}
+                  index={index}
+                  isHighlighted={highlightedIndex === index}
+                  allergenProfile={allergenProfile}
+                  onSelect={photoRegions.length > 0 ? setHighlightedIndex : undefined}
+                />
               ))}
             </div>
           )}
@@ -366,6 +507,16 @@ export function MealDetailModal({
                   {isDeleting ? t('deleteConfirm.deleting') : t('mealDetail.delete')}
                 </button>
               )}
+              {canRecordLeftovers && (
+                <button
+                  type="button"
+                  onClick={() => setIsRecordingLeftovers(true)}
+                  disabled={isRecordingLeftovers}
+                  className="rounded-lg border border-emerald-300 px-4 py-2 text-sm font-medium text-emerald-700 hover:bg-emerald-50 disabled:opacity-50"
+                >
+                  {t('mealDetail.leftover.record')}
+                </button>
+              )}
               <button
                 type="button"
                 onClick={handleStartEdit}
@@ -386,21 +537,87 @@ export function MealDetailModal({
  */
 interface ViewMealItemCardProps {
   item: MealItem;
+  index: number;
+  isHighlighted: boolean;
+  allergenProfile: Allergen[];
+  onSelect?: (index: number) => void;
 }
 
-const ViewMealItemCard = memo(function ViewMealItemCard({ item }: ViewMealItemCardProps) {
+const ViewMealItemCard = memo(function ViewMealItemCard({
+  item,
+  index,
+  isHighlighted,
+  allergenProfile,
+  onSelect,
+}: ViewMealItemCardProps) {
   const { t } = useI18n();
   const [showDetailed, setShowDetailed] = useState(false);
+  const cardRef = useRef<HTMLDivElement>(null);
+  const profileAllergens = findProfileAllergens(item, allergenProfile);
+
+  // Bring the card into view when its region is tapped on the photo
+  useEffect(() => {
+    if (isHighlighted) {
+      cardRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+  }, [isHighlighted]);
 
   return (
-    <div className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+    <div
+      ref={cardRef}
+      onClick={() => onSelect?.(index)}
+      className={`rounded-lg border bg-white p-4 shadow-sm transition-shadow ${
+        isHighlighted ? 'border-blue-500 ring-2 ring-blue-500' : 'border-gray-200'
+      }`}
+    >
       {/* Food name and portion */}
       <div className="flex items-start justify-between">
-        <div>
-          <p className="text-lg font-medium text-gray-900">{item.foodName}</p>
-          <p className="text-sm text-gray-500">
-            {item.portionSize} {item.portionUnit}
-          </p>
+        <div className="flex items-start gap-2">
+          {item.boundingBox && (
+            <span
+              className={`mt-1.5 flex h-5 w-5 shrink-0 items-center justify-center rounded-full text-xs font-medium text-white ${getRegionColor(index).badge}`}
+              title={t('mealForm.items.photoRegion')}
+            >
+              {index + 1}
+            </span>
+          )}
+          <div>
+            <p className="text-lg font-medium text-gray-900">{item.foodName}</p>
+            <p className="text-sm text-gray-500">
+              {item.portionSize} {item.portionUnit}
+            </p>
+            {item.shared && (
+              <p className="text-xs text-amber-700">
+                {t('mealForm.items.shareEaten', {
+                  percent: Math.round(getItemShareRatio(item) * 100),
+                })}
+              </p>
+            )}
+            {item.leftoverFraction != null && (
+              <p className="text-xs text-emerald-700">
+                {t('mealDetail.leftover.remaining', {
+                  percent: Math.round(item.leftoverFraction * 100),
+                })}
+              </p>
+            )}
+            {item.allergens && item.allergens.length > 0 && (
+              <div className="mt-1 flex flex-wrap items-center gap-1">
+                <span className="text-xs text-gray-500">{t('allergens.tagsLabel')}</span>
+                {item.allergens.map((allergen) => (
+                  <span
+                    key={allergen}
+                    className={`rounded-full px-1.5 py-0.5 text-xs ${
+                      profileAllergens.includes(allergen)
+                        ? 'bg-red-100 font-medium text-red-700'
+                        : 'bg-gray-100 text-gray-600'
+                    }`}
+                  >
+                    {t(`allergens.names.${allergen}`)}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
         {item.category && (
           <span className="rounded-full bg-blue-100 px-2 py-0.5 text-xs text-blue-700">
@@ -502,6 +719,10 @@ const ViewMealItemCard = memo(function ViewMealItemCard({ item }: ViewMealItemCa
         <p className="mt-2 text-xs text-gray-500">
           {item.nutritionSource.includes('AI') ? (
             <span className="text-purple-600">{t('mealForm.aiEstimated')}</span>
+          ) : item.nutritionSource === NUTRITION_LABEL_SOURCE ? (
+            <span className="text-emerald-600">{t('mealForm.labelDerived')}</span>
+          ) : item.nutritionSource === PRODUCT_DATABASE_SOURCE ? (
+            <span className="text-emerald-600">{t('mealForm.productDerived')}</span>
           ) : (
             item.nutritionSource
           )}
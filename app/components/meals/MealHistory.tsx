@@ -13,6 +13,7 @@ interface MealWithThumbnail extends Meal {
   thumbnailUrl?: string;
   fullPhotoUrl?: string;
   fullPhotoExpiresAt?: string;
+  leftoverPhotoUrl?: string;
 }
 
 async function fetchSignedUrl(photoId: string, type: 'main' | 'thumbnail') {
@@ -265,7 +266,15 @@ export function MealHistory() {
     if (meal.photoId && !meal.fullPhotoUrl) {
       await handleLoadFullPhoto(meal);
     }
-    setSelectedMeal(meal);
+    let leftoverPhotoUrl = meal.leftoverPhotoUrl;
+    if (meal.leftoverPhotoId && !leftoverPhotoUrl) {
+      try {
+        leftoverPhotoUrl = (await fetchSignedUrl(meal.leftoverPhotoId, 'main')).url;
+      } catch {
+        setError(t('mealHistory.photoLoadFailed'));
+      }
+    }
+    setSelectedMeal({ ...meal, leftoverPhotoUrl });
     setIsModalOpen(true);
   };
 
@@ -440,6 +449,7 @@ export function MealHistory() {
         <MealDetailModal
           meal={selectedMeal}
           photoUrl={selectedMeal.fullPhotoUrl}
+          leftoverPhotoUrl={selectedMeal.leftoverPhotoUrl}
           isOpen={isModalOpen}
           onClose={handleCloseDetail}
           onSave={handleSaveMeal}
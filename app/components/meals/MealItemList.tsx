@@ -6,18 +6,35 @@
  *
  * Displays and manages list of recognized food items.
  * Supports inline editing, deletion, adding new items,
- * and progressive nutrition lookup.
+ * progressive nutrition lookup and breaking mixed dishes down into ingredients.
  */
 
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { useI18n } from '@/lib/i18n';
 import { useNutritionLookup } from '@/lib/nutrition/lookup';
-import { resolvePortionScale, scaleNutritionValues } from '@/lib/nutrition/portion-conversion';
+import {
+  PORTION_UNIT_OPTIONS,
+  resolvePortionScale,
+  scaleNutritionValues,
+} from '@/lib/nutrition/portion-conversion';
+import { getItemShareRatio } from '@/lib/utils/nutrition-calculator';
+import { scaleItemComponents, sumComponentNutrition } from '@/lib/services/item-components';
+import { NUTRITION_LABEL_SOURCE, PRODUCT_DATABASE_SOURCE } from '@/types/meal';
 import type { MealItem, SugarLevel, IceLevel } from '@/types/sync';
 import { BeverageOptions } from './BeverageOptions';
+import { ItemComponentsEditor } from './ItemComponentsEditor';
+import { getRegionColor } from './PhotoRegionOverlay';
 
 // Constants defined at module level to avoid re-creation on every render
 const QUICK_PORTION_VALUES = [0.5, 1, 2] as const;
+// Shares of a shared dish offered as quick buttons (the whole dish is a separate button)
+const SHARE_RATIO_OPTIONS = [
+  { label: '1/6', value: 1 / 6 },
+  { label: '1/5', value: 1 / 5 },
+  { label: '1/4', value: 1 / 4 },
+  { label: '1/3', value: 1 / 3 },
+  { label: '1/2', value: 1 / 2 },
+] as const;
 
 /**
  * Parse portion input string to number.
@@ -69,6 +86,9 @@ interface MealItemListProps {
   disabled?: boolean;
   minItems?: number;
   enableNutritionLookup?: boolean;
+  highlightedIndex?: number | null; // Item selected from the photo overlay
+  onItemSelect?: (index: number) => void;
+  isStreaming?: boolean; // More recognized items are still arriving
 }
 
 export function MealItemList({
@@ -78,6 +98,9 @@ export function MealItemList({
   disabled = false,
   minItems = 1,
   enableNutritionLookup = false,
+  highlightedIndex = null,
+  onItemSelect,
+  isStreaming = false,
 }: MealItemListProps) {
   const { t } = useI18n();
 
@@ -133,11 +156,21 @@ export function MealItemList({
           canRemove={canRemove}
           disabled={disabled}
           enableNutritionLookup={enableNutritionLookup}
+          isHighlighted={highlightedIndex === index}
+          onSelect={onItemSelect}
         />
       ))}
 
+      {/* Placeholder while more items stream in */}
+      {isStreaming && (
+        <div className="flex items-center gap-3 rounded-lg border border-dashed border-gray-200 p-4">
+          <div className="h-5 w-5 animate-spin rounded-full border-2 border-blue-500 border-t-transparent" />
+          <p className="text-sm text-gray-500">{t('mealForm.items.streaming')}</p>
+        </div>
+      )}
+
       {/* Empty state */}
-      {items.length === 0 && (
+      {items.length === 0 && !isStreaming && (
         <div className="rounded-lg border-2 border-dashed border-gray-200 p-6 text-center">
           <p className="text-sm text-gray-500">{t('mealForm.items.noItems')}</p>
           {onAddItem && (
@@ -172,6 +205,8 @@ interface MealItemCardProps {
   canRemove: boolean;
   disabled: boolean;
   enableNutritionLookup: boolean;
+  isHighlighted: boolean;
+  onSelect?: (index: number) => void;
 }
 
 function MealItemCard({
@@ -182,10 +217,20 @@ function MealItemCard({
   canRemove,
   disabled,
   enableNutritionLookup,
+  isHighlighted,
+  onSelect,
 }: MealItemCardProps) {
-  const { t } = useI18n();
+  const { t, locale } = useI18n();
+  const unitOptions = PORTION_UNIT_OPTIONS[locale];
+  const cardRef = useRef<HTMLDivElement>(null);
   const [manualNutritionMode, setManualNutritionMode] = useState(false);
-  const [hasManualOverride, setHasManualOverride] = useState(false);
+  // Label and barcode values are exact: never replace them with a lookup, only scale them
+  const isPackagedProduct =
+    item.nutritionSource === NUTRITION_LABEL_SOURCE ||
+    item.nutritionSource === PRODUCT_DATABASE_SOURCE;
+  const [hasManualOverride, setHasManualOverride] = useState(isPackagedProduct);
+  // A broken-down dish gets its nutrition from its components, not from one lookup
+  const hasComponents = (item.components?.length ?? 0) > 0;
   const [showDetailedNutrition, setShowDetailedNutrition] = useState(false);
   const [portionInput, setPortionInput] = useState(() => `${item.portionSize}`);
   // Track previous values to detect changes
@@ -205,7 +250,11 @@ function MealItemCard({
     item.portionUnit,
     item.containerSize,
     item.aiEstimatedWeightGrams,
-    enableNutritionLookup && item.foodName.trim().length >= 2,
+    item.referenceWeightGrams,
+    enableNutritionLookup &&
+      item.foodName.trim().length >= 2 &&
+      !isPackagedProduct &&
+      !hasComponents,
   );
 
   // Note: Manual override state resets automatically when foodName changes
@@ -250,13 +299,14 @@ function MealItemCard({
     previousContainerSizeRef.current = item.containerSize;
     previousAiEstimatedWeightRef.current = item.aiEstimatedWeightGrams;
 
-    if (hasManualOverride || manualNutritionMode) {
+    if (hasComponents || hasManualOverride || manualNutritionMode) {
       const previousScale = resolvePortionScale(
         item.foodName,
         previousSize,
         previousUnit,
         previousContainerSize,
         previousAiEstimatedWeight,
+        item.referenceWeightGrams,
       ).scale;
       const nextScale = resolvePortionScale(
         item.foodName,
@@ -264,10 +314,17 @@ function MealItemCard({
         item.portionUnit,
         item.containerSize,
         item.aiEstimatedWeightGrams,
+        item.referenceWeightGrams,
       ).scale;
 
       if (previousScale > 0 && nextScale > 0 && previousScale !== nextScale) {
         const ratio = nextScale / previousScale;
+        // Scale each ingredient so the sum still matches its components
+        if (hasComponents) {
+          const components = scaleItemComponents(item.components ?? [], ratio);
+          onUpdate(index, { components, ...sumComponentNutrition(components) });
+          return;
+        }
         const scaledValues = scaleNutritionValues(
           {
             calories: item.calories,
@@ -319,6 +376,9 @@ function MealItemCard({
     item.cholesterol,
     item.containerSize,
     item.aiEstimatedWeightGrams,
+    item.referenceWeightGrams,
+    item.components,
+    hasComponents,
     hasManualOverride,
     manualNutritionMode,
     index,
@@ -327,7 +387,7 @@ function MealItemCard({
 
   // Update item nutrition when lookup completes
   useEffect(() => {
-    if (hasManualOverride) {
+    if (hasManualOverride || hasComponents) {
       return;
     }
 
@@ -398,6 +458,7 @@ function MealItemCard({
     item.carbs,
     item.fat,
     hasManualOverride,
+    hasComponents,
   ]);
 
   // Enable manual mode on error
@@ -407,28 +468,74 @@ function MealItemCard({
     }
   }, [isNutritionError]);
 
+  const updateItem = useCallback(
+    (patch: Partial<MealItem>) => onUpdate(index, patch),
+    [index, onUpdate],
+  );
+
+  // Bring the card into view when its region is tapped on the photo
+  useEffect(() => {
+    if (isHighlighted) {
+      cardRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+  }, [isHighlighted]);
+
   const showLoading = enableNutritionLookup && isNutritionLoading;
+  const shareRatio = getItemShareRatio(item);
+  const portionScale = resolvePortionScale(
+    item.foodName,
+    item.portionSize,
+    item.portionUnit,
+    item.containerSize,
+    item.aiEstimatedWeightGrams,
+    item.referenceWeightGrams,
+  );
   const showInsufficientData =
-    enableNutritionLookup && !isNutritionLoading && item.calories == null && !manualNutritionMode;
+    enableNutritionLookup &&
+    !isNutritionLoading &&
+    item.calories == null &&
+    !manualNutritionMode &&
+    !hasComponents;
 
   return (
-    <div className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+    <div
+      ref={cardRef}
+      onClick={() => onSelect?.(index)}
+      className={`rounded-lg border bg-white p-4 shadow-sm transition-shadow ${
+        isHighlighted ? 'border-blue-500 ring-2 ring-blue-500' : 'border-gray-200'
+      }`}
+    >
       {/* Item header with name and delete */}
       <div className="flex items-start justify-between gap-2">
+        {item.boundingBox && (
+          <span
+            className={`mt-1 flex h-5 w-5 shrink-0 items-center justify-center rounded-full text-xs font-medium text-white ${getRegionColor(index).badge}`}
+            title={t('mealForm.items.photoRegion')}
+          >
+            {index + 1}
+          </span>
+        )}
         <div className="flex-1">
           <input
             type="text"
             value={item.foodName}
             onChange={(e) => {
               const nextName = e.target.value;
-              onUpdate(index, {
-                foodName: nextName,
-                calories: undefined,
-                protein: undefined,
-                carbs: undefined,
-                fat: undefined,
-                nutritionSource: undefined,
-              });
+              // Renaming a packaged product keeps the values read from its label
+              onUpdate(
+                index,
+                isPackagedProduct
+                  ? { foodName: nextName }
+                  : {
+                      foodName: nextName,
+                      calories: undefined,
+                      protein: undefined,
+                      carbs: undefined,
+                      fat: undefined,
+                      nutritionSource: undefined,
+                      components: undefined,
+                    },
+              );
             }}
             placeholder={t('mealForm.foodNamePlaceholder')}
             disabled={disabled}
@@ -441,6 +548,38 @@ function MealItemCard({
               })}
             </p>
           )}
+          {/* Names other providers proposed (ensemble mode); choosing one swaps it in */}
+          {item.alternativeCandidates && item.alternativeCandidates.length > 0 && (
+            <div className="mt-2 flex flex-wrap items-center gap-1">
+              <span className="text-xs text-gray-500">{t('mealForm.items.alternatives')}</span>
+              {item.alternativeCandidates.map((candidate) => (
+                <button
+                  key={candidate}
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onUpdate(index, {
+                      foodName: candidate,
+                      alternativeCandidates: [
+                        item.foodName,
+                        ...(item.alternativeCandidates ?? []).filter((name) => name !== candidate),
+                      ],
+                      calories: undefined,
+                      protein: undefined,
+                      carbs: undefined,
+                      fat: undefined,
+                      nutritionSource: undefined,
+                      components: undefined,
+                    });
+                  }}
+                  disabled={disabled}
+                  className="rounded-full bg-amber-50 px-2 py-0.5 text-xs text-amber-800 hover:bg-amber-100 disabled:opacity-50"
+                >
+                  {candidate}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
         {canRemove && (
           <button
@@ -515,26 +654,87 @@ function MealItemCard({
               type="text"
               value={item.portionUnit}
               onChange={(e) => onUpdate(index, { portionUnit: e.target.value })}
-              placeholder="份"
+              placeholder={unitOptions[0]}
               list={`portion-unit-options-${item.id ?? index}`}
               disabled={disabled}
               className="flex-1 rounded border border-gray-300 px-2 py-1 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50"
             />
             <datalist id={`portion-unit-options-${item.id ?? index}`}>
-              <option value="份" />
-              <option value="碗" />
-              <option value="盤" />
-              <option value="杯" />
-              <option value="片" />
-              <option value="隻" />
-              <option value="塊" />
-              <option value="顆" />
-              <option value="朵" />
+              {unitOptions.map((unit) => (
+                <option key={unit} value={unit} />
+              ))}
             </datalist>
           </div>
+          {/* Grams used to scale nutrition, and where the estimate came from */}
+          {portionScale.grams != null && (
+            <p className="mt-1 text-xs text-gray-500">
+              {t('mealForm.items.estimatedGrams', {
+                grams: Math.round(portionScale.grams),
+                source: t(`mealForm.items.weightSources.${portionScale.source}`),
+              })}
+            </p>
+          )}
         </div>
       </div>
 
+      {/* Share of a shared dish (spread mode); item nutrition stays for the whole dish */}
+      {item.shared != null && (
+        <div className="mt-3 rounded-lg bg-amber-50 p-2" onClick={(e) => e.stopPropagation()}>
+          <label className="flex items-center gap-2 text-xs font-medium text-amber-900">
+            <input
+              type="checkbox"
+              checked={item.shared}
+              onChange={(e) => onUpdate(index, { shared: e.target.checked })}
+              disabled={disabled}
+              className="h-3.5 w-3.5 rounded border-amber-300 text-amber-600 focus:ring-amber-500"
+            />
+            {t('mealForm.items.sharedDish')}
+          </label>
+          {item.shared && (
+            <>
+              <div className="mt-2 flex flex-wrap items-center gap-1">
+                <span className="text-xs text-amber-800">{t('mealForm.items.shareLabel')}</span>
+                {SHARE_RATIO_OPTIONS.map((option) => (
+                  <button
+                    key={option.label}
+                    type="button"
+                    onClick={() => onUpdate(index, { shareRatio: option.value })}
+                    disabled={disabled}
+                    className={`rounded px-2 py-1 text-xs ${
+                      shareRatio === option.value
+                        ? 'bg-amber-600 text-white'
+                        : 'bg-white text-amber-800 hover:bg-amber-100'
+                    } disabled:opacity-50`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => onUpdate(index, { shareRatio: 1 })}
+                  disabled={disabled}
+                  className={`rounded px-2 py-1 text-xs ${
+                    shareRatio === 1
+                      ? 'bg-amber-600 text-white'
+                      : 'bg-white text-amber-800 hover:bg-amber-100'
+                  } disabled:opacity-50`}
+                >
+                  {t('mealForm.items.shareAll')}
+                </button>
+              </div>
+              <p className="mt-1 text-xs text-amber-800">
+                {item.calories != null
+                  ? t('mealForm.items.shareEatenCalories', {
+                      percent: Math.round(shareRatio * 100),
+                      calories: Math.round(item.calories * shareRatio),
+                    })
+                  : t('mealForm.items.shareEaten', { percent: Math.round(shareRatio * 100) })}
+              </p>
+            </>
+          )}
+        </div>
+      )}
+
       {/* Nutrition display */}
       <div className="mt-3 rounded-lg bg-gray-50 p-2">
         {/* Basic nutrition - always visible */}
@@ -803,12 +1003,38 @@ function MealItemCard({
         <p className="mt-2 text-xs text-gray-500">
           {item.nutritionSource.includes('AI') ? (
             <span className="text-purple-600">{t('mealForm.aiEstimated')}</span>
+          ) : isPackagedProduct ? (
+            <span className="text-emerald-600">
+              {item.nutritionSource === PRODUCT_DATABASE_SOURCE
+                ? t('mealForm.productDerived')
+                : t('mealForm.labelDerived')}
+            </span>
           ) : (
             item.nutritionSource
           )}
+          {/* Food the lookup matched, so the user can check it */}
+          {!hasComponents &&
+            nutritionResult?.data?.matchedDescription &&
+            nutritionResult.data.sourceDatabase === item.nutritionSource && (
+              <span className="block text-gray-400">
+                {t('mealForm.nutritionMatched', {
+                  description: nutritionResult.data.matchedDescription,
+                })}
+              </span>
+            )}
         </p>
       )}
 
+      {/* Ingredient breakdown of a mixed dish */}
+      {!isPackagedProduct && (
+        <ItemComponentsEditor
+          item={item}
+          onChange={updateItem}
+          disabled={disabled}
+          enableNutritionLookup={enableNutritionLookup}
+        />
+      )}
+
       {/* Beverage options for drinks */}
       {item.category === 'beverage' && (
         <BeverageOptions
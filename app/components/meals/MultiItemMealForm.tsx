@@ -9,20 +9,38 @@
  * Uses existing Spec 002 sync infrastructure for saving meals.
  */
 
-import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useI18n } from '@/lib/i18n';
+import { AllergenWarning } from './AllergenWarning';
 import { MealItemList } from './MealItemList';
 import { TotalNutritionSummary } from './TotalNutritionSummary';
+import { PhotoRegionOverlay, type PhotoRegion } from './PhotoRegionOverlay';
 import { SyncStatus, type SyncStatusType } from '@/app/components/sync/SyncStatus';
 import { syncMealWithQueue, isSyncError } from '@/lib/services/sync/meal-sync';
 import { uploadPhotoWithThumbnail } from '@/lib/services/sync/photo-sync';
 import { derivePortionFromRecognition } from '@/lib/recognition/estimate-utils';
+import {
+  LEARNED_CORRECTIONS_QUERY_KEY,
+  useAllergenProfile,
+  useLearnedCorrections,
+} from '@/lib/hooks';
+import {
+  applyLearnedCorrection,
+  createRecognizedOrigin,
+  detectFoodCorrection,
+  type RecognizedOrigin,
+} from '@/lib/corrections/learned';
+import { recordFoodCorrections } from '@/lib/services/corrections';
+import { PORTION_UNIT_OPTIONS } from '@/lib/nutrition/portion-conversion';
 import type { MealItem, Meal, MealType } from '@/types/sync';
-import type { MultiItemRecognitionResponse } from '@/types/recognition';
+import type { MultiItemRecognitionResponse, SupportedLocale } from '@/types/recognition';
 
 interface MultiItemMealFormProps {
   recognitionResult?: MultiItemRecognitionResponse | null;
   photoFile?: File | null;
+  photoUrls?: string[]; // Preview URLs in capture order; recognized regions are drawn on them
+  initialItems?: MealItem[]; // Pre-filled items (e.g. read from a nutrition label) when not recognizing
   isLoading?: boolean;
   onSubmitSuccess?: () => void;
   onCancel: () => void;
@@ -43,19 +61,35 @@ function mapRecognitionToItems(response: MultiItemRecognitionResponse): MealItem
     confidence: item.confidence,
     notes: item.notes,
     category: item.category,
+    boundingBox: item.boundingBox,
+    alternativeCandidates: item.alternativeCandidates,
+    shared: item.shared,
+    allergens: item.allergens,
     nutritionSource: undefined,
   }));
 }
 
+/**
+ * Merge a (possibly partial, streamed) recognition result into the current items.
+ * Items already shown at the same position with the same name are kept, so their
+ * ids and in-flight nutrition lookups survive as more items arrive.
+ */
+function mergeRecognizedItems(current: MealItem[], recognized: MealItem[]): MealItem[] {
+  return recognized.map((item, index) => {
+    const existing = current[index];
+    return existing && existing.foodName === item.foodName ? existing : item;
+  });
+}
+
 /**
  * Create a new empty meal item.
  */
-function createEmptyItem(): MealItem {
+function createEmptyItem(locale: SupportedLocale): MealItem {
   return {
     id: `item-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
     foodName: '',
     portionSize: 1,
-    portionUnit: '份',
+    portionUnit: PORTION_UNIT_OPTIONS[locale][0],
     containerSize: undefined,
     calories: undefined,
     protein: undefined,
@@ -103,11 +137,13 @@ function toLocalTimestamp(dateValue: string, timeValue: string) {
 export function MultiItemMealForm({
   recognitionResult,
   photoFile,
+  photoUrls = [],
+  initialItems,
   isLoading = false,
   onSubmitSuccess,
   onCancel,
 }: MultiItemMealFormProps) {
-  const { t } = useI18n();
+  const { t, locale } = useI18n();
   const [mealDate, setMealDate] = useState(() => formatDateInputValue(new Date()));
   const [mealTime, setMealTime] = useState(() => formatTimeInputValue(new Date()));
   const [mealType, setMealType] = useState<MealType>(() => resolveDefaultMealType(new Date()));
@@ -115,30 +151,75 @@ export function MultiItemMealForm({
   const [isSaving, setIsSaving] = useState(false);
   const [syncStatus, setSyncStatus] = useState<SyncStatusType | null>(null);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [highlightedIndex, setHighlightedIndex] = useState<number | null>(null);
+  const queryClient = useQueryClient();
+  const { index: learnedCorrections, isSignedIn } = useLearnedCorrections();
+  const { allergens: allergenProfile } = useAllergenProfile();
+  // Read when results arrive; corrections loading later must not reset the form
+  const learnedCorrectionsRef = useRef(learnedCorrections);
+  // What recognition returned for each item id, to learn from the user's edits on save
+  const recognizedOriginsRef = useRef(new Map<string, RecognizedOrigin>());
+
+  useEffect(() => {
+    learnedCorrectionsRef.current = learnedCorrections;
+  }, [learnedCorrections]);
 
-  // Initialize items from recognition result
+  // Initialize items from recognition result (grows while results stream in)
   useEffect(() => {
     if (recognitionResult && recognitionResult.items.length > 0) {
-      setItems(mapRecognitionToItems(recognitionResult));
+      const recognized = mapRecognitionToItems(recognitionResult).map((item) => {
+        // Use the user's usual name and portion for dishes they keep correcting
+        const corrected = applyLearnedCorrection(item, learnedCorrectionsRef.current);
+        if (item.id) {
+          // Keeping the applied correction is not a new correction
+          recognizedOriginsRef.current.set(item.id, createRecognizedOrigin(item, corrected));
+        }
+        return corrected;
+      });
+      setItems((prev) => mergeRecognizedItems(prev, recognized));
+    } else if (initialItems && initialItems.length > 0) {
+      setItems(initialItems);
     } else {
       // Default to one empty item for manual entry
-      setItems([createEmptyItem()]);
+      setItems([createEmptyItem(locale)]);
     }
     const now = new Date();
     setMealDate(formatDateInputValue(now));
     setMealTime(formatTimeInputValue(now));
     setMealType(resolveDefaultMealType(now));
-  }, [recognitionResult]);
+    setHighlightedIndex(null);
+  }, [recognitionResult, initialItems, locale]);
 
   // Handler for adding a new item
   const handleAddItem = useCallback(() => {
-    setItems((prev) => [...prev, createEmptyItem()]);
-  }, []);
+    setItems((prev) => [...prev, createEmptyItem(locale)]);
+  }, [locale]);
 
   // Handler for updating items
-  const handleItemsChange = useCallback((newItems: MealItem[]) => {
-    setItems(newItems);
-  }, []);
+  const handleItemsChange = useCallback(
+    (newItems: MealItem[]) => {
+      // Indexes shift when an item is removed, so drop the highlight
+      if (newItems.length !== items.length) {
+        setHighlightedIndex(null);
+      }
+      setItems(newItems);
+    },
+    [items.length],
+  );
+
+  // Regions to outline on each photo, keyed by photo index
+  const photoRegions = useMemo(() => {
+    return photoUrls.map((_, photoIndex) =>
+      items.reduce<PhotoRegion[]>((regions, item, index) => {
+        if (item.boundingBox && (item.boundingBox.imageIndex ?? 0) === photoIndex) {
+          regions.push({ index, label: item.foodName, box: item.boundingBox });
+        }
+        return regions;
+      }, []),
+    );
+  }, [photoUrls, items]);
+
+  const hasPhotoRegions = photoRegions.some((regions) => regions.length > 0);
 
   // Submit handler - uses Spec 002 sync infrastructure
   const handleSubmit = useCallback(
@@ -185,10 +266,29 @@ export function MultiItemMealForm({
           mealType,
           photoId,
           items: validItems,
+          promptVersion: recognitionResult?.promptVersion ?? null,
         };
 
         // Use existing Spec 002 sync mechanism
-        await syncMealWithQueue(meal, 'create');
+        const savedMeal: Meal | undefined = await syncMealWithQueue(meal, 'create');
+
+        // Learn from renamed or re-portioned recognized items (best effort)
+        const corrections = validItems.flatMap((item) => {
+          const origin = item.id ? recognizedOriginsRef.current.get(item.id) : undefined;
+          const correction = origin ? detectFoodCorrection(origin, item) : null;
+          return correction ? [correction] : [];
+        });
+        if (isSignedIn && corrections.length > 0) {
+          const source = {
+            promptVersion: recognitionResult?.promptVersion,
+            mealId: savedMeal?.id,
+          };
+          void recordFoodCorrections(corrections, source).then((result) => {
+            if (result.success) {
+              queryClient.setQueryData(LEARNED_CORRECTIONS_QUERY_KEY, result);
+            }
+          });
+        }
 
         // Success - clear any error status and notify caller
         setSyncStatus(null);
@@ -204,7 +304,18 @@ export function MultiItemMealForm({
         setIsSaving(false);
       }
     },
-    [items, photoFile, mealDate, mealTime, mealType, t, onSubmitSuccess],
+    [
+      items,
+      photoFile,
+      recognitionResult,
+      mealDate,
+      mealTime,
+      mealType,
+      isSignedIn,
+      queryClient,
+      t,
+      onSubmitSuccess,
+    ],
   );
 
   // Check if form is valid (T026 - at least one item with non-empty name)
@@ -261,6 +372,33 @@ export function MultiItemMealForm({
         </div>
       </div>
 
+      {/* Photos with recognized item regions */}
+      {photoUrls.length > 0 && (
+        <div className="space-y-2">
+          <div className={photoUrls.length > 1 ? 'flex gap-3 overflow-x-auto pb-1' : ''}>
+            {photoUrls.map((url, photoIndex) => (
+              <div key={url} className={photoUrls.length > 1 ? 'w-64 shrink-0' : ''}>
+                <PhotoRegionOverlay
+                  src={url}
+                  alt={`${t('home.photoAlt')} ${photoIndex + 1}`}
+                  regions={photoRegions[photoIndex]}
+                  activeIndex={highlightedIndex}
+                  onSelect={setHighlightedIndex}
+                />
+              </div>
+            ))}
+          </div>
+          {hasPhotoRegions && (
+            <p className="text-center text-xs text-slate-500">
+              {t('mealForm.items.photoRegionHint')}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Items that probably contain the user's allergens */}
+      <AllergenWarning items={items} profile={allergenProfile} />
+
       {/* Item list */}
       <MealItemList
         items={items}
@@ -269,6 +407,9 @@ export function MultiItemMealForm({
         disabled={disabled}
         minItems={1}
         enableNutritionLookup
+        highlightedIndex={highlightedIndex}
+        onItemSelect={hasPhotoRegions ? setHighlightedIndex : undefined}
+        isStreaming={isLoading && Boolean(recognitionResult)}
       />
 
       {/* Total nutrition summary */}
@@ -0,0 +1,105 @@
+'use client';
+
+/**
+ * PhotoRegionOverlay Component
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * Renders a meal photo with the recognized item regions outlined on top.
+ * Regions are tappable so the matching item card can be highlighted.
+ */
+
+import { useState } from 'react';
+import Image from 'next/image';
+import type { BoundingBox } from '@/types/recognition';
+
+// Region colors cycle by item index so the outline and the item card badge match
+const REGION_COLORS = [
+  { border: 'border-blue-500', badge: 'bg-blue-500' },
+  { border: 'border-emerald-500', badge: 'bg-emerald-500' },
+  { border: 'border-amber-500', badge: 'bg-amber-500' },
+  { border: 'border-rose-500', badge: 'bg-rose-500' },
+  { border: 'border-violet-500', badge: 'bg-violet-500' },
+  { border: 'border-cyan-500', badge: 'bg-cyan-500' },
+] as const;
+
+export function getRegionColor(index: number) {
+  return REGION_COLORS[index % REGION_COLORS.length];
+}
+
+export interface PhotoRegion {
+  index: number; // Item index the region belongs to
+  label: string;
+  box: BoundingBox;
+}
+
+interface PhotoRegionOverlayProps {
+  src: string;
+  alt: string;
+  regions: PhotoRegion[];
+  activeIndex?: number | null;
+  onSelect?: (index: number) => void;
+}
+
+export function PhotoRegionOverlay({
+  src,
+  alt,
+  regions,
+  activeIndex = null,
+  onSelect,
+}: PhotoRegionOverlayProps) {
+  // The container takes the photo's aspect ratio (capped at 24rem tall) so normalized boxes
+  // line up with the image
+  const [aspectRatio, setAspectRatio] = useState(4 / 3);
+
+  return (
+    <div
+      className="relative mx-auto w-full overflow-hidden rounded-2xl bg-slate-100"
+      style={{ aspectRatio, maxWidth: `calc(24rem * ${aspectRatio})` }}
+    >
+      <Image
+        src={src}
+        alt={alt}
+        fill
+        className="object-contain"
+        unoptimized
+        onLoad={(e) => {
+          const { naturalWidth, naturalHeight } = e.currentTarget;
+          if (naturalWidth > 0 && naturalHeight > 0) {
+            setAspectRatio(naturalWidth / naturalHeight);
+          }
+        }}
+      />
+      {regions.map((region) => {
+        const color = getRegionColor(region.index);
+        const isActive = activeIndex === region.index;
+        return (
+          <button
+            key={region.index}
+            type="button"
+            onClick={() => onSelect?.(region.index)}
+            disabled={!onSelect}
+            aria-label={region.label}
+            aria-pressed={isActive}
+            className={`absolute rounded-md border-2 transition-colors ${color.border} ${
+              isActive ? 'bg-white/25 border-[3px]' : 'bg-transparent hover:bg-white/10'
+            } ${activeIndex != null && !isActive ? 'opacity-50' : ''}`}
+            style={{
+              left: `${region.box.x * 100}%`,
+              top: `${region.box.y * 100}%`,
+              width: `${region.box.width * 100}%`,
+              height: `${region.box.height * 100}%`,
+            }}
+          >
+            <span
+              className={`absolute left-0 top-0 max-w-full truncate rounded-br-md px-1.5 py-0.5 text-xs font-medium text-white ${color.badge}`}
+            >
+              {region.index + 1}. {region.label}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+export default PhotoRegionOverlay;
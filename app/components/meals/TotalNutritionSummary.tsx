@@ -11,6 +11,7 @@
 
 import { useState, memo } from 'react';
 import { useI18n } from '@/lib/i18n';
+import { getItemShareRatio } from '@/lib/utils/nutrition-calculator';
 import type { MealItem } from '@/types/sync';
 
 interface TotalNutritionSummaryProps {
@@ -21,31 +22,34 @@ export function TotalNutritionSummary({ items }: TotalNutritionSummaryProps) {
   const { t } = useI18n();
   const [showDetailed, setShowDetailed] = useState(false);
 
-  // Calculate totals including extended nutrition
+  // Calculate totals including extended nutrition (shared dishes count the user's share)
   const totals = items.reduce(
-    (acc, item) => ({
-      // Basic macros
-      calories: acc.calories + (item.calories ?? 0),
-      protein: acc.protein + (item.protein ?? 0),
-      carbs: acc.carbs + (item.carbs ?? 0),
-      fat: acc.fat + (item.fat ?? 0),
-      // Extended macros
-      fiber: acc.fiber + (item.fiber ?? 0),
-      sugar: acc.sugar + (item.sugar ?? 0),
-      saturatedFat: acc.saturatedFat + (item.saturatedFat ?? 0),
-      // Minerals
-      sodium: acc.sodium + (item.sodium ?? 0),
-      potassium: acc.potassium + (item.potassium ?? 0),
-      calcium: acc.calcium + (item.calcium ?? 0),
-      iron: acc.iron + (item.iron ?? 0),
-      // Vitamins
-      vitaminA: acc.vitaminA + (item.vitaminA ?? 0),
-      vitaminC: acc.vitaminC + (item.vitaminC ?? 0),
-      vitaminD: acc.vitaminD + (item.vitaminD ?? 0),
-      vitaminB12: acc.vitaminB12 + (item.vitaminB12 ?? 0),
-      // Other
-      cholesterol: acc.cholesterol + (item.cholesterol ?? 0),
-    }),
+    (acc, item) => {
+      const share = getItemShareRatio(item);
+      return {
+        // Basic macros
+        calories: acc.calories + (item.calories ?? 0) * share,
+        protein: acc.protein + (item.protein ?? 0) * share,
+        carbs: acc.carbs + (item.carbs ?? 0) * share,
+        fat: acc.fat + (item.fat ?? 0) * share,
+        // Extended macros
+        fiber: acc.fiber + (item.fiber ?? 0) * share,
+        sugar: acc.sugar + (item.sugar ?? 0) * share,
+        saturatedFat: acc.saturatedFat + (item.saturatedFat ?? 0) * share,
+        // Minerals
+        sodium: acc.sodium + (item.sodium ?? 0) * share,
+        potassium: acc.potassium + (item.potassium ?? 0) * share,
+        calcium: acc.calcium + (item.calcium ?? 0) * share,
+        iron: acc.iron + (item.iron ?? 0) * share,
+        // Vitamins
+        vitaminA: acc.vitaminA + (item.vitaminA ?? 0) * share,
+        vitaminC: acc.vitaminC + (item.vitaminC ?? 0) * share,
+        vitaminD: acc.vitaminD + (item.vitaminD ?? 0) * share,
+        vitaminB12: acc.vitaminB12 + (item.vitaminB12 ?? 0) * share,
+        // Other
+        cholesterol: acc.cholesterol + (item.cholesterol ?? 0) * share,
+      };
+    },
     {
       calories: 0,
       protein: 0,
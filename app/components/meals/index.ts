@@ -6,3 +6,5 @@
 export { MealItemList } from './MealItemList';
 export { TotalNutritionSummary } from './TotalNutritionSummary';
 export { MultiItemMealForm } from './MultiItemMealForm';
+export { PhotoRegionOverlay } from './PhotoRegionOverlay';
+export { AllergenWarning } from './AllergenWarning';
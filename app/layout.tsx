@@ -1,7 +1,8 @@
 import type { Metadata, Viewport } from 'next';
 import { Geist, Geist_Mono } from 'next/font/google';
+import { cookies } from 'next/headers';
 import { SessionProvider } from 'next-auth/react';
-import { I18nProvider, messages } from '@/lib/i18n';
+import { I18nProvider, LOCALE_COOKIE, resolveLocale, translate } from '@/lib/i18n';
 import { QueryProvider } from '@/app/components/providers/QueryProvider';
 import ErrorBoundary from '@/app/components/ui/ErrorBoundary';
 import './globals.css';
@@ -16,10 +17,21 @@ const geistMono = Geist_Mono({
   subsets: ['latin'],
 });
 
-export const metadata: Metadata = {
-  title: messages.meta.title,
-  description: messages.meta.description,
-};
+/**
+ * Locale saved by the settings language switcher.
+ */
+async function getRequestLocale() {
+  const cookieStore = await cookies();
+  return resolveLocale(cookieStore.get(LOCALE_COOKIE)?.value);
+}
+
+export async function generateMetadata(): Promise<Metadata> {
+  const locale = await getRequestLocale();
+  return {
+    title: translate('meta.title', undefined, locale),
+    description: translate('meta.description', undefined, locale),
+  };
+}
 
 export const viewport: Viewport = {
   width: 'device-width',
@@ -28,19 +40,21 @@ export const viewport: Viewport = {
   userScalable: false,
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await getRequestLocale();
+
   return (
-    <html lang="zh-TW">
+    <html lang={locale}>
       <body className={`${geistSans.variable} ${geistMono.variable} antialiased`}>
-        <I18nProvider locale="zh-TW">
+        <I18nProvider locale={locale}>
           <ErrorBoundary
             fallback={
               <div className="min-h-screen flex items-center justify-center bg-gray-50 px-6 text-center">
-                <p className="text-gray-700">{messages.errors.unexpected}</p>
+                <p className="text-gray-700">{translate('errors.unexpected', undefined, locale)}</p>
               </div>
             }
           >
@@ -16,6 +16,7 @@ import AppLogo from '@/app/components/ui/AppLogo';
 import WeeklyNutritionReport from '@/app/components/dashboard/WeeklyNutritionReport';
 import { useI18n } from '@/lib/i18n';
 import { getAllMeals, getPhoto } from '@/lib/db/indexeddb';
+import { getItemShareRatio } from '@/lib/utils/nutrition-calculator';
 import type { Meal as SyncMeal } from '@/types/sync';
 
 interface MealWithPhoto {
@@ -50,12 +51,15 @@ function coerceDate(value: Date | string): Date {
 
 function getSyncMealTotals(meal: SyncMeal): MealTotals {
   const fallback = meal.items.reduce(
-    (totals, item) => ({
-      calories: totals.calories + (item.calories ?? 0),
-      protein: totals.protein + (item.protein ?? 0),
-      carbs: totals.carbs + (item.carbs ?? 0),
-      fats: totals.fats + (item.fat ?? 0),
-    }),
+    (totals, item) => {
+      const share = getItemShareRatio(item);
+      return {
+        calories: totals.calories + (item.calories ?? 0) * share,
+        protein: totals.protein + (item.protein ?? 0) * share,
+        carbs: totals.carbs + (item.carbs ?? 0) * share,
+        fats: totals.fats + (item.fat ?? 0) * share,
+      };
+    },
     { calories: 0, protein: 0, carbs: 0, fats: 0 },
   );
 
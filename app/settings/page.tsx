@@ -5,6 +5,11 @@
  *
  * User settings including:
  * - Account management
+ * - Language (UI and recognized food names)
+ * - Reference object for portion scale in meal photos
+ * - Allergens to be warned about in recognized meals
+ * - Learned corrections of recognition results
+ * - Remaining AI usage quota
  * - Privacy settings (cloud recognition consent)
  * - Data management
  * - About
@@ -13,22 +18,60 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useSession, signOut } from 'next-auth/react';
 import Image from 'next/image';
+import { useQueryClient } from '@tanstack/react-query';
 import AppLayout from '@/app/components/layout/AppLayout';
 import SignInButton from '@/app/components/auth/SignInButton';
-import { useI18n } from '@/lib/i18n';
+import { LOCALE_LABELS, useI18n } from '@/lib/i18n';
+import {
+  ALLERGEN_PROFILE_QUERY_KEY,
+  LEARNED_CORRECTIONS_QUERY_KEY,
+  useAllergenProfile,
+  useLearnedCorrections,
+  useUsageQuota,
+} from '@/lib/hooks';
+import { MIN_CORRECTION_COUNT } from '@/lib/corrections/learned';
+import { deleteLearnedCorrections } from '@/lib/services/corrections';
+import {
+  DEFAULT_REFERENCE_SIZES_CM,
+  FIXED_SIZE_REFERENCE_TYPES,
+  MAX_REFERENCE_SIZE_CM,
+  MIN_REFERENCE_SIZE_CM,
+  REFERENCE_OBJECT_TYPES,
+  parseReferenceObject,
+} from '@/lib/recognition/reference-object';
+import {
+  ALLERGENS,
+  SUPPORTED_LOCALES,
+  isSupportedLocale,
+  type Allergen,
+  type ReferenceObject,
+  type ReferenceObjectType,
+} from '@/types/recognition';
+import type { UsageQuotaWindow } from '@/types/usage';
 import {
   getCloudRecognitionConsent,
+  getReferenceObject,
+  saveAllergenProfile,
   saveCloudRecognitionConsent,
+  saveReferenceObject,
   clearAllData,
 } from '@/lib/db/indexeddb';
 
 export default function SettingsPage() {
-  const { t } = useI18n();
+  const { t, locale, setLocale } = useI18n();
   const { data: session, status } = useSession();
   const [hasConsent, setHasConsent] = useState<boolean | null>(null);
   const [isWithdrawing, setIsWithdrawing] = useState(false);
   const [isClearing, setIsClearing] = useState(false);
+  const queryClient = useQueryClient();
+  const { corrections, isSignedIn, isLoading: isLoadingCorrections } = useLearnedCorrections();
+  const [forgettingId, setForgettingId] = useState<string | null>(null);
+  const { data: usageResult, isLoading: isLoadingUsage } = useUsageQuota();
+  const usageQuota = usageResult?.success ? usageResult.data : undefined;
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [referenceObject, setReferenceObject] = useState<ReferenceObject | undefined>(undefined);
+  const [referenceSizeInput, setReferenceSizeInput] = useState('');
+  const { allergens: allergenProfile } = useAllergenProfile();
 
   // Check consent status on mount
   useEffect(() => {
@@ -44,6 +87,78 @@ export default function SettingsPage() {
     checkConsent();
   }, []);
 
+  // Load the reference object on mount
+  useEffect(() => {
+    getReferenceObject()
+      .then((saved) => {
+        setReferenceObject(saved);
+        setReferenceSizeInput(saved ? `${saved.sizeCm}` : '');
+      })
+      .catch((err) => console.error('Failed to load reference object:', err));
+  }, []);
+
+  const updateReferenceObject = useCallback(
+    async (next: ReferenceObject | undefined) => {
+      setReferenceObject(next);
+      setReferenceSizeInput(next ? `${next.sizeCm}` : '');
+      try {
+        await saveReferenceObject(next ?? null);
+      } catch (err) {
+        console.error('Failed to save reference object:', err);
+        setMessage({ type: 'error', text: t('errors.referenceObjectSaveFailed') });
+      }
+    },
+    [t],
+  );
+
+  const handleReferenceTypeChange = useCallback(
+    (value: string) => {
+      const type = REFERENCE_OBJECT_TYPES.find((option) => option === value);
+      void updateReferenceObject(
+        type ? { type, sizeCm: DEFAULT_REFERENCE_SIZES_CM[type] } : undefined,
+      );
+    },
+    [updateReferenceObject],
+  );
+
+  const handleReferenceSizeCommit = useCallback(() => {
+    if (!referenceObject) return;
+    const next = parseReferenceObject({
+      type: referenceObject.type,
+      sizeCm: Number.parseFloat(referenceSizeInput),
+    });
+    if (next) {
+      void updateReferenceObject(next);
+    } else {
+      // Out of range: restore the saved size
+      setReferenceSizeInput(`${referenceObject.sizeCm}`);
+      setMessage({
+        type: 'error',
+        text: t('settings.referenceSizeInvalid', {
+          min: MIN_REFERENCE_SIZE_CM,
+          max: MAX_REFERENCE_SIZE_CM,
+        }),
+      });
+    }
+  }, [referenceObject, referenceSizeInput, updateReferenceObject, t]);
+
+  const handleToggleAllergen = useCallback(
+    async (allergen: Allergen) => {
+      const next = allergenProfile.includes(allergen)
+        ? allergenProfile.filter((item) => item !== allergen)
+        : [...allergenProfile, allergen];
+      queryClient.setQueryData(ALLERGEN_PROFILE_QUERY_KEY, next);
+      try {
+        await saveAllergenProfile(next);
+      } catch (err) {
+        console.error('Failed to save allergen profile:', err);
+        queryClient.setQueryData(ALLERGEN_PROFILE_QUERY_KEY, allergenProfile);
+        setMessage({ type: 'error', text: t('allergens.saveFailed') });
+      }
+    },
+    [allergenProfile, queryClient, t],
+  );
+
   const handleWithdrawConsent = useCallback(async () => {
     if (!window.confirm(t('consentWithdraw.confirm'))) {
       return;
@@ -83,6 +198,57 @@ export default function SettingsPage() {
     }
   }, [t]);
 
+  const handleForgetCorrections = useCallback(
+    async (id?: string) => {
+      if (!id && !window.confirm(t('settings.learnedClearConfirm'))) {
+        return;
+      }
+
+      setForgettingId(id ?? 'all');
+      try {
+        const result = await deleteLearnedCorrections(id);
+        if (result.success) {
+          queryClient.setQueryData(LEARNED_CORRECTIONS_QUERY_KEY, result);
+          if (!id) {
+            setMessage({ type: 'success', text: t('settings.learnedClearSuccess') });
+          }
+        } else {
+          setMessage({ type: 'error', text: result.error?.message ?? t('errors.unexpected') });
+        }
+      } finally {
+        setForgettingId(null);
+      }
+    },
+    [t, queryClient],
+  );
+
+  const renderUsageWindow = (label: string, window: UsageQuotaWindow) => (
+    <div key={label} className="p-4">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-slate-800">{label}</span>
+        <span className="text-sm text-slate-600">
+          {t('settings.usageRemaining', { remaining: window.remaining, limit: window.limit })}
+        </span>
+      </div>
+      <div className="mt-2 h-2 rounded-full bg-slate-100 overflow-hidden">
+        <div
+          className={`h-full rounded-full ${window.remaining === 0 ? 'bg-red-500' : 'bg-blue-500'}`}
+          style={{ width: `${Math.min((window.used / window.limit) * 100, 100)}%` }}
+        />
+      </div>
+      <p className="mt-1 text-xs text-slate-400">
+        {t('settings.usageResets', {
+          time: new Date(window.resetsAt).toLocaleString(locale, {
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+          }),
+        })}
+      </p>
+    </div>
+  );
+
   const handleSignOut = useCallback(() => {
     signOut({ callbackUrl: '/' });
   }, []);
@@ -167,6 +333,220 @@ export default function SettingsPage() {
           </div>
         </section>
 
+        {/* Language Section */}
+        <section className="bg-white rounded-2xl shadow-sm overflow-hidden">
+          <div className="px-4 py-3 border-b border-slate-100">
+            <h2 className="text-sm font-medium text-slate-500">{t('settings.languageSection')}</h2>
+          </div>
+
+          <div className="p-4 flex items-center justify-between gap-4">
+            <div>
+              <label htmlFor="locale-select" className="font-medium text-slate-800">
+                {t('settings.languageLabel')}
+              </label>
+              <p className="text-sm text-slate-500">{t('settings.languageHint')}</p>
+            </div>
+            <select
+              id="locale-select"
+              value={locale}
+              onChange={(e) => {
+                if (isSupportedLocale(e.target.value)) {
+                  setLocale(e.target.value);
+                }
+              }}
+              className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              {SUPPORTED_LOCALES.map((option) => (
+                <option key={option} value={option}>
+                  {LOCALE_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </section>
+
+        {/* Reference Object Section */}
+        <section className="bg-white rounded-2xl shadow-sm overflow-hidden">
+          <div className="px-4 py-3 border-b border-slate-100">
+            <h2 className="text-sm font-medium text-slate-500">{t('settings.referenceSection')}</h2>
+          </div>
+
+          <div className="p-4 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <label htmlFor="reference-select" className="font-medium text-slate-800">
+                  {t('settings.referenceLabel')}
+                </label>
+                <p className="text-sm text-slate-500">{t('settings.referenceHint')}</p>
+              </div>
+              <select
+                id="reference-select"
+                value={referenceObject?.type ?? ''}
+                onChange={(e) => handleReferenceTypeChange(e.target.value)}
+                className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              >
+                <option value="">{t('settings.referenceNone')}</option>
+                {REFERENCE_OBJECT_TYPES.map((type: ReferenceObjectType) => (
+                  <option key={type} value={type}>
+                    {t(`settings.referenceTypes.${type}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {referenceObject && !FIXED_SIZE_REFERENCE_TYPES.includes(referenceObject.type) && (
+              <div className="flex items-center justify-between gap-4">
+                <label htmlFor="reference-size" className="text-sm text-slate-700">
+                  {t(`settings.referenceSizeLabels.${referenceObject.type}`)}
+                </label>
+                <div className="flex items-center gap-2">
+                  <input
+                    id="reference-size"
+                    type="number"
+                    inputMode="decimal"
+                    min={MIN_REFERENCE_SIZE_CM}
+                    max={MAX_REFERENCE_SIZE_CM}
+                    step="0.5"
+                    value={referenceSizeInput}
+                    onChange={(e) => setReferenceSizeInput(e.target.value)}
+                    onBlur={handleReferenceSizeCommit}
+                    className="w-20 rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-800 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-slate-500">cm</span>
+                </div>
+              </div>
+            )}
+          </div>
+        </section>
+
+        {/* Allergen Section */}
+        <section className="bg-white rounded-2xl shadow-sm overflow-hidden">
+          <div className="px-4 py-3 border-b border-slate-100">
+            <h2 className="text-sm font-medium text-slate-500">{t('allergens.settingsSection')}</h2>
+          </div>
+
+          <div className="p-4">
+            <p className="text-sm text-slate-500">{t('allergens.settingsHint')}</p>
+            <div className="mt-3 flex flex-wrap gap-2">
+              {ALLERGENS.map((allergen) => {
+                const selected = allergenProfile.includes(allergen);
+                return (
+                  <button
+                    key={allergen}
+                    type="button"
+                    aria-pressed={selected}
+                    onClick={() => void handleToggleAllergen(allergen)}
+                    className={`rounded-full border px-3 py-1.5 text-sm ${
+                      selected
+                        ? 'border-red-300 bg-red-50 text-red-700'
+                        : 'border-slate-200 bg-white text-slate-600 hover:bg-slate-50'
+                    }`}
+                  >
+                    {t(`allergens.names.${allergen}`)}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        </section>
+
+        {/* Learned Corrections Section */}
+        <section className="bg-white rounded-2xl shadow-sm overflow-hidden">
+          <div className="px-4 py-3 border-b border-slate-100 flex items-center justify-between">
+            <h2 className="text-sm font-medium text-slate-500">{t('settings.learnedSection')}</h2>
+            {corrections.length > 0 && (
+              <button
+                onClick={() => handleForgetCorrections()}
+                disabled={forgettingId !== null}
+                className="text-sm text-red-600 hover:text-red-700 font-medium disabled:opacity-50"
+              >
+                {forgettingId === 'all' ? '...' : t('settings.learnedClear')}
+              </button>
+            )}
+          </div>
+
+          {!isSignedIn ? (
+            <p className="p-4 text-sm text-slate-500">{t('settings.learnedSignIn')}</p>
+          ) : isLoadingCorrections ? (
+            <div className="p-4 animate-pulse space-y-2">
+              <div className="h-4 bg-slate-100 rounded w-40" />
+              <div className="h-3 bg-slate-50 rounded w-24" />
+            </div>
+          ) : corrections.length === 0 ? (
+            <p className="p-4 text-sm text-slate-500">{t('settings.learnedEmpty')}</p>
+          ) : (
+            <>
+              <p className="px-4 pt-3 text-sm text-slate-500">{t('settings.learnedDescription')}</p>
+              <ul className="divide-y divide-slate-50">
+                {corrections.map((correction) => (
+                  <li key={correction.id} className="p-4 flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-slate-800 truncate">
+                        {correction.recognizedName === correction.correctedName
+                          ? correction.correctedName
+                          : `${correction.recognizedName} → ${correction.correctedName}`}
+                      </p>
+                      <p className="text-sm text-slate-500">
+                        {[
+                          correction.portionSize != null &&
+                            t('settings.learnedPortion', {
+                              portion:
+                                `${correction.portionSize} ${correction.portionUnit ?? ''}`.trim(),
+                            }),
+                          t('settings.learnedCount', { count: correction.count }),
+                        ]
+                          .filter(Boolean)
+                          .join(' · ')}
+                        {correction.count >= MIN_CORRECTION_COUNT && (
+                          <span className="ml-2 px-1.5 py-0.5 rounded bg-green-50 text-xs text-green-700">
+                            {t('settings.learnedActive')}
+                          </span>
+                        )}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleForgetCorrections(correction.id)}
+                      disabled={forgettingId !== null}
+                      className="px-3 py-1.5 text-sm text-slate-500 hover:text-red-600 disabled:opacity-50"
+                    >
+                      {forgettingId === correction.id ? '...' : t('settings.learnedForget')}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </section>
+
+        {/* AI Usage Section */}
+        <section className="bg-white rounded-2xl shadow-sm overflow-hidden">
+          <div className="px-4 py-3 border-b border-slate-100">
+            <h2 className="text-sm font-medium text-slate-500">{t('settings.usageSection')}</h2>
+          </div>
+
+          {isLoadingUsage ? (
+            <div className="p-4 animate-pulse space-y-2">
+              <div className="h-4 bg-slate-100 rounded w-40" />
+              <div className="h-2 bg-slate-50 rounded" />
+            </div>
+          ) : !usageQuota ? (
+            <p className="p-4 text-sm text-slate-500">
+              {usageResult?.error?.message ?? t('errors.usageUnavailable')}
+            </p>
+          ) : !usageQuota.daily && !usageQuota.monthly ? (
+            <p className="p-4 text-sm text-slate-500">{t('settings.usageUnlimited')}</p>
+          ) : (
+            <>
+              <p className="px-4 pt-3 text-sm text-slate-500">{t('settings.usageDescription')}</p>
+              <div className="divide-y divide-slate-50">
+                {usageQuota.daily && renderUsageWindow(t('settings.usageDaily'), usageQuota.daily)}
+                {usageQuota.monthly &&
+                  renderUsageWindow(t('settings.usageMonthly'), usageQuota.monthly)}
+              </div>
+            </>
+          )}
+        </section>
+
         {/* Privacy Section */}
         <section className="bg-white rounded-2xl shadow-sm overflow-hidden">
           <div className="px-4 py-3 border-b border-slate-100">
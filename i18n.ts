@@ -2,19 +2,22 @@
  * next-intl Configuration
  * Based on Spec 003 - Multi-item Recognition i18n Scaffold
  *
- * Simplified configuration for single locale (zh-TW).
- * No middleware needed since we only support one locale.
+ * Locales come from SUPPORTED_LOCALES; the active one is the locale saved by
+ * the settings language switcher (no locale-prefixed routes, so no middleware).
  */
 
+import { cookies } from 'next/headers';
 import { getRequestConfig } from 'next-intl/server';
+import { LOCALE_COOKIE, resolveLocale } from './lib/i18n/locale-preference';
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES, type SupportedLocale } from './types/recognition';
 
-export const locales = ['zh-TW'] as const;
-export type Locale = (typeof locales)[number];
-export const defaultLocale: Locale = 'zh-TW';
+export const locales = SUPPORTED_LOCALES;
+export type Locale = SupportedLocale;
+export const defaultLocale: Locale = DEFAULT_LOCALE;
 
 export default getRequestConfig(async () => {
-  // Always use zh-TW for now (single locale support)
-  const locale = defaultLocale;
+  const cookieStore = await cookies();
+  const locale = resolveLocale(cookieStore.get(LOCALE_COOKIE)?.value);
 
   return {
     locale,
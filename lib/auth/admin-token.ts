@@ -0,0 +1,27 @@
+/**
+ * Admin Token Check (server-side)
+ *
+ * Operator endpoints (e.g. nutrition cache invalidation) are called with
+ * `Authorization: Bearer <ADMIN_API_TOKEN>`. Without ADMIN_API_TOKEN they
+ * are disabled.
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+
+export function isAdminTokenConfigured(): boolean {
+  return Boolean(process.env.ADMIN_API_TOKEN);
+}
+
+/**
+ * Whether the request carries the admin token (compared in constant time).
+ */
+export function hasAdminToken(request: Request): boolean {
+  const token = process.env.ADMIN_API_TOKEN;
+  const header = request.headers.get('authorization');
+  if (!token || !header?.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(header.slice('Bearer '.length).trim()), digest(token));
+}
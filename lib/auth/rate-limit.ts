@@ -14,15 +14,23 @@ export interface RateLimitResult {
 
 const rateLimitMap = new Map<string, RateLimitRecord>();
 
+/**
+ * Client IP address from the proxy headers, or "unknown".
+ */
+export function getClientIp(request: Request): string {
+  return (
+    request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+    request.headers.get('x-real-ip') ||
+    'unknown'
+  );
+}
+
 export function rateLimit(
   request: NextRequest,
   maxRequests = 5,
   windowMs = 60_000,
 ): RateLimitResult {
-  const ip =
-    request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
-    request.headers.get('x-real-ip') ||
-    'unknown';
+  const ip = getClientIp(request);
   const now = Date.now();
   const record = rateLimitMap.get(ip);
 
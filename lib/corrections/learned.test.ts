@@ -0,0 +1,82 @@
+/**
+ * Learned corrections: applying them to recognized items and detecting the
+ * corrections to record on save.
+ *
+ * Run: npm test
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { LearnedCorrection } from '@/types/correction';
+import {
+  MIN_CORRECTION_COUNT,
+  applyLearnedCorrection,
+  createRecognizedOrigin,
+  detectFoodCorrection,
+  indexFrequentCorrections,
+} from './learned';
+
+function learned(overrides: Partial<LearnedCorrection> = {}): LearnedCorrection {
+  return {
+    id: 'c1',
+    recognizedName: '麵',
+    correctedName: '牛肉麵',
+    portionSize: 1,
+    portionUnit: '碗',
+    count: MIN_CORRECTION_COUNT,
+    updatedAt: '2026-10-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const recognizedItem = { id: 'item-1', foodName: '麵', portionSize: 200, portionUnit: 'g' };
+
+describe('applying a learned correction', () => {
+  const index = indexFrequentCorrections([learned()]);
+
+  it('does not record a new correction when the applied one is kept', () => {
+    const shown = applyLearnedCorrection(recognizedItem, index);
+    assert.equal(shown.foodName, '牛肉麵');
+
+    const origin = createRecognizedOrigin(recognizedItem, shown);
+    assert.equal(detectFoodCorrection(origin, shown), null);
+  });
+
+  it('records further edits against the recognized name', () => {
+    const shown = applyLearnedCorrection(recognizedItem, index);
+    const origin = createRecognizedOrigin(recognizedItem, shown);
+
+    assert.deepEqual(detectFoodCorrection(origin, { ...shown, foodName: '牛肉湯麵' }), {
+      recognizedName: '麵',
+      correctedName: '牛肉湯麵',
+      portionSize: 1,
+      portionUnit: '碗',
+    });
+  });
+
+  it('ignores corrections made fewer than MIN_CORRECTION_COUNT times', () => {
+    const rare = indexFrequentCorrections([learned({ count: MIN_CORRECTION_COUNT - 1 })]);
+    assert.equal(applyLearnedCorrection(recognizedItem, rare), recognizedItem);
+  });
+});
+
+describe('detectFoodCorrection', () => {
+  const origin = createRecognizedOrigin(recognizedItem, recognizedItem);
+
+  it('returns null when the recognized item is saved unchanged', () => {
+    assert.equal(detectFoodCorrection(origin, recognizedItem), null);
+  });
+
+  it('detects renames and portion changes', () => {
+    assert.deepEqual(detectFoodCorrection(origin, { ...recognizedItem, foodName: ' 湯麵 ' }), {
+      recognizedName: '麵',
+      correctedName: '湯麵',
+    });
+    assert.deepEqual(detectFoodCorrection(origin, { ...recognizedItem, portionSize: 300 }), {
+      recognizedName: '麵',
+      correctedName: '麵',
+      portionSize: 300,
+      portionUnit: 'g',
+    });
+  });
+});
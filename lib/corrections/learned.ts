@@ -0,0 +1,197 @@
+/**
+ * Learned Food Corrections
+ *
+ * Turns the corrections a user made to recognition results into aliases
+ * (recognized name → the name and portion they usually save) and prompt hints.
+ * Shared by the client (aliasing, detecting corrections on save) and the
+ * server (hints for the recognition prompt).
+ */
+
+import type { FoodCorrection, LearnedCorrection } from '@/types/correction';
+
+/**
+ * Times a user must make the same correction before it is applied automatically.
+ */
+export const MIN_CORRECTION_COUNT = 2;
+
+/**
+ * Most corrections sent to the model as hints, to keep the prompt short.
+ */
+export const MAX_CORRECTION_HINTS = 15;
+
+/**
+ * Longest food name or portion unit accepted in a correction.
+ */
+export const MAX_CORRECTION_TEXT_LENGTH = 100;
+
+/**
+ * Frequent corrections keyed by recognized name.
+ */
+export type LearnedCorrectionIndex = Map<string, LearnedCorrection>;
+
+/**
+ * A recognized item before the user edited it.
+ */
+export interface RecognizedOrigin {
+  recognizedName: string;
+  portionSize: number;
+  portionUnit: string;
+  applied?: { foodName: string; portionSize: number; portionUnit: string }; // After a learned correction
+}
+
+/**
+ * Index the corrections made at least MIN_CORRECTION_COUNT times. When one
+ * recognized name was corrected in several ways, the most frequent (then the
+ * most recent) correction wins.
+ */
+export function indexFrequentCorrections(corrections: LearnedCorrection[]): LearnedCorrectionIndex {
+  const index: LearnedCorrectionIndex = new Map();
+
+  for (const correction of corrections) {
+    if (correction.count < MIN_CORRECTION_COUNT) continue;
+
+    const current = index.get(correction.recognizedName);
+    if (
+      !current ||
+      correction.count > current.count ||
+      (correction.count === current.count && correction.updatedAt > current.updatedAt)
+    ) {
+      index.set(correction.recognizedName, correction);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Pick the corrections to send to the model, most frequent first.
+ */
+export function selectCorrectionHints(corrections: LearnedCorrection[]): FoodCorrection[] {
+  return Array.from(indexFrequentCorrections(corrections).values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_CORRECTION_HINTS)
+    .map(({ recognizedName, correctedName, portionSize, portionUnit }) => ({
+      recognizedName,
+      correctedName,
+      portionSize,
+      portionUnit,
+    }));
+}
+
+/**
+ * Replace a recognized item's name (and portion, when learned) with the user's usual one.
+ *
+ * @param item - Item mapped from a recognition result
+ * @param index - Frequent corrections of the user (none when signed out)
+ * @returns The item, corrected when the recognized name has a learned correction
+ */
+export function applyLearnedCorrection<
+  T extends { foodName: string; portionSize?: number; portionUnit?: string },
+>(item: T, index?: LearnedCorrectionIndex): T {
+  const learned = index?.get(item.foodName.trim());
+  if (!learned) {
+    return item;
+  }
+
+  const hasPortion = learned.portionSize !== undefined && learned.portionUnit !== undefined;
+  return {
+    ...item,
+    foodName: learned.correctedName,
+    ...(hasPortion ? { portionSize: learned.portionSize, portionUnit: learned.portionUnit } : {}),
+  };
+}
+
+/**
+ * Remember what recognition returned for an item, so the edits made before
+ * saving can be learned.
+ *
+ * @param item - Item mapped from a recognition result
+ * @param shown - The same item after applyLearnedCorrection
+ */
+export function createRecognizedOrigin(
+  item: { foodName: string; portionSize: number; portionUnit: string },
+  shown: { foodName: string; portionSize: number; portionUnit: string },
+): RecognizedOrigin {
+  return {
+    recognizedName: item.foodName,
+    portionSize: item.portionSize,
+    portionUnit: item.portionUnit,
+    ...(shown !== item
+      ? {
+          applied: {
+            foodName: shown.foodName,
+            portionSize: shown.portionSize,
+            portionUnit: shown.portionUnit,
+          },
+        }
+      : {}),
+  };
+}
+
+/**
+ * Compare a saved item with what recognition returned.
+ *
+ * @returns The correction, or null when the user kept the recognized name and portion
+ *   (or the learned correction applied to it)
+ */
+export function detectFoodCorrection(
+  origin: RecognizedOrigin,
+  item: { foodName: string; portionSize: number; portionUnit: string },
+): FoodCorrection | null {
+  const correctedName = item.foodName.trim();
+  if (!correctedName) {
+    return null;
+  }
+
+  const portionUnit = item.portionUnit.trim();
+  const { applied } = origin;
+  if (
+    applied &&
+    correctedName === applied.foodName &&
+    item.portionSize === applied.portionSize &&
+    portionUnit === applied.portionUnit
+  ) {
+    return null;
+  }
+
+  const renamed = correctedName !== origin.recognizedName;
+  const portionChanged =
+    item.portionSize !== origin.portionSize || portionUnit !== origin.portionUnit;
+  if (!renamed && !portionChanged) {
+    return null;
+  }
+
+  return {
+    recognizedName: origin.recognizedName,
+    correctedName,
+    ...(portionChanged && portionUnit ? { portionSize: item.portionSize, portionUnit } : {}),
+  };
+}
+
+/**
+ * Whether a request body entry is a usable correction.
+ */
+export function isValidFoodCorrection(value: unknown): value is FoodCorrection {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const { recognizedName, correctedName, portionSize, portionUnit } = value as FoodCorrection;
+  const isName = (name: unknown) =>
+    typeof name === 'string' &&
+    name.trim().length > 0 &&
+    name.trim().length <= MAX_CORRECTION_TEXT_LENGTH;
+
+  if (!isName(recognizedName) || !isName(correctedName)) {
+    return false;
+  }
+  if (portionSize === undefined && portionUnit === undefined) {
+    return true;
+  }
+  return (
+    typeof portionSize === 'number' &&
+    Number.isFinite(portionSize) &&
+    portionSize > 0 &&
+    isName(portionUnit)
+  );
+}
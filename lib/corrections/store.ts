@@ -0,0 +1,134 @@
+/**
+ * Food Correction Store (server-side)
+ *
+ * Reads and writes the per-user food_corrections table. Saving the same
+ * correction again increments its count instead of adding a row. Corrections of
+ * items from a known prompt version are also logged in correction_events.
+ */
+
+import { auth } from '@/auth';
+import { prisma } from '@/lib/db/prisma/client';
+import { selectCorrectionHints } from './learned';
+import type { CorrectionSource, FoodCorrection, LearnedCorrection } from '@/types/correction';
+
+interface FoodCorrectionRecord {
+  id: string;
+  recognizedName: string;
+  correctedName: string;
+  portionSize: number | null;
+  portionUnit: string | null;
+  count: number;
+  updatedAt: Date;
+}
+
+function toLearnedCorrection(record: FoodCorrectionRecord): LearnedCorrection {
+  return {
+    id: record.id,
+    recognizedName: record.recognizedName,
+    correctedName: record.correctedName,
+    portionSize: record.portionSize ?? undefined,
+    portionUnit: record.portionUnit ?? undefined,
+    count: record.count,
+    updatedAt: record.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * List a user's corrections, most frequent first.
+ */
+export async function listFoodCorrections(userId: string): Promise<LearnedCorrection[]> {
+  const records = await prisma.foodCorrection.findMany({
+    where: { userId },
+    orderBy: [{ count: 'desc' }, { updatedAt: 'desc' }],
+  });
+  return records.map(toLearnedCorrection);
+}
+
+/**
+ * Record the corrections of one saved meal. Each distinct correction counts once per meal.
+ *
+ * @param source - Prompt version and meal of the corrected items, when known
+ * @returns Number of corrections written
+ */
+export async function recordFoodCorrections(
+  userId: string,
+  corrections: FoodCorrection[],
+  source: CorrectionSource = {},
+): Promise<number> {
+  const unique = new Map<string, FoodCorrection>();
+  for (const correction of corrections) {
+    const recognizedName = correction.recognizedName.trim();
+    const correctedName = correction.correctedName.trim();
+    unique.set(`${recognizedName}\n${correctedName}`, {
+      ...correction,
+      recognizedName,
+      correctedName,
+    });
+  }
+  if (unique.size === 0) return 0;
+
+  const { promptVersion, mealId } = source;
+  await prisma.$transaction([
+    ...Array.from(unique.values()).map(
+      ({ recognizedName, correctedName, portionSize, portionUnit }) => {
+        const portion =
+          portionSize !== undefined && portionUnit ? { portionSize, portionUnit } : {};
+        return prisma.foodCorrection.upsert({
+          where: {
+            userId_recognizedName_correctedName: { userId, recognizedName, correctedName },
+          },
+          create: { userId, recognizedName, correctedName, ...portion },
+          update: { count: { increment: 1 }, ...portion },
+        });
+      },
+    ),
+    ...(promptVersion
+      ? [
+          prisma.correctionEvent.createMany({
+            data: Array.from(unique.values()).map(({ recognizedName, correctedName }) => ({
+              userId,
+              mealId: mealId ?? null,
+              promptVersion,
+              recognizedName,
+              correctedName,
+            })),
+          }),
+        ]
+      : []),
+  ]);
+  return unique.size;
+}
+
+/**
+ * Delete one correction, or all of a user's corrections when no id is given.
+ *
+ * @returns Number of corrections deleted
+ */
+export async function deleteFoodCorrections(userId: string, id?: string): Promise<number> {
+  const result = await prisma.foodCorrection.deleteMany({
+    where: { userId, ...(id ? { id } : {}) },
+  });
+  return result.count;
+}
+
+/**
+ * Prompt hints for the signed-in user, if any.
+ *
+ * Failures are logged and treated as "no hints", so personalization never fails a recognition.
+ */
+export async function getSessionCorrectionHints(): Promise<FoodCorrection[]> {
+  if (!process.env.DATABASE_URL) {
+    return [];
+  }
+
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return [];
+    }
+    return selectCorrectionHints(await listFoodCorrections(session.user.id));
+  } catch (error) {
+    console.warn('Failed to load food corrections:', error);
+    return [];
+  }
+}
@@ -7,13 +7,16 @@
  * - photos: Photo blobs stored separately
  * - nutritionCache: Cached nutrition data from API
  * - consent: User consent for cloud recognition
+ * - preferences: Device preferences (e.g. the recognition reference object, allergen profile)
  */
 
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
 import type { Meal, Photo, CachedNutritionData, CloudRecognitionConsent } from '@/types/meal';
+import { ALLERGENS, isAllergen, type Allergen, type ReferenceObject } from '@/types/recognition';
+import { parseReferenceObject } from '@/lib/recognition/reference-object';
 
 const DB_NAME = 'CalSeeMeals';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 
 /**
  * IndexedDB Schema Definition
@@ -80,6 +83,14 @@ interface CalSeeDB extends DBSchema {
       timestamp: string;
     };
   };
+  preferences: {
+    key: string;
+    value: {
+      key: string;
+      value: unknown;
+      updatedAt: string;
+    };
+  };
 }
 
 let dbInstance: IDBPDatabase<CalSeeDB> | null = null;
@@ -115,6 +126,11 @@ export async function openDatabase(): Promise<IDBPDatabase<CalSeeDB>> {
       if (!db.objectStoreNames.contains('consent')) {
         db.createObjectStore('consent', { keyPath: 'type' });
       }
+
+      // Create preferences object store (added in version 2)
+      if (!db.objectStoreNames.contains('preferences')) {
+        db.createObjectStore('preferences', { keyPath: 'key' });
+      }
     },
   });
 
@@ -328,6 +344,58 @@ export async function withdrawCloudRecognitionConsent(): Promise<void> {
   await db.delete('consent', CONSENT_TYPE_CLOUD_RECOGNITION);
 }
 
+// ============ Preference Operations ============
+
+const PREFERENCE_REFERENCE_OBJECT = 'reference_object';
+const PREFERENCE_ALLERGEN_PROFILE = 'allergen_profile';
+
+/**
+ * Get the reference object used to scale portions in recognition photos.
+ */
+export async function getReferenceObject(): Promise<ReferenceObject | undefined> {
+  const db = await openDatabase();
+  const record = await db.get('preferences', PREFERENCE_REFERENCE_OBJECT);
+  return parseReferenceObject(record?.value);
+}
+
+/**
+ * Save the reference object, or clear it with null.
+ */
+export async function saveReferenceObject(referenceObject: ReferenceObject | null): Promise<void> {
+  const db = await openDatabase();
+  if (!referenceObject) {
+    await db.delete('preferences', PREFERENCE_REFERENCE_OBJECT);
+    return;
+  }
+  await db.put('preferences', {
+    key: PREFERENCE_REFERENCE_OBJECT,
+    value: referenceObject,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Get the allergens the user wants to be warned about, in ALLERGENS order.
+ */
+export async function getAllergenProfile(): Promise<Allergen[]> {
+  const db = await openDatabase();
+  const record = await db.get('preferences', PREFERENCE_ALLERGEN_PROFILE);
+  const saved = Array.isArray(record?.value) ? record.value.filter(isAllergen) : [];
+  return ALLERGENS.filter((allergen) => saved.includes(allergen));
+}
+
+/**
+ * Save the allergens the user wants to be warned about.
+ */
+export async function saveAllergenProfile(allergens: Allergen[]): Promise<void> {
+  const db = await openDatabase();
+  await db.put('preferences', {
+    key: PREFERENCE_ALLERGEN_PROFILE,
+    value: ALLERGENS.filter((allergen) => allergens.includes(allergen)),
+    updatedAt: new Date().toISOString(),
+  });
+}
+
 // ============ Storage Management ============
 
 /**
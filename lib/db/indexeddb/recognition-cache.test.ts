@@ -0,0 +1,49 @@
+/**
+ * Local recognition cache: keys built from the photos, locale and mode, and
+ * which cached results still match the server's prompt version.
+ *
+ * Run: npm test
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildRecognitionCacheKey, isCurrentPromptVersion } from './recognition-cache';
+
+const soup = new Blob([new Uint8Array([1, 2, 3])], { type: 'image/jpeg' });
+const rice = new Blob([new Uint8Array([4, 5, 6])], { type: 'image/jpeg' });
+
+describe('buildRecognitionCacheKey', () => {
+  it('returns the same key for the same photos, locale and mode', async () => {
+    const key = await buildRecognitionCacheKey([soup, rice], 'zh-TW');
+    assert.match(key, /^[0-9a-f]{64}$/);
+    assert.equal(await buildRecognitionCacheKey([soup, rice], 'zh-TW'), key);
+  });
+
+  it('depends on the photo order', async () => {
+    assert.notEqual(
+      await buildRecognitionCacheKey([soup, rice], 'zh-TW'),
+      await buildRecognitionCacheKey([rice, soup], 'zh-TW'),
+    );
+  });
+
+  it('depends on the locale and recognition mode', async () => {
+    const key = await buildRecognitionCacheKey([soup], 'zh-TW');
+    assert.notEqual(await buildRecognitionCacheKey([soup], 'en'), key);
+    assert.notEqual(await buildRecognitionCacheKey([soup], 'zh-TW', 'ensemble'), key);
+  });
+});
+
+describe('isCurrentPromptVersion', () => {
+  it('accepts a result of the newest cached prompt version', () => {
+    assert.equal(isCurrentPromptVersion({ promptVersion: 'v4' }, { promptVersion: 'v4' }), true);
+  });
+
+  it('rejects a result of an older prompt version', () => {
+    assert.equal(isCurrentPromptVersion({ promptVersion: 'v3' }, { promptVersion: 'v4' }), false);
+  });
+
+  it('rejects a result cached without a prompt version', () => {
+    assert.equal(isCurrentPromptVersion({}, {}), false);
+    assert.equal(isCurrentPromptVersion({}, undefined), false);
+  });
+});
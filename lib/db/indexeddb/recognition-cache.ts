@@ -0,0 +1,135 @@
+import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
+import type { MultiItemRecognitionResponse } from '@/types/recognition';
+
+interface RecognitionCacheRecord {
+  cacheKey: string;
+  data: MultiItemRecognitionResponse;
+  promptVersion?: string; // Version the server recognized with (missing in old entries)
+  cachedTimestamp: number;
+  expirationTimestamp: number;
+}
+
+interface RecognitionCacheSchema extends DBSchema {
+  recognitionCache: {
+    key: string;
+    value: RecognitionCacheRecord;
+    indexes: { cachedTimestamp: number };
+  };
+}
+
+const DB_NAME = 'CalSeeRecognitionCache';
+const STORE_NAME = 'recognitionCache';
+const DB_VERSION = 1;
+const MAX_ENTRIES = 20;
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export async function openRecognitionCacheDB(): Promise<IDBPDatabase<RecognitionCacheSchema>> {
+  return openDB<RecognitionCacheSchema>(DB_NAME, DB_VERSION, {
+    upgrade(db) {
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'cacheKey' });
+        store.createIndex('cachedTimestamp', 'cachedTimestamp');
+      }
+    },
+  });
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Build a cache key from the image bytes (in order), locale and recognition
+ * mode (e.g. "ensemble"). The prompt version is not known before the server
+ * answers, so it is stored with the result instead (see getCachedRecognition).
+ */
+export async function buildRecognitionCacheKey(
+  images: Blob[],
+  locale: string,
+  mode?: string,
+): Promise<string> {
+  const imageHashes = await Promise.all(
+    images.map(async (image) =>
+      toHex(await crypto.subtle.digest('SHA-256', await image.arrayBuffer())),
+    ),
+  );
+  const scope = mode ? `${locale}|${mode}` : locale;
+  const payload = new TextEncoder().encode(`${scope}|${imageHashes.join(',')}`);
+  return toHex(await crypto.subtle.digest('SHA-256', payload));
+}
+
+/**
+ * Whether a cached result was recognized with the prompt version the server
+ * uses now, i.e. the version of the newest cached result (every fresh result
+ * is cached). Results of another prompt version or A/B arm are not served.
+ */
+export function isCurrentPromptVersion(
+  record: Pick<RecognitionCacheRecord, 'promptVersion'>,
+  newest: Pick<RecognitionCacheRecord, 'promptVersion'> | undefined,
+): boolean {
+  return record.promptVersion !== undefined && record.promptVersion === newest?.promptVersion;
+}
+
+export async function getCachedRecognition(
+  cacheKey: string,
+): Promise<MultiItemRecognitionResponse | null> {
+  const db = await openRecognitionCacheDB();
+  const record = await db.get(STORE_NAME, cacheKey);
+
+  if (!record) {
+    return null;
+  }
+
+  if (record.expirationTimestamp <= Date.now()) {
+    await db.delete(STORE_NAME, cacheKey);
+    return null;
+  }
+
+  const newest = await db
+    .transaction(STORE_NAME)
+    .store.index('cachedTimestamp')
+    .openCursor(null, 'prev');
+  return isCurrentPromptVersion(record, newest?.value) ? record.data : null;
+}
+
+export async function cacheRecognition(
+  cacheKey: string,
+  data: MultiItemRecognitionResponse,
+  ttlMs = DEFAULT_TTL_MS,
+): Promise<void> {
+  const db = await openRecognitionCacheDB();
+  const now = Date.now();
+
+  await db.put(STORE_NAME, {
+    cacheKey,
+    data,
+    promptVersion: data.promptVersion,
+    cachedTimestamp: now,
+    expirationTimestamp: now + ttlMs,
+  });
+
+  // Keep only the most recent entries
+  const count = await db.count(STORE_NAME);
+  if (count > MAX_ENTRIES) {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    let remaining = count - MAX_ENTRIES;
+    let cursor = await tx.store.index('cachedTimestamp').openCursor();
+    while (cursor && remaining > 0) {
+      await cursor.delete();
+      remaining -= 1;
+      cursor = await cursor.continue();
+    }
+    await tx.done;
+  }
+}
+
+/**
+ * Forget all cached results, e.g. once the user's learned corrections (sent
+ * to the model as prompt hints) have changed.
+ */
+export async function clearRecognitionCache(): Promise<void> {
+  const db = await openRecognitionCacheDB();
+  await db.clear(STORE_NAME);
+}
@@ -0,0 +1,91 @@
+/**
+ * Chinese Food Name Normalization
+ *
+ * Food names arrive in Traditional (recognition in zh-TW) or Simplified
+ * Chinese (some providers, user input), with stray spaces, punctuation and
+ * full-width characters. Names are folded to one search form so both
+ * variants match the same food composition row.
+ *
+ * Traditional characters are folded to Simplified: the conversion is
+ * many-to-one (麵/面 → 面, 乾/干 → 干), so it never has to guess. Only
+ * characters common in food names are covered.
+ */
+
+/**
+ * Traditional → Simplified pairs, two characters per entry.
+ */
+const TRADITIONAL_SIMPLIFIED_PAIRS = [
+  // Staples and dishes
+  '麵面麪面飯饭湯汤餅饼餃饺饅馒麥麦糰团團团麩麸穀谷糧粮蕎荞餡馅餛馄飩饨',
+  '餑饽餌饵捲卷麯曲餚肴貢贡籠笼燈灯',
+  // Meat, seafood and eggs
+  '雞鸡豬猪鴨鸭鵝鹅鴿鸽鵪鹌鶉鹑驢驴馬马魚鱼蝦虾蠔蚝蠣蛎鮭鲑鯖鲭鱈鳕鰻鳗鮪鲔',
+  '鯛鲷鱸鲈鯉鲤鰱鲢鱔鳝鰹鲣鯧鲳鯊鲨鱒鳟魷鱿鮑鲍參参貝贝蟶蛏蝸蜗鱉鳖龜龟蠶蚕',
+  '腸肠臟脏腎肾膽胆腳脚頭头裡里裏里',
+  // Vegetables, fruit and nuts
+  '蘿萝蔔卜蔥葱薑姜筍笋蘆芦薈荟萵莴薺荠莧苋葉叶莖茎莢荚鬚须蓮莲蘋苹鳳凤棗枣',
+  '櫻樱檸柠檳槟楊杨龍龙異异實实堅坚',
+  // Cooking and seasoning
+  '醬酱滷卤燒烧燉炖燜焖燴烩醃腌燻熏臘腊鹹咸鮮鲜鹽盐釀酿漿浆濃浓熱热凍冻涼凉',
+  '乾干發发鍋锅爐炉醣糖飲饮',
+  // Descriptions
+  '紅红綠绿黃黄藍蓝條条絲丝塊块顆颗盤盘雙双無无軟软鬆松類类種种雜杂帶带蓋盖',
+  '廣广東东義义韓韩蘭兰臺台灣湾麼么樂乐聖圣誕诞',
+  // Nutrients
+  '鐵铁鈣钙鉀钾鈉钠維维養养',
+].join('');
+
+const TRADITIONAL_TO_SIMPLIFIED = new Map<string, string>();
+for (let i = 0; i + 1 < TRADITIONAL_SIMPLIFIED_PAIRS.length; i += 2) {
+  TRADITIONAL_TO_SIMPLIFIED.set(
+    TRADITIONAL_SIMPLIFIED_PAIRS[i],
+    TRADITIONAL_SIMPLIFIED_PAIRS[i + 1],
+  );
+}
+
+/**
+ * Whitespace and punctuation dropped from search names.
+ */
+const IGNORED_CHARACTERS = /[\s\p{P}\p{S}]/gu;
+
+/**
+ * Fold a food name to its search form: NFKC, lower case, no spaces or
+ * punctuation, Traditional characters folded to Simplified.
+ *
+ * @example normalizeFoodName('牛肉 麵（清燉）') === normalizeFoodName('牛肉面(清炖)')
+ */
+export function normalizeFoodName(name: string): string {
+  return Array.from(name.normalize('NFKC').toLowerCase().replace(IGNORED_CHARACTERS, ''))
+    .map((char) => TRADITIONAL_TO_SIMPLIFIED.get(char) ?? char)
+    .join('');
+}
+
+/**
+ * Character bigrams of a search name (the name itself when shorter than two characters).
+ */
+export function toBigrams(searchName: string): string[] {
+  const chars = Array.from(searchName);
+  if (chars.length < 2) return chars.length === 1 ? [searchName] : [];
+  return chars.slice(0, -1).map((char, index) => char + chars[index + 1]);
+}
+
+/**
+ * Dice similarity of two search names over their bigrams, from 0 to 1.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const bigramsA = toBigrams(a);
+  const bigramsB = toBigrams(b);
+  if (bigramsA.length === 0 || bigramsB.length === 0) return 0;
+
+  const remaining = [...bigramsB];
+  let shared = 0;
+  for (const bigram of bigramsA) {
+    const index = remaining.indexOf(bigram);
+    if (index !== -1) {
+      remaining.splice(index, 1);
+      shared++;
+    }
+  }
+  return (2 * shared) / (bigramsA.length + bigramsB.length);
+}
@@ -0,0 +1,202 @@
+/**
+ * Food Composition Store (server-side)
+ *
+ * Reads and writes the local food composition table (e.g. the Taiwan FDA
+ * dataset, see taiwan-fda.ts). Nutrition is stored per 100 g, like USDA
+ * results, so lookups are scaled the same way.
+ *
+ * Names are matched in their search form (see chinese-variants.ts): an exact
+ * name or common name first, then the most similar name by character bigrams.
+ */
+
+import { prisma } from '@/lib/db/prisma/client';
+import type { NutritionLabelValues } from '@/types/recognition';
+import { nameSimilarity, normalizeFoodName, toBigrams } from './chinese-variants';
+
+/**
+ * Nutrient columns of the table (MealItem field names and units, per 100 g).
+ */
+export type NutrientField =
+  | 'calories'
+  | 'protein'
+  | 'carbs'
+  | 'fat'
+  | 'fiber'
+  | 'sugar'
+  | 'saturatedFat'
+  | 'sodium'
+  | 'potassium'
+  | 'calcium'
+  | 'iron'
+  | 'vitaminA'
+  | 'vitaminC'
+  | 'vitaminD'
+  | 'vitaminB12'
+  | 'cholesterol';
+
+/**
+ * Food composition table row as imported.
+ */
+export interface FoodCompositionRecord extends Partial<Record<NutrientField, number | null>> {
+  id: string; // Food code in the dataset, e.g. 整合編號
+  name: string;
+  englishName?: string | null;
+  aliases: string[]; // Common names (俗名)
+  category?: string | null;
+  source: string; // Dataset, reported as `sourceDatabase`
+}
+
+/**
+ * A food matched to a looked-up name.
+ */
+export interface FoodCompositionMatch {
+  id: string;
+  name: string; // Name of the matched row
+  source: string;
+  similarity: number; // 1 for an exact (or common) name match
+  per100g: NutritionLabelValues;
+}
+
+/**
+ * Least similarity accepted for a fuzzy match.
+ */
+const MIN_FUZZY_SIMILARITY = 0.5;
+
+/**
+ * Similarity given to names that start with / contain the looked-up name
+ * ("雞腿" → "雞腿(去皮)"), which bigrams alone rate low for short names.
+ */
+const PREFIX_SIMILARITY = 0.75;
+const CONTAINS_SIMILARITY = 0.6;
+
+/**
+ * Bigrams used to fetch fuzzy candidates, and the candidates scored.
+ */
+const MAX_CANDIDATE_BIGRAMS = 8;
+const MAX_CANDIDATES = 200;
+
+interface StoredFoodComposition extends FoodCompositionRecord {
+  searchName: string;
+  searchAliases: string[];
+}
+
+/**
+ * Convert table columns to NutritionData field names, dropping missing values.
+ */
+function toNutritionValues(record: FoodCompositionRecord): NutritionLabelValues {
+  const values: NutritionLabelValues = {
+    calories: record.calories ?? undefined,
+    protein: record.protein ?? undefined,
+    carbohydrates: record.carbs ?? undefined,
+    fats: record.fat ?? undefined,
+    fiber: record.fiber ?? undefined,
+    sugar: record.sugar ?? undefined,
+    saturatedFat: record.saturatedFat ?? undefined,
+    sodium: record.sodium ?? undefined,
+    potassium: record.potassium ?? undefined,
+    calcium: record.calcium ?? undefined,
+    iron: record.iron ?? undefined,
+    vitaminA: record.vitaminA ?? undefined,
+    vitaminC: record.vitaminC ?? undefined,
+    vitaminD: record.vitaminD ?? undefined,
+    vitaminB12: record.vitaminB12 ?? undefined,
+    cholesterol: record.cholesterol ?? undefined,
+  };
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value != null),
+  ) as NutritionLabelValues;
+}
+
+function toMatch(record: StoredFoodComposition, similarity: number): FoodCompositionMatch {
+  return {
+    id: record.id,
+    name: record.name,
+    source: record.source,
+    similarity,
+    per100g: toNutritionValues(record),
+  };
+}
+
+/**
+ * Similarity of a row to the looked-up search name (best of its name and common names).
+ */
+function scoreCandidate(record: StoredFoodComposition, searchName: string): number {
+  return Math.max(
+    ...[record.searchName, ...record.searchAliases].map((name) => {
+      const similarity = nameSimilarity(searchName, name);
+      if (name.startsWith(searchName)) return Math.max(similarity, PREFIX_SIMILARITY);
+      if (name.includes(searchName)) return Math.max(similarity, CONTAINS_SIMILARITY);
+      return similarity;
+    }),
+  );
+}
+
+/**
+ * Find the food best matching a name (Traditional or Simplified Chinese, or English).
+ *
+ * @param foodName - Name to look up, e.g. a recognized item name
+ * @returns Best match, or null when nothing is similar enough
+ */
+export async function findFoodComposition(foodName: string): Promise<FoodCompositionMatch | null> {
+  const searchName = normalizeFoodName(foodName);
+  if (!searchName) return null;
+
+  const exact = (await prisma.foodComposition.findFirst({
+    where: { OR: [{ searchName }, { searchAliases: { has: searchName } }] },
+    orderBy: { id: 'asc' },
+  })) as StoredFoodComposition | null;
+  if (exact) return toMatch(exact, 1);
+
+  const bigrams = toBigrams(searchName).slice(0, MAX_CANDIDATE_BIGRAMS);
+  const candidates = (await prisma.foodComposition.findMany({
+    where: { OR: bigrams.map((bigram) => ({ searchName: { contains: bigram } })) },
+    take: MAX_CANDIDATES,
+  })) as StoredFoodComposition[];
+
+  let best: { record: StoredFoodComposition; similarity: number } | null = null;
+  for (const record of candidates) {
+    const similarity = scoreCandidate(record, searchName);
+    // Ties go to the shorter (more generic) name
+    if (
+      similarity >= MIN_FUZZY_SIMILARITY &&
+      (!best ||
+        similarity > best.similarity ||
+        (similarity === best.similarity &&
+          record.searchName.length < best.record.searchName.length))
+    ) {
+      best = { record, similarity };
+    }
+  }
+
+  return best ? toMatch(best.record, Math.round(best.similarity * 100) / 100) : null;
+}
+
+/**
+ * Insert or update a batch of foods in one transaction.
+ *
+ * @returns Number of foods written
+ */
+export async function upsertFoodCompositions(records: FoodCompositionRecord[]): Promise<number> {
+  if (records.length === 0) return 0;
+
+  await prisma.$transaction(
+    records.map(({ id, ...data }) => {
+      const row = {
+        ...data,
+        searchName: normalizeFoodName(data.name),
+        // English names only match exactly; USDA covers English lookups better
+        searchAliases: [
+          ...new Set(
+            [...data.aliases, data.englishName ?? ''].map(normalizeFoodName).filter(Boolean),
+          ),
+        ],
+      };
+      return prisma.foodComposition.upsert({
+        where: { id },
+        create: { id, ...row },
+        update: row,
+      });
+    }),
+  );
+  return records.length;
+}
@@ -0,0 +1,163 @@
+/**
+ * Taiwan FDA Food Composition Import Mapping
+ *
+ * Maps the Taiwan FDA food composition dataset (食品營養成分資料庫, open data
+ * CSV or JSON) to food composition table rows. The dataset is in long format:
+ * one row per food and analysis item (分析項), with the value per 100 g
+ * (每100克含量). Rows of one food share its code (整合編號) and are merged
+ * into a single record.
+ */
+
+import type { FoodCompositionRecord, NutrientField } from './store';
+
+/**
+ * Source stored with imported rows and reported as `sourceDatabase`.
+ */
+export const TAIWAN_FDA_SOURCE = 'Taiwan FDA Food Composition';
+
+/**
+ * Analysis items per field, in order of preference, with the factor to
+ * MealItem units. Item names are matched after normalizeItemName; the
+ * dataset already uses MealItem units (g, mg, μg) otherwise.
+ */
+const NUTRIENT_ITEMS: Array<[NutrientField, Array<[string, number]>]> = [
+  [
+    'calories',
+    [
+      ['修正熱量', 1],
+      ['熱量', 1],
+    ],
+  ],
+  ['protein', [['粗蛋白', 1]]],
+  ['carbs', [['總碳水化合物', 1]]],
+  ['fat', [['粗脂肪', 1]]],
+  ['fiber', [['膳食纖維', 1]]],
+  ['sugar', [['糖質總量', 1]]],
+  ['saturatedFat', [['飽和脂肪', 1]]],
+  ['sodium', [['鈉', 1]]],
+  ['potassium', [['鉀', 1]]],
+  ['calcium', [['鈣', 1]]],
+  ['iron', [['鐵', 1]]],
+  // μg RE; IU cannot be converted without knowing retinol vs. carotenoids
+  [
+    'vitaminA',
+    [
+      ['視網醇當量(re)', 1],
+      ['視網醇當量', 1],
+    ],
+  ],
+  ['vitaminC', [['維生素c', 1]]],
+  [
+    'vitaminD',
+    [
+      ['維生素d總量(ug)', 1],
+      ['維生素d總量(iu)', 1 / 40], // IU → μg
+    ],
+  ],
+  ['vitaminB12', [['維生素b12', 1]]],
+  ['cholesterol', [['膽固醇', 1]]],
+];
+
+/**
+ * Separators of the common names (俗名) column.
+ */
+const ALIAS_SEPARATOR = /[,，、;；/]/;
+
+function readString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function readNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? Number.parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) && number >= 0 ? number : undefined;
+}
+
+/**
+ * Normalize an analysis item name: no spaces, lower case, "μg" spelled "ug".
+ */
+function normalizeItemName(name: string): string {
+  return name.normalize('NFKC').replace(/\s/g, '').toLowerCase().replace(/[μµ]g/g, 'ug');
+}
+
+const ITEM_FIELDS = new Map<string, { field: NutrientField; priority: number; factor: number }>(
+  NUTRIENT_ITEMS.flatMap(([field, items]) =>
+    items.map(([name, factor], priority) => [name, { field, priority, factor }] as const),
+  ),
+);
+
+/**
+ * Merges the long-format rows of each food into one record.
+ */
+export interface TaiwanFdaRecordBuilder {
+  /**
+   * Add one dataset row (CSV row or JSON object keyed by column name).
+   *
+   * @returns false when the row has no food code or name
+   */
+  add(row: Record<string, unknown>): boolean;
+  /**
+   * Records with at least one nutrient, in dataset order.
+   */
+  build(): FoodCompositionRecord[];
+}
+
+/**
+ * Create a builder for one dataset file.
+ *
+ * @param source - Source stored with each row (reported as `sourceDatabase`)
+ */
+export function createTaiwanFdaRecordBuilder(
+  source: string = TAIWAN_FDA_SOURCE,
+): TaiwanFdaRecordBuilder {
+  const records = new Map<string, FoodCompositionRecord>();
+  // Preference of the analysis item each field was read from (lower wins)
+  const priorities = new Map<string, Map<NutrientField, number>>();
+
+  return {
+    add(row) {
+      const id = readString(row['整合編號']);
+      const name = readString(row['樣品名稱']);
+      if (!id || !name) return false;
+
+      let record = records.get(id);
+      if (!record) {
+        record = {
+          id,
+          name,
+          englishName: readString(row['樣品英文名稱']) ?? null,
+          aliases: (readString(row['俗名']) ?? '')
+            .split(ALIAS_SEPARATOR)
+            .map((alias) => alias.trim())
+            .filter((alias) => alias && alias !== name),
+          category: readString(row['食品分類']) ?? null,
+          source,
+        };
+        records.set(id, record);
+      }
+
+      // Some editions put the unit in the item name, others only in 含量單位
+      const itemName = readString(row['分析項']) ?? '';
+      const unit = readString(row['含量單位']);
+      const item =
+        ITEM_FIELDS.get(normalizeItemName(itemName)) ??
+        (unit ? ITEM_FIELDS.get(normalizeItemName(`${itemName}(${unit})`)) : undefined);
+      const value = readNumber(row['每100克含量']);
+      if (!item || value === undefined) return true;
+
+      const fieldPriorities = priorities.get(id) ?? new Map<NutrientField, number>();
+      priorities.set(id, fieldPriorities);
+      const current = fieldPriorities.get(item.field);
+      if (current === undefined || item.priority < current) {
+        record[item.field] = Math.round(value * item.factor * 100) / 100;
+        fieldPriorities.set(item.field, item.priority);
+      }
+      return true;
+    },
+
+    build() {
+      return [...records.values()].filter((record) =>
+        NUTRIENT_ITEMS.some(([field]) => record[field] != null),
+      );
+    },
+  };
+}
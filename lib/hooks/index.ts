@@ -1,2 +1,5 @@
 export { useModal } from './useModal';
 export { useKeyboardShortcut, useKeyboardShortcuts } from './useKeyboardShortcut';
+export { useLearnedCorrections, LEARNED_CORRECTIONS_QUERY_KEY } from './useLearnedCorrections';
+export { useUsageQuota, USAGE_QUOTA_QUERY_KEY } from './useUsageQuota';
+export { useAllergenProfile, ALLERGEN_PROFILE_QUERY_KEY } from './useAllergenProfile';
@@ -0,0 +1,26 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { getAllergenProfile } from '@/lib/db/indexeddb';
+import type { Allergen } from '@/types/recognition';
+
+/**
+ * React Query key of the allergen profile saved on this device.
+ */
+export const ALLERGEN_PROFILE_QUERY_KEY = ['allergenProfile'];
+
+const NO_ALLERGENS: Allergen[] = [];
+
+/**
+ * Hook for the allergens the user wants to be warned about (see settings).
+ * Returns no allergens while loading or when none are set.
+ */
+export function useAllergenProfile() {
+  const query = useQuery({
+    queryKey: ALLERGEN_PROFILE_QUERY_KEY,
+    queryFn: getAllergenProfile,
+    staleTime: Infinity, // Only changed from settings, which updates the cache
+  });
+
+  return { ...query, allergens: query.data ?? NO_ALLERGENS };
+}
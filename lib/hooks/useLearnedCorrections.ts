@@ -0,0 +1,34 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useSession } from 'next-auth/react';
+import { indexFrequentCorrections } from '@/lib/corrections/learned';
+import { fetchLearnedCorrections } from '@/lib/services/corrections';
+
+/**
+ * React Query key of the signed-in user's learned corrections.
+ */
+export const LEARNED_CORRECTIONS_QUERY_KEY = ['learnedCorrections'];
+
+/**
+ * Hook for the signed-in user's learned corrections.
+ * Returns no corrections when signed out.
+ */
+export function useLearnedCorrections() {
+  const { status } = useSession();
+  const isSignedIn = status === 'authenticated';
+  const query = useQuery({
+    queryKey: LEARNED_CORRECTIONS_QUERY_KEY,
+    queryFn: fetchLearnedCorrections,
+    enabled: isSignedIn,
+  });
+
+  const corrections = useMemo(
+    () => (query.data?.success ? (query.data.data ?? []) : []),
+    [query.data],
+  );
+  const index = useMemo(() => indexFrequentCorrections(corrections), [corrections]);
+
+  return { ...query, isSignedIn, corrections, index };
+}
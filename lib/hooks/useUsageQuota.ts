@@ -0,0 +1,21 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { fetchUsageQuota } from '@/lib/services/usage';
+
+/**
+ * React Query key of the caller's AI usage quota.
+ */
+export const USAGE_QUOTA_QUERY_KEY = ['usageQuota'];
+
+/**
+ * Hook for the caller's remaining AI call quota.
+ * Refetched on every mount, since each recognition uses quota.
+ */
+export function useUsageQuota() {
+  return useQuery({
+    queryKey: USAGE_QUOTA_QUERY_KEY,
+    queryFn: fetchUsageQuota,
+    staleTime: 0,
+  });
+}
@@ -1,27 +1,56 @@
 'use client';
 
-import { createContext, useContext, useMemo } from 'react';
-import { translate, type MessageVariables } from './translate';
+import { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { DEFAULT_LOCALE, type SupportedLocale } from '@/types/recognition';
+import { setActiveLocale, translate, type MessageVariables } from './translate';
+import { saveLocalePreference } from './locale-preference';
 
 interface I18nContextValue {
-  locale: string;
+  locale: SupportedLocale;
   t: (key: string, variables?: MessageVariables) => string;
+  setLocale: (locale: SupportedLocale) => void;
 }
 
 const I18nContext = createContext<I18nContextValue | null>(null);
 
 interface I18nProviderProps {
   children: React.ReactNode;
-  locale?: string;
+  locale?: SupportedLocale;
 }
 
-export default function I18nProvider({ children, locale = 'zh-TW' }: I18nProviderProps) {
+export default function I18nProvider({
+  children,
+  locale: initialLocale = DEFAULT_LOCALE,
+}: I18nProviderProps) {
+  const router = useRouter();
+  const [locale, setLocaleState] = useState<SupportedLocale>(initialLocale);
+
+  // Messages built outside components (services, validation) follow the UI locale.
+  // The server keeps its default so concurrent requests do not share a locale.
+  if (typeof window !== 'undefined') {
+    setActiveLocale(locale);
+  }
+
+  const setLocale = useCallback(
+    (nextLocale: SupportedLocale) => {
+      saveLocalePreference(nextLocale);
+      setActiveLocale(nextLocale);
+      document.documentElement.lang = nextLocale;
+      setLocaleState(nextLocale);
+      // Re-render server components (page title, layout fallbacks) in the new locale
+      router.refresh();
+    },
+    [router],
+  );
+
   const value = useMemo<I18nContextValue>(() => {
     return {
       locale,
-      t: (key, variables) => translate(key, variables),
+      t: (key, variables) => translate(key, variables, locale),
+      setLocale,
     };
-  }, [locale]);
+  }, [locale, setLocale]);
 
   return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
 }
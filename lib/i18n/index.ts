@@ -1,3 +1,9 @@
 export { default as I18nProvider, useI18n } from './I18nProvider';
-export { translate, messages } from './translate';
-export type { MessageVariables } from './translate';
+export { translate, getMessages, setActiveLocale } from './translate';
+export type { MessageVariables, Messages } from './translate';
+export {
+  LOCALE_COOKIE,
+  LOCALE_LABELS,
+  resolveLocale,
+  saveLocalePreference,
+} from './locale-preference';
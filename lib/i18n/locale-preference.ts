@@ -0,0 +1,30 @@
+import { DEFAULT_LOCALE, isSupportedLocale, type SupportedLocale } from '@/types/recognition';
+
+/**
+ * Cookie holding the user's chosen locale, read by the root layout on each request.
+ */
+export const LOCALE_COOKIE = 'calsee-locale';
+
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/**
+ * Locale names shown in the language switcher, each in its own language.
+ */
+export const LOCALE_LABELS: Record<SupportedLocale, string> = {
+  'zh-TW': '繁體中文',
+  en: 'English',
+};
+
+/**
+ * Resolve a stored locale value; missing or unsupported values use the default locale.
+ */
+export function resolveLocale(value?: string | null): SupportedLocale {
+  return value && isSupportedLocale(value) ? value : DEFAULT_LOCALE;
+}
+
+/**
+ * Save the chosen locale in the browser (client-side only).
+ */
+export function saveLocalePreference(locale: SupportedLocale): void {
+  document.cookie = `${LOCALE_COOKIE}=${locale}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`;
+}
@@ -1,20 +1,46 @@
-import messages from './messages/zh-TW.json';
+import zhTW from './messages/zh-TW.json';
+import en from './messages/en.json';
+import { DEFAULT_LOCALE, type SupportedLocale } from '@/types/recognition';
 
 export type MessageVariables = Record<string, string | number>;
+export type Messages = typeof zhTW;
 
-function resolveMessage(key: string): string {
+/**
+ * Message catalog per locale; every catalog must have the zh-TW structure.
+ */
+const catalogs: Record<SupportedLocale, Messages> = {
+  'zh-TW': zhTW,
+  en,
+};
+
+/**
+ * Locale used when translate() is called without one. Only the browser changes
+ * it (via I18nProvider); server code passes the request locale explicitly.
+ */
+let activeLocale: SupportedLocale = DEFAULT_LOCALE;
+
+export function setActiveLocale(locale: SupportedLocale): void {
+  activeLocale = locale;
+}
+
+function lookup(catalog: Messages, key: string): string | undefined {
   const parts = key.split('.');
-  let value: unknown = messages;
+  let value: unknown = catalog;
 
   for (const part of parts) {
     if (value && typeof value === 'object' && part in value) {
       value = (value as Record<string, unknown>)[part];
     } else {
-      return key;
+      return undefined;
     }
   }
 
-  return typeof value === 'string' ? value : key;
+  return typeof value === 'string' ? value : undefined;
+}
+
+function resolveMessage(key: string, locale: SupportedLocale): string {
+  // Fall back to the default catalog, then to the key itself
+  return lookup(catalogs[locale], key) ?? lookup(catalogs[DEFAULT_LOCALE], key) ?? key;
 }
 
 function interpolate(message: string, variables?: MessageVariables): string {
@@ -28,8 +54,14 @@ function interpolate(message: string, variables?: MessageVariables): string {
   });
 }
 
-export function translate(key: string, variables?: MessageVariables): string {
-  return interpolate(resolveMessage(key), variables);
+export function translate(
+  key: string,
+  variables?: MessageVariables,
+  locale: SupportedLocale = activeLocale,
+): string {
+  return interpolate(resolveMessage(key, locale), variables);
 }
 
-export { messages };
+export function getMessages(locale: SupportedLocale = activeLocale): Messages {
+  return catalogs[locale];
+}
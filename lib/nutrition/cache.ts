@@ -0,0 +1,263 @@
+/**
+ * Shared Nutrition Cache (server-side)
+ *
+ * Stores USDA and AI nutrition results in Postgres so every device and user
+ * shares one lookup per food, instead of each browser paying for its own
+ * (the IndexedDB cache in lib/services/nutrition.ts stays in front of it).
+ *
+ * Key: source + search form of the food name (see normalizeFoodName) + an
+ * optional variant (the portion of AI estimates).
+ *
+ * Entries are fresh for NUTRITION_CACHE_TTL_DAYS. Expired entries are kept
+ * for NUTRITION_CACHE_STALE_DAYS more and served when the upstream lookup
+ * fails (USDA or OpenAI unreachable), until a successful lookup replaces
+ * them. Cache failures never fail a request; they are logged and treated as
+ * a miss.
+ */
+
+import { prisma } from '@/lib/db/prisma/client';
+import { normalizeFoodName } from '@/lib/food-composition/chinese-variants';
+import type { NutritionData } from '@/types/meal';
+import { NutritionDataSchema } from './schema';
+
+const DEFAULT_TTL_DAYS = 30;
+const DEFAULT_STALE_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Upstream a cached result came from.
+ */
+export type NutritionCacheSource = 'usda' | 'ai';
+
+export const NUTRITION_CACHE_SOURCES: NutritionCacheSource[] = ['usda', 'ai'];
+
+export interface NutritionCacheKey {
+  source: NutritionCacheSource;
+  foodName: string;
+  variant?: string; // e.g. the portion an AI estimate was made for
+}
+
+/**
+ * Result shape of the nutrition routes.
+ */
+export interface NutritionLookupResponse<D extends NutritionData = NutritionData> {
+  success: boolean;
+  data?: D;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+/**
+ * Cache lookups on this server instance since it started, per source.
+ */
+export interface NutritionCacheCounters {
+  hits: number; // Fresh entries served
+  misses: number; // Lookups sent upstream (no entry, or an expired one)
+  staleHits: number; // Misses answered with an expired entry because the upstream lookup failed
+  writes: number;
+  hitRate: number | null; // hits / (hits + misses), null without lookups
+}
+
+const cacheCounters = Object.fromEntries(
+  NUTRITION_CACHE_SOURCES.map((source) => [
+    source,
+    { hits: 0, misses: 0, staleHits: 0, writes: 0 },
+  ]),
+) as Record<NutritionCacheSource, Omit<NutritionCacheCounters, 'hitRate'>>;
+
+export function isNutritionCacheEnabled(): boolean {
+  return Boolean(process.env.DATABASE_URL) && process.env.NUTRITION_CACHE_ENABLED !== 'false';
+}
+
+function readDays(value: string | undefined, fallback: number): number {
+  const days = Number(value);
+  return Number.isFinite(days) && days >= 0 ? days : fallback;
+}
+
+function getTtlMs(): number {
+  return readDays(process.env.NUTRITION_CACHE_TTL_DAYS, DEFAULT_TTL_DAYS) * DAY_MS;
+}
+
+function getStaleMs(): number {
+  return readDays(process.env.NUTRITION_CACHE_STALE_DAYS, DEFAULT_STALE_DAYS) * DAY_MS;
+}
+
+/**
+ * Build the cache key of a lookup.
+ */
+export function buildNutritionCacheKey({ source, foodName, variant }: NutritionCacheKey): string {
+  const scope = variant?.trim().toLowerCase();
+  return [source, normalizeFoodName(foodName), scope].filter(Boolean).join('|');
+}
+
+async function readEntry(
+  cacheKey: string,
+): Promise<{ data: NutritionData; stale: boolean } | null> {
+  try {
+    const entry = await prisma.nutritionCache.findUnique({ where: { cacheKey } });
+    if (!entry) {
+      return null;
+    }
+
+    const expiresAt = entry.expiresAt.getTime();
+    if (expiresAt + getStaleMs() <= Date.now()) {
+      await prisma.nutritionCache.delete({ where: { cacheKey } }).catch(() => undefined);
+      return null;
+    }
+
+    // Entries written by an older version may not match; look them up again
+    const parsed = NutritionDataSchema.safeParse(entry.response);
+    if (!parsed.success) {
+      console.warn('Nutrition cache entry is malformed, ignoring it:', cacheKey);
+      return null;
+    }
+
+    return { data: parsed.data, stale: expiresAt <= Date.now() };
+  } catch (error) {
+    console.warn('Nutrition cache read failed:', error);
+    return null;
+  }
+}
+
+async function writeEntry(
+  key: NutritionCacheKey,
+  cacheKey: string,
+  data: NutritionData,
+): Promise<void> {
+  const record = {
+    source: key.source,
+    foodName: normalizeFoodName(key.foodName),
+    response: data,
+    expiresAt: new Date(Date.now() + getTtlMs()),
+  };
+
+  try {
+    await prisma.nutritionCache.upsert({
+      where: { cacheKey },
+      create: { cacheKey, ...record },
+      update: { ...record, createdAt: new Date() },
+    });
+    cacheCounters[key.source].writes += 1;
+  } catch (error) {
+    console.warn('Nutrition cache write failed:', error);
+  }
+}
+
+/**
+ * Serve a lookup from the shared cache, or run it and cache its result.
+ *
+ * Successful results are cached (including "no match" results, so unknown
+ * names are not looked up again until they expire). When the lookup fails or
+ * throws, an expired entry is served instead, if one is still kept.
+ *
+ * @param key - Source and food name of the lookup
+ * @param lookup - Upstream lookup, run on a miss or an expired entry
+ */
+export async function withNutritionCache<D extends NutritionData>(
+  key: NutritionCacheKey,
+  lookup: () => Promise<NutritionLookupResponse<D>>,
+): Promise<NutritionLookupResponse<D>> {
+  if (!isNutritionCacheEnabled()) {
+    return lookup();
+  }
+
+  const counters = cacheCounters[key.source];
+  const cacheKey = buildNutritionCacheKey(key);
+  const cached = await readEntry(cacheKey);
+  if (cached && !cached.stale) {
+    counters.hits += 1;
+    await prisma.nutritionCache
+      .update({ where: { cacheKey }, data: { hits: { increment: 1 } } })
+      .catch(() => undefined);
+    return { success: true, data: cached.data as D };
+  }
+
+  counters.misses += 1;
+  let result: NutritionLookupResponse<D>;
+  try {
+    result = await lookup();
+  } catch (error) {
+    if (!cached) {
+      throw error;
+    }
+    result = { success: false };
+    console.warn('Nutrition lookup failed, serving stale cache entry:', error);
+  }
+
+  if (result.success && result.data) {
+    await writeEntry(key, cacheKey, result.data);
+    return result;
+  }
+
+  if (cached) {
+    counters.staleHits += 1;
+    console.info(
+      JSON.stringify({
+        event: 'nutrition_cache_stale',
+        source: key.source,
+        foodName: key.foodName,
+        errorCode: result.error?.code ?? null,
+      }),
+    );
+    return { success: true, data: cached.data as D };
+  }
+
+  return result;
+}
+
+/**
+ * Delete cached results: of one food (optionally one source), of one source,
+ * or all of them.
+ *
+ * @returns Number of entries deleted
+ */
+export async function invalidateNutritionCache(filter: {
+  foodName?: string;
+  source?: NutritionCacheSource;
+}): Promise<number> {
+  const { count } = await prisma.nutritionCache.deleteMany({
+    where: {
+      ...(filter.foodName ? { foodName: normalizeFoodName(filter.foodName) } : {}),
+      ...(filter.source ? { source: filter.source } : {}),
+    },
+  });
+  return count;
+}
+
+/**
+ * Counters of this instance and entry counts of the shared table.
+ */
+export async function getNutritionCacheStatus(): Promise<{
+  enabled: boolean;
+  counters: Record<NutritionCacheSource, NutritionCacheCounters>;
+  entries: { total: number; expired: number } | null;
+}> {
+  const counters = Object.fromEntries(
+    NUTRITION_CACHE_SOURCES.map((source) => {
+      const { hits, misses, staleHits, writes } = cacheCounters[source];
+      const lookups = hits + misses;
+      return [
+        source,
+        {
+          hits,
+          misses,
+          staleHits,
+          writes,
+          hitRate: lookups > 0 ? hits / lookups : null,
+        },
+      ];
+    }),
+  ) as Record<NutritionCacheSource, NutritionCacheCounters>;
+
+  if (!isNutritionCacheEnabled()) {
+    return { enabled: false, counters, entries: null };
+  }
+
+  const [total, expired] = await Promise.all([
+    prisma.nutritionCache.count(),
+    prisma.nutritionCache.count({ where: { expiresAt: { lte: new Date() } } }),
+  ]);
+  return { enabled: true, counters, entries: { total, expired } };
+}
@@ -0,0 +1,153 @@
+/**
+ * Food Name Synonyms (Chinese → English)
+ *
+ * USDA FoodData Central only understands English, so Chinese food names are
+ * translated before searching it. This dictionary covers common Taiwanese
+ * foods and is seeded with the English names of the food recommendations.
+ *
+ * Entries are English USDA search terms: the generic food, not a brand or a
+ * restaurant dish ("sweet potato", not "roasted sweet potato snack").
+ * Keys may be Traditional or Simplified; they are matched in search form
+ * (see normalizeFoodName).
+ */
+
+import { normalizeFoodName } from '@/lib/food-composition/chinese-variants';
+import { FOOD_RECOMMENDATIONS } from './food-recommendations';
+
+/**
+ * Maintained synonyms; these win over the seeded recommendation names.
+ */
+const FOOD_SYNONYMS: Record<string, string> = {
+  // Staples
+  白飯: 'rice, white, cooked',
+  米飯: 'rice, white, cooked',
+  糙米飯: 'rice, brown, cooked',
+  稀飯: 'rice porridge',
+  白粥: 'rice porridge',
+  麵條: 'noodles, cooked',
+  米粉: 'rice noodles, cooked',
+  冬粉: 'mung bean noodles',
+  粄條: 'rice noodles, cooked',
+  饅頭: 'steamed bun',
+  吐司: 'bread, white',
+  全麥吐司: 'bread, whole-wheat',
+  燕麥: 'oats',
+  地瓜: 'sweet potato',
+  番薯: 'sweet potato',
+  馬鈴薯: 'potato',
+  芋頭: 'taro',
+  玉米: 'corn, sweet, yellow',
+  // Meat, seafood and eggs
+  雞胸肉: 'chicken breast',
+  雞腿: 'chicken drumstick',
+  雞翅: 'chicken wing',
+  豬肉: 'pork',
+  豬排: 'pork chop',
+  五花肉: 'pork belly',
+  牛肉: 'beef',
+  牛排: 'beef steak',
+  羊肉: 'lamb',
+  鮭魚: 'salmon',
+  鯖魚: 'mackerel',
+  鮪魚: 'tuna',
+  虱目魚: 'milkfish',
+  吳郭魚: 'tilapia',
+  蝦仁: 'shrimp',
+  蛤蜊: 'clams',
+  花枝: 'cuttlefish',
+  魷魚: 'squid',
+  雞蛋: 'egg, whole',
+  荷包蛋: 'egg, fried',
+  水煮蛋: 'egg, hard-boiled',
+  茶葉蛋: 'egg, hard-boiled',
+  // Soy and dairy
+  豆腐: 'tofu',
+  豆干: 'tofu, dried',
+  豆漿: 'soymilk',
+  毛豆: 'edamame',
+  牛奶: 'milk',
+  鮮奶: 'milk',
+  優格: 'yogurt, plain',
+  起司: 'cheese',
+  // Vegetables
+  高麗菜: 'cabbage',
+  大白菜: 'chinese cabbage',
+  小白菜: 'bok choy',
+  青江菜: 'bok choy',
+  空心菜: 'water spinach',
+  地瓜葉: 'sweet potato leaves',
+  菠菜: 'spinach',
+  花椰菜: 'cauliflower',
+  青花菜: 'broccoli',
+  綠花椰菜: 'broccoli',
+  芥藍: 'chinese broccoli',
+  紅蘿蔔: 'carrot',
+  白蘿蔔: 'radish, daikon',
+  洋蔥: 'onion',
+  番茄: 'tomato',
+  小黃瓜: 'cucumber',
+  茄子: 'eggplant',
+  苦瓜: 'bitter melon',
+  絲瓜: 'luffa',
+  南瓜: 'pumpkin',
+  香菇: 'mushroom, shiitake',
+  金針菇: 'mushroom, enoki',
+  杏鮑菇: 'mushroom, king oyster',
+  // Fruit
+  芭樂: 'guava',
+  香蕉: 'banana',
+  蘋果: 'apple',
+  橘子: 'tangerine',
+  柳丁: 'orange',
+  柳橙: 'orange',
+  葡萄: 'grapes',
+  芒果: 'mango',
+  鳳梨: 'pineapple',
+  西瓜: 'watermelon',
+  木瓜: 'papaya',
+  奇異果: 'kiwifruit',
+  草莓: 'strawberries',
+  火龍果: 'dragon fruit',
+  荔枝: 'litchi',
+  龍眼: 'longan',
+  蓮霧: 'wax apple',
+  酪梨: 'avocado',
+  // Nuts and seeds
+  花生: 'peanuts',
+  杏仁: 'almonds',
+  核桃: 'walnuts',
+  腰果: 'cashew nuts',
+  芝麻: 'sesame seeds',
+};
+
+/**
+ * Synonyms keyed by search form: recommendation names first, maintained entries last.
+ */
+const SYNONYMS_BY_SEARCH_NAME = new Map<string, string>([
+  ...Object.values(FOOD_RECOMMENDATIONS)
+    .flat()
+    .map(({ name, nameEn }) => [normalizeFoodName(name), nameEn.toLowerCase()] as const),
+  ...Object.entries(FOOD_SYNONYMS).map(
+    ([name, english]) => [normalizeFoodName(name), english] as const,
+  ),
+]);
+
+/**
+ * Whether a name contains Chinese characters and needs translating for USDA.
+ */
+export function needsTranslation(foodName: string): boolean {
+  return /\p{Script=Han}/u.test(foodName);
+}
+
+/**
+ * Look up the English search term of a Chinese food name.
+ *
+ * Only whole names match: a dish is not its main ingredient ("牛肉麵" is not
+ * beef), so names missing here are left to AI translation.
+ *
+ * @param foodName - Food name in Traditional or Simplified Chinese
+ * @returns English USDA search term, or null when the dictionary has none
+ */
+export function findFoodSynonym(foodName: string): string | null {
+  return SYNONYMS_BY_SEARCH_NAME.get(normalizeFoodName(foodName)) ?? null;
+}
@@ -10,6 +10,7 @@ import { useQuery, useQueries } from '@tanstack/react-query';
 import type { MealItem } from '@/types/sync';
 import { getNutritionWithAIFallback } from '@/lib/services/nutrition';
 import { resolvePortionScale } from '@/lib/nutrition/portion-conversion';
+import { calculateNutritionTotals } from '@/lib/utils/nutrition-calculator';
 
 /**
  * Nutrition data response from the API.
@@ -38,6 +39,7 @@ export interface NutritionData {
   cholesterol?: number;
   // Metadata
   sourceDatabase: string;
+  matchedDescription?: string; // Food matched in the database, for the user to check
   dataComplete: boolean;
 }
 
@@ -62,6 +64,7 @@ export interface NutritionLookupResult {
  * @param portionUnit - Portion unit label (optional)
  * @param containerSize - Plate/bowl size hint (optional)
  * @param aiEstimatedWeightGrams - AI estimated weight for 1 bowl/plate (optional)
+ * @param referenceWeightGrams - Weight per unit scaled from a reference object (optional)
  * @returns Promise resolving to nutrition data
  */
 export async function lookupNutrition(
@@ -70,6 +73,7 @@ export async function lookupNutrition(
   portionUnit?: string,
   containerSize?: 'small' | 'medium' | 'large',
   aiEstimatedWeightGrams?: number,
+  referenceWeightGrams?: number,
 ): Promise<NutritionLookupResult> {
   if (!foodName.trim()) {
     return {
@@ -87,9 +91,13 @@ export async function lookupNutrition(
       containerSize && (unitLabel === '盤' || unitLabel === '碗')
         ? `${containerSize === 'small' ? '小' : containerSize === 'large' ? '大' : '中'}${unitLabel}`
         : unitLabel;
+    const unitWeightGrams =
+      referenceWeightGrams && referenceWeightGrams > 0
+        ? referenceWeightGrams
+        : aiEstimatedWeightGrams;
     const estimatedLabel =
-      aiEstimatedWeightGrams && aiEstimatedWeightGrams > 0
-        ? `約${Math.round(aiEstimatedWeightGrams * (portionSize || 1))}g`
+      unitWeightGrams && unitWeightGrams > 0
+        ? `約${Math.round(unitWeightGrams * (portionSize || 1))}g`
         : undefined;
     const portionLabel = sizeLabel
       ? `${portionSize} ${sizeLabel}`.trim()
@@ -109,6 +117,7 @@ export async function lookupNutrition(
             portionUnit,
             containerSize,
             aiEstimatedWeightGrams,
+            referenceWeightGrams,
           ).scale
         : 1;
 
@@ -152,6 +161,7 @@ export async function lookupNutrition(
             : undefined,
           // Metadata
           sourceDatabase: result.data.sourceDatabase,
+          matchedDescription: result.data.matchedDescription,
           dataComplete: result.data.dataComplete,
         },
       };
@@ -184,6 +194,7 @@ export async function lookupNutrition(
  * @param portionUnit - Portion unit label (optional)
  * @param containerSize - Plate/bowl size hint (optional)
  * @param aiEstimatedWeightGrams - AI estimated weight for 1 bowl/plate (optional)
+ * @param referenceWeightGrams - Weight per unit scaled from a reference object (optional)
  * @param enabled - Whether to enable the query
  */
 export function useNutritionLookup(
@@ -192,6 +203,7 @@ export function useNutritionLookup(
   portionUnit?: string,
   containerSize?: 'small' | 'medium' | 'large',
   aiEstimatedWeightGrams?: number,
+  referenceWeightGrams?: number,
   enabled: boolean = true,
 ) {
   return useQuery({
@@ -202,9 +214,17 @@ export function useNutritionLookup(
       portionUnit,
       containerSize,
       aiEstimatedWeightGrams,
+      referenceWeightGrams,
     ],
     queryFn: () =>
-      lookupNutrition(foodName, portionSize, portionUnit, containerSize, aiEstimatedWeightGrams),
+      lookupNutrition(
+        foodName,
+        portionSize,
+        portionUnit,
+        containerSize,
+        aiEstimatedWeightGrams,
+        referenceWeightGrams,
+      ),
     enabled: enabled && foodName.trim().length >= 2,
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 30 * 60 * 1000, // 30 minutes (formerly cacheTime)
@@ -229,6 +249,7 @@ export function useMultipleNutritionLookup(items: MealItem[], enabled: boolean =
         item.portionUnit,
         item.containerSize,
         item.aiEstimatedWeightGrams,
+        item.referenceWeightGrams,
       ],
       queryFn: () =>
         lookupNutrition(
@@ -237,6 +258,7 @@ export function useMultipleNutritionLookup(items: MealItem[], enabled: boolean =
           item.portionUnit,
           item.containerSize,
           item.aiEstimatedWeightGrams,
+          item.referenceWeightGrams,
         ),
       enabled: enabled && item.foodName.trim().length >= 2,
       staleTime: 5 * 60 * 1000,
@@ -247,7 +269,7 @@ export function useMultipleNutritionLookup(items: MealItem[], enabled: boolean =
 }
 
 /**
- * Calculate total nutrition from multiple items.
+ * Calculate total nutrition from multiple items (shared dishes count the user's share).
  *
  * @param items - Array of meal items with nutrition data
  * @returns Total nutrition values
@@ -258,13 +280,5 @@ export function calculateTotalNutrition(items: MealItem[]): {
   totalCarbs: number;
   totalFat: number;
 } {
-  return items.reduce(
-    (totals, item) => ({
-      totalCalories: totals.totalCalories + (item.calories ?? 0),
-      totalProtein: totals.totalProtein + (item.protein ?? 0),
-      totalCarbs: totals.totalCarbs + (item.carbs ?? 0),
-      totalFat: totals.totalFat + (item.fat ?? 0),
-    }),
-    { totalCalories: 0, totalProtein: 0, totalCarbs: 0, totalFat: 0 },
-  );
+  return calculateNutritionTotals(items);
 }
@@ -1,3 +1,5 @@
+import type { SupportedLocale } from '@/types/recognition';
+
 export type PortionUnitKey =
   | 'serving'
   | 'bowl'
@@ -10,9 +12,26 @@ export type PortionUnitKey =
   | 'ml'
   | 'l';
 
+/**
+ * Where the gram estimate came from:
+ * - metric: the portion unit is a weight or volume
+ * - reference: the model's weight, scaled from the user's reference object in the photo
+ * - estimate: the model's weight estimate
+ * - food: unit weights of the matched food rule
+ * - generic: default unit weights
+ * - serving: no weight, counted in servings
+ */
+export type PortionWeightSource =
+  | 'serving'
+  | 'metric'
+  | 'reference'
+  | 'estimate'
+  | 'food'
+  | 'generic';
+
 export interface PortionScaleResult {
   scale: number;
-  source: 'serving' | 'metric' | 'food' | 'generic';
+  source: PortionWeightSource;
   servingGrams: number;
   grams?: number;
   unitKey?: PortionUnitKey;
@@ -20,9 +39,24 @@ export interface PortionScaleResult {
 
 const DEFAULT_SERVING_GRAMS = 100;
 
+/**
+ * Portion units suggested in the meal form per locale; the first is the default unit.
+ */
+export const PORTION_UNIT_OPTIONS: Record<SupportedLocale, string[]> = {
+  'zh-TW': ['份', '碗', '盤', '杯', '片', '隻', '塊', '顆', '朵'],
+  en: ['serving', 'bowl', 'plate', 'cup', 'slice', 'piece', 'chunk'],
+};
+
+/**
+ * Portion unit spellings per key. Units come from recognition results in the
+ * user's locale, so each supported locale's units need aliases here.
+ */
 const UNIT_ALIASES = new Map<string, PortionUnitKey>([
   ['份', 'serving'],
+  ['serving', 'serving'],
   ['servings', 'serving'],
+  ['portion', 'serving'],
+  ['portions', 'serving'],
   ['碗', 'bowl'],
   ['一碗', 'bowl'],
   ['盤', 'plate'],
@@ -50,6 +84,35 @@ const UNIT_ALIASES = new Map<string, PortionUnitKey>([
   ['公升', 'l'],
   ['升', 'l'],
   ['l', 'l'],
+  // English
+  ['bowl', 'bowl'],
+  ['bowls', 'bowl'],
+  ['plate', 'plate'],
+  ['plates', 'plate'],
+  ['dish', 'plate'],
+  ['dishes', 'plate'],
+  ['slice', 'slice'],
+  ['slices', 'slice'],
+  ['piece', 'piece'],
+  ['pieces', 'piece'],
+  ['pc', 'piece'],
+  ['pcs', 'piece'],
+  ['chunk', 'chunk'],
+  ['chunks', 'chunk'],
+  ['block', 'chunk'],
+  ['blocks', 'chunk'],
+  ['gram', 'g'],
+  ['grams', 'g'],
+  ['kilogram', 'kg'],
+  ['kilograms', 'kg'],
+  ['milliliter', 'ml'],
+  ['milliliters', 'ml'],
+  ['millilitre', 'ml'],
+  ['millilitres', 'ml'],
+  ['liter', 'l'],
+  ['liters', 'l'],
+  ['litre', 'l'],
+  ['litres', 'l'],
 ]);
 
 const DEFAULT_UNIT_GRAMS: Record<PortionUnitKey, number> = {
@@ -77,121 +140,121 @@ interface FoodUnitRule {
 const FOOD_UNIT_RULES: FoodUnitRule[] = [
   {
     name: 'rice',
-    match: /飯|米飯|炒飯/,
+    match: /飯|米飯|炒飯|\brice\b/i,
     servingGrams: 180,
     unitGrams: { bowl: 180 },
   },
   {
     name: 'noodles',
-    match: /麵|麵條|拉麵|烏龍|麵線/,
+    match: /麵|麵條|拉麵|烏龍|麵線|noodle|ramen|udon/i,
     servingGrams: 200,
     unitGrams: { bowl: 200 },
   },
   {
     name: 'soup',
-    match: /湯|羹/,
+    match: /湯|羹|soup/i,
     servingGrams: 300,
     unitGrams: { bowl: 300 },
   },
   {
     name: 'porridge',
-    match: /粥|稀飯/,
+    match: /粥|稀飯|porridge|congee/i,
     servingGrams: 250,
     unitGrams: { bowl: 250 },
   },
   {
     name: 'meat-slice',
-    match: /牛肉片|豬肉片|羊肉片|肉片|火鍋肉片/,
+    match: /牛肉片|豬肉片|羊肉片|肉片|火鍋肉片|sliced (?:beef|pork|lamb)/i,
     servingGrams: 100,
     unitGrams: { slice: 25 },
   },
   {
     name: 'broccoli',
-    match: /花椰菜|綠花椰|青花椰/,
+    match: /花椰菜|綠花椰|青花椰|broccoli/i,
     servingGrams: 100,
     unitGrams: { piece: 12 },
   },
   {
     name: 'bacon',
-    match: /培根/,
+    match: /培根|bacon/i,
     servingGrams: 60,
     unitGrams: { slice: 15 },
   },
   {
     name: 'ham',
-    match: /火腿/,
+    match: /火腿|\bham\b/i,
     servingGrams: 60,
     unitGrams: { slice: 20 },
   },
   {
     name: 'fish-slice',
-    match: /魚片/,
+    match: /魚片|fish fillet/i,
     servingGrams: 120,
     unitGrams: { slice: 60 },
   },
   {
     name: 'bread',
-    match: /吐司|麵包|土司/,
+    match: /吐司|麵包|土司|bread|toast/i,
     servingGrams: 60,
     unitGrams: { slice: 30 },
   },
   {
     name: 'cheese',
-    match: /起司|芝士/,
+    match: /起司|芝士|cheese/i,
     servingGrams: 40,
     unitGrams: { slice: 20 },
   },
   {
     name: 'chicken-wing',
-    match: /雞翅/,
+    match: /雞翅|chicken wing/i,
     servingGrams: 100,
     unitGrams: { piece: 35 },
   },
   {
     name: 'chicken-leg',
-    match: /雞腿/,
+    match: /雞腿|drumstick|chicken leg/i,
     servingGrams: 150,
     unitGrams: { piece: 120 },
   },
   {
     name: 'shrimp',
-    match: /蝦/,
+    match: /蝦|shrimp|prawn/i,
     servingGrams: 100,
     unitGrams: { piece: 10 },
   },
   {
     name: 'fish',
-    match: /魚/,
+    match: /魚|fish/i,
     servingGrams: 150,
     unitGrams: { piece: 150 },
   },
   {
     name: 'tofu',
-    match: /豆腐/,
+    match: /豆腐|tofu/i,
     servingGrams: 100,
     unitGrams: { chunk: 80 },
   },
   {
     name: 'steak',
-    match: /牛排|豬排|雞排/,
+    match: /牛排|豬排|雞排|steak|\bchops?\b|cutlet/i,
     servingGrams: 200,
     unitGrams: { chunk: 200 },
   },
   {
     name: 'chicken-nugget',
-    match: /雞塊/,
+    match: /雞塊|nugget/i,
     servingGrams: 100,
     unitGrams: { chunk: 20 },
   },
   {
     name: 'dumpling',
-    match: /水餃|鍋貼|餃子/,
+    match: /水餃|鍋貼|餃子|dumpling|potsticker/i,
     servingGrams: 100,
     unitGrams: { piece: 25 },
   },
   {
     name: 'cake',
-    match: /蛋糕|甜點/,
+    match: /蛋糕|甜點|cake|dessert/i,
     servingGrams: 100,
     unitGrams: { chunk: 80 },
   },
@@ -201,7 +264,11 @@ function normalizeUnit(rawUnit?: string): PortionUnitKey | null {
   if (!rawUnit) return null;
   const trimmed = rawUnit.trim().toLowerCase();
   if (!trimmed) return null;
-  return UNIT_ALIASES.get(trimmed) ?? UNIT_ALIASES.get(trimmed.replace(/^一/, '')) ?? null;
+  return (
+    UNIT_ALIASES.get(trimmed) ??
+    UNIT_ALIASES.get(trimmed.replace(/^(一|an?\s+|one\s+)/, '')) ??
+    null
+  );
 }
 
 function matchFoodRule(foodName: string): FoodUnitRule | undefined {
@@ -210,22 +277,39 @@ function matchFoodRule(foodName: string): FoodUnitRule | undefined {
   return FOOD_UNIT_RULES.find((rule) => rule.match.test(normalized));
 }
 
+/**
+ * Resolve the grams of a portion and its scale relative to one serving.
+ * Metric units win; otherwise a weight scaled from the user's reference object
+ * (per portion unit) is preferred over the model's estimate and unit rules.
+ */
 export function resolvePortionScale(
   foodName: string,
   portionSize: number = 1,
   portionUnit?: string,
   containerSize?: 'small' | 'medium' | 'large',
   aiEstimatedWeightGrams?: number,
+  referenceWeightGrams?: number,
 ): PortionScaleResult {
   const size = Number.isFinite(portionSize) && portionSize > 0 ? portionSize : 1;
   const unitKey = normalizeUnit(portionUnit);
+  const hasReferenceWeight = referenceWeightGrams != null && referenceWeightGrams > 0;
 
   if (!unitKey || unitKey === 'serving') {
+    if (hasReferenceWeight) {
+      const grams = size * referenceWeightGrams;
+      return {
+        scale: grams / DEFAULT_SERVING_GRAMS,
+        source: 'reference',
+        servingGrams: DEFAULT_SERVING_GRAMS,
+        grams,
+        unitKey: 'serving',
+      };
+    }
     if (aiEstimatedWeightGrams && aiEstimatedWeightGrams > 0) {
       const grams = size * aiEstimatedWeightGrams;
       return {
         scale: grams / DEFAULT_SERVING_GRAMS,
-        source: 'metric',
+        source: 'estimate',
         servingGrams: DEFAULT_SERVING_GRAMS,
         grams,
         unitKey: 'serving',
@@ -253,6 +337,11 @@ export function resolvePortionScale(
     };
   }
 
+  if (hasReferenceWeight) {
+    const grams = size * referenceWeightGrams;
+    return { scale: grams / servingGrams, source: 'reference', servingGrams, grams, unitKey };
+  }
+
   const sizeMultiplier = (() => {
     if (!containerSize) return 1;
     if (containerSize === 'small') return 0.8;
@@ -277,7 +366,7 @@ export function resolvePortionScale(
   const grams = size * unitGrams;
   return {
     scale: grams / servingGrams,
-    source: matchedRule ? 'food' : 'generic',
+    source: estimatedUnitGrams ? 'estimate' : matchedRule ? 'food' : 'generic',
     servingGrams,
     grams,
     unitKey,
@@ -0,0 +1,183 @@
+/**
+ * Nutrition Query Translation (server-side)
+ *
+ * Turns a Chinese food name into an English USDA search term: the synonym
+ * dictionary first, then (when enabled) an AI translation cached in Postgres.
+ * English names are searched as they are.
+ *
+ * Translation failures never fail a lookup; they are logged and the name is
+ * searched untranslated.
+ */
+
+import { prisma } from '@/lib/db/prisma/client';
+import { normalizeFoodName } from '@/lib/food-composition/chinese-variants';
+import type { UsageMeter } from '@/lib/usage/ledger';
+import { findFoodSynonym, needsTranslation } from './food-synonyms';
+
+const TRANSLATION_MODEL = 'gpt-4o-mini';
+const TRANSLATION_TIMEOUT_MS = 4000;
+
+/**
+ * Longest accepted AI translation; longer answers are explanations, not terms.
+ */
+const MAX_TRANSLATION_LENGTH = 60;
+
+/**
+ * How the USDA search term was obtained.
+ */
+export type QueryTranslationSource = 'original' | 'dictionary' | 'cache' | 'ai';
+
+export interface TranslatedQuery {
+  query: string; // Term sent to USDA
+  via: QueryTranslationSource;
+}
+
+/**
+ * Whether names without a dictionary entry are translated with AI.
+ */
+function isAITranslationEnabled(): boolean {
+  return process.env.NUTRITION_AI_TRANSLATION === 'true';
+}
+
+function isCacheEnabled(): boolean {
+  return Boolean(process.env.DATABASE_URL);
+}
+
+async function getCachedTranslation(searchName: string): Promise<string | null> {
+  if (!isCacheEnabled()) return null;
+  try {
+    const entry = await prisma.foodQueryTranslation.findUnique({ where: { query: searchName } });
+    return entry?.translation ?? null;
+  } catch (error) {
+    console.warn('Query translation cache lookup failed:', error);
+    return null;
+  }
+}
+
+async function cacheTranslation(searchName: string, translation: string): Promise<void> {
+  if (!isCacheEnabled()) return;
+  try {
+    await prisma.foodQueryTranslation.upsert({
+      where: { query: searchName },
+      create: { query: searchName, translation, model: TRANSLATION_MODEL },
+      update: { translation, model: TRANSLATION_MODEL },
+    });
+  } catch (error) {
+    console.warn('Failed to cache query translation:', error);
+  }
+}
+
+/**
+ * Clean up an AI answer; null unless it looks like a short English search term.
+ */
+function sanitizeTranslation(content: unknown): string | null {
+  if (typeof content !== 'string') return null;
+  const term = content
+    .trim()
+    .replace(/^["'`]+|["'`.]+$/g, '')
+    .toLowerCase();
+  if (!term || term.length > MAX_TRANSLATION_LENGTH || !/^[a-z][a-z0-9 ,'()-]*$/.test(term)) {
+    return null;
+  }
+  return term;
+}
+
+/**
+ * Ask OpenAI for an English USDA search term.
+ */
+async function translateWithAI(
+  foodName: string,
+  apiKey: string,
+  usageMeter: UsageMeter,
+): Promise<string | null> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), TRANSLATION_TIMEOUT_MS);
+
+  try {
+    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model: TRANSLATION_MODEL,
+        messages: [
+          {
+            role: 'system',
+            content: `Translate a Chinese food name into a short English search term for the USDA FoodData Central database.
+Name the generic food or dish (e.g. 地瓜 → sweet potato, 牛肉麵 → beef noodle soup, 滷肉飯 → braised pork over rice), not a brand.
+Respond with ONLY the search term in lower case.`,
+          },
+          { role: 'user', content: foodName },
+        ],
+        max_tokens: 20,
+        temperature: 0,
+      }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      console.error('Query translation API error:', response.status, await response.text());
+      return null;
+    }
+
+    const data = await response.json();
+    if (data.usage) {
+      await usageMeter.record('openai', {
+        model: TRANSLATION_MODEL,
+        inputTokens: data.usage.prompt_tokens ?? 0,
+        outputTokens: data.usage.completion_tokens ?? 0,
+      });
+    }
+
+    return sanitizeTranslation(data.choices?.[0]?.message?.content);
+  } catch (error) {
+    console.warn('Query translation failed:', error);
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Build the USDA search term for a food name.
+ *
+ * @param foodName - Food name as looked up (any language)
+ * @param getUsageMeter - Creates the usage meter, only when AI is about to be called
+ * @returns Search term and how it was obtained
+ */
+export async function translateFoodQuery(
+  foodName: string,
+  getUsageMeter: () => Promise<UsageMeter>,
+): Promise<TranslatedQuery> {
+  if (!needsTranslation(foodName)) {
+    return { query: foodName, via: 'original' };
+  }
+
+  const synonym = findFoodSynonym(foodName);
+  if (synonym) {
+    return { query: synonym, via: 'dictionary' };
+  }
+
+  const apiKey = process.env.RECOGNITION_API_KEY;
+  if (isAITranslationEnabled() && apiKey) {
+    const searchName = normalizeFoodName(foodName);
+    const cached = await getCachedTranslation(searchName);
+    if (cached) {
+      return { query: cached, via: 'cache' };
+    }
+
+    // Skip AI (not the lookup) once the caller's quota is used up
+    const usageMeter = await getUsageMeter();
+    if (!usageMeter.exceededQuota) {
+      const translation = await translateWithAI(foodName, apiKey, usageMeter);
+      if (translation) {
+        await cacheTranslation(searchName, translation);
+        return { query: translation, via: 'ai' };
+      }
+    }
+  }
+
+  return { query: foodName, via: 'original' };
+}
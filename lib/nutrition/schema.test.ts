@@ -0,0 +1,41 @@
+/**
+ * Stored nutrition data validation (cache entries read back from Postgres).
+ *
+ * Run: npm test
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { NutritionDataSchema } from './schema';
+
+const stored = {
+  calories: 120,
+  protein: 3.2,
+  carbohydrates: 27.9,
+  fats: 0.2,
+  sourceDatabase: 'USDA FoodData Central',
+  matchedDescription: 'Sweet potato, cooked, baked in skin',
+  dataComplete: true,
+};
+
+describe('NutritionDataSchema', () => {
+  it('accepts a stored result and keeps route-specific fields', () => {
+    const parsed = NutritionDataSchema.safeParse({ ...stored, isAIEstimate: true, extra: 'x' });
+    assert.equal(parsed.success, true);
+    assert.equal(parsed.data?.isAIEstimate, true);
+    assert.equal(parsed.data?.extra, 'x');
+  });
+
+  it('rejects payloads that are not nutrition data', () => {
+    for (const payload of [
+      null,
+      'cached',
+      { ...stored, sourceDatabase: undefined },
+      { ...stored, dataComplete: 'yes' },
+      { ...stored, calories: '120' },
+      { ...stored, protein: -1 },
+    ]) {
+      assert.equal(NutritionDataSchema.safeParse(payload).success, false, JSON.stringify(payload));
+    }
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Zod Schema for Stored Nutrition Data
+ *
+ * Checks nutrition results read back from the shared cache (a JSON column)
+ * before they are served.
+ */
+
+import { z } from 'zod';
+
+const amount = z.number().finite().nonnegative().optional();
+
+/**
+ * Schema for NutritionData. Unknown fields are kept and served as stored.
+ */
+export const NutritionDataSchema = z.looseObject({
+  // Macronutrients
+  calories: amount,
+  protein: amount,
+  carbohydrates: amount,
+  fats: amount,
+  fiber: amount,
+  sugar: amount,
+  saturatedFat: amount,
+  // Minerals
+  sodium: amount,
+  potassium: amount,
+  calcium: amount,
+  iron: amount,
+  // Vitamins
+  vitaminA: amount,
+  vitaminC: amount,
+  vitaminD: amount,
+  vitaminB12: amount,
+  // Other
+  cholesterol: amount,
+  // Metadata
+  sourceDatabase: z.string().min(1),
+  matchedDescription: z.string().optional(),
+  dataComplete: z.boolean(),
+  isAIEstimate: z.boolean().optional(),
+});
@@ -1,4 +1,5 @@
 import type { Meal, MealItem } from '@/types/sync';
+import { getItemShareRatio } from '@/lib/utils/nutrition-calculator';
 import type {
   WeeklyNutritionSummary,
   NutritionTotals,
@@ -32,21 +33,22 @@ function createEmptyTotals(): NutritionTotals {
 }
 
 function addNutritionFromItem(totals: NutritionTotals, item: MealItem): void {
-  totals.calories += item.calories ?? 0;
-  totals.protein += item.protein ?? 0;
-  totals.carbs += item.carbs ?? 0;
-  totals.fat += item.fat ?? 0;
-  totals.fiber += item.fiber ?? 0;
-  totals.sugar += item.sugar ?? 0;
-  totals.sodium += item.sodium ?? 0;
-  totals.calcium += item.calcium ?? 0;
-  totals.iron += item.iron ?? 0;
-  totals.vitaminC += item.vitaminC ?? 0;
-  totals.vitaminA += item.vitaminA ?? 0;
-  totals.vitaminD += item.vitaminD ?? 0;
-  totals.vitaminB12 += item.vitaminB12 ?? 0;
-  totals.potassium += item.potassium ?? 0;
-  totals.cholesterol += item.cholesterol ?? 0;
+  const share = getItemShareRatio(item);
+  totals.calories += (item.calories ?? 0) * share;
+  totals.protein += (item.protein ?? 0) * share;
+  totals.carbs += (item.carbs ?? 0) * share;
+  totals.fat += (item.fat ?? 0) * share;
+  totals.fiber += (item.fiber ?? 0) * share;
+  totals.sugar += (item.sugar ?? 0) * share;
+  totals.sodium += (item.sodium ?? 0) * share;
+  totals.calcium += (item.calcium ?? 0) * share;
+  totals.iron += (item.iron ?? 0) * share;
+  totals.vitaminC += (item.vitaminC ?? 0) * share;
+  totals.vitaminA += (item.vitaminA ?? 0) * share;
+  totals.vitaminD += (item.vitaminD ?? 0) * share;
+  totals.vitaminB12 += (item.vitaminB12 ?? 0) * share;
+  totals.potassium += (item.potassium ?? 0) * share;
+  totals.cholesterol += (item.cholesterol ?? 0) * share;
 }
 
 function hasIncompleteNutrition(item: MealItem): boolean {
@@ -0,0 +1,52 @@
+/**
+ * Barcode utilities: GTIN check digits and normalization of EAN-13, UPC-A,
+ * EAN-8 and GTIN-14 codes.
+ *
+ * Run: npm test
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { hasValidCheckDigit, normalizeBarcode } from './barcode';
+
+describe('hasValidCheckDigit', () => {
+  it('accepts valid EAN-13, UPC-A and EAN-8 codes', () => {
+    assert.equal(hasValidCheckDigit('4006381333931'), true);
+    assert.equal(hasValidCheckDigit('4710088410214'), true);
+    assert.equal(hasValidCheckDigit('036000291452'), true);
+    assert.equal(hasValidCheckDigit('96385074'), true);
+  });
+
+  it('rejects a wrong check digit', () => {
+    assert.equal(hasValidCheckDigit('4006381333932'), false);
+    assert.equal(hasValidCheckDigit('96385075'), false);
+  });
+
+  it('rejects non-digits and codes too short to have a check digit', () => {
+    assert.equal(hasValidCheckDigit('40063813339a1'), false);
+    assert.equal(hasValidCheckDigit('0'), false);
+    assert.equal(hasValidCheckDigit(''), false);
+  });
+});
+
+describe('normalizeBarcode', () => {
+  it('keeps EAN-13 and EAN-8 codes, ignoring spaces and dashes', () => {
+    assert.equal(normalizeBarcode('4 006381-333931'), '4006381333931');
+    assert.equal(normalizeBarcode('9638 5074'), '96385074');
+  });
+
+  it('stores UPC-A as EAN-13 with a leading 0', () => {
+    assert.equal(normalizeBarcode('036000291452'), '0036000291452');
+  });
+
+  it('unwraps a GTIN-14 without packaging indicator', () => {
+    assert.equal(normalizeBarcode('04006381333931'), '4006381333931');
+    assert.equal(normalizeBarcode('14006381333938'), null);
+  });
+
+  it('rejects invalid codes', () => {
+    assert.equal(normalizeBarcode('4006381333932'), null);
+    assert.equal(normalizeBarcode('12345'), null);
+    assert.equal(normalizeBarcode('not a code'), null);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Barcode Utilities
+ *
+ * Validates and normalizes retail barcodes (EAN-13, UPC-A, EAN-8) so the same
+ * product always maps to the same key in the product table.
+ */
+
+/**
+ * Check the GTIN check digit (last digit) of an EAN-8/UPC-A/EAN-13 barcode.
+ */
+export function hasValidCheckDigit(digits: string): boolean {
+  if (!/^\d+$/.test(digits) || digits.length < 2) return false;
+
+  let sum = 0;
+  // Weights alternate 3, 1, 3, ... starting from the digit left of the check digit
+  for (let i = digits.length - 2, weight = 3; i >= 0; i--, weight = 4 - weight) {
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+/**
+ * Normalize a scanned or imported barcode.
+ *
+ * UPC-A (12 digits) is stored as EAN-13 with a leading 0, which is how
+ * Open Food Facts and EAN-13 scanners report the same product.
+ *
+ * @param raw - Barcode text (spaces and dashes are ignored)
+ * @returns 13- or 8-digit barcode, or null if it is not a valid EAN/UPC code
+ */
+export function normalizeBarcode(raw: string): string | null {
+  let digits = raw.replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(digits)) return null;
+
+  if (digits.length === 12) {
+    digits = `0${digits}`;
+  } else if (digits.length === 14 && digits.startsWith('0')) {
+    // GTIN-14 with no packaging indicator is the EAN-13 inside it
+    digits = digits.slice(1);
+  }
+
+  if (digits.length !== 13 && digits.length !== 8) return null;
+  return hasValidCheckDigit(digits) ? digits : null;
+}
@@ -0,0 +1,114 @@
+/**
+ * Barcode Detection (browser)
+ *
+ * Finds a retail barcode in a captured photo. Uses the native `BarcodeDetector`
+ * where the browser has it (Chrome on Android, Safari 17+) and falls back to
+ * the JavaScript EAN-13 decoder elsewhere.
+ */
+
+import { normalizeBarcode } from './barcode';
+import { decodeEan13 } from './ean13-decoder';
+
+/**
+ * Barcode formats of packaged food (UPC-E is not stored in the product table).
+ */
+const RETAIL_FORMATS = ['ean_13', 'ean_8', 'upc_a'];
+
+/**
+ * Longest image side for the JavaScript decoder; enough resolution for a
+ * barcode filling a third of the photo while keeping decoding fast.
+ */
+const FALLBACK_MAX_DIMENSION = 1600;
+
+/**
+ * Minimal typing of the Barcode Detection API (not in the TypeScript DOM lib).
+ */
+interface NativeBarcodeDetector {
+  detect(image: ImageBitmapSource): Promise<Array<{ rawValue: string; format: string }>>;
+}
+
+interface NativeBarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): NativeBarcodeDetector;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+let nativeDetectorPromise: Promise<NativeBarcodeDetector | null> | null = null;
+
+/**
+ * Create the native detector once; null when unavailable or without retail formats.
+ */
+function getNativeDetector(): Promise<NativeBarcodeDetector | null> {
+  if (!nativeDetectorPromise) {
+    nativeDetectorPromise = (async () => {
+      const Detector = (globalThis as { BarcodeDetector?: NativeBarcodeDetectorConstructor })
+        .BarcodeDetector;
+      if (!Detector) return null;
+
+      try {
+        const supported = await Detector.getSupportedFormats();
+        const formats = RETAIL_FORMATS.filter((format) => supported.includes(format));
+        return formats.length > 0 ? new Detector({ formats }) : null;
+      } catch (error) {
+        console.warn('BarcodeDetector unavailable:', error);
+        return null;
+      }
+    })();
+  }
+  return nativeDetectorPromise;
+}
+
+/**
+ * Decode with the JavaScript fallback on a downscaled copy of the image.
+ */
+function decodeWithFallback(bitmap: ImageBitmap): string | null {
+  const scale = Math.min(1, FALLBACK_MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Canvas 2D context not available');
+  }
+
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return decodeEan13(ctx.getImageData(0, 0, width, height));
+}
+
+/**
+ * Detect a retail barcode (EAN-13, EAN-8, UPC-A) in a photo.
+ *
+ * Detection problems are logged and reported as "no barcode", so a failed
+ * scan never blocks logging the photo as a meal.
+ *
+ * @param image - Photo file or blob
+ * @returns Normalized barcode, or null if none was found
+ */
+export async function detectBarcode(image: Blob): Promise<string | null> {
+  let bitmap: ImageBitmap | null = null;
+
+  try {
+    bitmap = await createImageBitmap(image);
+
+    const detector = await getNativeDetector();
+    if (detector) {
+      const results = await detector.detect(bitmap);
+      for (const result of results) {
+        const barcode = normalizeBarcode(result.rawValue);
+        if (barcode) return barcode;
+      }
+      return null;
+    }
+
+    const decoded = decodeWithFallback(bitmap);
+    return decoded ? normalizeBarcode(decoded) : null;
+  } catch (error) {
+    console.warn('Barcode detection failed:', error);
+    return null;
+  } finally {
+    bitmap?.close();
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * EAN-13 decoder: synthetic barcodes rendered to RGBA pixels, read in any
+ * orientation, with invalid check digits and blank images rejected.
+ *
+ * Run: npm test
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { decodeEan13, type RgbaImage } from './ean13-decoder';
+
+const L_CODES = [
+  '0001101',
+  '0011001',
+  '0010011',
+  '0111101',
+  '0100011',
+  '0110001',
+  '0101111',
+  '0111011',
+  '0110111',
+  '0001011',
+];
+const FIRST_DIGIT_PARITIES = [
+  'LLLLLL',
+  'LLGLGG',
+  'LLGGLG',
+  'LLGGGL',
+  'LGLLGG',
+  'LGGLLG',
+  'LGGGLL',
+  'LGLGLG',
+  'LGLGGL',
+  'LGGLGL',
+];
+
+const invert = (bits: string) => bits.replace(/./g, (bit) => (bit === '1' ? '0' : '1'));
+const reverse = (bits: string) => [...bits].reverse().join('');
+
+/**
+ * The 95 modules of an EAN-13 symbol (1 = bar), without checking the code.
+ */
+function encodeEan13(code: string): string {
+  const digits = [...code].map(Number);
+  const parities = FIRST_DIGIT_PARITIES[digits[0]];
+  let modules = '101';
+  digits.slice(1, 7).forEach((digit, i) => {
+    const l = L_CODES[digit];
+    modules += parities[i] === 'L' ? l : reverse(invert(l));
+  });
+  modules += '01010';
+  digits.slice(7).forEach((digit) => {
+    modules += invert(L_CODES[digit]);
+  });
+  return modules + '101';
+}
+
+/**
+ * Draw a barcode with a white quiet zone, `moduleWidth` pixels per module.
+ */
+function renderBarcode(code: string, moduleWidth = 3, height = 40): RgbaImage {
+  const modules = '0'.repeat(12) + encodeEan13(code) + '0'.repeat(12);
+  const width = modules.length * moduleWidth;
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (modules[Math.floor(x / moduleWidth)] === '1') {
+        data.fill(0, (y * width + x) * 4, (y * width + x) * 4 + 3);
+      }
+    }
+  }
+  return { data, width, height };
+}
+
+/**
+ * Map each pixel through `source(x, y)` into an image of the given size.
+ */
+function transform(
+  image: RgbaImage,
+  width: number,
+  height: number,
+  source: (x: number, y: number) => [number, number],
+): RgbaImage {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [sx, sy] = source(x, y);
+      const from = (sy * image.width + sx) * 4;
+      data.set(image.data.subarray(from, from + 4), (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+}
+
+describe('decodeEan13', () => {
+  it('decodes an upright barcode', () => {
+    assert.equal(decodeEan13(renderBarcode('4006381333931')), '4006381333931');
+    assert.equal(decodeEan13(renderBarcode('4710088410214')), '4710088410214');
+  });
+
+  it('decodes a UPC-A barcode (leading 0)', () => {
+    assert.equal(decodeEan13(renderBarcode('0036000291452')), '0036000291452');
+  });
+
+  it('decodes an upside-down barcode', () => {
+    const image = renderBarcode('4006381333931');
+    const rotated = transform(image, image.width, image.height, (x, y) => [
+      image.width - 1 - x,
+      image.height - 1 - y,
+    ]);
+
+    assert.equal(decodeEan13(rotated), '4006381333931');
+  });
+
+  it('decodes a barcode photographed sideways', () => {
+    const image = renderBarcode('4006381333931');
+    const sideways = transform(image, image.height, image.width, (x, y) => [y, x]);
+
+    assert.equal(decodeEan13(sideways), '4006381333931');
+  });
+
+  it('rejects a barcode with a wrong check digit', () => {
+    assert.equal(decodeEan13(renderBarcode('4006381333932')), null);
+  });
+
+  it('returns null for an image without a barcode', () => {
+    const blank: RgbaImage = {
+      data: new Uint8ClampedArray(200 * 40 * 4).fill(255),
+      width: 200,
+      height: 40,
+    };
+
+    assert.equal(decodeEan13(blank), null);
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * EAN-13 Decoder (JavaScript fallback)
+ *
+ * Decodes EAN-13 (and UPC-A, which is EAN-13 with a leading 0) from raw RGBA
+ * pixels for browsers without `BarcodeDetector`. Scans several rows and columns,
+ * binarizes each line against a local mean and matches bar widths to the EAN
+ * digit patterns, accepting a result only when the check digit is valid.
+ */
+
+import { hasValidCheckDigit } from './barcode';
+
+/**
+ * Pixel data in the layout of the Canvas `ImageData`.
+ */
+export interface RgbaImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/**
+ * Bar/space widths (in modules) of the L-code digits; R-codes share the same widths.
+ */
+const L_PATTERNS = [
+  [3, 2, 1, 1],
+  [2, 2, 2, 1],
+  [2, 1, 2, 2],
+  [1, 4, 1, 1],
+  [1, 1, 3, 2],
+  [1, 2, 3, 1],
+  [1, 1, 1, 4],
+  [1, 3, 1, 2],
+  [1, 2, 1, 3],
+  [3, 1, 1, 2],
+];
+
+/**
+ * G-codes are the L-code widths in reverse order.
+ */
+const G_PATTERNS = L_PATTERNS.map((pattern) => [...pattern].reverse());
+
+/**
+ * L/G parity of the six left digits, indexed by the implied first digit (0 = L, 1 = G).
+ */
+const FIRST_DIGIT_PARITIES = [
+  '000000',
+  '001011',
+  '001101',
+  '001110',
+  '010011',
+  '011001',
+  '011100',
+  '010101',
+  '010110',
+  '011010',
+];
+
+const GUARD_RUNS = 3;
+const MIDDLE_RUNS = 5;
+const DIGIT_RUNS = 4;
+// start guard + 6 digits + middle guard + 6 digits + end guard
+const SYMBOL_RUNS = GUARD_RUNS + 6 * DIGIT_RUNS + MIDDLE_RUNS + 6 * DIGIT_RUNS + GUARD_RUNS;
+const SYMBOL_MODULES = 95;
+
+/**
+ * Maximum summed width error (in modules) for a digit to count as a match.
+ */
+const MAX_DIGIT_ERROR = 1.6;
+
+/**
+ * Number of evenly spaced lines scanned in each direction.
+ */
+const SCAN_LINES = 24;
+
+/**
+ * Gray levels a pixel must cross the local mean by to switch between bar and space.
+ */
+const HYSTERESIS = 4;
+
+/**
+ * Decode an EAN-13 barcode from an image.
+ *
+ * @param image - RGBA pixels (e.g. from `CanvasRenderingContext2D.getImageData`)
+ * @returns 13-digit barcode, or null if none was found
+ */
+export function decodeEan13(image: RgbaImage): string | null {
+  const gray = toGrayscale(image);
+  const { width, height } = image;
+
+  // Rows first (the usual orientation), then columns for photos taken sideways
+  for (let line = 1; line <= SCAN_LINES; line++) {
+    const y = Math.floor((height * line) / (SCAN_LINES + 1));
+    const row = gray.subarray(y * width, (y + 1) * width);
+    const code = decodeLine(row);
+    if (code) return code;
+  }
+
+  const column = new Float32Array(height);
+  for (let line = 1; line <= SCAN_LINES; line++) {
+    const x = Math.floor((width * line) / (SCAN_LINES + 1));
+    for (let y = 0; y < height; y++) {
+      column[y] = gray[y * width + x];
+    }
+    const code = decodeLine(column);
+    if (code) return code;
+  }
+
+  return null;
+}
+
+function toGrayscale({ data, width, height }: RgbaImage): Float32Array {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    const offset = i * 4;
+    gray[i] = 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+  }
+  return gray;
+}
+
+/**
+ * Decode one scan line in both directions (barcodes may be upside down).
+ */
+function decodeLine(line: Float32Array): string | null {
+  const runs = toRuns(line);
+  if (runs.length < SYMBOL_RUNS) return null;
+
+  // Runs alternate dark/light starting dark, so reversed runs start dark only for an odd count
+  const reversed = [...runs].reverse();
+  return decodeRuns(runs, 0) ?? decodeRuns(reversed, runs.length % 2 === 1 ? 0 : 1);
+}
+
+/**
+ * Binarize a line against a moving-window mean and return alternating run
+ * lengths, starting with the first dark run.
+ */
+function toRuns(line: Float32Array): number[] {
+  const length = line.length;
+  const window = Math.max(8, Math.floor(length / 12));
+  const prefix = new Float64Array(length + 1);
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < length; i++) {
+    prefix[i + 1] = prefix[i] + line[i];
+    min = Math.min(min, line[i]);
+    max = Math.max(max, line[i]);
+  }
+
+  // Skip lines with no real contrast (blank areas)
+  const minContrast = (max - min) * 0.15;
+  const runs: number[] = [];
+  let current: boolean | null = null;
+  let runLength = 0;
+
+  for (let i = 0; i < length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(length, i + window + 1);
+    const mean = (prefix[end] - prefix[start]) / (end - start);
+    // Hysteresis keeps sensor noise from splitting a bar or space into several runs
+    const threshold: number = current === null ? -minContrast : current ? HYSTERESIS : -HYSTERESIS;
+    const dark: boolean = line[i] < mean + threshold;
+
+    if (current === null) {
+      if (!dark) continue;
+      current = true;
+      runLength = 1;
+    } else if (dark === current) {
+      runLength++;
+    } else {
+      runs.push(runLength);
+      current = dark;
+      runLength = 1;
+    }
+  }
+
+  if (current !== null) runs.push(runLength);
+  return runs;
+}
+
+/**
+ * Try every dark run as the start guard.
+ */
+function decodeRuns(runs: number[], firstDark: number): string | null {
+  for (let start = firstDark; start + SYMBOL_RUNS <= runs.length; start += 2) {
+    const code = decodeSymbol(runs, start);
+    if (code) return code;
+  }
+  return null;
+}
+
+function decodeSymbol(runs: number[], start: number): string | null {
+  let total = 0;
+  for (let i = start; i < start + SYMBOL_RUNS; i++) total += runs[i];
+  const moduleWidth = total / SYMBOL_MODULES;
+
+  const isGuard = (offset: number, count: number) => {
+    for (let i = 0; i < count; i++) {
+      const modules = runs[start + offset + i] / moduleWidth;
+      if (modules < 0.5 || modules > 1.8) return false;
+    }
+    return true;
+  };
+
+  const middleOffset = GUARD_RUNS + 6 * DIGIT_RUNS;
+  const endOffset = middleOffset + MIDDLE_RUNS + 6 * DIGIT_RUNS;
+  if (!isGuard(0, GUARD_RUNS) || !isGuard(middleOffset, MIDDLE_RUNS)) return null;
+  if (!isGuard(endOffset, GUARD_RUNS)) return null;
+
+  let parity = '';
+  let digits = '';
+
+  for (let digit = 0; digit < 6; digit++) {
+    const match = matchDigit(runs, start + GUARD_RUNS + digit * DIGIT_RUNS, true);
+    if (!match) return null;
+    digits += match.digit;
+    parity += match.parity;
+  }
+
+  for (let digit = 0; digit < 6; digit++) {
+    const offset = start + middleOffset + MIDDLE_RUNS + digit * DIGIT_RUNS;
+    const match = matchDigit(runs, offset, false);
+    if (!match) return null;
+    digits += match.digit;
+  }
+
+  const firstDigit = FIRST_DIGIT_PARITIES.indexOf(parity);
+  if (firstDigit < 0) return null;
+
+  const code = `${firstDigit}${digits}`;
+  return hasValidCheckDigit(code) ? code : null;
+}
+
+/**
+ * Match four runs against the digit patterns, normalizing them to 7 modules.
+ * Left-half digits may be L- or G-coded (parity '0' / '1'); right-half digits are R-coded.
+ */
+function matchDigit(
+  runs: number[],
+  offset: number,
+  allowG: boolean,
+): { digit: number; parity: '0' | '1' } | null {
+  const widths = runs.slice(offset, offset + DIGIT_RUNS);
+  const sum = widths.reduce((acc, width) => acc + width, 0);
+  const normalized = widths.map((width) => (width * 7) / sum);
+
+  let bestDigit = -1;
+  let bestParity: '0' | '1' = '0';
+  let bestError = Infinity;
+
+  for (const parity of allowG ? (['0', '1'] as const) : (['0'] as const)) {
+    const patterns = parity === '0' ? L_PATTERNS : G_PATTERNS;
+    patterns.forEach((pattern, digit) => {
+      const error = pattern.reduce((acc, modules, i) => acc + Math.abs(modules - normalized[i]), 0);
+      if (error < bestError) {
+        bestDigit = digit;
+        bestParity = parity;
+        bestError = error;
+      }
+    });
+  }
+
+  return bestError <= MAX_DIGIT_ERROR ? { digit: bestDigit, parity: bestParity } : null;
+}
@@ -0,0 +1,131 @@
+/**
+ * Open Food Facts Import Mapping
+ *
+ * Maps products from Open Food Facts dumps (JSONL with a `nutriments` object,
+ * or CSV/TSV exports with flat `*_100g` columns) to product table rows.
+ * Open Food Facts stores minerals and vitamins in grams per 100 g; they are
+ * converted to the mg/μg units used by MealItem.
+ */
+
+import { normalizeBarcode } from './barcode';
+import type { ProductRecord } from './store';
+
+type NutrientField = Exclude<
+  keyof ProductRecord,
+  'barcode' | 'name' | 'brand' | 'servingSize' | 'servingUnit' | 'source'
+>;
+
+/**
+ * Open Food Facts per-100g keys and the factor to MealItem units.
+ */
+const NUTRIENT_KEYS: Array<[NutrientField, string, number]> = [
+  ['protein', 'proteins_100g', 1],
+  ['carbs', 'carbohydrates_100g', 1],
+  ['fat', 'fat_100g', 1],
+  ['fiber', 'fiber_100g', 1],
+  ['sugar', 'sugars_100g', 1],
+  ['saturatedFat', 'saturated-fat_100g', 1],
+  ['sodium', 'sodium_100g', 1000], // g → mg
+  ['potassium', 'potassium_100g', 1000],
+  ['calcium', 'calcium_100g', 1000],
+  ['iron', 'iron_100g', 1000],
+  ['vitaminC', 'vitamin-c_100g', 1000],
+  ['cholesterol', 'cholesterol_100g', 1000],
+  ['vitaminA', 'vitamin-a_100g', 1_000_000], // g → μg
+  ['vitaminD', 'vitamin-d_100g', 1_000_000],
+  ['vitaminB12', 'vitamin-b12_100g', 1_000_000],
+];
+
+/**
+ * Name fields in order of preference (Chinese names first for Taiwanese products).
+ */
+const NAME_KEYS = ['product_name_zh', 'product_name', 'generic_name_zh', 'generic_name'];
+
+const KJ_PER_KCAL = 4.184;
+
+function readNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? Number.parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) && number >= 0 ? number : undefined;
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Read the serving size from `serving_quantity`, or parse `serving_size` ("30 g", "1 瓶 (250 ml)").
+ */
+function readServing(
+  product: Record<string, unknown>,
+): Pick<ProductRecord, 'servingSize' | 'servingUnit'> {
+  const servingText = readString(product.serving_size) ?? '';
+  const unitMatch = servingText.match(/(\d+(?:\.\d+)?)\s*(g|ml|公克|克|毫升)(?![a-z])/i);
+  const textUnit = unitMatch && /ml|毫升/i.test(unitMatch[2]) ? 'ml' : 'g';
+
+  const quantity = readNumber(product.serving_quantity);
+  if (quantity && quantity > 0) {
+    const unit = readString(product.serving_quantity_unit)?.toLowerCase();
+    return { servingSize: quantity, servingUnit: unit === 'ml' ? 'ml' : unit ? 'g' : textUnit };
+  }
+
+  const amount = unitMatch ? readNumber(unitMatch[1]) : undefined;
+  return amount && amount > 0 ? { servingSize: amount, servingUnit: textUnit } : {};
+}
+
+/**
+ * Map one Open Food Facts product to a product table row.
+ *
+ * @param product - Parsed JSONL object or CSV row keyed by column name
+ * @param source - Import source stored with the row
+ * @returns Product row, or null without a valid barcode, a name or any nutrient
+ */
+export function mapOpenFoodFactsProduct(
+  product: Record<string, unknown>,
+  source: string,
+): ProductRecord | null {
+  const barcode = normalizeBarcode(String(product.code ?? product.barcode ?? ''));
+  const name = NAME_KEYS.map((key) => readString(product[key])).find(Boolean);
+  if (!barcode || !name) return null;
+
+  // JSONL dumps nest nutrients; CSV exports have them as columns
+  const nutriments =
+    product.nutriments && typeof product.nutriments === 'object'
+      ? (product.nutriments as Record<string, unknown>)
+      : product;
+
+  const record: ProductRecord = {
+    barcode,
+    name,
+    brand: readString(product.brands)?.split(',')[0].trim() ?? null,
+    ...readServing(product),
+    source,
+  };
+
+  const kcal = readNumber(nutriments['energy-kcal_100g']);
+  const kj = readNumber(nutriments['energy-kj_100g'] ?? nutriments['energy_100g']);
+  const calories = kcal ?? (kj !== undefined ? kj / KJ_PER_KCAL : undefined);
+  let hasNutrient = calories !== undefined;
+  if (calories !== undefined) {
+    record.calories = Math.round(calories);
+  }
+
+  for (const [field, key, factor] of NUTRIENT_KEYS) {
+    const value = readNumber(nutriments[key]);
+    if (value === undefined) continue;
+    record[field] = round(value * factor);
+    hasNutrient = true;
+  }
+
+  // Many products list salt but not sodium (sodium = salt × 0.4)
+  const salt = readNumber(nutriments['salt_100g']);
+  if (record.sodium == null && salt !== undefined) {
+    record.sodium = round(salt * 400);
+    hasNutrient = true;
+  }
+
+  return hasNutrient ? record : null;
+}
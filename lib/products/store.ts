@@ -0,0 +1,127 @@
+/**
+ * Product Store (server-side)
+ *
+ * Reads and writes the barcode product table. Nutrition is stored per 100 g
+ * (or 100 ml) and converted to per-serving values on lookup.
+ */
+
+import { prisma } from '@/lib/db/prisma/client';
+import type { ProductInfo } from '@/types/product';
+import type { NutritionLabelValues } from '@/types/recognition';
+
+/**
+ * Product table row as imported (nutrition per 100 g/ml, MealItem field names).
+ */
+export interface ProductRecord {
+  barcode: string;
+  name: string;
+  brand?: string | null;
+  servingSize?: number | null;
+  servingUnit?: 'g' | 'ml' | null;
+  calories?: number | null;
+  protein?: number | null;
+  carbs?: number | null;
+  fat?: number | null;
+  fiber?: number | null;
+  sugar?: number | null;
+  saturatedFat?: number | null;
+  sodium?: number | null;
+  potassium?: number | null;
+  calcium?: number | null;
+  iron?: number | null;
+  vitaminA?: number | null;
+  vitaminC?: number | null;
+  vitaminD?: number | null;
+  vitaminB12?: number | null;
+  cholesterol?: number | null;
+  source?: string | null;
+}
+
+/**
+ * Convert table columns to NutritionData field names, dropping missing values.
+ */
+function toNutritionValues(record: ProductRecord): NutritionLabelValues {
+  const values: NutritionLabelValues = {
+    calories: record.calories ?? undefined,
+    protein: record.protein ?? undefined,
+    carbohydrates: record.carbs ?? undefined,
+    fats: record.fat ?? undefined,
+    fiber: record.fiber ?? undefined,
+    sugar: record.sugar ?? undefined,
+    saturatedFat: record.saturatedFat ?? undefined,
+    sodium: record.sodium ?? undefined,
+    potassium: record.potassium ?? undefined,
+    calcium: record.calcium ?? undefined,
+    iron: record.iron ?? undefined,
+    vitaminA: record.vitaminA ?? undefined,
+    vitaminC: record.vitaminC ?? undefined,
+    vitaminD: record.vitaminD ?? undefined,
+    vitaminB12: record.vitaminB12 ?? undefined,
+    cholesterol: record.cholesterol ?? undefined,
+  };
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value != null),
+  ) as NutritionLabelValues;
+}
+
+/**
+ * Scale per-100 values to one serving (calories to whole numbers, others to 1 decimal).
+ */
+function scaleToServing(values: NutritionLabelValues, servingSize: number): NutritionLabelValues {
+  return Object.fromEntries(
+    Object.entries(values).map(([key, value]) => {
+      const precision = key === 'calories' ? 1 : 10;
+      return [key, Math.round(((value as number) * servingSize * precision) / 100) / precision];
+    }),
+  ) as NutritionLabelValues;
+}
+
+/**
+ * Convert a product row to the lookup response shape.
+ */
+export function toProductInfo(record: ProductRecord): ProductInfo {
+  const per100g = toNutritionValues(record);
+  const servingSize =
+    record.servingSize && record.servingSize > 0
+      ? { amount: record.servingSize, unit: record.servingUnit ?? 'g' }
+      : undefined;
+
+  return {
+    barcode: record.barcode,
+    name: record.name,
+    brand: record.brand ?? undefined,
+    servingSize,
+    perServing: servingSize ? scaleToServing(per100g, servingSize.amount) : undefined,
+    per100g,
+  };
+}
+
+/**
+ * Look up a product by normalized barcode.
+ *
+ * @returns Product, or null if the barcode is not in the table
+ */
+export async function findProductByBarcode(barcode: string): Promise<ProductInfo | null> {
+  const record = await prisma.product.findUnique({ where: { barcode } });
+  return record ? toProductInfo(record as ProductRecord) : null;
+}
+
+/**
+ * Insert or update a batch of products in one transaction.
+ *
+ * @returns Number of products written
+ */
+export async function upsertProducts(records: ProductRecord[]): Promise<number> {
+  if (records.length === 0) return 0;
+
+  await prisma.$transaction(
+    records.map(({ barcode, ...data }) =>
+      prisma.product.upsert({
+        where: { barcode },
+        create: { barcode, ...data },
+        update: data,
+      }),
+    ),
+  );
+  return records.length;
+}
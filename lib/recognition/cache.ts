@@ -0,0 +1,121 @@
+/**
+ * Recognition Result Cache (server-side)
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * Stores validated recognition results in Postgres so re-running recognition
+ * on the same photos (retry, back-navigation) does not call a provider again.
+ *
+ * Key: SHA-256 of the decoded image bytes (in order) + locale + prompt version.
+ * Cache failures never fail a request; they are logged and treated as a miss.
+ */
+
+import { createHash } from 'node:crypto';
+import { prisma } from '@/lib/db/prisma/client';
+import { PROMPT_VERSION } from './prompt';
+import type { MultiItemRecognitionResponse, SupportedLocale } from '@/types/recognition';
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+
+function isCacheEnabled(): boolean {
+  return Boolean(process.env.DATABASE_URL) && process.env.RECOGNITION_CACHE_ENABLED !== 'false';
+}
+
+function getCacheTtlMs(): number {
+  const hours = Number(process.env.RECOGNITION_CACHE_TTL_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+}
+
+/**
+ * Hash the image content, ignoring the data URL header and base64 whitespace,
+ * so the same bytes always produce the same hash.
+ */
+function hashImage(dataUrl: string): string {
+  const commaIndex = dataUrl.indexOf(',');
+  const base64 = (commaIndex >= 0 ? dataUrl.slice(commaIndex + 1) : dataUrl).replace(/\s/g, '');
+  return createHash('sha256').update(Buffer.from(base64, 'base64')).digest('hex');
+}
+
+/**
+ * Build the cache key for a recognition request.
+ *
+ * @param images - Ordered data URL images of the meal
+ * @param locale - Target locale for recognition results
+ * @param mode - Recognition mode producing different results (e.g. "ensemble")
+ * @param promptVersion - Prompt version assigned to the request (default: PROMPT_VERSION)
+ * @returns Hex-encoded cache key
+ */
+export function buildRecognitionCacheKey(
+  images: string[],
+  locale: SupportedLocale,
+  mode?: string,
+  promptVersion: string = PROMPT_VERSION,
+): string {
+  const imageHashes = images.map(hashImage).join(',');
+  const scope = mode ? `${locale}|${mode}` : locale;
+  return createHash('sha256').update(`${promptVersion}|${scope}|${imageHashes}`).digest('hex');
+}
+
+/**
+ * Look up a cached recognition result.
+ *
+ * @returns Cached result with the provider that produced it, or null on miss
+ */
+export async function getCachedRecognition(
+  cacheKey: string,
+): Promise<{ data: MultiItemRecognitionResponse; provider: string } | null> {
+  if (!isCacheEnabled()) {
+    return null;
+  }
+
+  try {
+    const entry = await prisma.recognitionCache.findUnique({ where: { cacheKey } });
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt.getTime() <= Date.now()) {
+      await prisma.recognitionCache.delete({ where: { cacheKey } }).catch(() => undefined);
+      return null;
+    }
+
+    return {
+      data: entry.response as MultiItemRecognitionResponse,
+      provider: entry.provider,
+    };
+  } catch (error) {
+    console.warn('Recognition cache read failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Store a validated recognition result.
+ */
+export async function setCachedRecognition(
+  cacheKey: string,
+  data: MultiItemRecognitionResponse,
+  provider: string,
+): Promise<void> {
+  if (!isCacheEnabled()) {
+    return;
+  }
+
+  const expiresAt = new Date(Date.now() + getCacheTtlMs());
+  const record = {
+    locale: data.locale,
+    promptVersion: data.promptVersion ?? PROMPT_VERSION,
+    provider,
+    response: data,
+    expiresAt,
+  };
+
+  try {
+    await prisma.recognitionCache.upsert({
+      where: { cacheKey },
+      create: { cacheKey, ...record },
+      update: { ...record, createdAt: new Date() },
+    });
+  } catch (error) {
+    console.warn('Recognition cache write failed:', error);
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Ingredient Breakdown Parser
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * Parses and validates breakdown responses, keeping valid ingredients only.
+ */
+
+import { ItemComponentSchema, ItemComponentsResponseSchema } from './components-schema';
+import { type ItemComponentEstimate, MAX_ITEM_COMPONENTS } from '@/types/recognition';
+
+/**
+ * Parser result type.
+ */
+export interface ItemComponentsParseResult {
+  success: boolean;
+  data?: { components: ItemComponentEstimate[]; locale: string };
+  error?: {
+    code: 'INVALID_JSON' | 'VALIDATION_ERROR';
+    message: string;
+  };
+}
+
+/**
+ * Log breakdown parser events.
+ */
+function logComponentsParseEvent(
+  success: boolean,
+  errorCode?: string,
+  errorMessage?: string,
+): void {
+  const payload = JSON.stringify({
+    event: 'components_parse',
+    success,
+    errorCode,
+    errorMessage,
+    timestamp: new Date().toISOString(),
+  });
+  if (success) {
+    console.info(payload);
+  } else {
+    console.warn(payload);
+  }
+}
+
+/**
+ * Parse and validate a breakdown response.
+ *
+ * @param rawJson - Raw JSON string from AI service
+ * @returns Parse result with at most MAX_ITEM_COMPONENTS ingredients, in response order
+ */
+export function parseItemComponents(rawJson: string): ItemComponentsParseResult {
+  let parsed: unknown;
+  try {
+    // Handle potential markdown code blocks
+    const jsonMatch = rawJson.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      logComponentsParseEvent(false, 'INVALID_JSON', 'No JSON object found in response');
+      return {
+        success: false,
+        error: { code: 'INVALID_JSON', message: 'No JSON object found in response' },
+      };
+    }
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown JSON parse error';
+    logComponentsParseEvent(false, 'INVALID_JSON', message);
+    return {
+      success: false,
+      error: { code: 'INVALID_JSON', message: `Failed to parse JSON: ${message}` },
+    };
+  }
+
+  const result = ItemComponentsResponseSchema.safeParse(parsed);
+  if (!result.success) {
+    const errorMessages = result.error.issues
+      .map((e) => `${e.path.join('.')}: ${e.message}`)
+      .join('; ');
+    logComponentsParseEvent(false, 'VALIDATION_ERROR', errorMessages);
+    return {
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: `Validation failed: ${errorMessages}` },
+    };
+  }
+
+  // Drop malformed ingredients; repeated names are merged into the first one
+  const byName = new Map<string, ItemComponentEstimate>();
+  for (const raw of result.data.components) {
+    const component = ItemComponentSchema.safeParse(raw);
+    if (!component.success) continue;
+    const grams = Math.round(component.data.grams);
+    const existing = byName.get(component.data.name);
+    if (existing) {
+      existing.grams += grams;
+    } else if (byName.size < MAX_ITEM_COMPONENTS) {
+      byName.set(component.data.name, { name: component.data.name, grams });
+    }
+  }
+
+  const components = [...byName.values()].filter((component) => component.grams > 0);
+  if (components.length === 0) {
+    logComponentsParseEvent(false, 'VALIDATION_ERROR', 'No valid ingredient in response');
+    return {
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'No valid ingredient in response' },
+    };
+  }
+
+  logComponentsParseEvent(true);
+  return { success: true, data: { components, locale: result.data.locale } };
+}
@@ -0,0 +1,83 @@
+/**
+ * Ingredient Breakdown Prompt Builder
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * Recognition keeps a mixed dish (牛肉麵, 滷肉飯) as one item. This prompt asks
+ * the model to split one logged dish into its ingredients with gram estimates,
+ * so each ingredient can be looked up on its own.
+ */
+
+import type { RecognitionPrompt } from './prompt';
+import {
+  type ComponentsDishInput,
+  type SupportedLocale,
+  MAX_ITEM_COMPONENTS,
+} from '@/types/recognition';
+
+/**
+ * Build system prompt for ingredient breakdown.
+ *
+ * @param locale - Locale of the ingredient names
+ * @returns System prompt string
+ */
+export function buildComponentsSystemPrompt(locale: SupportedLocale): string {
+  const nameLanguage = locale === 'en' ? 'English' : 'Traditional Chinese (Taiwan)';
+
+  return `You are a nutrition expert who breaks mixed dishes down into their ingredients. You are given one dish and the portion the user logged.
+
+IMPORTANT: Respond ONLY with valid JSON in this exact format:
+{
+  "components": [
+    { "name": "油麵", "grams": 200 },
+    { "name": "牛腱", "grams": 80 },
+    { "name": "牛肉湯", "grams": 350 }
+  ],
+  "locale": "${locale}"
+}
+
+Field definitions:
+- "name": Ingredient name in ${nameLanguage}, specific enough for a nutrition database lookup (e.g. "牛腱" rather than "肉")
+- "grams": Estimated weight of the ingredient in the logged portion, as eaten (cooked weight)
+- "locale": Must be "${locale}"
+
+Rules:
+1. Return 2-${MAX_ITEM_COMPONENTS} ingredients, largest contributors to calories first
+2. The grams of all ingredients should add up to the weight of the logged portion
+3. Count broth, sauce and cooking oil as their own ingredients when they are a meaningful part of the dish
+4. Skip garnishes and seasonings under 5 g
+5. Do not include any text outside the JSON object`;
+}
+
+/**
+ * Build user prompt for ingredient breakdown.
+ *
+ * @param dish - The logged dish
+ * @returns User prompt string
+ */
+export function buildComponentsUserPrompt(dish: ComponentsDishInput): string {
+  const weight = dish.estimatedWeightGrams
+    ? ` (about ${Math.round(dish.estimatedWeightGrams)} g)`
+    : '';
+
+  return `Dish: ${dish.name}
+Logged portion: ${dish.portionSize} ${dish.portionUnit}${weight}
+
+Break this dish down into its ingredients. Return ONLY valid JSON, no explanations.`;
+}
+
+/**
+ * Build complete ingredient breakdown prompt.
+ *
+ * @param dish - The logged dish
+ * @param locale - Locale of the request (default: "zh-TW")
+ * @returns Prompt with system and user messages
+ */
+export function buildComponentsPrompt(
+  dish: ComponentsDishInput,
+  locale: SupportedLocale = 'zh-TW',
+): RecognitionPrompt {
+  return {
+    system: buildComponentsSystemPrompt(locale),
+    user: buildComponentsUserPrompt(dish),
+  };
+}
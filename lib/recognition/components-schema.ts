@@ -0,0 +1,28 @@
+/**
+ * Zod Schema for Ingredient Breakdown Responses
+ * Based on Spec 003 - Multi-item Recognition
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schema for one ingredient of a dish.
+ */
+export const ItemComponentSchema = z.object({
+  name: z.string().trim().min(1, 'Ingredient name is required').max(100),
+  grams: z.number().finite().positive(),
+});
+
+/**
+ * Schema for a breakdown response.
+ * Malformed ingredients are dropped by the parser rather than failing the response.
+ */
+export const ItemComponentsResponseSchema = z.object({
+  components: z.array(z.unknown()),
+  locale: z.string().min(1, 'Locale is required'),
+});
+
+/**
+ * Type inference from Zod schema.
+ */
+export type ItemComponentFromSchema = z.infer<typeof ItemComponentSchema>;
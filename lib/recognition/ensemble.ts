@@ -0,0 +1,273 @@
+/**
+ * Ensemble Recognition
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * Opt-in mode for hard photos: several providers recognize the same photos in
+ * parallel and their items are merged.
+ *
+ * - Items are matched by name similarity within the same category
+ * - Matched items average their confidence; weights are confidence-weighted
+ * - Items only one provider saw keep a reduced confidence
+ * - When matched names disagree, the other names become `alternativeCandidates`
+ */
+
+import type { RecognitionProvider } from './provider/base';
+import type { RecognitionPrompt } from './prompt';
+import { parseAndValidate, normalizeItemName } from './parser';
+import { parseEstimatedNumber } from './estimate-utils';
+import type {
+  MultiItemRecognitionError,
+  RecognitionItem,
+  SupportedLocale,
+} from '@/types/recognition';
+
+/** Minimum similarity for two items to be treated as the same dish. */
+const MATCH_THRESHOLD = 0.5;
+/** Similarity above which two names are considered to agree. */
+const AGREEMENT_THRESHOLD = 0.8;
+/** Confidence factor for items only one provider recognized. */
+const SINGLE_PROVIDER_CONFIDENCE_FACTOR = 0.8;
+const MAX_ALTERNATIVE_CANDIDATES = 3;
+
+/**
+ * Per-provider ensemble output, recorded in the recognition log event.
+ */
+export interface EnsembleProviderOutput {
+  provider: string;
+  success: boolean;
+  errorCode?: string;
+  processingTimeMs: number;
+  items?: Array<{
+    name: string;
+    confidence?: number;
+    category?: string;
+    estimatedWeightGrams?: number;
+  }>;
+}
+
+export interface EnsembleResult {
+  items: RecognitionItem[];
+  outputs: EnsembleProviderOutput[];
+  /** Providers whose items were merged, in chain order. */
+  providers: string[];
+  /** Last error when no provider succeeded. */
+  errorCode?: MultiItemRecognitionError;
+}
+
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u9fff]/;
+
+/**
+ * Split a normalized name into comparison tokens: single characters for CJK
+ * names (each character carries meaning), character bigrams otherwise.
+ */
+function toTokens(value: string): string[] {
+  if (CJK_PATTERN.test(value) || value.length < 2) {
+    return Array.from(value);
+  }
+  const bigrams: string[] = [];
+  for (let i = 0; i < value.length - 1; i++) {
+    bigrams.push(value.slice(i, i + 2));
+  }
+  return bigrams;
+}
+
+/**
+ * Name similarity (0-1): Dice coefficient over characters (CJK) or character
+ * bigrams (Latin). Containment (e.g. "牛肉麵" in "紅燒牛肉麵") scores 0.9.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeItemName(a);
+  const right = normalizeItemName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (left.includes(right) || right.includes(left)) return 0.9;
+
+  const leftTokens = toTokens(left);
+  const rightTokens = toTokens(right);
+  const remaining = [...rightTokens];
+  let overlap = 0;
+  for (const token of leftTokens) {
+    const index = remaining.indexOf(token);
+    if (index >= 0) {
+      overlap += 1;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * overlap) / (leftTokens.length + rightTokens.length);
+}
+
+function weightedAverage(values: Array<{ value?: number; weight: number }>): number | undefined {
+  const present = values.filter(
+    (entry): entry is { value: number; weight: number } => entry.value != null,
+  );
+  if (present.length === 0) return undefined;
+  const totalWeight = present.reduce((sum, entry) => sum + entry.weight, 0);
+  if (totalWeight <= 0) {
+    return present.reduce((sum, entry) => sum + entry.value, 0) / present.length;
+  }
+  return present.reduce((sum, entry) => sum + entry.value * entry.weight, 0) / totalWeight;
+}
+
+/**
+ * Merge a group of matched items from different providers into one item.
+ * The most confident item provides the name and descriptive fields.
+ */
+function mergeGroup(group: RecognitionItem[], providerCount: number): RecognitionItem {
+  const [best, ...others] = [...group].sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0));
+  const confidences = group.map((item) => item.confidence ?? 0.5);
+  const averageConfidence = confidences.reduce((sum, value) => sum + value, 0) / confidences.length;
+  const confidence =
+    group.length < providerCount && providerCount > 1
+      ? averageConfidence * SINGLE_PROVIDER_CONFIDENCE_FACTOR
+      : averageConfidence;
+
+  const weight = weightedAverage(
+    group.map((item) => ({
+      value: parseEstimatedNumber(item.estimatedWeightGrams),
+      weight: item.confidence ?? 0.5,
+    })),
+  );
+  // Only providers that saw the reference object return a scaled weight
+  const scaledWeight = weightedAverage(
+    group.map((item) => ({ value: item.scaledWeightGrams, weight: item.confidence ?? 0.5 })),
+  );
+
+  const alternativeCandidates = Array.from(
+    new Set(
+      others
+        .filter((item) => nameSimilarity(item.name, best.name) < AGREEMENT_THRESHOLD)
+        .map((item) => item.name),
+    ),
+  ).slice(0, MAX_ALTERNATIVE_CANDIDATES);
+
+  // Any provider's allergen tag is kept; missing one is worse than an extra warning
+  const allergens = group.some((item) => item.allergens)
+    ? Array.from(new Set(group.flatMap((item) => item.allergens ?? [])))
+    : undefined;
+
+  return {
+    ...best,
+    confidence: Math.round(confidence * 100) / 100,
+    estimatedWeightGrams: weight != null ? Math.round(weight) : best.estimatedWeightGrams,
+    scaledWeightGrams: scaledWeight != null ? Math.round(scaledWeight) : undefined,
+    boundingBox: best.boundingBox ?? others.find((item) => item.boundingBox)?.boundingBox,
+    alternativeCandidates: alternativeCandidates.length > 0 ? alternativeCandidates : undefined,
+    allergens,
+  };
+}
+
+/**
+ * Merge item lists from several providers.
+ *
+ * @param itemLists - Items per provider, in chain order (the first list sets the item order)
+ * @returns Merged items
+ */
+export function mergeEnsembleItems(itemLists: RecognitionItem[][]): RecognitionItem[] {
+  const groups: RecognitionItem[][] = [];
+
+  for (const items of itemLists) {
+    const matchedGroups = new Set<number>();
+
+    for (const item of items) {
+      const category = item.category ?? 'food';
+      let bestIndex = -1;
+      let bestScore = MATCH_THRESHOLD;
+
+      groups.forEach((group, index) => {
+        if (matchedGroups.has(index) || (group[0].category ?? 'food') !== category) {
+          return;
+        }
+        const score = Math.max(...group.map((member) => nameSimilarity(member.name, item.name)));
+        if (score >= bestScore) {
+          bestScore = score;
+          bestIndex = index;
+        }
+      });
+
+      if (bestIndex >= 0) {
+        groups[bestIndex].push(item);
+        matchedGroups.add(bestIndex);
+      } else {
+        groups.push([item]);
+        matchedGroups.add(groups.length - 1);
+      }
+    }
+  }
+
+  return groups.map((group) => mergeGroup(group, itemLists.length));
+}
+
+/**
+ * Run providers in parallel and merge their items.
+ *
+ * @param providers - Providers to run (in chain order)
+ * @param images - Ordered base64-encoded images of the same meal
+ * @param locale - Target locale for recognition results
+ * @param prompt - Prompt override (default: each provider's multi-item recognition prompt)
+ * @param maxItems - Maximum items per provider response (default: 6, more in spread mode)
+ * @returns Merged items (empty when no provider succeeded) and per-provider outputs
+ */
+export async function runEnsembleRecognition(
+  providers: RecognitionProvider[],
+  images: string[],
+  locale: SupportedLocale,
+  prompt?: RecognitionPrompt,
+  maxItems?: number,
+): Promise<EnsembleResult> {
+  const outcomes = await Promise.all(
+    providers.map(async (provider) => {
+      const startTime = Date.now();
+      const providerResponse = await provider.getJsonResponse(images, locale, prompt);
+
+      if (!providerResponse.success || !providerResponse.rawJson) {
+        return {
+          provider: provider.name,
+          errorCode: (providerResponse.error?.code ?? 'API_ERROR') as MultiItemRecognitionError,
+          processingTimeMs: Date.now() - startTime,
+        };
+      }
+
+      const parseResult = parseAndValidate(providerResponse.rawJson, maxItems, locale);
+      if (!parseResult.success || !parseResult.data) {
+        return {
+          provider: provider.name,
+          errorCode: (parseResult.error?.code ?? 'VALIDATION_ERROR') as MultiItemRecognitionError,
+          processingTimeMs: Date.now() - startTime,
+        };
+      }
+
+      return {
+        provider: provider.name,
+        items: parseResult.data.items as RecognitionItem[],
+        processingTimeMs: Date.now() - startTime,
+      };
+    }),
+  );
+
+  const outputs: EnsembleProviderOutput[] = outcomes.map((outcome) => ({
+    provider: outcome.provider,
+    success: Boolean(outcome.items),
+    errorCode: outcome.errorCode,
+    processingTimeMs: outcome.processingTimeMs,
+    items: outcome.items?.map((item) => ({
+      name: item.name,
+      confidence: item.confidence,
+      category: item.category,
+      estimatedWeightGrams: parseEstimatedNumber(item.estimatedWeightGrams),
+    })),
+  }));
+
+  const succeeded = outcomes.filter(
+    (
+      outcome,
+    ): outcome is { provider: string; items: RecognitionItem[]; processingTimeMs: number } =>
+      Boolean(outcome.items),
+  );
+
+  return {
+    items: mergeEnsembleItems(succeeded.map((outcome) => outcome.items)),
+    outputs,
+    providers: succeeded.map((outcome) => outcome.provider),
+    errorCode: succeeded.length === 0 ? outcomes[outcomes.length - 1]?.errorCode : undefined,
+  };
+}
@@ -6,6 +6,7 @@ export interface DerivedPortion {
   containerSize?: RecognitionItem['containerSize'];
   aiEstimatedCount?: number;
   aiEstimatedWeightGrams?: number;
+  referenceWeightGrams?: number; // Per portion unit, from the user's reference object
 }
 
 export function parseEstimatedNumber(value?: number | string): number | undefined {
@@ -28,16 +29,22 @@ export function derivePortionFromRecognition(item: RecognitionItem): DerivedPort
   const estimatedWeight = parseEstimatedNumber(item.estimatedWeightGrams);
   const estimatedCount = parseEstimatedNumber(item.estimatedCount);
   const portionUnit = item.portionUnit?.trim() || '份';
-  const countBasedUnits = ['片', '隻', '只', '塊', '顆', '朵'];
-  const isCountUnit = countBasedUnits.includes(portionUnit);
+  const countBasedUnits = ['片', '隻', '只', '塊', '顆', '朵', 'slice', 'piece', 'chunk', 'pc'];
+  const isCountUnit = countBasedUnits.includes(portionUnit.toLowerCase().replace(/s$/, ''));
   const countSize =
     estimatedCount && estimatedCount > 0 ? Math.round(estimatedCount * 10) / 10 : undefined;
+  const portionSize = isCountUnit && countSize ? countSize : 1;
+  // scaledWeightGrams is the total visible weight; portions scale per unit
+  const referenceWeightGrams = item.scaledWeightGrams
+    ? Math.round((item.scaledWeightGrams / portionSize) * 10) / 10
+    : undefined;
 
   return {
-    portionSize: isCountUnit && countSize ? countSize : 1,
+    portionSize,
     portionUnit,
     containerSize: item.containerSize,
     aiEstimatedCount: estimatedCount,
     aiEstimatedWeightGrams: estimatedWeight,
+    referenceWeightGrams,
   };
 }
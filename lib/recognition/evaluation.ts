@@ -0,0 +1,251 @@
+/**
+ * Recognition Evaluation
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * Scores recorded provider responses against labelled photos by running the
+ * same parse → map → portion pipeline as the app:
+ *
+ * - parseAndValidate + finalizeRecognitionItems (as in /api/recognize)
+ * - mapRecognitionItemToMealItem (portion derivation)
+ * - resolvePortionScale (grams used for nutrition scaling)
+ *
+ * Used by scripts/evaluate-recognition.ts; see evaluation/recognition/README.md.
+ */
+
+import { finalizeRecognitionItems, parseAndValidate } from './parser';
+import { nameSimilarity } from './ensemble';
+import { mapRecognitionItemToMealItem } from '@/lib/services/recognition-mapper';
+import { resolvePortionScale } from '@/lib/nutrition/portion-conversion';
+import type { RecognitionCategory, RecognitionItem, SupportedLocale } from '@/types/recognition';
+
+/** Minimum name similarity for a predicted item to count as an expected item. */
+const MATCH_THRESHOLD = 0.5;
+
+/**
+ * Labelled item expected in a photo.
+ */
+export interface ExpectedItem {
+  name: string;
+  aliases?: string[]; // Other acceptable names (e.g. "白飯" for "米飯")
+  grams?: number;
+  category?: RecognitionCategory;
+}
+
+/**
+ * Labelled evaluation case (case.json).
+ */
+export interface EvaluationCase {
+  id: string;
+  description?: string;
+  locale: SupportedLocale;
+  photos: string[]; // Photo file names relative to the case folder, in capture order
+  items: ExpectedItem[];
+}
+
+/**
+ * Recorded raw provider response for one case and prompt version.
+ */
+export interface RecordedResponse {
+  provider: string;
+  promptVersion: string;
+  recordedAt: string;
+  rawJson: string;
+}
+
+export interface ItemMatch {
+  expected: string;
+  predicted: string;
+  similarity: number;
+  expectedGrams?: number;
+  predictedGrams?: number;
+  expectedCategory?: RecognitionCategory;
+  predictedCategory?: RecognitionCategory;
+}
+
+/**
+ * Evaluation of one recorded response.
+ */
+export interface CaseEvaluation {
+  caseId: string;
+  provider: string;
+  promptVersion: string;
+  parseError?: string; // Set when the recording fails parseAndValidate
+  expectedCount: number;
+  predictedCount: number;
+  matches: ItemMatch[];
+  missed: string[]; // Expected items without a match
+  extra: string[]; // Predicted items without a match
+}
+
+/**
+ * Aggregated metrics (micro-averaged over all items).
+ */
+export interface EvaluationMetrics {
+  cases: number;
+  parseFailures: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  weightSamples: number;
+  weightMeanAbsoluteError?: number; // grams
+  weightMeanAbsolutePercentError?: number; // 0-1
+  categorySamples: number;
+  categoryAccuracy?: number;
+}
+
+/**
+ * Estimate the grams the app would use for a recognized item.
+ */
+export function estimateItemGrams(item: RecognitionItem): number | undefined {
+  const mealItem = mapRecognitionItemToMealItem(item);
+  const { grams } = resolvePortionScale(
+    mealItem.foodName,
+    mealItem.portionSize,
+    mealItem.portionUnit,
+    mealItem.containerSize,
+    mealItem.aiEstimatedWeightGrams,
+    mealItem.referenceWeightGrams,
+  );
+  return grams != null ? Math.round(grams) : undefined;
+}
+
+function scoreMatch(expected: ExpectedItem, predicted: RecognitionItem): number {
+  return Math.max(
+    ...[expected.name, ...(expected.aliases ?? [])].map((name) =>
+      nameSimilarity(name, predicted.name),
+    ),
+  );
+}
+
+/**
+ * Match predicted items to expected items, best pairs first.
+ */
+function matchItems(
+  expected: ExpectedItem[],
+  predicted: RecognitionItem[],
+): Array<{ expected: ExpectedItem; predicted: RecognitionItem; score: number }> {
+  const candidates: Array<{ expectedIndex: number; predictedIndex: number; score: number }> = [];
+  expected.forEach((expectedItem, expectedIndex) => {
+    predicted.forEach((predictedItem, predictedIndex) => {
+      const score = scoreMatch(expectedItem, predictedItem);
+      if (score >= MATCH_THRESHOLD) {
+        candidates.push({ expectedIndex, predictedIndex, score });
+      }
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score);
+
+  const usedExpected = new Set<number>();
+  const usedPredicted = new Set<number>();
+  const pairs: Array<{ expected: ExpectedItem; predicted: RecognitionItem; score: number }> = [];
+  for (const candidate of candidates) {
+    if (usedExpected.has(candidate.expectedIndex) || usedPredicted.has(candidate.predictedIndex)) {
+      continue;
+    }
+    usedExpected.add(candidate.expectedIndex);
+    usedPredicted.add(candidate.predictedIndex);
+    pairs.push({
+      expected: expected[candidate.expectedIndex],
+      predicted: predicted[candidate.predictedIndex],
+      score: candidate.score,
+    });
+  }
+  return pairs;
+}
+
+/**
+ * Evaluate one recorded response against its labelled case.
+ */
+export function evaluateRecordedResponse(
+  testCase: EvaluationCase,
+  recording: RecordedResponse,
+): CaseEvaluation {
+  const base = {
+    caseId: testCase.id,
+    provider: recording.provider,
+    promptVersion: recording.promptVersion,
+    expectedCount: testCase.items.length,
+  };
+
+  const parseResult = parseAndValidate(recording.rawJson);
+  if (!parseResult.success || !parseResult.data) {
+    return {
+      ...base,
+      parseError: parseResult.error?.code ?? 'VALIDATION_ERROR',
+      predictedCount: 0,
+      matches: [],
+      missed: testCase.items.map((item) => item.name),
+      extra: [],
+    };
+  }
+
+  const predicted = finalizeRecognitionItems(parseResult.data.items) as RecognitionItem[];
+  const pairs = matchItems(testCase.items, predicted);
+  const matchedExpected = new Set(pairs.map((pair) => pair.expected));
+  const matchedPredicted = new Set(pairs.map((pair) => pair.predicted));
+
+  return {
+    ...base,
+    predictedCount: predicted.length,
+    matches: pairs.map(({ expected, predicted: item, score }) => ({
+      expected: expected.name,
+      predicted: item.name,
+      similarity: Math.round(score * 100) / 100,
+      expectedGrams: expected.grams,
+      predictedGrams: estimateItemGrams(item),
+      expectedCategory: expected.category,
+      predictedCategory: item.category,
+    })),
+    missed: testCase.items.filter((item) => !matchedExpected.has(item)).map((item) => item.name),
+    extra: predicted.filter((item) => !matchedPredicted.has(item)).map((item) => item.name),
+  };
+}
+
+/**
+ * Aggregate case evaluations into overall metrics.
+ */
+export function summarizeEvaluations(results: CaseEvaluation[]): EvaluationMetrics {
+  const expectedCount = results.reduce((sum, result) => sum + result.expectedCount, 0);
+  const predictedCount = results.reduce((sum, result) => sum + result.predictedCount, 0);
+  const matches = results.flatMap((result) => result.matches);
+
+  const precision = predictedCount > 0 ? matches.length / predictedCount : 0;
+  const recall = expectedCount > 0 ? matches.length / expectedCount : 0;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+
+  const weighed = matches.filter(
+    (match): match is ItemMatch & { expectedGrams: number; predictedGrams: number } =>
+      match.expectedGrams != null && match.expectedGrams > 0 && match.predictedGrams != null,
+  );
+  const absoluteErrors = weighed.map((match) =>
+    Math.abs(match.predictedGrams - match.expectedGrams),
+  );
+
+  const categorized = matches.filter((match) => match.expectedCategory != null);
+  const correctCategories = categorized.filter(
+    (match) => (match.predictedCategory ?? 'food') === match.expectedCategory,
+  );
+
+  return {
+    cases: results.length,
+    parseFailures: results.filter((result) => result.parseError).length,
+    precision,
+    recall,
+    f1,
+    weightSamples: weighed.length,
+    weightMeanAbsoluteError:
+      weighed.length > 0
+        ? absoluteErrors.reduce((sum, error) => sum + error, 0) / weighed.length
+        : undefined,
+    weightMeanAbsolutePercentError:
+      weighed.length > 0
+        ? weighed.reduce(
+            (sum, match, index) => sum + absoluteErrors[index] / match.expectedGrams,
+            0,
+          ) / weighed.length
+        : undefined,
+    categorySamples: categorized.length,
+    categoryAccuracy:
+      categorized.length > 0 ? correctCategories.length / categorized.length : undefined,
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * Image Normalization (server-side)
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * Every photo sent to a recognition provider is decoded and re-encoded here
+ * first: size and dimension limits are enforced, HEIC/WebP/PNG are decoded,
+ * EXIF orientation is applied and all metadata (including GPS location) is
+ * dropped. Providers only ever receive a standard JPEG.
+ */
+
+import sharp from 'sharp';
+import decodeHeic from 'heic-decode';
+import type { InvalidImageReason } from '@/types/recognition';
+
+/**
+ * Largest decoded upload accepted (the client compresses to 200-500 KB).
+ */
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Shortest side below which food cannot be recognized reliably.
+ */
+export const MIN_IMAGE_DIMENSION = 64;
+
+/**
+ * Pixel count limit (about a 50 MP camera), so decoding stays within memory.
+ */
+export const MAX_IMAGE_PIXELS = 50_000_000;
+
+/**
+ * Longest side of the re-encoded image sent to providers.
+ */
+export const NORMALIZED_IMAGE_MAX_DIMENSION = 1536;
+
+export const NORMALIZED_IMAGE_QUALITY = 85;
+
+/**
+ * Input formats as reported by sharp ('heif' covers HEIC and AVIF).
+ */
+const SUPPORTED_INPUT_FORMATS = new Set(['jpeg', 'png', 'webp', 'heif']);
+
+export type ImageNormalizationResult =
+  | {
+      valid: true;
+      image: string; // data:image/jpeg;base64,...
+      width: number;
+      height: number;
+      format: string; // Original format
+      originalBytes: number;
+      bytes: number;
+    }
+  | { valid: false; reason: InvalidImageReason };
+
+/**
+ * Decode a data URL into its bytes, checking the size before decoding.
+ */
+function decodeDataUrl(dataUrl: string): Buffer | InvalidImageReason {
+  const match = dataUrl.match(/^data:image\/[\w.+-]+;base64,([A-Za-z0-9+/=\s]+)$/);
+  if (!match) return 'MALFORMED_DATA_URL';
+  // Base64 carries 3 bytes per 4 characters
+  if (Math.floor((match[1].length * 3) / 4) > MAX_IMAGE_BYTES) return 'FILE_TOO_LARGE';
+  const buffer = Buffer.from(match[1], 'base64');
+  if (buffer.length === 0) return 'MALFORMED_DATA_URL';
+  if (buffer.length > MAX_IMAGE_BYTES) return 'FILE_TOO_LARGE';
+  return buffer;
+}
+
+/**
+ * Create the sharp input for an image. The bundled libvips only decodes
+ * AV1-compressed HEIF, so HEVC (iPhone HEIC) photos are decoded to raw pixels
+ * with libheif first.
+ */
+async function createDecoder(buffer: Buffer, metadata: sharp.Metadata): Promise<sharp.Sharp> {
+  if (metadata.format === 'heif' && metadata.compression === 'hevc') {
+    const { width, height, data } = await decodeHeic({ buffer });
+    return sharp(Buffer.from(data.buffer, data.byteOffset, data.byteLength), {
+      raw: { width, height, channels: 4 },
+    });
+  }
+  return sharp(buffer, { failOn: 'error' });
+}
+
+/**
+ * Validate and re-encode one image for recognition.
+ *
+ * @param dataUrl - Base64-encoded image from the request body (data URL format)
+ * @returns The normalized JPEG data URL, or the reason the image was rejected
+ */
+export async function normalizeImage(dataUrl: string): Promise<ImageNormalizationResult> {
+  const buffer = decodeDataUrl(dataUrl);
+  if (typeof buffer === 'string') {
+    return { valid: false, reason: buffer };
+  }
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(buffer).metadata();
+  } catch {
+    return { valid: false, reason: 'UNSUPPORTED_FORMAT' };
+  }
+
+  if (!SUPPORTED_INPUT_FORMATS.has(metadata.format)) {
+    return { valid: false, reason: 'UNSUPPORTED_FORMAT' };
+  }
+  if (!metadata.width || !metadata.height) {
+    return { valid: false, reason: 'CORRUPT_IMAGE' };
+  }
+  if (Math.min(metadata.width, metadata.height) < MIN_IMAGE_DIMENSION) {
+    return { valid: false, reason: 'DIMENSIONS_TOO_SMALL' };
+  }
+  if (metadata.width * metadata.height > MAX_IMAGE_PIXELS) {
+    return { valid: false, reason: 'DIMENSIONS_TOO_LARGE' };
+  }
+
+  try {
+    const decoder = await createDecoder(buffer, metadata);
+    // No withMetadata(): EXIF, GPS, XMP and ICC data are not copied to the output
+    const { data, info } = await decoder
+      .rotate() // Apply EXIF orientation
+      .resize({
+        width: NORMALIZED_IMAGE_MAX_DIMENSION,
+        height: NORMALIZED_IMAGE_MAX_DIMENSION,
+        fit: 'inside',
+        withoutEnlargement: true,
+      })
+      .flatten({ background: '#ffffff' }) // Transparent PNG/WebP areas
+      .jpeg({ quality: NORMALIZED_IMAGE_QUALITY, mozjpeg: true })
+      .toBuffer({ resolveWithObject: true });
+
+    return {
+      valid: true,
+      image: `data:image/jpeg;base64,${data.toString('base64')}`,
+      width: info.width,
+      height: info.height,
+      format: metadata.format,
+      originalBytes: buffer.length,
+      bytes: data.length,
+    };
+  } catch (error) {
+    console.warn('Image normalization failed:', error instanceof Error ? error.message : error);
+    return { valid: false, reason: 'CORRUPT_IMAGE' };
+  }
+}
+
+/**
+ * Normalize the ordered images of one request, one at a time to bound memory.
+ * Stops at the first rejected image.
+ */
+export async function normalizeImages(
+  images: string[],
+): Promise<{ valid: true; images: string[] } | { valid: false; reason: InvalidImageReason }> {
+  const normalized: string[] = [];
+  for (const image of images) {
+    const result = await normalizeImage(image);
+    if (!result.valid) return result;
+    normalized.push(result.image);
+  }
+  return { valid: true, images: normalized };
+}
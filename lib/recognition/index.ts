@@ -7,6 +7,8 @@
 export {
   RecognitionItemSchema,
   MultiItemRecognitionResponseSchema,
+  createMultiItemResponseSchema,
+  createRecognitionJsonSchema,
   validateRecognitionResponse,
   type RecognitionItemFromSchema,
   type MultiItemRecognitionResponseFromSchema,
@@ -14,21 +16,113 @@ export {
 } from './schema';
 
 // Parser
-export { parseAndValidate, truncateItems, type ParseResult } from './parser';
+export {
+  parseAndValidate,
+  truncateItems,
+  dedupeItems,
+  createStreamingItemParser,
+  repairJsonText,
+  getParseMetrics,
+  type ParseResult,
+  type ParseRepair,
+  type ParseMetrics,
+  type StreamingItemParser,
+} from './parser';
+
+// Nutrition facts label reading
+export { buildNutritionLabelPrompt } from './label-prompt';
+export {
+  NutritionLabelResponseSchema,
+  NutritionLabelValuesSchema,
+  type NutritionLabelResponseFromSchema,
+} from './label-schema';
+export { parseNutritionLabel, type NutritionLabelParseResult } from './label-parser';
+
+// Leftover ("after") photos
+export { buildLeftoverPrompt } from './leftover-prompt';
+export {
+  LeftoverEstimateSchema,
+  LeftoverResponseSchema,
+  type LeftoverResponseFromSchema,
+} from './leftover-schema';
+export { parseLeftovers, type LeftoverParseResult } from './leftover-parser';
+
+// Ingredient breakdown of mixed dishes
+export { buildComponentsPrompt } from './components-prompt';
+export {
+  ItemComponentSchema,
+  ItemComponentsResponseSchema,
+  type ItemComponentFromSchema,
+} from './components-schema';
+export { parseItemComponents, type ItemComponentsParseResult } from './components-parser';
+
+// Text meal descriptions
+export { buildTextRecognitionPrompt } from './text-prompt';
 
 // Prompt builder
 export {
   buildRecognitionPrompt,
   buildSystemPrompt,
   buildUserPrompt,
+  isRegisteredPromptVersion,
+  PROMPT_VERSION,
+  RECOGNITION_PROMPT_TEMPLATES,
   type RecognitionPrompt,
+  type RecognitionPromptOptions,
+  type RecognitionPromptTemplate,
 } from './prompt';
+export {
+  REFERENCE_OBJECT_TYPES,
+  DEFAULT_REFERENCE_SIZES_CM,
+  parseReferenceObject,
+  describeReferenceObject,
+} from './reference-object';
 
 // Provider abstraction
-export { RecognitionProvider, type ProviderConfig, type ProviderResponse } from './provider/base';
+export {
+  RecognitionProvider,
+  type ProviderConfig,
+  type ProviderResponse,
+  type RecognitionProviderFactory,
+} from './provider/base';
 
 // OpenAI provider
 export { OpenAIProvider, createOpenAIProvider } from './provider/openai';
 
 // Gemini provider
 export { GeminiProvider, createGeminiProvider } from './provider/gemini';
+
+// OpenAI-compatible provider (self-hosted / local endpoints)
+export {
+  OpenAICompatibleProvider,
+  createOpenAICompatibleProvider,
+} from './provider/openai-compatible';
+
+// Provider registry
+export {
+  registerRecognitionProvider,
+  getRegisteredProviderNames,
+  resolveProviderChain,
+  resolveEnsembleProviderChain,
+  createProviderChain,
+  isProviderConfigured,
+  type RegisteredProvider,
+} from './provider/registry';
+
+// Provider health (circuit breaker)
+export {
+  HealthTrackedProvider,
+  getProviderHealth,
+  isProviderAvailable,
+  type CircuitState,
+  type ProviderHealthStatus,
+} from './provider/health';
+
+// Ensemble mode
+export {
+  nameSimilarity,
+  mergeEnsembleItems,
+  runEnsembleRecognition,
+  type EnsembleProviderOutput,
+  type EnsembleResult,
+} from './ensemble';
@@ -0,0 +1,144 @@
+/**
+ * Nutrition Facts Label Parser
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * Parses and validates label responses, then fills in whichever column the
+ * label does not print (per serving ↔ per 100 g) from the serving size.
+ */
+
+import {
+  LABEL_NUTRIENT_KEYS,
+  NutritionLabelResponseSchema,
+  type NutritionLabelValuesFromSchema,
+} from './label-schema';
+import type { NutritionLabelResult, NutritionLabelValues } from '@/types/recognition';
+
+/**
+ * Parser result type.
+ */
+export interface NutritionLabelParseResult {
+  success: boolean;
+  data?: Omit<NutritionLabelResult, 'locale'> & { locale: string };
+  error?: {
+    code: 'INVALID_JSON' | 'VALIDATION_ERROR' | 'NO_LABEL_DETECTED';
+    message: string;
+  };
+}
+
+/**
+ * Log label parser events.
+ */
+function logLabelParseEvent(success: boolean, errorCode?: string, errorMessage?: string): void {
+  const payload = JSON.stringify({
+    event: 'nutrition_label_parse',
+    success,
+    errorCode,
+    errorMessage,
+    timestamp: new Date().toISOString(),
+  });
+  if (success) {
+    console.info(payload);
+  } else {
+    console.warn(payload);
+  }
+}
+
+/**
+ * Drop missing nutrients; returns undefined when nothing was read.
+ */
+function compactValues(
+  values: NutritionLabelValuesFromSchema | null | undefined,
+): NutritionLabelValues | undefined {
+  if (!values) return undefined;
+  const entries = Object.entries(values).filter(([, value]) => value != null);
+  return entries.length > 0 ? (Object.fromEntries(entries) as NutritionLabelValues) : undefined;
+}
+
+/**
+ * Scale every nutrient by a ratio (calories to whole numbers, others to 1 decimal).
+ */
+function scaleValues(values: NutritionLabelValues, ratio: number): NutritionLabelValues {
+  const scaled: NutritionLabelValues = {};
+  for (const key of LABEL_NUTRIENT_KEYS) {
+    const value = values[key];
+    if (value == null) continue;
+    const precision = key === 'calories' ? 1 : 10;
+    scaled[key] = Math.round(value * ratio * precision) / precision;
+  }
+  return scaled;
+}
+
+/**
+ * Parse and validate a nutrition label response.
+ *
+ * @param rawJson - Raw JSON string from AI service
+ * @returns Parse result with both label columns when they can be derived
+ */
+export function parseNutritionLabel(rawJson: string): NutritionLabelParseResult {
+  let parsed: unknown;
+  try {
+    // Handle potential markdown code blocks
+    const jsonMatch = rawJson.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      logLabelParseEvent(false, 'INVALID_JSON', 'No JSON object found in response');
+      return {
+        success: false,
+        error: { code: 'INVALID_JSON', message: 'No JSON object found in response' },
+      };
+    }
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown JSON parse error';
+    logLabelParseEvent(false, 'INVALID_JSON', message);
+    return {
+      success: false,
+      error: { code: 'INVALID_JSON', message: `Failed to parse JSON: ${message}` },
+    };
+  }
+
+  const result = NutritionLabelResponseSchema.safeParse(parsed);
+  if (!result.success) {
+    const errorMessages = result.error.issues
+      .map((e) => `${e.path.join('.')}: ${e.message}`)
+      .join('; ');
+    logLabelParseEvent(false, 'VALIDATION_ERROR', errorMessages);
+    return {
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: `Validation failed: ${errorMessages}` },
+    };
+  }
+
+  const { servingSize } = result.data;
+  let perServing = compactValues(result.data.perServing);
+  let per100g = compactValues(result.data.per100g);
+
+  if (!perServing && !per100g) {
+    logLabelParseEvent(false, 'NO_LABEL_DETECTED', 'No nutrient values on the label');
+    return {
+      success: false,
+      error: { code: 'NO_LABEL_DETECTED', message: 'No nutrient values on the label' },
+    };
+  }
+
+  // Labels may print only one column; derive the other from the serving size
+  if (servingSize) {
+    if (!perServing && per100g) {
+      perServing = scaleValues(per100g, servingSize.amount / 100);
+    } else if (perServing && !per100g) {
+      per100g = scaleValues(perServing, 100 / servingSize.amount);
+    }
+  }
+
+  logLabelParseEvent(true);
+  return {
+    success: true,
+    data: {
+      productName: result.data.productName,
+      servingSize,
+      servingsPerContainer: result.data.servingsPerContainer,
+      perServing,
+      per100g,
+      locale: result.data.locale,
+    },
+  };
+}
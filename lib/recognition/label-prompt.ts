@@ -0,0 +1,99 @@
+/**
+ * Nutrition Facts Label Prompt Builder
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * Prompts the vision model to transcribe a packaged food's nutrition facts
+ * label (營養標示) instead of estimating a meal.
+ */
+
+import { LOCALE_NAMES, type RecognitionPrompt } from './prompt';
+import type { SupportedLocale } from '@/types/recognition';
+
+/**
+ * Label answers list every nutrient for two columns, so allow more output than meal recognition.
+ */
+const LABEL_MAX_TOKENS = 900;
+
+/**
+ * Example product name per locale.
+ */
+const EXAMPLE_PRODUCT_NAMES: Record<SupportedLocale, string> = {
+  'zh-TW': '高纖蘇打餅乾',
+  en: 'High-fiber soda crackers',
+};
+
+/**
+ * JSON schema example for the AI to follow.
+ */
+function buildJsonSchemaExample(locale: SupportedLocale): string {
+  return `{
+  "productName": "${EXAMPLE_PRODUCT_NAMES[locale]}",
+  "servingSize": { "amount": 30, "unit": "g" },
+  "servingsPerContainer": 6,
+  "perServing": { "calories": 135, "protein": 2.4, "fats": 5.1, "saturatedFat": 2.3, "carbohydrates": 20.1, "sugar": 1.2, "fiber": 1.5, "sodium": 156, "cholesterol": 0 },
+  "per100g": { "calories": 450, "protein": 8.0, "fats": 17.0, "saturatedFat": 7.7, "carbohydrates": 67.0, "sugar": 4.0, "fiber": 5.0, "sodium": 520, "cholesterol": 0 },
+  "locale": "${locale}"
+}`;
+}
+
+/**
+ * Build system prompt for nutrition label reading.
+ *
+ * @param locale - Target locale for the product name
+ * @returns System prompt string
+ */
+export function buildNutritionLabelSystemPrompt(locale: SupportedLocale): string {
+  const languageName = LOCALE_NAMES[locale] || LOCALE_NAMES['zh-TW'];
+
+  return `You read nutrition facts labels printed on packaged food. Transcribe the numbers exactly as printed; never estimate.
+
+IMPORTANT: Respond ONLY with valid JSON in this exact format:
+${buildJsonSchemaExample(locale)}
+
+Field definitions:
+- "productName": Product name if visible on the photo, in ${languageName} (optional)
+- "servingSize": Serving size ("每一份量") with "unit" "g" for 公克/g or "ml" for 毫升/mL
+- "servingsPerContainer": Servings per package ("本包裝含 N 份") (optional)
+- "perServing": Values of the per-serving column ("每份"), or null if the label has no such column
+- "per100g": Values of the per-100 column ("每100公克" or "每100毫升"), or null if the label has no such column
+- "locale": Must be "${locale}"
+
+Nutrient keys and units (convert to these units):
+- "calories": kcal (熱量, 大卡). If only kJ is printed, divide by 4.184
+- "protein" (蛋白質), "fats" (脂肪), "saturatedFat" (飽和脂肪), "carbohydrates" (碳水化合物), "sugar" (糖), "fiber" (膳食纖維): grams
+- "sodium" (鈉), "potassium" (鉀), "calcium" (鈣), "iron" (鐵), "cholesterol" (膽固醇), "vitaminC": milligrams
+- "vitaminA" (μg RAE), "vitaminD" (μg), "vitaminB12" (μg): micrograms
+
+Rules:
+1. Only include nutrients that are printed on the label; omit the rest
+2. Ignore percentage columns such as "每日參考值百分比" (% Daily Value)
+3. Numbers only: no units or text. Read "0" or "0.0" as 0; for "<0.5" use the printed bound (0.5)
+4. Trans fat (反式脂肪) has no key; do not report it as saturated fat
+5. If no nutrition facts label is visible, respond with {"perServing": null, "per100g": null, "locale": "${locale}"}
+6. Do not include any text outside the JSON object`;
+}
+
+/**
+ * Build user prompt for nutrition label reading.
+ *
+ * @param locale - Target locale for the product name
+ * @returns User prompt string
+ */
+export function buildNutritionLabelUserPrompt(locale: SupportedLocale): string {
+  const languageName = LOCALE_NAMES[locale] || LOCALE_NAMES['zh-TW'];
+  return `Read the nutrition facts label in this photo. Report both the per-serving and per-100g (or per-100ml) columns when printed. Give the product name in ${languageName}.`;
+}
+
+/**
+ * Build complete nutrition label prompt.
+ *
+ * @param locale - Target locale (default: "zh-TW")
+ * @returns Prompt with system and user messages
+ */
+export function buildNutritionLabelPrompt(locale: SupportedLocale = 'zh-TW'): RecognitionPrompt {
+  return {
+    system: buildNutritionLabelSystemPrompt(locale),
+    user: buildNutritionLabelUserPrompt(locale),
+    maxTokens: LABEL_MAX_TOKENS,
+  };
+}
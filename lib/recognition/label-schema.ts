@@ -0,0 +1,95 @@
+/**
+ * Zod Schema for Nutrition Facts Label Responses
+ * Based on Spec 003 - Multi-item Recognition
+ */
+
+import { z } from 'zod';
+
+/**
+ * Nutrient keys read from a label (NutritionData fields).
+ */
+export const LABEL_NUTRIENT_KEYS = [
+  'calories',
+  'protein',
+  'carbohydrates',
+  'fats',
+  'fiber',
+  'sugar',
+  'saturatedFat',
+  'sodium',
+  'potassium',
+  'calcium',
+  'iron',
+  'vitaminA',
+  'vitaminC',
+  'vitaminD',
+  'vitaminB12',
+  'cholesterol',
+] as const;
+
+/**
+ * Read numeric strings such as "12.5", "12.5g" or "<0.5" as numbers.
+ */
+function toLabelNumber(value: unknown): unknown {
+  return typeof value === 'string' ? Number.parseFloat(value.replace(/[^\d.]/g, '')) : value;
+}
+
+/**
+ * Non-negative nutrient value. Unreadable values are dropped instead of failing the whole label.
+ */
+const LabelNumberSchema = z
+  .preprocess(toLabelNumber, z.number().finite().nonnegative())
+  .optional()
+  .catch(undefined);
+
+/**
+ * Schema for one label column (per serving or per 100 g/ml).
+ */
+export const NutritionLabelValuesSchema = z.object(
+  Object.fromEntries(LABEL_NUTRIENT_KEYS.map((key) => [key, LabelNumberSchema])) as Record<
+    (typeof LABEL_NUTRIENT_KEYS)[number],
+    typeof LabelNumberSchema
+  >,
+);
+
+const SERVING_UNIT_ALIASES: Record<string, 'g' | 'ml'> = {
+  g: 'g',
+  公克: 'g',
+  克: 'g',
+  ml: 'ml',
+  毫升: 'ml',
+};
+
+/**
+ * Schema for the serving size ("每一份量 30 公克").
+ */
+const ServingSizeSchema = z.object({
+  amount: z.preprocess(toLabelNumber, z.number().finite().positive()),
+  unit: z.preprocess(
+    (value) =>
+      typeof value === 'string' ? SERVING_UNIT_ALIASES[value.trim().toLowerCase()] : value,
+    z.enum(['g', 'ml']),
+  ),
+});
+
+/**
+ * Schema for a nutrition facts label response.
+ * Either column may be missing (null) depending on the label layout.
+ */
+export const NutritionLabelResponseSchema = z.object({
+  productName: z.string().trim().min(1).optional().catch(undefined),
+  servingSize: ServingSizeSchema.optional().catch(undefined),
+  servingsPerContainer: z
+    .preprocess(toLabelNumber, z.number().finite().positive())
+    .optional()
+    .catch(undefined),
+  perServing: NutritionLabelValuesSchema.nullable().optional(),
+  per100g: NutritionLabelValuesSchema.nullable().optional(),
+  locale: z.string().min(1, 'Locale is required'),
+});
+
+/**
+ * Type inference from Zod schema.
+ */
+export type NutritionLabelValuesFromSchema = z.infer<typeof NutritionLabelValuesSchema>;
+export type NutritionLabelResponseFromSchema = z.infer<typeof NutritionLabelResponseSchema>;
@@ -0,0 +1,106 @@
+/**
+ * Leftover Photo Parser
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * Parses and validates leftover responses, keeping one estimate per logged item.
+ */
+
+import { LeftoverResponseSchema } from './leftover-schema';
+import type { LeftoverEstimate } from '@/types/recognition';
+
+/**
+ * Parser result type.
+ */
+export interface LeftoverParseResult {
+  success: boolean;
+  data?: { items: LeftoverEstimate[]; locale: string };
+  error?: {
+    code: 'INVALID_JSON' | 'VALIDATION_ERROR';
+    message: string;
+  };
+}
+
+/**
+ * Log leftover parser events.
+ */
+function logLeftoverParseEvent(success: boolean, errorCode?: string, errorMessage?: string): void {
+  const payload = JSON.stringify({
+    event: 'leftover_parse',
+    success,
+    errorCode,
+    errorMessage,
+    timestamp: new Date().toISOString(),
+  });
+  if (success) {
+    console.info(payload);
+  } else {
+    console.warn(payload);
+  }
+}
+
+/**
+ * Parse and validate a leftover response.
+ *
+ * @param rawJson - Raw JSON string from AI service
+ * @param itemCount - Number of logged items sent with the photo
+ * @returns Parse result with at most one estimate per item, sorted by index
+ */
+export function parseLeftovers(rawJson: string, itemCount: number): LeftoverParseResult {
+  let parsed: unknown;
+  try {
+    // Handle potential markdown code blocks
+    const jsonMatch = rawJson.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      logLeftoverParseEvent(false, 'INVALID_JSON', 'No JSON object found in response');
+      return {
+        success: false,
+        error: { code: 'INVALID_JSON', message: 'No JSON object found in response' },
+      };
+    }
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown JSON parse error';
+    logLeftoverParseEvent(false, 'INVALID_JSON', message);
+    return {
+      success: false,
+      error: { code: 'INVALID_JSON', message: `Failed to parse JSON: ${message}` },
+    };
+  }
+
+  const result = LeftoverResponseSchema.safeParse(parsed);
+  if (!result.success) {
+    const errorMessages = result.error.issues
+      .map((e) => `${e.path.join('.')}: ${e.message}`)
+      .join('; ');
+    logLeftoverParseEvent(false, 'VALIDATION_ERROR', errorMessages);
+    return {
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: `Validation failed: ${errorMessages}` },
+    };
+  }
+
+  // Drop unknown indexes; the first estimate for an item wins
+  const byIndex = new Map<number, LeftoverEstimate>();
+  for (const item of result.data.items) {
+    if (item.index < itemCount && !byIndex.has(item.index)) {
+      byIndex.set(item.index, item);
+    }
+  }
+
+  if (byIndex.size === 0) {
+    logLeftoverParseEvent(false, 'VALIDATION_ERROR', 'No estimate matches a logged item');
+    return {
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'No estimate matches a logged item' },
+    };
+  }
+
+  logLeftoverParseEvent(true);
+  return {
+    success: true,
+    data: {
+      items: [...byIndex.values()].sort((a, b) => a.index - b.index),
+      locale: result.data.locale,
+    },
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Leftover Photo Prompt Builder
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * Prompts the vision model to compare an "after" photo with the items logged
+ * for a meal and estimate how much of each item is left, so portions and
+ * nutrition can be scaled to what was actually eaten.
+ */
+
+import type { RecognitionPrompt } from './prompt';
+import type { LeftoverItemInput, SupportedLocale } from '@/types/recognition';
+
+/**
+ * Describe the logged items as a numbered list ("0. 白飯 - 1 碗 (about 200 g)").
+ */
+function buildItemList(items: LeftoverItemInput[]): string {
+  return items
+    .map((item, index) => {
+      const weight = item.estimatedWeightGrams
+        ? ` (about ${Math.round(item.estimatedWeightGrams)} g)`
+        : '';
+      return `${index}. ${item.name} - ${item.portionSize} ${item.portionUnit}${weight}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Build system prompt for leftover estimation.
+ *
+ * @param locale - Locale of the request
+ * @returns System prompt string
+ */
+export function buildLeftoverSystemPrompt(locale: SupportedLocale): string {
+  return `You estimate how much food is left on plates after a meal. You are given a photo taken after eating and the list of items the user logged before eating.
+
+IMPORTANT: Respond ONLY with valid JSON in this exact format:
+{
+  "items": [
+    { "index": 0, "remainingFraction": 0.25, "confidence": 0.8 },
+    { "index": 1, "remainingFraction": 0, "confidence": 0.9 }
+  ],
+  "locale": "${locale}"
+}
+
+Field definitions:
+- "index": Index of the logged item, as numbered in the list
+- "remainingFraction": Share of the logged portion still left in the photo, from 0 (finished) to 1 (untouched)
+- "confidence": How sure you are of the estimate, 0.0-1.0
+- "locale": Must be "${locale}"
+
+Rules:
+1. Return exactly one entry per logged item, in list order
+2. An empty plate, bowl or cup means 0; an item that is not in the photo at all is most likely finished (0) unless the photo clearly shows only part of the table (then use 1 with low confidence)
+3. Judge against the logged portion, not the container: half a bowl of rice left from one bowl is 0.5
+4. Bones, shells, peels and sauce residue are not leftovers
+5. Do not add items that are not in the list
+6. Do not include any text outside the JSON object`;
+}
+
+/**
+ * Build user prompt for leftover estimation.
+ *
+ * @param items - The meal's logged items
+ * @returns User prompt string
+ */
+export function buildLeftoverUserPrompt(items: LeftoverItemInput[]): string {
+  return `This photo was taken after the meal. These items were logged before eating:
+${buildItemList(items)}
+
+Estimate the remaining fraction of each item. Return ONLY valid JSON, no explanations.`;
+}
+
+/**
+ * Build complete leftover estimation prompt.
+ *
+ * @param items - The meal's logged items
+ * @param locale - Locale of the request (default: "zh-TW")
+ * @returns Prompt with system and user messages
+ */
+export function buildLeftoverPrompt(
+  items: LeftoverItemInput[],
+  locale: SupportedLocale = 'zh-TW',
+): RecognitionPrompt {
+  return {
+    system: buildLeftoverSystemPrompt(locale),
+    user: buildLeftoverUserPrompt(items),
+  };
+}
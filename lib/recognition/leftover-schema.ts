@@ -0,0 +1,32 @@
+/**
+ * Zod Schema for Leftover Photo Responses
+ * Based on Spec 003 - Multi-item Recognition
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schema for one item's leftover estimate.
+ * Fractions outside 0-1 are clamped rather than rejected.
+ */
+export const LeftoverEstimateSchema = z.object({
+  index: z.number().int().nonnegative(),
+  remainingFraction: z
+    .number()
+    .finite()
+    .transform((value) => Math.min(1, Math.max(0, value))),
+  confidence: z.number().min(0).max(1).optional().catch(undefined),
+});
+
+/**
+ * Schema for a leftover response.
+ */
+export const LeftoverResponseSchema = z.object({
+  items: z.array(LeftoverEstimateSchema),
+  locale: z.string().min(1, 'Locale is required'),
+});
+
+/**
+ * Type inference from Zod schema.
+ */
+export type LeftoverResponseFromSchema = z.infer<typeof LeftoverResponseSchema>;
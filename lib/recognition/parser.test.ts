@@ -0,0 +1,162 @@
+/**
+ * Recognition response parser: repair of malformed model output (truncated
+ * arrays, trailing commas, numbers as strings) before validation.
+ *
+ * Run: npm test
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { getParseMetrics, parseAndValidate, repairJsonText } from './parser';
+
+describe('repairJsonText', () => {
+  it('leaves valid JSON unchanged and ignores text after it', () => {
+    const json = '{"items":[{"name":"飯"}],"locale":"zh-TW"}';
+
+    assert.deepEqual(repairJsonText(`${json}\n\`\`\``), { text: json, repairs: [] });
+  });
+
+  it('removes trailing commas in arrays and objects', () => {
+    const repaired = repairJsonText('{"items":[{"name":"飯","confidence":0.9,},],"locale":"en",}');
+
+    assert.deepEqual(repaired.repairs, ['TRAILING_COMMA']);
+    assert.deepEqual(JSON.parse(repaired.text), {
+      items: [{ name: '飯', confidence: 0.9 }],
+      locale: 'en',
+    });
+  });
+
+  it('keeps commas and brackets inside strings', () => {
+    const json = '{"items":[{"name":"rice, beans]","notes":"a \\"quoted\\" note,}"}]}';
+
+    assert.deepEqual(repairJsonText(json), { text: json, repairs: [] });
+  });
+
+  it('drops the half-written item of a truncated array and closes it', () => {
+    const repaired = repairJsonText(
+      '{"items":[{"name":"飯","confidence":0.9},{"name":"湯","confid',
+    );
+
+    assert.deepEqual(repaired.repairs, ['TRUNCATED']);
+    assert.deepEqual(JSON.parse(repaired.text), { items: [{ name: '飯', confidence: 0.9 }] });
+  });
+
+  it('closes a truncated array cut off inside a string', () => {
+    const repaired = repairJsonText('{"items":[{"name":"飯"},{"name":"牛肉');
+
+    assert.deepEqual(repaired.repairs, ['TRUNCATED']);
+    assert.deepEqual(JSON.parse(repaired.text), { items: [{ name: '飯' }] });
+  });
+
+  it('closes output cut off right before the final brace', () => {
+    const repaired = repairJsonText('{"items":[{"name":"飯"}],"locale":"en"');
+
+    assert.deepEqual(repaired.repairs, ['TRUNCATED']);
+    assert.deepEqual(JSON.parse(repaired.text), { items: [{ name: '飯' }], locale: 'en' });
+  });
+
+  it('drops a trailing comma left by truncation', () => {
+    const repaired = repairJsonText('{"items":[{"name":"飯"},');
+
+    assert.deepEqual(JSON.parse(repaired.text), { items: [{ name: '飯' }] });
+  });
+});
+
+describe('parseAndValidate', () => {
+  beforeEach(() => {
+    mock.method(console, 'info', () => undefined);
+    mock.method(console, 'warn', () => undefined);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('converts numbers sent as strings', () => {
+    const result = parseAndValidate(
+      JSON.stringify({
+        items: [
+          {
+            name: '滷肉飯',
+            confidence: '0.85',
+            boundingBox: { x: '0.1', y: 0.2, width: '0.5', height: 0.4 },
+          },
+        ],
+        locale: 'zh-TW',
+      }),
+    );
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.repairs, ['STRING_NUMBER']);
+    assert.equal(result.data?.items[0].confidence, 0.85);
+    assert.deepEqual(result.data?.items[0].boundingBox, {
+      x: 0.1,
+      y: 0.2,
+      width: 0.5,
+      height: 0.4,
+    });
+  });
+
+  it('leaves descriptive counts and weights as strings', () => {
+    const result = parseAndValidate(
+      JSON.stringify({
+        items: [{ name: '水餃', estimatedCount: '10', estimatedWeightGrams: 'about 200' }],
+        locale: 'en',
+      }),
+    );
+
+    assert.equal(result.success, true);
+    assert.equal(result.repairs, undefined);
+    assert.equal(result.data?.items[0].estimatedCount, '10');
+    assert.equal(result.data?.items[0].estimatedWeightGrams, 'about 200');
+  });
+
+  it('rejects non-numeric strings in numeric fields', () => {
+    const result = parseAndValidate(
+      JSON.stringify({ items: [{ name: '飯', confidence: 'high' }], locale: 'en' }),
+    );
+
+    assert.equal(result.success, false);
+    assert.equal(result.error?.code, 'VALIDATION_ERROR');
+  });
+
+  it('repairs truncated output in a code block and fills in the locale', () => {
+    const result = parseAndValidate(
+      '```json\n{"items":[{"name":"飯","confidence":"0.9"},{"name":"湯"',
+      6,
+      'zh-TW',
+    );
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.repairs, ['TRUNCATED', 'STRING_NUMBER']);
+    assert.deepEqual(result.data?.items, [{ name: '飯', confidence: 0.9 }]);
+    assert.equal(result.data?.locale, 'zh-TW');
+  });
+
+  it('fails when truncation left no complete item', () => {
+    const result = parseAndValidate('{"items":[{"name":"飯', 6, 'en');
+
+    assert.equal(result.success, false);
+    assert.equal(result.error?.code, 'VALIDATION_ERROR');
+  });
+
+  it('fails without a JSON object', () => {
+    const result = parseAndValidate('Sorry, I cannot help with that.');
+
+    assert.equal(result.success, false);
+    assert.equal(result.error?.code, 'INVALID_JSON');
+  });
+
+  it('counts repaired and failed parses', () => {
+    const before = getParseMetrics();
+
+    parseAndValidate('{"items":[{"name":"飯",}],"locale":"en"}');
+    parseAndValidate('no json');
+
+    const after = getParseMetrics();
+    assert.equal(after.total - before.total, 2);
+    assert.equal(after.repaired - before.repaired, 1);
+    assert.equal(after.failed - before.failed, 1);
+    assert.equal(after.repairs.TRAILING_COMMA - before.repairs.TRAILING_COMMA, 1);
+  });
+});
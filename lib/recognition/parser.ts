@@ -7,8 +7,10 @@
  */
 
 import {
-  MultiItemRecognitionResponseSchema,
+  createMultiItemResponseSchema,
+  RecognitionItemSchema,
   type MultiItemRecognitionResponseFromSchema,
+  type RecognitionItemFromSchema,
 } from './schema';
 
 /**
@@ -17,12 +19,54 @@ import {
 export interface ParseResult {
   success: boolean;
   data?: MultiItemRecognitionResponseFromSchema;
+  repairs?: ParseRepair[]; // Fixes applied before the response validated
   error?: {
     code: 'INVALID_JSON' | 'VALIDATION_ERROR';
     message: string;
   };
 }
 
+/**
+ * Fixes the repair pass can apply to a malformed response:
+ * - TRUNCATED: output cut off (e.g. at the token limit); the incomplete
+ *   trailing item is dropped and open arrays and objects are closed
+ * - TRAILING_COMMA: comma before a closing bracket
+ * - STRING_NUMBER: numeric field sent as a string ("0.9")
+ */
+export type ParseRepair = 'TRUNCATED' | 'TRAILING_COMMA' | 'STRING_NUMBER';
+
+const PARSE_REPAIRS: ParseRepair[] = ['TRUNCATED', 'TRAILING_COMMA', 'STRING_NUMBER'];
+
+/**
+ * Item fields that must be numbers. estimatedCount and estimatedWeightGrams
+ * also accept descriptive strings and are left as sent.
+ */
+const NUMERIC_ITEM_FIELDS = ['confidence', 'scaledWeightGrams'] as const;
+const NUMERIC_BOX_FIELDS = ['x', 'y', 'width', 'height', 'imageIndex'] as const;
+
+const NUMERIC_STRING_PATTERN = /^\s*-?\d+(\.\d+)?\s*$/;
+
+/**
+ * Parse outcomes on this server instance since it started.
+ */
+export interface ParseMetrics {
+  total: number;
+  failed: number;
+  repaired: number; // Responses that needed at least one repair
+  repairRate: number | null; // repaired / total, null without parses
+  repairs: Record<ParseRepair, number>;
+}
+
+const parseCounters = {
+  total: 0,
+  failed: 0,
+  repaired: 0,
+  repairs: Object.fromEntries(PARSE_REPAIRS.map((repair) => [repair, 0])) as Record<
+    ParseRepair,
+    number
+  >,
+};
+
 /**
  * Log event for parser operations.
  */
@@ -32,13 +76,25 @@ interface ParseLogEvent {
   errorCode?: string;
   errorMessage?: string;
   itemCount?: number;
+  repairs?: ParseRepair[];
   timestamp: string;
 }
 
 /**
- * Log parser events.
+ * Log parser events and count them in the parse metrics.
  */
 function logParseEvent(event: ParseLogEvent): void {
+  parseCounters.total += 1;
+  if (!event.success) {
+    parseCounters.failed += 1;
+  }
+  if (event.repairs?.length) {
+    parseCounters.repaired += 1;
+    for (const repair of event.repairs) {
+      parseCounters.repairs[repair] += 1;
+    }
+  }
+
   const payload = JSON.stringify(event);
   if (event.success) {
     console.info(payload);
@@ -47,60 +103,236 @@ function logParseEvent(event: ParseLogEvent): void {
   }
 }
 
+/**
+ * How often recognition responses failed or needed repair.
+ */
+export function getParseMetrics(): ParseMetrics {
+  return {
+    total: parseCounters.total,
+    failed: parseCounters.failed,
+    repaired: parseCounters.repaired,
+    repairRate: parseCounters.total > 0 ? parseCounters.repaired / parseCounters.total : null,
+    repairs: { ...parseCounters.repairs },
+  };
+}
+
+/**
+ * Repair malformed JSON text that starts at its top-level object: trailing
+ * commas are removed and truncated output is closed. Text after the
+ * top-level object is ignored.
+ *
+ * Truncated output is cut back to the last complete element of an array (or
+ * of the top-level object), so a half-written item is dropped rather than
+ * kept with missing fields.
+ *
+ * @param text - Text starting with "{"
+ * @returns Repaired JSON text and the repairs applied
+ */
+export function repairJsonText(text: string): { text: string; repairs: ParseRepair[] } {
+  const repairs = new Set<ParseRepair>();
+  const stack: string[] = [];
+  let output = '';
+  let inString = false;
+  let escaped = false;
+  // Last cut point that leaves only complete elements, and the open brackets there
+  let safeLength = 0;
+  let safeStack: string[] = [];
+
+  const markSafe = () => {
+    if (stack.length === 1 || stack[stack.length - 1] === '[') {
+      safeLength = output.length;
+      safeStack = [...stack];
+    }
+  };
+  const close = (open: string[]) =>
+    open
+      .slice()
+      .reverse()
+      .map((bracket) => (bracket === '{' ? '}' : ']'))
+      .join('');
+  const trimTrailingComma = (value: string) => value.replace(/,\s*$/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      output += char;
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      output += char;
+      stack.push(char);
+      markSafe();
+      continue;
+    } else if (char === '}' || char === ']') {
+      const trimmed = trimTrailingComma(output);
+      if (trimmed !== output.trimEnd()) {
+        repairs.add('TRAILING_COMMA');
+      }
+      output = trimmed + char;
+      stack.pop();
+      if (stack.length === 0) {
+        return { text: output, repairs: [...repairs] };
+      }
+      markSafe();
+      continue;
+    } else if (char === ',') {
+      markSafe();
+    }
+    output += char;
+  }
+
+  // Truncated: close in place when only the top-level object is open, e.g. cut
+  // off right before its final "}"
+  repairs.add('TRUNCATED');
+  if (!inString && stack.length === 1) {
+    const closed = trimTrailingComma(output) + '}';
+    try {
+      JSON.parse(closed);
+      return { text: closed, repairs: [...repairs] };
+    } catch {
+      // Cut back to the last complete element below
+    }
+  }
+
+  return {
+    text: trimTrailingComma(output.slice(0, safeLength)) + close(safeStack),
+    repairs: [...repairs],
+  };
+}
+
+/**
+ * Convert numeric strings in fields that must be numbers.
+ *
+ * @returns Whether any value was converted
+ */
+function coerceStringNumbers(target: Record<string, unknown>, fields: readonly string[]): boolean {
+  let coerced = false;
+  for (const field of fields) {
+    const value = target[field];
+    if (typeof value === 'string' && NUMERIC_STRING_PATTERN.test(value)) {
+      target[field] = Number(value);
+      coerced = true;
+    }
+  }
+  return coerced;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Convert string-typed numbers in a recognition item (and its bounding box).
+ *
+ * @returns Whether any value was converted
+ */
+function coerceItemNumbers(item: unknown): boolean {
+  if (!isRecord(item)) {
+    return false;
+  }
+  const coerced = coerceStringNumbers(item, NUMERIC_ITEM_FIELDS);
+  const boxCoerced =
+    isRecord(item.boundingBox) && coerceStringNumbers(item.boundingBox, NUMERIC_BOX_FIELDS);
+  return coerced || boxCoerced;
+}
+
+/**
+ * Parse the JSON object in a response, repairing it when it does not parse as is.
+ */
+function parseJsonObject(
+  rawJson: string,
+): { success: true; value: unknown; repairs: ParseRepair[] } | { success: false; message: string } {
+  // Handle potential markdown code blocks and surrounding text
+  const start = rawJson.indexOf('{');
+  if (start < 0) {
+    return { success: false, message: 'No JSON object found in response' };
+  }
+
+  const jsonMatch = rawJson.match(/\{[\s\S]*\}/);
+  let parseError: unknown;
+  if (jsonMatch) {
+    try {
+      return { success: true, value: JSON.parse(jsonMatch[0]), repairs: [] };
+    } catch (err) {
+      parseError = err;
+    }
+  }
+
+  const repaired = repairJsonText(rawJson.slice(start));
+  try {
+    return { success: true, value: JSON.parse(repaired.text), repairs: repaired.repairs };
+  } catch (err) {
+    const error = parseError ?? err;
+    return {
+      success: false,
+      message: `Failed to parse JSON: ${error instanceof Error ? error.message : 'Unknown JSON parse error'}`,
+    };
+  }
+}
+
 /**
  * Parse and validate recognition response.
  *
  * This is the centralized validation point for all recognition responses.
  * The route.ts should call this function and NOT duplicate validation logic.
+ * Malformed output (truncated, trailing commas, numbers as strings) is
+ * repaired first, so it does not cost a fallback call.
  *
  * @param rawJson - Raw JSON string from AI service
+ * @param maxItems - Maximum items allowed (default: 6, more in spread mode)
+ * @param locale - Requested locale, filled in when truncated output lost the locale field
  * @returns ParseResult with validated data or error
  */
-export function parseAndValidate(rawJson: string): ParseResult {
+export function parseAndValidate(
+  rawJson: string,
+  maxItems: number = 6,
+  locale?: string,
+): ParseResult {
   const timestamp = new Date().toISOString();
 
-  // Step 1: Parse JSON
-  let parsed: unknown;
-  try {
-    // Handle potential markdown code blocks
-    const jsonMatch = rawJson.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      logParseEvent({
-        event: 'recognition_parse',
-        success: false,
-        errorCode: 'INVALID_JSON',
-        errorMessage: 'No JSON object found in response',
-        timestamp,
-      });
-      return {
-        success: false,
-        error: {
-          code: 'INVALID_JSON',
-          message: 'No JSON object found in response',
-        },
-      };
-    }
-    parsed = JSON.parse(jsonMatch[0]);
-  } catch (err) {
-    const message = err instanceof Error ? err.message : 'Unknown JSON parse error';
+  // Step 1: Parse JSON, repairing it if needed
+  const parsed = parseJsonObject(rawJson);
+  if (!parsed.success) {
     logParseEvent({
       event: 'recognition_parse',
       success: false,
       errorCode: 'INVALID_JSON',
-      errorMessage: message,
+      errorMessage: parsed.message,
       timestamp,
     });
     return {
       success: false,
       error: {
         code: 'INVALID_JSON',
-        message: `Failed to parse JSON: ${message}`,
+        message: parsed.message,
       },
     };
   }
 
+  const repairs = parsed.repairs;
+  const value = parsed.value;
+  if (isRecord(value)) {
+    if (Array.isArray(value.items) && value.items.map(coerceItemNumbers).some(Boolean)) {
+      repairs.push('STRING_NUMBER');
+    }
+    if (repairs.includes('TRUNCATED') && value.locale === undefined && locale) {
+      value.locale = locale;
+    }
+  }
+
   // Step 2: Validate with Zod schema
-  const result = MultiItemRecognitionResponseSchema.safeParse(parsed);
+  const result = createMultiItemResponseSchema(maxItems).safeParse(value);
 
   if (!result.success) {
     const errorMessages = result.error.issues
@@ -112,6 +344,7 @@ export function parseAndValidate(rawJson: string): ParseResult {
       success: false,
       errorCode: 'VALIDATION_ERROR',
       errorMessage: errorMessages,
+      repairs: repairs.length > 0 ? repairs : undefined,
       timestamp,
     });
 
@@ -129,12 +362,14 @@ export function parseAndValidate(rawJson: string): ParseResult {
     event: 'recognition_parse',
     success: true,
     itemCount: result.data.items.length,
+    repairs: repairs.length > 0 ? repairs : undefined,
     timestamp,
   });
 
   return {
     success: true,
     data: result.data,
+    repairs: repairs.length > 0 ? repairs : undefined,
   };
 }
 
@@ -164,3 +399,152 @@ export function truncateItems<T extends { confidence?: number }>(
   // Otherwise return first N items
   return items.slice(0, maxItems);
 }
+
+/**
+ * Normalize an item name for duplicate detection.
+ */
+export function normalizeItemName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, '');
+}
+
+/**
+ * Merge items that refer to the same dish.
+ * Used when several photos of one meal are recognized together, since the
+ * model may still list a dish seen from two angles twice.
+ *
+ * Keeps the first occurrence's position, takes the highest confidence and
+ * fills missing fields from later duplicates.
+ *
+ * @param items - Array of recognition items
+ * @returns De-duplicated array
+ */
+export function dedupeItems<T extends { name: string; confidence?: number }>(items: T[]): T[] {
+  const merged = new Map<string, T>();
+
+  for (const item of items) {
+    const key = normalizeItemName(item.name);
+    const existing = merged.get(key);
+
+    if (!existing) {
+      merged.set(key, item);
+      continue;
+    }
+
+    const [primary, secondary] =
+      (item.confidence ?? 0) > (existing.confidence ?? 0) ? [item, existing] : [existing, item];
+    const combined = { ...secondary } as T;
+    for (const [field, value] of Object.entries(primary)) {
+      if (value !== undefined) {
+        (combined as Record<string, unknown>)[field] = value;
+      }
+    }
+    merged.set(key, combined);
+  }
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Merge duplicates across photos, then truncate to the item limit.
+ */
+export function finalizeRecognitionItems<T extends { name: string; confidence?: number }>(
+  items: T[],
+  maxItems?: number,
+): T[] {
+  return truncateItems(dedupeItems(items), maxItems);
+}
+
+/**
+ * Incremental parser for streamed recognition JSON.
+ */
+export interface StreamingItemParser {
+  /**
+   * Append streamed text.
+   *
+   * @returns Items completed by this chunk that pass RecognitionItemSchema
+   */
+  push(delta: string): RecognitionItemFromSchema[];
+}
+
+/**
+ * Create a parser that scans the `items` array as text arrives and emits each
+ * item object as soon as it is complete. Early items are a preview only; the
+ * full response must still go through parseAndValidate.
+ */
+export function createStreamingItemParser(): StreamingItemParser {
+  let buffer = '';
+  let position = -1; // Scan position inside the items array (-1 until found)
+  let depth = 0;
+  let itemStart = -1;
+  let inString = false;
+  let escaped = false;
+  let finished = false;
+
+  return {
+    push(delta: string) {
+      buffer += delta;
+      const items: RecognitionItemFromSchema[] = [];
+
+      if (finished) {
+        return items;
+      }
+
+      if (position < 0) {
+        const match = /"items"\s*:\s*\[/.exec(buffer);
+        if (!match) {
+          return items;
+        }
+        position = match.index + match[0].length;
+      }
+
+      for (; position < buffer.length; position++) {
+        const char = buffer[position];
+
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (char === '\\') {
+            escaped = true;
+          } else if (char === '"') {
+            inString = false;
+          }
+          continue;
+        }
+
+        if (char === '"') {
+          inString = true;
+        } else if (char === '{') {
+          if (depth === 0) {
+            itemStart = position;
+          }
+          depth += 1;
+        } else if (char === '}') {
+          depth -= 1;
+          if (depth === 0 && itemStart >= 0) {
+            const result = safeParseItem(buffer.slice(itemStart, position + 1));
+            if (result) {
+              items.push(result);
+            }
+            itemStart = -1;
+          }
+        } else if (char === ']' && depth === 0) {
+          finished = true;
+          break;
+        }
+      }
+
+      return items;
+    },
+  };
+}
+
+function safeParseItem(text: string): RecognitionItemFromSchema | null {
+  try {
+    const item: unknown = JSON.parse(text);
+    coerceItemNumbers(item);
+    const result = RecognitionItemSchema.safeParse(item);
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
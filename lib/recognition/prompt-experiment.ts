@@ -0,0 +1,110 @@
+/**
+ * Recognition Prompt Experiments (server-side)
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * Assigns a registered prompt version to each recognition request, so a new
+ * prompt can be tried on a share of production traffic:
+ *
+ * - RECOGNITION_PROMPT_VERSIONS: weighted versions, e.g. "v3:90,v4:10"
+ *   (unset: PROMPT_VERSION only)
+ * - RECOGNITION_PROMPT_ASSIGNMENT: "request" (default) draws a version per
+ *   request; "user" keeps each signed-in user on one version (signed-out
+ *   callers are still assigned per request)
+ *
+ * The version is logged with each request and saved on meals and corrections.
+ */
+
+import { createHash } from 'node:crypto';
+import { auth } from '@/auth';
+import { PROMPT_VERSION, isRegisteredPromptVersion } from './prompt';
+
+export type PromptAssignment = 'request' | 'user';
+
+export interface WeightedPromptVersion {
+  version: string;
+  weight: number;
+}
+
+/**
+ * Salt of the per-user hash. Kept constant so changing weights only moves the
+ * users at the boundary between versions.
+ */
+const USER_ASSIGNMENT_SALT = 'recognition-prompt';
+
+/**
+ * Parse weighted prompt versions ("v3:90,v4:10"; a version without a weight counts 1).
+ * Unregistered versions and non-positive weights are skipped.
+ *
+ * @returns Weighted versions, or PROMPT_VERSION alone when none are valid
+ */
+export function parsePromptVersionWeights(value: string | undefined): WeightedPromptVersion[] {
+  const weights: WeightedPromptVersion[] = [];
+
+  for (const entry of (value ?? '').split(',')) {
+    const [rawVersion, rawWeight] = entry.split(':').map((part) => part.trim());
+    if (!rawVersion) continue;
+
+    if (!isRegisteredPromptVersion(rawVersion)) {
+      console.warn(`Unknown recognition prompt version "${rawVersion}" ignored`);
+      continue;
+    }
+    const weight = rawWeight === undefined ? 1 : Number(rawWeight);
+    if (!Number.isFinite(weight) || weight <= 0) continue;
+    if (weights.some((item) => item.version === rawVersion)) continue;
+
+    weights.push({ version: rawVersion, weight });
+  }
+
+  return weights.length > 0 ? weights : [{ version: PROMPT_VERSION, weight: 1 }];
+}
+
+/**
+ * Pick the version whose share of the total weight contains `roll`.
+ *
+ * @param roll - Uniform value in [0, 1)
+ */
+export function pickPromptVersion(weights: WeightedPromptVersion[], roll: number): string {
+  const total = weights.reduce((sum, item) => sum + item.weight, 0);
+  let threshold = roll * total;
+  for (const item of weights) {
+    if (threshold < item.weight) return item.version;
+    threshold -= item.weight;
+  }
+  return weights[weights.length - 1].version;
+}
+
+/**
+ * Stable value in [0, 1) for a user.
+ */
+export function getUserAssignmentRoll(userId: string): number {
+  const hash = createHash('sha256').update(`${USER_ASSIGNMENT_SALT}|${userId}`).digest();
+  return hash.readUInt32BE(0) / 2 ** 32;
+}
+
+function getPromptAssignment(): PromptAssignment {
+  return process.env.RECOGNITION_PROMPT_ASSIGNMENT === 'user' ? 'user' : 'request';
+}
+
+/**
+ * Assign a prompt version to the current recognition request.
+ * Session failures fall back to a per-request draw and never fail a recognition.
+ */
+export async function assignPromptVersion(): Promise<string> {
+  const weights = parsePromptVersionWeights(process.env.RECOGNITION_PROMPT_VERSIONS);
+  if (weights.length === 1) {
+    return weights[0].version;
+  }
+
+  if (getPromptAssignment() === 'user') {
+    try {
+      const session = await auth();
+      if (session?.user?.id) {
+        return pickPromptVersion(weights, getUserAssignmentRoll(session.user.id));
+      }
+    } catch (error) {
+      console.warn('Failed to load session for prompt assignment:', error);
+    }
+  }
+
+  return pickPromptVersion(weights, Math.random());
+}
@@ -5,7 +5,22 @@
  * Generates prompts that request all edible items in structured JSON format.
  */
 
-import type { SupportedLocale } from '@/types/recognition';
+import type { FoodCorrection } from '@/types/correction';
+import {
+  ALLERGENS,
+  MAX_SPREAD_RECOGNITION_ITEMS,
+  type ReferenceObject,
+  type SupportedLocale,
+} from '@/types/recognition';
+import { describeReferenceObject } from './reference-object';
+import { createRecognitionJsonSchema } from './schema';
+
+/**
+ * Default version of the recognition prompt and expected output shape.
+ * Changed prompts are registered as a new version in RECOGNITION_PROMPT_TEMPLATES
+ * rather than edited in place, so cached results, logs and saved meals stay comparable.
+ */
+export const PROMPT_VERSION = 'v4';
 
 /**
  * Prompt structure for recognition.
@@ -13,34 +28,121 @@ import type { SupportedLocale } from '@/types/recognition';
 export interface RecognitionPrompt {
   system: string;
   user: string;
+  maxTokens?: number; // Output token limit (providers default to 500)
+  version?: string; // Recognition prompt template version
+  responseSchema?: ResponseSchema; // Structured output, for providers that support it
+}
+
+/**
+ * Named JSON Schema the provider is asked to constrain its output to.
+ */
+export interface ResponseSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+/**
+ * Per-request additions to the recognition prompt.
+ */
+export interface RecognitionPromptOptions {
+  corrections?: FoodCorrection[]; // The user's frequent corrections, sent as hints
+  spread?: boolean; // Large shared meal (hot pot, banquet, bento) with more items
+  referenceObject?: ReferenceObject; // Object of known size to measure items against
+  promptVersion?: string; // Registered template version (default: PROMPT_VERSION)
 }
 
 /**
- * Locale-specific language names.
+ * One version of the recognition prompt.
  */
-const LOCALE_NAMES: Record<SupportedLocale, string> = {
+export interface RecognitionPromptTemplate {
+  buildSystemPrompt: (locale: SupportedLocale, maxItems?: number) => string;
+  buildUserPrompt: (
+    locale: SupportedLocale,
+    imageCount: number,
+    options: RecognitionPromptOptions,
+  ) => string;
+  maxTokens?: number; // Output token limit outside spread mode (default: provider default)
+}
+
+/**
+ * Output token limit for spread mode, which lists up to MAX_SPREAD_RECOGNITION_ITEMS items.
+ */
+const SPREAD_MAX_TOKENS = 2500;
+
+/**
+ * Output token limit for up to 6 items once each carries allergen tags.
+ */
+const ALLERGEN_MAX_TOKENS = 800;
+
+/**
+ * Language names used in prompts, per locale (shared by the label and text prompts).
+ */
+export const LOCALE_NAMES: Record<SupportedLocale, string> = {
   'zh-TW': 'Traditional Chinese (繁體中文)',
+  en: 'English',
+};
+
+/**
+ * Preferred container/count units per locale, listed in the prompt rules.
+ */
+export const PORTION_UNIT_HINTS: Record<SupportedLocale, string[]> = {
+  'zh-TW': ['碗', '盤', '杯', '份', '片', '塊', '隻'],
+  en: ['bowl', 'plate', 'cup', 'serving', 'slice', 'piece'],
+};
+
+/**
+ * Localized names, units and note of the three example items in the JSON schema example.
+ */
+interface SchemaExampleText {
+  names: [string, string, string];
+  units: [string, string, string];
+  note: string;
+}
+
+const SCHEMA_EXAMPLE_TEXT: Record<SupportedLocale, SchemaExampleText> = {
+  'zh-TW': {
+    names: ['食物名稱1', '珍珠奶茶', '味噌湯'],
+    units: ['份', '杯', '碗'],
+    note: '可選的附加說明',
+  },
+  en: {
+    names: ['Food name 1', 'Bubble milk tea', 'Miso soup'],
+    units: ['serving', 'cup', 'bowl'],
+    note: 'Optional additional notes',
+  },
 };
 
 /**
- * JSON schema example for the AI to follow.
+ * JSON schema example for the AI to follow, in the target locale.
  */
-const JSON_SCHEMA_EXAMPLE = `{
+function buildJsonSchemaExample(locale: SupportedLocale): string {
+  const { names, units, note } = SCHEMA_EXAMPLE_TEXT[locale];
+
+  return `{
   "items": [
-    { "name": "食物名稱1", "confidence": 0.92, "portionUnit": "份", "estimatedCount": 1, "estimatedWeightGrams": 150, "containerSize": "medium", "category": "food", "notes": "可選的附加說明" },
-    { "name": "珍珠奶茶", "confidence": 0.95, "portionUnit": "杯", "estimatedCount": 1, "estimatedWeightGrams": 500, "containerSize": "large", "category": "beverage" },
-    { "name": "味噌湯", "confidence": 0.88, "portionUnit": "碗", "estimatedCount": 1, "estimatedWeightGrams": 300, "containerSize": "small", "category": "soup" }
+    { "name": "${names[0]}", "confidence": 0.92, "portionUnit": "${units[0]}", "estimatedCount": 1, "estimatedWeightGrams": 150, "containerSize": "medium", "category": "food", "boundingBox": { "x": 0.08, "y": 0.3, "width": 0.45, "height": 0.5 }, "notes": "${note}" },
+    { "name": "${names[1]}", "confidence": 0.95, "portionUnit": "${units[1]}", "estimatedCount": 1, "estimatedWeightGrams": 500, "containerSize": "large", "category": "beverage", "boundingBox": { "x": 0.7, "y": 0.05, "width": 0.2, "height": 0.55 } },
+    { "name": "${names[2]}", "confidence": 0.88, "portionUnit": "${units[2]}", "estimatedCount": 1, "estimatedWeightGrams": 300, "containerSize": "small", "category": "soup", "boundingBox": { "x": 0.55, "y": 0.6, "width": 0.3, "height": 0.3 } }
   ],
-  "locale": "zh-TW"
+  "locale": "${locale}"
 }`;
+}
+
+/**
+ * Quoted, comma-separated portion units for the prompt rules.
+ */
+function formatUnitHints(locale: SupportedLocale): string {
+  return PORTION_UNIT_HINTS[locale].map((unit) => `"${unit}"`).join(', ');
+}
 
 /**
  * Build system prompt for multi-item food recognition.
  *
  * @param locale - Target locale for recognition results
+ * @param maxItems - Maximum items to return (default: 6, more in spread mode)
  * @returns System prompt string
  */
-export function buildSystemPrompt(locale: SupportedLocale): string {
+export function buildSystemPrompt(locale: SupportedLocale, maxItems: number = 6): string {
   const localeName = LOCALE_NAMES[locale] || LOCALE_NAMES['zh-TW'];
 
   return `You are a food recognition expert specializing in Asian cuisines, particularly Taiwanese and Chinese dishes.
@@ -49,7 +151,7 @@ Your task is to analyze food photos and identify ALL edible food items present.
 
 CRITICAL REQUIREMENTS:
 1. Return results in VALID JSON format only - no markdown, no explanations, just JSON
-2. Identify ALL distinct edible food items (2-6 items for multi-dish meals)
+2. Identify ALL distinct edible food items (2-${maxItems} items for multi-dish meals)
 3. Return food names in ${localeName}
 4. Include confidence scores (0.0-1.0) for each item
 5. IGNORE non-food objects (plates, utensils, containers, napkins, etc.)
@@ -61,58 +163,241 @@ CRITICAL REQUIREMENTS:
    - "food": all other edible items (default)
 
 JSON SCHEMA:
-${JSON_SCHEMA_EXAMPLE}
+${buildJsonSchemaExample(locale)}
 
 RULES:
 - "name": Food name in ${localeName} (required)
 - "confidence": Recognition confidence 0.0-1.0 (optional but recommended)
-- "portionUnit": Prefer container/count units like "碗", "盤", "杯", "份", "片", "塊", "隻" (avoid metric units unless absolutely necessary)
+- "portionUnit": Prefer container/count units like ${formatUnitHints(locale)} (avoid metric units unless absolutely necessary)
 - "estimatedCount": Estimated count of units or pieces (optional, number or short text)
 - "estimatedWeightGrams": Estimated weight in grams for the visible portion (optional, number or short text)
 - "containerSize": Plate/bowl size hint: "small", "medium", or "large" (optional)
 - "category": One of "food", "beverage", "soup", "dessert" (optional, defaults to "food")
+- "boundingBox": Region of the photo containing the item, normalized 0.0-1.0 relative to image width/height: "x"/"y" are the top-left corner, plus "width" and "height" (recommended)
 - "notes": Additional context about the item (optional)
 - "locale": Must be "${locale}"
-- Return 1-6 items depending on what's visible
+- Return 1-${maxItems} items depending on what's visible
 - For single-item photos, return array with 1 item
 - Do NOT invent nutrition information`;
 }
 
+/**
+ * Build the allergen tagging rules (added in v4).
+ *
+ * @returns Additional system prompt rules
+ */
+function buildAllergenInstructions(): string {
+  return `
+
+ALLERGENS:
+- Add "allergens" to each item: the allergens it probably contains, from ${ALLERGENS.map((allergen) => `"${allergen}"`).join(', ')}
+- Consider the usual recipe, not only what is visible (e.g. soy sauce: "soy" and "gluten"; fried batter: "gluten" and "egg"; satay or Kung Pao sauce: "peanut")
+- "shellfish" covers shrimp, crab, lobster and shellfish such as clams and oysters; "tree_nut" covers nuts other than peanuts
+- Use an empty array when none is likely; do not list an allergen only because a dish could in theory contain it`;
+}
+
+/**
+ * v4 system prompt: v3 plus allergen tags.
+ */
+function buildSystemPromptWithAllergens(locale: SupportedLocale, maxItems?: number): string {
+  return buildSystemPrompt(locale, maxItems) + buildAllergenInstructions();
+}
+
+/**
+ * Build instructions for recognizing one meal across several photos.
+ *
+ * @param imageCount - Number of photos attached to the request
+ * @returns Additional instructions, or an empty string for a single photo
+ */
+function buildMultiImageInstructions(imageCount: number): string {
+  if (imageCount <= 1) {
+    return '';
+  }
+
+  return `
+
+MULTIPLE PHOTOS:
+- You are given ${imageCount} photos of the SAME meal, in order (different angles or separate plates)
+- Combine them into ONE list of items for the whole meal
+- The same dish seen in more than one photo is ONE item - do NOT list it twice
+- If the same dish appears on separate plates, return it once and use "estimatedCount" for the number of plates
+- Estimate weights from the photo where the item is seen most clearly
+- Add "imageIndex" (0-based photo order) to each "boundingBox" for the photo it was outlined in`;
+}
+
+/**
+ * Build instructions for a large shared meal (hot pot, banquet, buffet, bento box).
+ *
+ * @param spread - Whether spread mode was requested
+ * @returns Additional instructions, or an empty string outside spread mode
+ */
+function buildSpreadInstructions(spread: boolean): string {
+  if (!spread) {
+    return '';
+  }
+
+  return `
+
+LARGE SHARED MEAL:
+- This photo shows a spread: hot pot, a banquet table, a buffet plate or a bento box with many compartments
+- List each dish, platter, hot pot ingredient plate and bento compartment as its own item (up to ${MAX_SPREAD_RECOGNITION_ITEMS} items); do not merge them into one "set meal" item
+- Add "shared": true to dishes the table shares (center platters, the hot pot and its ingredient plates, whole fish, family-style dishes)
+- Add "shared": false to one person's own portion (their rice bowl, drink, dipping sauce, plate or bento compartment)
+- For shared dishes, estimate the WHOLE dish as served; the user marks the share they ate
+- List personal items first, then shared dishes`;
+}
+
+/**
+ * Build instructions for measuring items against the user's reference object.
+ *
+ * @param referenceObject - The user's reference object (see settings)
+ * @returns Additional instructions, or an empty string without a reference object
+ */
+function buildReferenceObjectInstructions(referenceObject?: ReferenceObject): string {
+  if (!referenceObject) {
+    return '';
+  }
+
+  return `
+
+SIZE REFERENCE:
+- The user often includes ${describeReferenceObject(referenceObject)} in their photos
+- If it is visible, use it as a ruler: compare each item's size with it before estimating weight
+- For each item measured this way, add "scaledWeightGrams": the weight in grams of the visible portion, estimated from the reference's scale
+- If the reference object is not visible, omit "scaledWeightGrams"; do not guess its position
+- Do NOT list the reference object as a food item (unless it is a bowl with food in it)`;
+}
+
+/**
+ * Build hints from the user's frequent corrections of earlier results.
+ *
+ * @param corrections - The user's frequent corrections (see selectCorrectionHints)
+ * @returns Additional instructions, or an empty string without corrections
+ */
+function buildCorrectionHints(corrections: FoodCorrection[]): string {
+  if (corrections.length === 0) {
+    return '';
+  }
+
+  const lines = corrections.map(({ recognizedName, correctedName, portionSize, portionUnit }) => {
+    const name =
+      correctedName === recognizedName
+        ? JSON.stringify(recognizedName)
+        : `${JSON.stringify(recognizedName)} → ${JSON.stringify(correctedName)}`;
+    return portionSize !== undefined && portionUnit
+      ? `- ${name} (usually ${portionSize} ${portionUnit})`
+      : `- ${name}`;
+  });
+
+  return `
+
+THIS USER'S USUAL DISHES:
+- The user corrected earlier results as listed below (recognized → what they ate)
+- When an item matches one of these dishes, use the user's name, and their usual portion as "portionUnit"/"estimatedCount"
+- Only apply a hint to an item that is actually in the photo; never add items because of these hints
+${lines.join('\n')}`;
+}
+
 /**
  * Build user prompt for multi-item food recognition.
  *
  * @param locale - Target locale for recognition results
+ * @param imageCount - Number of photos attached to the request (default: 1)
+ * @param options - Correction hints, spread mode and reference object (default: none)
  * @returns User prompt string
  */
-export function buildUserPrompt(locale: SupportedLocale): string {
+export function buildUserPrompt(
+  locale: SupportedLocale,
+  imageCount: number = 1,
+  options: RecognitionPromptOptions = {},
+): string {
+  const { corrections = [], spread = false, referenceObject } = options;
   const localeName = LOCALE_NAMES[locale] || LOCALE_NAMES['zh-TW'];
+  const subject = imageCount > 1 ? `these ${imageCount} photos of one meal` : 'this food photo';
 
-  return `Analyze this food photo and identify ALL edible food items.
+  return `Analyze ${subject} and identify ALL edible food items.
 
 Instructions:
 1. List EVERY distinct food item you can see (main dishes, side dishes, soups, drinks, etc.)
 2. Return food names in ${localeName}
 3. Assign a confidence score (0.0-1.0) to each item
-4. Add a reasonable portion unit for each item when possible (prefer "碗", "盤", "杯", "份", "片", "塊", "隻"; avoid metric units)
+4. Add a reasonable portion unit for each item when possible (prefer ${formatUnitHints(locale)}; avoid metric units)
 5. Categorize each item: "food", "beverage", "soup", or "dessert"
 6. Estimate the visible portion: provide "estimatedCount" and/or "estimatedWeightGrams"
 7. If served on a plate or bowl, estimate how many pieces are visible (e.g., 8 slices) and use that for "estimatedCount"
 8. For bowls/plates, provide "containerSize" as "small", "medium", or "large"
-9. Return results in JSON format with "items" array and "locale" field
-10. Do NOT include plates, utensils, or non-food objects
+9. Provide a "boundingBox" for each item outlining where it is in the photo
+10. Return results in JSON format with "items" array and "locale" field
+11. Do NOT include plates, utensils, or non-food objects${buildMultiImageInstructions(imageCount)}${buildSpreadInstructions(spread)}${buildReferenceObjectInstructions(referenceObject)}${buildCorrectionHints(corrections)}
 
 Return ONLY valid JSON, no explanations.`;
 }
 
+/**
+ * Registered recognition prompt versions. Register a new version here to try it
+ * in production (see prompt-experiment.ts); keep old versions while meals
+ * recognized with them are still being compared.
+ */
+export const RECOGNITION_PROMPT_TEMPLATES: Record<string, RecognitionPromptTemplate> = {
+  v3: { buildSystemPrompt, buildUserPrompt },
+  v4: {
+    buildSystemPrompt: buildSystemPromptWithAllergens,
+    buildUserPrompt,
+    maxTokens: ALLERGEN_MAX_TOKENS,
+  },
+};
+
+/**
+ * Whether a prompt version is registered.
+ */
+export function isRegisteredPromptVersion(version: string): boolean {
+  return Object.hasOwn(RECOGNITION_PROMPT_TEMPLATES, version);
+}
+
+/**
+ * Structured output schema of the multi-item response.
+ *
+ * @param maxItems - Maximum items allowed (default: 6)
+ */
+export function buildRecognitionResponseSchema(maxItems: number = 6): ResponseSchema {
+  return { name: 'recognition_response', schema: createRecognitionJsonSchema(maxItems) };
+}
+
 /**
  * Build complete recognition prompt.
  *
  * @param locale - Target locale for recognition results (default: "zh-TW")
+ * @param imageCount - Number of photos attached to the request (default: 1)
+ * @param options - Correction hints, spread mode, reference object and prompt version (default: none)
  * @returns Recognition prompt with system and user messages
  */
-export function buildRecognitionPrompt(locale: SupportedLocale = 'zh-TW'): RecognitionPrompt {
+export function buildRecognitionPrompt(
+  locale: SupportedLocale = 'zh-TW',
+  imageCount: number = 1,
+  options: RecognitionPromptOptions = {},
+): RecognitionPrompt {
+  // Unknown versions fall back to the default template
+  const version =
+    options.promptVersion && isRegisteredPromptVersion(options.promptVersion)
+      ? options.promptVersion
+      : PROMPT_VERSION;
+  const template = RECOGNITION_PROMPT_TEMPLATES[version];
+
+  if (options.spread) {
+    return {
+      system: template.buildSystemPrompt(locale, MAX_SPREAD_RECOGNITION_ITEMS),
+      user: template.buildUserPrompt(locale, imageCount, options),
+      maxTokens: SPREAD_MAX_TOKENS,
+      version,
+      responseSchema: buildRecognitionResponseSchema(MAX_SPREAD_RECOGNITION_ITEMS),
+    };
+  }
+
   return {
-    system: buildSystemPrompt(locale),
-    user: buildUserPrompt(locale),
+    system: template.buildSystemPrompt(locale),
+    user: template.buildUserPrompt(locale, imageCount, options),
+    maxTokens: template.maxTokens,
+    version,
+    responseSchema: buildRecognitionResponseSchema(),
   };
 }
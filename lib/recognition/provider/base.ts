@@ -7,6 +7,16 @@
  */
 
 import type { SupportedLocale } from '@/types/recognition';
+import type { RecognitionPrompt } from '../prompt';
+
+/**
+ * Tokens billed for one provider call, as reported by the provider API.
+ */
+export interface ProviderUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
 
 /**
  * Recognition provider response.
@@ -14,6 +24,7 @@ import type { SupportedLocale } from '@/types/recognition';
 export interface ProviderResponse {
   success: boolean;
   rawJson?: string;
+  usage?: ProviderUsage; // Present when the provider reported token usage
   error?: {
     code: string;
     message: string;
@@ -26,6 +37,8 @@ export interface ProviderResponse {
 export interface ProviderConfig {
   apiKey: string;
   timeout?: number; // in milliseconds
+  baseUrl?: string; // API base URL (OpenAI-compatible endpoints)
+  model?: string; // Model override
 }
 
 /**
@@ -45,11 +58,39 @@ export abstract class RecognitionProvider {
    * Get raw JSON response from the provider.
    * Subclasses must implement this method.
    *
-   * @param imageData - Base64-encoded image data
+   * @param images - Ordered base64-encoded images of the same meal
    * @param locale - Target locale for recognition results
+   * @param prompt - Prompt override (default: the multi-item recognition prompt)
    * @returns Promise resolving to provider response with raw JSON string
    */
-  abstract getJsonResponse(imageData: string, locale: SupportedLocale): Promise<ProviderResponse>;
+  abstract getJsonResponse(
+    images: string[],
+    locale: SupportedLocale,
+    prompt?: RecognitionPrompt,
+  ): Promise<ProviderResponse>;
+
+  /**
+   * Stream the raw JSON response, reporting text as it arrives.
+   * Providers without native streaming deliver the whole response as one delta.
+   *
+   * @param images - Ordered base64-encoded images of the same meal
+   * @param locale - Target locale for recognition results
+   * @param onDelta - Called with each chunk of response text
+   * @param prompt - Prompt override (default: the multi-item recognition prompt)
+   * @returns Promise resolving to provider response with the complete raw JSON string
+   */
+  async streamJsonResponse(
+    images: string[],
+    locale: SupportedLocale,
+    onDelta: (delta: string) => void,
+    prompt?: RecognitionPrompt,
+  ): Promise<ProviderResponse> {
+    const response = await this.getJsonResponse(images, locale, prompt);
+    if (response.success && response.rawJson) {
+      onDelta(response.rawJson);
+    }
+    return response;
+  }
 
   /**
    * Get the provider name for logging.
@@ -0,0 +1,94 @@
+/**
+ * Prompt-only (text and ingredient breakdown) requests with the default,
+ * Gemini-first provider chain. Gemini is stubbed at the fetch level.
+ *
+ * Run: npm test
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { MultiItemRecognitionError } from '@/types/recognition';
+import { buildComponentsPrompt } from '../components-prompt';
+import { buildTextRecognitionPrompt } from '../text-prompt';
+import { createProviderChain, resolveProviderChain } from './registry';
+
+const ITEMS_JSON = JSON.stringify({ items: [{ name: '牛肉麵', confidence: 0.9 }] });
+
+/**
+ * Answer every Gemini call with ITEMS_JSON and keep the request bodies.
+ */
+function stubGemini(): Array<{ contents: Array<{ parts: Array<Record<string, unknown>> }> }> {
+  const requests: Array<{ contents: Array<{ parts: Array<Record<string, unknown>> }> }> = [];
+  mock.method(globalThis, 'fetch', async (_url: unknown, init?: { body?: unknown }) => {
+    requests.push(JSON.parse(String(init?.body)));
+    return new Response(
+      JSON.stringify({
+        candidates: [{ content: { role: 'model', parts: [{ text: ITEMS_JSON }] } }],
+        usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5 },
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } },
+    );
+  });
+  return requests;
+}
+
+describe('prompt-only requests with the default chain', () => {
+  const savedEnv = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.RECOGNITION_PROVIDER_CHAIN;
+    delete process.env.RECOGNITION_API_TYPE;
+    process.env.GEMINI_API_KEY = 'test-key';
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    process.env = { ...savedEnv };
+  });
+
+  it('puts Gemini first', () => {
+    assert.equal(resolveProviderChain()[0], 'gemini');
+    assert.equal(createProviderChain()[0].name, 'gemini');
+  });
+
+  it('sends a text-only request to Gemini', async () => {
+    const requests = stubGemini();
+    const [provider] = createProviderChain();
+
+    const response = await provider.getJsonResponse(
+      [],
+      'zh-TW',
+      buildTextRecognitionPrompt('一碗牛肉麵', 'zh-TW'),
+    );
+
+    assert.equal(response.success, true, JSON.stringify(response.error));
+    assert.equal(response.rawJson, ITEMS_JSON);
+    assert.equal(requests.length, 1);
+    const parts = requests[0].contents.flatMap((content) => content.parts);
+    assert.equal(parts.length, 1);
+    assert.equal(typeof parts[0].text, 'string');
+  });
+
+  it('sends an ingredient breakdown request to Gemini', async () => {
+    stubGemini();
+    const [provider] = createProviderChain();
+
+    const response = await provider.getJsonResponse(
+      [],
+      'zh-TW',
+      buildComponentsPrompt({ name: '牛肉麵', portionSize: 1, portionUnit: '碗' }, 'zh-TW'),
+    );
+
+    assert.equal(response.success, true, JSON.stringify(response.error));
+  });
+
+  it('still rejects malformed image data URLs', async () => {
+    const requests = stubGemini();
+    const [provider] = createProviderChain();
+
+    const response = await provider.getJsonResponse(['not-a-data-url'], 'zh-TW');
+
+    assert.equal(response.error?.code, MultiItemRecognitionError.INVALID_IMAGE);
+    assert.equal(requests.length, 0);
+  });
+});
@@ -6,8 +6,13 @@
  */
 
 import { GoogleGenAI } from '@google/genai';
-import { RecognitionProvider, type ProviderConfig, type ProviderResponse } from './base';
-import { buildRecognitionPrompt } from '../prompt';
+import {
+  RecognitionProvider,
+  type ProviderConfig,
+  type ProviderResponse,
+  type ProviderUsage,
+} from './base';
+import { buildRecognitionPrompt, type RecognitionPrompt } from '../prompt';
 import type { SupportedLocale } from '@/types/recognition';
 
 /**
@@ -27,78 +32,182 @@ export class GeminiProvider extends RecognitionProvider {
   /**
    * Get raw JSON response from Gemini API.
    *
-   * @param imageData - Base64-encoded image data (data URL format)
+   * @param images - Ordered base64-encoded images (data URL format)
    * @param locale - Target locale for recognition results
+   * @param prompt - Prompt override (default: the multi-item recognition prompt)
    * @returns Promise resolving to provider response with raw JSON string
    */
-  async getJsonResponse(imageData: string, locale: SupportedLocale): Promise<ProviderResponse> {
-    const parsedImage = parseDataUrl(imageData);
-    if (!parsedImage) {
-      return {
-        success: false,
-        error: {
-          code: 'INVALID_IMAGE',
-          message: 'Invalid image data URL',
-        },
-      };
+  async getJsonResponse(
+    images: string[],
+    locale: SupportedLocale,
+    prompt: RecognitionPrompt = buildRecognitionPrompt(locale, images.length),
+  ): Promise<ProviderResponse> {
+    const params = this.buildRequest(images, prompt);
+    if (!params) {
+      return invalidImageResponse();
     }
 
-    const prompt = buildRecognitionPrompt(locale);
     const ai = new GoogleGenAI({ apiKey: this.config.apiKey });
+    const request = ai.models.generateContent(params);
+
+    try {
+      const response = await withTimeout(request, this.config.timeout ?? 30000);
+      return this.toProviderResponse(extractText(response), this.extractUsage(response));
+    } catch (error) {
+      return this.handleRequestError(error);
+    }
+  }
+
+  /**
+   * Stream raw JSON response from Gemini API.
+   *
+   * @param images - Ordered base64-encoded images (data URL format)
+   * @param locale - Target locale for recognition results
+   * @param onDelta - Called with each chunk of response text
+   * @param prompt - Prompt override (default: the multi-item recognition prompt)
+   * @returns Promise resolving to provider response with the complete raw JSON string
+   */
+  async streamJsonResponse(
+    images: string[],
+    locale: SupportedLocale,
+    onDelta: (delta: string) => void,
+    prompt: RecognitionPrompt = buildRecognitionPrompt(locale, images.length),
+  ): Promise<ProviderResponse> {
+    const params = this.buildRequest(images, prompt);
+    if (!params) {
+      return invalidImageResponse();
+    }
+
+    const ai = new GoogleGenAI({ apiKey: this.config.apiKey });
+
+    // Stop reporting deltas once the request has timed out
+    let active = true;
+    const consume = async () => {
+      let content = '';
+      let usage: ProviderUsage | undefined;
+      for await (const chunk of await ai.models.generateContentStream(params)) {
+        if (!active) break;
+        // Each chunk reports the running totals
+        usage = this.extractUsage(chunk) ?? usage;
+        const delta = extractText(chunk);
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+      }
+      return { content, usage };
+    };
+
+    try {
+      const { content, usage } = await withTimeout(consume(), this.config.timeout ?? 30000);
+      return this.toProviderResponse(content, usage);
+    } catch (error) {
+      return this.handleRequestError(error);
+    } finally {
+      active = false;
+    }
+  }
+
+  /**
+   * Build generateContent parameters, or null if any image is not a valid data URL.
+   * Without images (text and ingredient breakdown prompts) only the prompt is sent.
+   */
+  private buildRequest(images: string[], prompt: RecognitionPrompt) {
+    const parsedImages = images.map(parseDataUrl);
+    if (parsedImages.some((image) => !image)) {
+      return null;
+    }
 
-    const request = ai.models.generateContent({
+    return {
       model: this.model,
       contents: [
         {
           text: `${prompt.system}\n\n${prompt.user}`,
         },
-        {
+        ...parsedImages.map((image) => ({
           inlineData: {
-            mimeType: parsedImage.mimeType,
-            data: parsedImage.base64,
+            mimeType: image!.mimeType,
+            data: image!.base64,
           },
-        },
+        })),
       ],
-    });
+      // Constrain the output to the expected shape when the prompt has one
+      ...(prompt.responseSchema
+        ? {
+            config: {
+              responseMimeType: 'application/json',
+              responseJsonSchema: prompt.responseSchema.schema,
+            },
+          }
+        : {}),
+    };
+  }
 
-    try {
-      const response = await withTimeout(request, this.config.timeout ?? 30000);
-      const content = extractText(response);
-
-      if (!content) {
-        return {
-          success: false,
-          error: {
-            code: 'NO_FOOD_DETECTED',
-            message: 'No response content from Gemini',
-          },
+  /**
+   * Read token usage from a response; thinking tokens are billed as output.
+   */
+  private extractUsage(response: unknown): ProviderUsage | undefined {
+    const metadata = (
+      response as {
+        usageMetadata?: {
+          promptTokenCount?: number;
+          candidatesTokenCount?: number;
+          thoughtsTokenCount?: number;
         };
-      }
+      } | null
+    )?.usageMetadata;
+    if (!metadata) {
+      return undefined;
+    }
 
+    return {
+      model: this.model,
+      inputTokens: metadata.promptTokenCount ?? 0,
+      outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+    };
+  }
+
+  private toProviderResponse(
+    content: string | undefined,
+    usage: ProviderUsage | undefined,
+  ): ProviderResponse {
+    if (!content) {
       return {
-        success: true,
-        rawJson: content,
+        success: false,
+        usage,
+        error: {
+          code: 'NO_FOOD_DETECTED',
+          message: 'No response content from Gemini',
+        },
       };
-    } catch (error) {
-      if (error instanceof Error && error.message === 'TIMEOUT') {
-        return {
-          success: false,
-          error: {
-            code: 'TIMEOUT',
-            message: 'Request timed out',
-          },
-        };
-      }
+    }
 
-      console.error('Gemini provider error:', error);
+    return {
+      success: true,
+      rawJson: content,
+      usage,
+    };
+  }
+
+  private handleRequestError(error: unknown): ProviderResponse {
+    if (error instanceof Error && error.message === 'TIMEOUT') {
       return {
         success: false,
         error: {
-          code: 'API_ERROR',
-          message: error instanceof Error ? error.message : 'Unknown error',
+          code: 'TIMEOUT',
+          message: 'Request timed out',
         },
       };
     }
+
+    console.error('Gemini provider error:', error);
+    return {
+      success: false,
+      error: {
+        code: 'API_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+    };
   }
 }
 
@@ -109,6 +218,16 @@ export function createGeminiProvider(config: ProviderConfig): GeminiProvider {
   return new GeminiProvider(config);
 }
 
+function invalidImageResponse(): ProviderResponse {
+  return {
+    success: false,
+    error: {
+      code: 'INVALID_IMAGE',
+      message: 'Invalid image data URL',
+    },
+  };
+}
+
 function parseDataUrl(dataUrl: string): { mimeType: string; base64: string } | null {
   const match = dataUrl.match(/^data:([^;]+);base64,(.+)$/);
   if (!match) {
@@ -0,0 +1,206 @@
+/**
+ * Provider health tracking: circuit breaker transitions (closed, open,
+ * half-open) and the background probe, including its usage reporting.
+ *
+ * Run: npm test
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { RecognitionProvider, type ProviderResponse, type ProviderUsage } from './base';
+import {
+  HealthTrackedProvider,
+  getProviderHealth,
+  isProviderAvailable,
+  recordProviderCall,
+} from './health';
+
+const COOLDOWN_MS = 30_000;
+const START = Date.parse('2026-10-01T00:00:00.000Z');
+
+const ok: ProviderResponse = { success: true, rawJson: '{"ok": true}' };
+const timeout: ProviderResponse = {
+  success: false,
+  error: { code: 'TIMEOUT', message: 'timed out' },
+};
+
+let providerCount = 0;
+
+/** Health records live for the whole process, so each test uses its own provider. */
+function nextProviderName(): string {
+  providerCount += 1;
+  return `test-provider-${providerCount}`;
+}
+
+function stateOf(name: string) {
+  return getProviderHealth([name])[0].state;
+}
+
+/** Let a probe started by a timer settle. */
+async function flushProbe() {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+}
+
+function failTimes(name: string, count: number, probe: () => Promise<boolean>) {
+  for (let i = 0; i < count; i++) {
+    recordProviderCall(name, timeout, 100, probe);
+  }
+}
+
+describe('provider circuit breaker', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['setTimeout', 'Date'], now: START });
+    mock.method(console, 'info', () => undefined);
+    mock.method(console, 'warn', () => undefined);
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  it('opens after three consecutive outage failures', () => {
+    const name = nextProviderName();
+    const probe = async () => true;
+
+    failTimes(name, 2, probe);
+    assert.equal(stateOf(name), 'closed');
+    assert.equal(isProviderAvailable(name), true);
+
+    failTimes(name, 1, probe);
+    assert.equal(stateOf(name), 'open');
+    assert.equal(isProviderAvailable(name), false);
+    assert.equal(getProviderHealth([name])[0].failureRate, 1);
+  });
+
+  it('does not count unusable output as a failure', () => {
+    const name = nextProviderName();
+    const invalid: ProviderResponse = {
+      success: false,
+      error: { code: 'INVALID_RESPONSE', message: 'not JSON' },
+    };
+
+    for (let i = 0; i < 5; i++) {
+      recordProviderCall(name, invalid, 100, async () => true);
+    }
+    assert.equal(stateOf(name), 'closed');
+    assert.equal(getProviderHealth([name])[0].consecutiveFailures, 0);
+  });
+
+  it('closes when the probe succeeds after the cooldown', async () => {
+    const name = nextProviderName();
+    const probe = mock.fn(async () => true);
+    failTimes(name, 3, probe);
+
+    mock.timers.tick(COOLDOWN_MS);
+    await flushProbe();
+
+    assert.equal(probe.mock.callCount(), 1);
+    assert.equal(stateOf(name), 'closed');
+    assert.equal(isProviderAvailable(name), true);
+  });
+
+  it('stays open with a doubled cooldown while the probe fails', async () => {
+    const name = nextProviderName();
+    const probe = mock.fn(async () => false);
+    failTimes(name, 3, probe);
+
+    mock.timers.tick(COOLDOWN_MS);
+    await flushProbe();
+
+    assert.equal(probe.mock.callCount(), 1);
+    assert.equal(stateOf(name), 'open');
+    assert.equal(
+      getProviderHealth([name])[0].retryAt,
+      new Date(START + COOLDOWN_MS + 2 * COOLDOWN_MS).toISOString(),
+    );
+  });
+
+  it('half-opens when the cooldown passed without a probe, and reopens on failure', () => {
+    const name = nextProviderName();
+    const probe = async () => true;
+    failTimes(name, 3, probe);
+
+    // Move the clock without running the probe timer
+    mock.timers.setTime(START + COOLDOWN_MS + 1);
+    assert.equal(stateOf(name), 'half-open');
+    assert.equal(isProviderAvailable(name), true);
+
+    failTimes(name, 1, probe);
+    assert.equal(stateOf(name), 'open');
+  });
+
+  it('closes on a successful request while half-open', () => {
+    const name = nextProviderName();
+    failTimes(name, 3, async () => true);
+
+    mock.timers.setTime(START + COOLDOWN_MS + 1);
+    recordProviderCall(name, ok, 100, async () => true);
+
+    assert.equal(stateOf(name), 'closed');
+    assert.equal(getProviderHealth([name])[0].consecutiveFailures, 0);
+  });
+});
+
+class FakeProvider extends RecognitionProvider {
+  calls = 0;
+
+  constructor(
+    readonly providerName: string,
+    private readonly responses: ProviderResponse[],
+  ) {
+    super({ apiKey: 'test' });
+  }
+
+  get name(): string {
+    return this.providerName;
+  }
+
+  async getJsonResponse(): Promise<ProviderResponse> {
+    const response = this.responses[Math.min(this.calls, this.responses.length - 1)];
+    this.calls += 1;
+    return response;
+  }
+}
+
+describe('HealthTrackedProvider', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['setTimeout', 'Date'], now: START });
+    mock.method(console, 'info', () => undefined);
+    mock.method(console, 'warn', () => undefined);
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  it('reports the usage of its health probe', async () => {
+    const usage: ProviderUsage = { model: 'test-model', inputTokens: 10, outputTokens: 2 };
+    const inner = new FakeProvider(nextProviderName(), [
+      timeout,
+      timeout,
+      timeout,
+      { ...ok, usage },
+    ]);
+    const onProbeUsage = mock.fn(async () => undefined);
+    const provider = new HealthTrackedProvider(inner, onProbeUsage);
+
+    for (let i = 0; i < 3; i++) {
+      await provider.getJsonResponse(['data:image/png;base64,AA=='], 'en');
+    }
+    assert.equal(isProviderAvailable(inner.name), false);
+
+    mock.timers.tick(COOLDOWN_MS);
+    await flushProbe();
+
+    assert.equal(inner.calls, 4);
+    assert.deepEqual(
+      onProbeUsage.mock.calls.map((call) => call.arguments),
+      [[inner.name, usage]],
+    );
+    assert.equal(isProviderAvailable(inner.name), true);
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Recognition Provider Health Tracking
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * Records the outcome and latency of recent calls per provider and runs a
+ * circuit breaker, so the fallback chain skips a provider that is down
+ * instead of waiting out its timeout on every request.
+ *
+ * - closed: calls go through
+ * - open: after RECOGNITION_CIRCUIT_FAILURE_THRESHOLD consecutive outage
+ *   failures (default 3) the provider is skipped; a background probe retries
+ *   it after RECOGNITION_CIRCUIT_COOLDOWN_MS (default 30000), backing off up
+ *   to 5 minutes while it keeps failing
+ * - half-open: the cooldown has passed without a successful probe (e.g. the
+ *   probe timer did not run); requests may try the provider again, and one
+ *   more failure reopens the circuit
+ *
+ * Only outages (API errors, timeouts, network errors) count as failures;
+ * unusable model output does not. Health is kept in memory per server instance.
+ */
+
+import { RecognitionProvider, type ProviderResponse } from './base';
+import { MeteredProvider, type ProviderUsageListener } from './metered';
+import type { RecognitionPrompt } from '../prompt';
+import type { SupportedLocale } from '@/types/recognition';
+
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 30_000;
+const MAX_COOLDOWN_MS = 5 * 60_000;
+/** Recent calls kept per provider for failure rate and latency. */
+const RECENT_CALL_LIMIT = 20;
+
+/** Error codes that mean the provider itself is failing. */
+const OUTAGE_ERROR_CODES = new Set(['API_ERROR', 'TIMEOUT', 'NETWORK_ERROR']);
+
+/** 1×1 PNG sent by health probes. */
+const PROBE_IMAGE =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const PROBE_PROMPT: RecognitionPrompt = {
+  system: 'You are a health check. Respond with the JSON object {"ok": true} and nothing else.',
+  user: 'Respond with {"ok": true}.',
+  maxTokens: 20,
+};
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface ProviderCall {
+  success: boolean;
+  latencyMs: number;
+  errorCode?: string;
+  at: number;
+}
+
+interface ProviderHealthRecord {
+  calls: ProviderCall[];
+  consecutiveFailures: number;
+  openedAt: number | null;
+  retryAt: number | null;
+  cooldownMs: number;
+  probeTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Health of one provider, as reported by the status endpoint.
+ */
+export interface ProviderHealthStatus {
+  provider: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  recentCalls: number;
+  failureRate: number | null; // 0-1 over recent calls, null without calls
+  averageLatencyMs: number | null;
+  lastError?: string;
+  lastFailureAt?: string; // ISO string
+  lastSuccessAt?: string;
+  openedAt?: string;
+  retryAt?: string; // When the circuit is probed or half-opens
+}
+
+const healthRecords = new Map<string, ProviderHealthRecord>();
+
+function parsePositiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function getFailureThreshold(): number {
+  return Math.round(
+    parsePositiveNumber(
+      process.env.RECOGNITION_CIRCUIT_FAILURE_THRESHOLD,
+      DEFAULT_FAILURE_THRESHOLD,
+    ),
+  );
+}
+
+function getCooldownMs(): number {
+  return parsePositiveNumber(process.env.RECOGNITION_CIRCUIT_COOLDOWN_MS, DEFAULT_COOLDOWN_MS);
+}
+
+function getRecord(name: string): ProviderHealthRecord {
+  let record = healthRecords.get(name);
+  if (!record) {
+    record = {
+      calls: [],
+      consecutiveFailures: 0,
+      openedAt: null,
+      retryAt: null,
+      cooldownMs: getCooldownMs(),
+      probeTimer: null,
+    };
+    healthRecords.set(name, record);
+  }
+  return record;
+}
+
+function getCircuitState(record: ProviderHealthRecord, now: number = Date.now()): CircuitState {
+  if (record.openedAt === null) return 'closed';
+  return record.retryAt !== null && now < record.retryAt ? 'open' : 'half-open';
+}
+
+function logCircuitEvent(provider: string, record: ProviderHealthRecord) {
+  const state = getCircuitState(record);
+  const payload = JSON.stringify({
+    event: 'provider_circuit',
+    provider,
+    state,
+    consecutiveFailures: record.consecutiveFailures,
+    retryAt: record.retryAt ? new Date(record.retryAt).toISOString() : undefined,
+    timestamp: new Date().toISOString(),
+  });
+  if (state === 'closed') {
+    console.info(payload);
+  } else {
+    console.warn(payload);
+  }
+}
+
+function pushCall(record: ProviderHealthRecord, call: ProviderCall) {
+  record.calls.push(call);
+  if (record.calls.length > RECENT_CALL_LIMIT) {
+    record.calls.shift();
+  }
+}
+
+function closeCircuit(name: string, record: ProviderHealthRecord) {
+  const wasOpen = record.openedAt !== null;
+  record.consecutiveFailures = 0;
+  record.openedAt = null;
+  record.retryAt = null;
+  record.cooldownMs = getCooldownMs();
+  if (record.probeTimer) {
+    clearTimeout(record.probeTimer);
+    record.probeTimer = null;
+  }
+  if (wasOpen) {
+    logCircuitEvent(name, record);
+  }
+}
+
+/**
+ * Open the circuit (or keep it open with a longer cooldown) and schedule a probe.
+ */
+function openCircuit(name: string, record: ProviderHealthRecord, probe: () => Promise<boolean>) {
+  const now = Date.now();
+  if (record.openedAt === null) {
+    record.openedAt = now;
+  } else {
+    record.cooldownMs = Math.min(record.cooldownMs * 2, MAX_COOLDOWN_MS);
+  }
+  record.retryAt = now + record.cooldownMs;
+  logCircuitEvent(name, record);
+
+  if (record.probeTimer) {
+    clearTimeout(record.probeTimer);
+  }
+  record.probeTimer = setTimeout(() => {
+    record.probeTimer = null;
+    void runProbe(name, record, probe);
+  }, record.cooldownMs);
+  // Never keep a script (e.g. the evaluation CLI) alive just to probe
+  record.probeTimer.unref?.();
+}
+
+async function runProbe(
+  name: string,
+  record: ProviderHealthRecord,
+  probe: () => Promise<boolean>,
+): Promise<void> {
+  // A request may have closed the circuit while the probe was waiting
+  if (record.openedAt === null) return;
+
+  let healthy = false;
+  try {
+    healthy = await probe();
+  } catch (error) {
+    console.warn(`${name} health probe failed:`, error);
+  }
+
+  if (healthy) {
+    closeCircuit(name, record);
+  } else if (record.openedAt !== null) {
+    openCircuit(name, record, probe);
+  }
+}
+
+/**
+ * Whether a provider response means the provider is up (it answered, even if
+ * the answer was not usable).
+ */
+function isHealthyResponse(response: ProviderResponse): boolean {
+  return response.success || !OUTAGE_ERROR_CODES.has(response.error?.code ?? 'API_ERROR');
+}
+
+/**
+ * Record a call outcome for a provider.
+ *
+ * @param name - Provider name
+ * @param response - Provider response (or a synthetic API_ERROR for thrown errors)
+ * @param latencyMs - Call duration
+ * @param probe - Health check run in the background while the circuit is open
+ */
+export function recordProviderCall(
+  name: string,
+  response: ProviderResponse,
+  latencyMs: number,
+  probe: () => Promise<boolean>,
+): void {
+  const record = getRecord(name);
+  const healthy = isHealthyResponse(response);
+  pushCall(record, {
+    success: healthy,
+    latencyMs,
+    errorCode: healthy ? undefined : response.error?.code,
+    at: Date.now(),
+  });
+
+  if (healthy) {
+    closeCircuit(name, record);
+    return;
+  }
+
+  record.consecutiveFailures += 1;
+  const state = getCircuitState(record);
+  // Failing again while half-open reopens right away; while open, the probe owns recovery
+  if (
+    (state === 'closed' && record.consecutiveFailures >= getFailureThreshold()) ||
+    state === 'half-open'
+  ) {
+    openCircuit(name, record, probe);
+  }
+}
+
+/**
+ * Whether requests should try a provider (its circuit is not open).
+ */
+export function isProviderAvailable(name: string): boolean {
+  const record = healthRecords.get(name);
+  return !record || getCircuitState(record) !== 'open';
+}
+
+/**
+ * Health of the given providers.
+ */
+export function getProviderHealth(names: string[]): ProviderHealthStatus[] {
+  const now = Date.now();
+  return names.map((provider) => {
+    const record = healthRecords.get(provider);
+    if (!record) {
+      return {
+        provider,
+        state: 'closed',
+        consecutiveFailures: 0,
+        recentCalls: 0,
+        failureRate: null,
+        averageLatencyMs: null,
+      };
+    }
+
+    const { calls } = record;
+    const failures = calls.filter((call) => !call.success);
+    const lastFailure = failures[failures.length - 1];
+    const lastSuccess = calls.filter((call) => call.success).pop();
+    const toIso = (time: number | null | undefined) =>
+      time != null ? new Date(time).toISOString() : undefined;
+
+    return {
+      provider,
+      state: getCircuitState(record, now),
+      consecutiveFailures: record.consecutiveFailures,
+      recentCalls: calls.length,
+      failureRate: calls.length > 0 ? failures.length / calls.length : null,
+      averageLatencyMs:
+        calls.length > 0
+          ? Math.round(calls.reduce((sum, call) => sum + call.latencyMs, 0) / calls.length)
+          : null,
+      lastError: lastFailure?.errorCode,
+      lastFailureAt: toIso(lastFailure?.at),
+      lastSuccessAt: toIso(lastSuccess?.at),
+      openedAt: toIso(record.openedAt),
+      retryAt: toIso(record.retryAt),
+    };
+  });
+}
+
+/**
+ * Provider that delegates to another provider and records each call's
+ * outcome and latency in the health tracker.
+ */
+export class HealthTrackedProvider extends RecognitionProvider {
+  /**
+   * @param provider - Provider to delegate to
+   * @param onProbeUsage - Receives the token usage of background health probes
+   */
+  constructor(
+    private readonly provider: RecognitionProvider,
+    private readonly onProbeUsage?: ProviderUsageListener,
+  ) {
+    // Configuration (API key, timeout) belongs to the wrapped provider
+    super({ apiKey: '' });
+  }
+
+  get name(): string {
+    return this.provider.name;
+  }
+
+  async getJsonResponse(
+    images: string[],
+    locale: SupportedLocale,
+    prompt?: RecognitionPrompt,
+  ): Promise<ProviderResponse> {
+    return this.track(() => this.provider.getJsonResponse(images, locale, prompt));
+  }
+
+  async streamJsonResponse(
+    images: string[],
+    locale: SupportedLocale,
+    onDelta: (delta: string) => void,
+    prompt?: RecognitionPrompt,
+  ): Promise<ProviderResponse> {
+    return this.track(() => this.provider.streamJsonResponse(images, locale, onDelta, prompt));
+  }
+
+  private async track(call: () => Promise<ProviderResponse>): Promise<ProviderResponse> {
+    const startTime = Date.now();
+    try {
+      const response = await call();
+      recordProviderCall(this.name, response, Date.now() - startTime, this.probe);
+      return response;
+    } catch (error) {
+      recordProviderCall(
+        this.name,
+        { success: false, error: { code: 'API_ERROR', message: String(error) } },
+        Date.now() - startTime,
+        this.probe,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Send a tiny request; the provider is healthy if it answers at all.
+   */
+  private probe = async (): Promise<boolean> => {
+    const provider = this.onProbeUsage
+      ? new MeteredProvider(this.provider, this.onProbeUsage)
+      : this.provider;
+    const response = await provider.getJsonResponse([PROBE_IMAGE], 'en', PROBE_PROMPT);
+    return isHealthyResponse(response);
+  };
+}
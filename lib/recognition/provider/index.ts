@@ -3,6 +3,31 @@
  * Based on Spec 003 - Multi-item Recognition
  */
 
-export { RecognitionProvider, type ProviderConfig, type ProviderResponse } from './base';
+export {
+  RecognitionProvider,
+  type ProviderConfig,
+  type ProviderResponse,
+  type ProviderUsage,
+  type RecognitionProviderFactory,
+} from './base';
 export { OpenAIProvider, createOpenAIProvider } from './openai';
 export { GeminiProvider, createGeminiProvider } from './gemini';
+export { OpenAICompatibleProvider, createOpenAICompatibleProvider } from './openai-compatible';
+export { MeteredProvider, meterProviders, type ProviderUsageListener } from './metered';
+export {
+  HealthTrackedProvider,
+  getProviderHealth,
+  isProviderAvailable,
+  recordProviderCall,
+  type CircuitState,
+  type ProviderHealthStatus,
+} from './health';
+export {
+  registerRecognitionProvider,
+  getRegisteredProviderNames,
+  resolveProviderChain,
+  resolveEnsembleProviderChain,
+  createProviderChain,
+  isProviderConfigured,
+  type RegisteredProvider,
+} from './registry';
@@ -0,0 +1,70 @@
+/**
+ * Metered Recognition Provider
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * Wraps a provider and reports the token usage of each call, so routes can
+ * record usage without changing their fallback and ensemble logic.
+ */
+
+import { RecognitionProvider, type ProviderResponse, type ProviderUsage } from './base';
+import type { RecognitionPrompt } from '../prompt';
+import type { SupportedLocale } from '@/types/recognition';
+
+/**
+ * Called after each provider call that reported token usage.
+ */
+export type ProviderUsageListener = (
+  provider: string,
+  usage: ProviderUsage,
+) => Promise<void> | void;
+
+/**
+ * Provider that delegates to another provider and reports its usage.
+ */
+export class MeteredProvider extends RecognitionProvider {
+  constructor(
+    private readonly provider: RecognitionProvider,
+    private readonly onUsage: ProviderUsageListener,
+  ) {
+    // Configuration (API key, timeout) belongs to the wrapped provider
+    super({ apiKey: '' });
+  }
+
+  get name(): string {
+    return this.provider.name;
+  }
+
+  async getJsonResponse(
+    images: string[],
+    locale: SupportedLocale,
+    prompt?: RecognitionPrompt,
+  ): Promise<ProviderResponse> {
+    return this.report(await this.provider.getJsonResponse(images, locale, prompt));
+  }
+
+  async streamJsonResponse(
+    images: string[],
+    locale: SupportedLocale,
+    onDelta: (delta: string) => void,
+    prompt?: RecognitionPrompt,
+  ): Promise<ProviderResponse> {
+    return this.report(await this.provider.streamJsonResponse(images, locale, onDelta, prompt));
+  }
+
+  private async report(response: ProviderResponse): Promise<ProviderResponse> {
+    if (response.usage) {
+      await this.onUsage(this.name, response.usage);
+    }
+    return response;
+  }
+}
+
+/**
+ * Wrap providers so each call's token usage is reported to a listener.
+ */
+export function meterProviders(
+  providers: RecognitionProvider[],
+  onUsage: ProviderUsageListener,
+): RecognitionProvider[] {
+  return providers.map((provider) => new MeteredProvider(provider, onUsage));
+}
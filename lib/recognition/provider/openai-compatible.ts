@@ -0,0 +1,58 @@
+/**
+ * OpenAI-Compatible Provider Implementation
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * Talks to any server exposing the OpenAI chat-completions API (self-hosted
+ * vision models, local stub servers), so recognition can run fully on-prem.
+ */
+
+import type { ProviderConfig } from './base';
+import { OpenAIProvider } from './openai';
+
+/**
+ * OpenAI-compatible provider for multi-item food recognition.
+ * Requires `baseUrl` (e.g. http://localhost:8000/v1) and `model`; the API key is optional.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  constructor(config: ProviderConfig) {
+    if (!config.baseUrl || !config.model) {
+      throw new Error('OpenAI-compatible provider requires baseUrl and model');
+    }
+    super(config);
+  }
+
+  get name(): string {
+    return 'openai-compatible';
+  }
+
+  protected get apiEndpoint(): string {
+    return `${this.config.baseUrl!.replace(/\/+$/, '')}/chat/completions`;
+  }
+
+  protected get model(): string {
+    return this.config.model!;
+  }
+
+  /**
+   * Not every OpenAI-compatible server accepts `stream_options`, so streamed
+   * responses are sent without usage.
+   */
+  protected get streamUsageSupported(): boolean {
+    return false;
+  }
+
+  /**
+   * `json_schema` response formats are only supported by some servers, so
+   * these requests use JSON mode unless OPENAI_COMPATIBLE_JSON_SCHEMA=true.
+   */
+  protected get jsonSchemaSupported(): boolean {
+    return process.env.OPENAI_COMPATIBLE_JSON_SCHEMA === 'true';
+  }
+}
+
+/**
+ * Create OpenAI-compatible provider instance.
+ */
+export function createOpenAICompatibleProvider(config: ProviderConfig): OpenAICompatibleProvider {
+  return new OpenAICompatibleProvider(config);
+}
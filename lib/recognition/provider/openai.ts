@@ -3,13 +3,27 @@
  * Based on Spec 003 - Multi-item Recognition
  *
  * Implements the RecognitionProvider interface for OpenAI Vision API.
- * Configured with JSON mode for structured output.
+ * Uses structured output (json_schema) when the prompt has a response
+ * schema, JSON mode otherwise.
  */
 
-import { RecognitionProvider, type ProviderConfig, type ProviderResponse } from './base';
-import { buildRecognitionPrompt } from '../prompt';
+import {
+  RecognitionProvider,
+  type ProviderConfig,
+  type ProviderResponse,
+  type ProviderUsage,
+} from './base';
+import { buildRecognitionPrompt, type RecognitionPrompt } from '../prompt';
 import type { SupportedLocale } from '@/types/recognition';
 
+/**
+ * Token usage reported by the chat completions API.
+ */
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
 /**
  * OpenAI API response structure.
  */
@@ -19,18 +33,28 @@ interface OpenAIResponse {
       content?: string;
     };
   }>;
+  usage?: OpenAIUsage;
   error?: {
     message: string;
   };
 }
 
+/**
+ * OpenAI streaming chunk structure (one SSE `data:` line).
+ */
+interface OpenAIStreamChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string;
+    };
+  }>;
+  usage?: OpenAIUsage | null; // Only on the final chunk, with stream_options.include_usage
+}
+
 /**
  * OpenAI Vision provider for multi-item food recognition.
  */
 export class OpenAIProvider extends RecognitionProvider {
-  private readonly apiEndpoint = 'https://api.openai.com/v1/chat/completions';
-  private readonly model = 'gpt-4o-mini';
-
   constructor(config: ProviderConfig) {
     super(config);
   }
@@ -39,108 +63,270 @@ export class OpenAIProvider extends RecognitionProvider {
     return 'openai';
   }
 
+  /**
+   * Chat completions endpoint URL.
+   */
+  protected get apiEndpoint(): string {
+    return 'https://api.openai.com/v1/chat/completions';
+  }
+
+  protected get model(): string {
+    return this.config.model || 'gpt-4o-mini';
+  }
+
+  /**
+   * Whether to request token usage in streamed responses (`stream_options.include_usage`).
+   */
+  protected get streamUsageSupported(): boolean {
+    return true;
+  }
+
+  /**
+   * Whether the endpoint accepts `response_format: { type: 'json_schema' }`.
+   * Without it, prompts with a response schema fall back to JSON mode.
+   */
+  protected get jsonSchemaSupported(): boolean {
+    return true;
+  }
+
+  /**
+   * Structured output for the prompt's response schema, or plain JSON mode.
+   */
+  protected buildResponseFormat(prompt: RecognitionPrompt) {
+    if (!prompt.responseSchema || !this.jsonSchemaSupported) {
+      return { type: 'json_object' };
+    }
+    return {
+      type: 'json_schema',
+      json_schema: {
+        name: prompt.responseSchema.name,
+        schema: prompt.responseSchema.schema,
+        // Strict mode requires every field; most item fields are optional
+        strict: false,
+      },
+    };
+  }
+
+  /**
+   * Request headers; the API key is sent as a bearer token when present.
+   */
+  protected buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+
+  /**
+   * Build the chat completions request body.
+   */
+  protected buildRequestBody(images: string[], prompt: RecognitionPrompt, stream: boolean) {
+    return {
+      model: this.model,
+      messages: [
+        {
+          role: 'system',
+          content: prompt.system,
+        },
+        {
+          role: 'user',
+          content: [
+            ...images.map((url) => ({
+              type: 'image_url',
+              image_url: {
+                url,
+              },
+            })),
+            {
+              type: 'text',
+              text: prompt.user,
+            },
+          ],
+        },
+      ],
+      max_tokens: prompt.maxTokens ?? 500,
+      response_format: this.buildResponseFormat(prompt),
+      ...(stream
+        ? {
+            stream: true,
+            ...(this.streamUsageSupported ? { stream_options: { include_usage: true } } : {}),
+          }
+        : {}),
+    };
+  }
+
   /**
    * Get raw JSON response from OpenAI Vision API.
    *
-   * @param imageData - Base64-encoded image data (data URL format)
+   * @param images - Ordered base64-encoded images (data URL format)
    * @param locale - Target locale for recognition results
+   * @param prompt - Prompt override (default: the multi-item recognition prompt)
    * @returns Promise resolving to provider response with raw JSON string
    */
-  async getJsonResponse(imageData: string, locale: SupportedLocale): Promise<ProviderResponse> {
+  async getJsonResponse(
+    images: string[],
+    locale: SupportedLocale,
+    prompt: RecognitionPrompt = buildRecognitionPrompt(locale, images.length),
+  ): Promise<ProviderResponse> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
 
     try {
-      const prompt = buildRecognitionPrompt(locale);
-
       const response = await fetch(this.apiEndpoint, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${this.config.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: this.model,
-          messages: [
-            {
-              role: 'system',
-              content: prompt.system,
-            },
-            {
-              role: 'user',
-              content: [
-                {
-                  type: 'image_url',
-                  image_url: {
-                    url: imageData,
-                  },
-                },
-                {
-                  type: 'text',
-                  text: prompt.user,
-                },
-              ],
-            },
-          ],
-          max_tokens: 500,
-          response_format: { type: 'json_object' },
-        }),
+        headers: this.buildHeaders(),
+        body: JSON.stringify(this.buildRequestBody(images, prompt, false)),
         signal: controller.signal,
       });
 
       clearTimeout(timeoutId);
 
       if (!response.ok) {
-        const errorText = await response.text();
-        console.error('OpenAI API error:', response.status, errorText);
-        return {
-          success: false,
-          error: {
-            code: 'API_ERROR',
-            message: `OpenAI API error: ${response.status}`,
-          },
-        };
+        return this.handleHttpError(response);
       }
 
       const data: OpenAIResponse = await response.json();
-      const content = data.choices?.[0]?.message?.content;
-
-      if (!content) {
-        return {
-          success: false,
-          error: {
-            code: 'NO_FOOD_DETECTED',
-            message: 'No response content from OpenAI',
-          },
-        };
+      return this.toProviderResponse(data.choices?.[0]?.message?.content, data.usage);
+    } catch (error) {
+      clearTimeout(timeoutId);
+      return this.handleRequestError(error);
+    }
+  }
+
+  /**
+   * Stream raw JSON response from the chat completions API (SSE chunks).
+   *
+   * @param images - Ordered base64-encoded images (data URL format)
+   * @param locale - Target locale for recognition results
+   * @param onDelta - Called with each chunk of response text
+   * @param prompt - Prompt override (default: the multi-item recognition prompt)
+   * @returns Promise resolving to provider response with the complete raw JSON string
+   */
+  async streamJsonResponse(
+    images: string[],
+    locale: SupportedLocale,
+    onDelta: (delta: string) => void,
+    prompt: RecognitionPrompt = buildRecognitionPrompt(locale, images.length),
+  ): Promise<ProviderResponse> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+
+    try {
+      const response = await fetch(this.apiEndpoint, {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify(this.buildRequestBody(images, prompt, true)),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        clearTimeout(timeoutId);
+        return this.handleHttpError(response);
       }
 
-      return {
-        success: true,
-        rawJson: content,
-      };
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let content = '';
+      let usage: OpenAIUsage | undefined;
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const data = line.trim();
+          if (!data.startsWith('data:')) continue;
+          const payload = data.slice('data:'.length).trim();
+          if (payload === '[DONE]') continue;
+
+          const chunk: OpenAIStreamChunk = JSON.parse(payload);
+          usage = chunk.usage ?? usage;
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) {
+            content += delta;
+            onDelta(delta);
+          }
+        }
+      }
+
+      clearTimeout(timeoutId);
+      return this.toProviderResponse(content, usage);
     } catch (error) {
       clearTimeout(timeoutId);
+      return this.handleRequestError(error);
+    }
+  }
 
-      if (error instanceof Error && error.name === 'AbortError') {
-        return {
-          success: false,
-          error: {
-            code: 'TIMEOUT',
-            message: 'Request timed out',
-          },
-        };
-      }
+  private toProviderUsage(usage: OpenAIUsage | undefined): ProviderUsage | undefined {
+    if (!usage) {
+      return undefined;
+    }
+    return {
+      model: this.model,
+      inputTokens: usage.prompt_tokens ?? 0,
+      outputTokens: usage.completion_tokens ?? 0,
+    };
+  }
 
-      console.error('OpenAI provider error:', error);
+  private toProviderResponse(
+    content: string | undefined,
+    usage: OpenAIUsage | undefined,
+  ): ProviderResponse {
+    if (!content) {
       return {
         success: false,
+        usage: this.toProviderUsage(usage),
         error: {
-          code: 'API_ERROR',
-          message: error instanceof Error ? error.message : 'Unknown error',
+          code: 'NO_FOOD_DETECTED',
+          message: `No response content from ${this.name}`,
         },
       };
     }
+
+    return {
+      success: true,
+      rawJson: content,
+      usage: this.toProviderUsage(usage),
+    };
+  }
+
+  private async handleHttpError(response: Response): Promise<ProviderResponse> {
+    const errorText = await response.text();
+    console.error(`${this.name} API error:`, response.status, errorText);
+    return {
+      success: false,
+      error: {
+        code: 'API_ERROR',
+        message: `${this.name} API error: ${response.status}`,
+      },
+    };
+  }
+
+  private handleRequestError(error: unknown): ProviderResponse {
+    if (error instanceof Error && error.name === 'AbortError') {
+      return {
+        success: false,
+        error: {
+          code: 'TIMEOUT',
+          message: 'Request timed out',
+        },
+      };
+    }
+
+    console.error(`${this.name} provider error:`, error);
+    return {
+      success: false,
+      error: {
+        code: 'API_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+    };
   }
 }
 
@@ -0,0 +1,173 @@
+/**
+ * Recognition Provider Registry
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * Maps provider names to factories and builds the ordered fallback chain
+ * used by /api/recognize.
+ *
+ * Chain configuration:
+ * - RECOGNITION_PROVIDER_CHAIN: comma-separated provider names, tried in order
+ *   (e.g. "openai-compatible,gemini")
+ * - Otherwise RECOGNITION_API_TYPE (default: gemini) first, then the other built-in
+ *   cloud providers
+ *
+ * Ensemble mode runs RECOGNITION_ENSEMBLE_PROVIDERS (default: gemini,openai) in parallel.
+ *
+ * Providers without configuration (e.g. missing API key) are skipped, and so
+ * are providers whose circuit breaker is open (see ./health).
+ */
+
+import type { ProviderConfig, RecognitionProvider, RecognitionProviderFactory } from './base';
+import type { ProviderUsageListener } from './metered';
+import { createOpenAIProvider } from './openai';
+import { createGeminiProvider } from './gemini';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import { HealthTrackedProvider, isProviderAvailable } from './health';
+
+const DEFAULT_PROVIDER_TIMEOUT_MS = 30000;
+const DEFAULT_CLOUD_CHAIN = ['gemini', 'openai'];
+
+/**
+ * Registry entry: a factory plus a resolver that reads its configuration.
+ */
+export interface RegisteredProvider {
+  factory: RecognitionProviderFactory;
+  /** Returns null when the provider is not configured in this environment. */
+  resolveConfig: () => ProviderConfig | null;
+}
+
+const providerRegistry = new Map<string, RegisteredProvider>();
+
+/**
+ * Register (or replace) a recognition provider under a name.
+ */
+export function registerRecognitionProvider(name: string, provider: RegisteredProvider): void {
+  providerRegistry.set(name, provider);
+}
+
+/**
+ * Names of all registered providers.
+ */
+export function getRegisteredProviderNames(): string[] {
+  return Array.from(providerRegistry.keys());
+}
+
+function parseTimeout(value: string | undefined): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_PROVIDER_TIMEOUT_MS;
+}
+
+registerRecognitionProvider('gemini', {
+  factory: createGeminiProvider,
+  resolveConfig: () => {
+    const apiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY;
+    return apiKey ? { apiKey, timeout: DEFAULT_PROVIDER_TIMEOUT_MS } : null;
+  },
+});
+
+registerRecognitionProvider('openai', {
+  factory: createOpenAIProvider,
+  resolveConfig: () => {
+    const apiKey = process.env.RECOGNITION_API_KEY;
+    return apiKey ? { apiKey, timeout: DEFAULT_PROVIDER_TIMEOUT_MS } : null;
+  },
+});
+
+registerRecognitionProvider('openai-compatible', {
+  factory: createOpenAICompatibleProvider,
+  resolveConfig: () => {
+    const baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL;
+    const model = process.env.OPENAI_COMPATIBLE_MODEL;
+    if (!baseUrl || !model) {
+      return null;
+    }
+    return {
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || '',
+      baseUrl,
+      model,
+      timeout: parseTimeout(process.env.OPENAI_COMPATIBLE_TIMEOUT_MS),
+    };
+  },
+});
+
+/**
+ * Whether a provider is registered and configured in this environment.
+ */
+export function isProviderConfigured(name: string): boolean {
+  return Boolean(providerRegistry.get(name)?.resolveConfig());
+}
+
+/**
+ * Resolve the ordered provider names from the environment.
+ */
+export function resolveProviderChain(): string[] {
+  const configured = process.env.RECOGNITION_PROVIDER_CHAIN;
+  return toKnownProviderNames(
+    configured
+      ? configured.split(',')
+      : [process.env.RECOGNITION_API_TYPE || 'gemini', ...DEFAULT_CLOUD_CHAIN],
+  );
+}
+
+/**
+ * Resolve the providers run in parallel by ensemble mode
+ * (RECOGNITION_ENSEMBLE_PROVIDERS, default: gemini,openai).
+ */
+export function resolveEnsembleProviderChain(): string[] {
+  const configured = process.env.RECOGNITION_ENSEMBLE_PROVIDERS;
+  return toKnownProviderNames(configured ? configured.split(',') : DEFAULT_CLOUD_CHAIN);
+}
+
+/**
+ * Trim, de-duplicate and drop unregistered provider names (with a warning).
+ */
+function toKnownProviderNames(names: string[]): string[] {
+  const chain: string[] = [];
+  for (const rawName of names) {
+    const name = rawName.trim();
+    if (!name || chain.includes(name)) {
+      continue;
+    }
+    if (!providerRegistry.has(name)) {
+      console.warn(`Unknown recognition provider "${name}" in chain, skipping`);
+      continue;
+    }
+    chain.push(name);
+  }
+  return chain;
+}
+
+/**
+ * Instantiate the configured providers in chain order, with health tracking.
+ *
+ * Providers with an open circuit are left out unless every configured provider
+ * is open, in which case all of them are tried rather than failing outright.
+ *
+ * @param chain - Provider names to try in order (defaults to the environment chain)
+ * @param options.skipUnavailable - Leave out providers with an open circuit (default: true)
+ * @param options.onProbeUsage - Receives the token usage of health probes (e.g. recordProbeUsage)
+ * @returns Providers ready to use; unconfigured providers are omitted
+ */
+export function createProviderChain(
+  chain: string[] = resolveProviderChain(),
+  {
+    skipUnavailable = true,
+    onProbeUsage,
+  }: { skipUnavailable?: boolean; onProbeUsage?: ProviderUsageListener } = {},
+): RecognitionProvider[] {
+  const providers: RecognitionProvider[] = [];
+  for (const name of chain) {
+    const entry = providerRegistry.get(name);
+    const config = entry?.resolveConfig();
+    if (!entry || !config) {
+      continue;
+    }
+    providers.push(new HealthTrackedProvider(entry.factory(config), onProbeUsage));
+  }
+
+  if (!skipUnavailable) {
+    return providers;
+  }
+  const available = providers.filter((provider) => isProviderAvailable(provider.name));
+  return available.length > 0 ? available : providers;
+}
@@ -0,0 +1,70 @@
+/**
+ * Reference Objects for Portion Scale
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * An object of known size the user sets in settings (their own rice bowl, a
+ * credit card or chopsticks). When it is in the photo, the recognition prompt
+ * asks the model to measure items against it, and the resulting weights are
+ * preferred over default unit weights. Shared by the client (settings, requests)
+ * and the server (request validation, prompt).
+ */
+
+import type { ReferenceObject, ReferenceObjectType } from '@/types/recognition';
+
+export const REFERENCE_OBJECT_TYPES: ReferenceObjectType[] = ['bowl', 'card', 'chopsticks'];
+
+/**
+ * Default size per reference object: a Taiwanese rice bowl rim, an ISO/IEC 7810
+ * ID-1 card width and a pair of household chopsticks.
+ */
+export const DEFAULT_REFERENCE_SIZES_CM: Record<ReferenceObjectType, number> = {
+  bowl: 12,
+  card: 8.56,
+  chopsticks: 23,
+};
+
+/**
+ * Credit cards have a fixed size; bowls and chopsticks are measured by the user.
+ */
+export const FIXED_SIZE_REFERENCE_TYPES: ReferenceObjectType[] = ['card'];
+
+export const MIN_REFERENCE_SIZE_CM = 3;
+export const MAX_REFERENCE_SIZE_CM = 50;
+
+/**
+ * Validate a reference object from a request body or browser storage.
+ *
+ * @returns The reference object, or undefined when missing or invalid
+ */
+export function parseReferenceObject(value: unknown): ReferenceObject | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const { type, sizeCm } = value as Partial<ReferenceObject>;
+  if (!type || !REFERENCE_OBJECT_TYPES.includes(type)) return undefined;
+
+  if (FIXED_SIZE_REFERENCE_TYPES.includes(type)) {
+    return { type, sizeCm: DEFAULT_REFERENCE_SIZES_CM[type] };
+  }
+  if (
+    typeof sizeCm !== 'number' ||
+    !Number.isFinite(sizeCm) ||
+    sizeCm < MIN_REFERENCE_SIZE_CM ||
+    sizeCm > MAX_REFERENCE_SIZE_CM
+  ) {
+    return undefined;
+  }
+  return { type, sizeCm: Math.round(sizeCm * 10) / 10 };
+}
+
+/**
+ * Describe a reference object for the recognition prompt.
+ */
+export function describeReferenceObject({ type, sizeCm }: ReferenceObject): string {
+  switch (type) {
+    case 'bowl':
+      return `their own rice bowl, ${sizeCm} cm across the rim`;
+    case 'card':
+      return 'a credit card (8.56 × 5.4 cm)';
+    case 'chopsticks':
+      return `chopsticks, ${sizeCm} cm long`;
+  }
+}
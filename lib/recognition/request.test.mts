@@ -0,0 +1,294 @@
+/**
+ * Recognition request helpers and the /api/recognize pipeline
+ * (createRecognitionRun), answering in one response or streamed.
+ * The usage ledger, correction hints, prompt assignment, result cache and
+ * provider chain are mocked (ESM, which module mocks need).
+ *
+ * Run: npm test
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import sharp from 'sharp';
+import { RecognitionProvider, type ProviderResponse } from '@/lib/recognition/provider/base';
+import type { UsageMeter } from '@/lib/usage/ledger';
+import {
+  MAX_RECOGNITION_TEXT_LENGTH,
+  MultiItemRecognitionError,
+  type MultiItemRecognitionResponse,
+  type RecognitionItem,
+  type SupportedLocale,
+} from '@/types/recognition';
+import type { UsageQuotaStatus } from '@/types/usage';
+
+type RequestModule = typeof import('./request');
+
+const quota: { exceeded: UsageQuotaStatus | null } = { exceeded: null };
+const cachedResults = new Map<string, { data: MultiItemRecognitionResponse; provider: string }>();
+let providerChain: RecognitionProvider[] = [];
+
+mock.module(new URL('../usage/ledger.ts', import.meta.url).href, {
+  namedExports: {
+    createUsageMeter: async (): Promise<UsageMeter> => ({
+      quota: quota.exceeded,
+      exceededQuota: quota.exceeded,
+      totals: { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 },
+      record: async () => undefined,
+      meter: (providers) => providers,
+    }),
+    recordProbeUsage: async () => undefined,
+  },
+});
+mock.module(new URL('../corrections/store.ts', import.meta.url).href, {
+  namedExports: { getSessionCorrectionHints: async () => [] },
+});
+mock.module(new URL('./prompt-experiment.ts', import.meta.url).href, {
+  namedExports: { assignPromptVersion: async () => 'v-test' },
+});
+mock.module(new URL('./cache.ts', import.meta.url).href, {
+  namedExports: {
+    buildRecognitionCacheKey: (images: string[], locale: string, mode?: string) =>
+      [images.join(','), locale, mode].join('|'),
+    getCachedRecognition: async (key: string) => cachedResults.get(key) ?? null,
+    setCachedRecognition: async (
+      key: string,
+      data: MultiItemRecognitionResponse,
+      provider: string,
+    ) => {
+      cachedResults.set(key, { data, provider });
+    },
+  },
+});
+mock.module(new URL('./provider/registry.ts', import.meta.url).href, {
+  namedExports: {
+    createProviderChain: () => providerChain,
+    resolveEnsembleProviderChain: () => [],
+    resolveProviderChain: () => providerChain.map((provider) => provider.name),
+  },
+});
+
+const ITEMS_JSON = JSON.stringify({
+  items: [
+    { name: '滷肉飯', confidence: 0.9 },
+    { name: '燙青菜', confidence: 0.8 },
+  ],
+  locale: 'zh-TW',
+});
+
+/**
+ * Provider answering with a fixed response; `partial` is streamed before a failure.
+ */
+class FakeProvider extends RecognitionProvider {
+  calls = 0;
+
+  constructor(
+    private readonly providerName: string,
+    private readonly answer: ProviderResponse,
+    private readonly partial?: string,
+  ) {
+    super({ apiKey: 'test' });
+  }
+
+  get name(): string {
+    return this.providerName;
+  }
+
+  async getJsonResponse(): Promise<ProviderResponse> {
+    this.calls += 1;
+    return this.answer;
+  }
+
+  async streamJsonResponse(
+    images: string[],
+    locale: SupportedLocale,
+    onDelta: (delta: string) => void,
+  ): Promise<ProviderResponse> {
+    if (this.partial) {
+      this.calls += 1;
+      onDelta(this.partial);
+      return this.answer;
+    }
+    return super.streamJsonResponse(images, locale, onDelta);
+  }
+}
+
+const succeeds = (name: string) => new FakeProvider(name, { success: true, rawJson: ITEMS_JSON });
+const timesOut = (name: string, partial?: string) =>
+  new FakeProvider(
+    name,
+    { success: false, error: { code: 'TIMEOUT', message: 'Request timed out' } },
+    partial,
+  );
+
+let request: RequestModule;
+let image: string;
+
+function recognitionRequest(body: Record<string, unknown> = {}): Request {
+  return new Request('http://localhost/api/recognize', {
+    method: 'POST',
+    body: JSON.stringify({ images: [image], consent: true, locale: 'zh-TW', ...body }),
+  });
+}
+
+/**
+ * Run one request through the pipeline, streamed when `events` is given.
+ */
+async function runRecognition(
+  route: 'recognize' | 'recognize-stream',
+  events?: Array<{ index: number; item: RecognitionItem } | { reset: string }>,
+  body?: Record<string, unknown>,
+) {
+  const run = request.createRecognitionRun(route);
+  if (await run.prepare(recognitionRequest(body))) {
+    await run.recognize(
+      events && {
+        onItem: (index, item) => events.push({ index, item }),
+        onReset: (provider) => events.push({ reset: provider }),
+      },
+    );
+  }
+  return run;
+}
+
+before(async () => {
+  request = await import('./request');
+  const jpeg = await sharp({
+    create: { width: 96, height: 96, channels: 3, background: '#a0522d' },
+  })
+    .jpeg()
+    .toBuffer();
+  image = `data:image/jpeg;base64,${jpeg.toString('base64')}`;
+});
+
+beforeEach(() => {
+  mock.method(console, 'info', () => undefined);
+  mock.method(console, 'warn', () => undefined);
+  quota.exceeded = null;
+  cachedResults.clear();
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('getPromptOnlyProviderErrorCode', () => {
+  it('falls back instead of blaming the client for an invalid image', () => {
+    const code = request.getPromptOnlyProviderErrorCode(MultiItemRecognitionError.INVALID_IMAGE);
+    assert.equal(code, MultiItemRecognitionError.API_ERROR);
+    assert.equal(request.shouldFallback(code), true);
+    assert.notEqual(request.getProviderErrorStatus(code), 400);
+  });
+
+  it('keeps other codes', () => {
+    for (const code of [
+      MultiItemRecognitionError.TIMEOUT,
+      MultiItemRecognitionError.INVALID_JSON,
+      MultiItemRecognitionError.NETWORK_ERROR,
+    ]) {
+      assert.equal(request.getPromptOnlyProviderErrorCode(code), code);
+    }
+  });
+});
+
+describe('validateTextRecognitionRequest', () => {
+  it('accepts a trimmed description without images', () => {
+    const result = request.validateTextRecognitionRequest({
+      text: ' 一碗牛肉麵 ',
+      locale: 'zh-TW',
+      consent: true,
+    });
+    assert.deepEqual(result, { valid: true, text: '一碗牛肉麵', locale: 'zh-TW' });
+  });
+
+  it('rejects empty and overlong descriptions', () => {
+    for (const text of ['   ', 'a'.repeat(MAX_RECOGNITION_TEXT_LENGTH + 1)]) {
+      const result = request.validateTextRecognitionRequest({ text, consent: true });
+      assert.equal(result.valid, false);
+      assert.equal(
+        !result.valid && result.response.error.code,
+        MultiItemRecognitionError.INVALID_TEXT,
+      );
+    }
+  });
+});
+
+describe('createRecognitionRun', () => {
+  it('answers the same in one response and streamed', async () => {
+    providerChain = [succeeds('gemini')];
+    const json = await runRecognition('recognize');
+
+    cachedResults.clear();
+    const events: Parameters<typeof runRecognition>[1] = [];
+    const streamed = await runRecognition('recognize-stream', events);
+
+    assert.equal(json.status, 200);
+    assert.deepEqual(streamed.response, json.response);
+    assert.equal(json.response.success && json.response.data.promptVersion, 'v-test');
+    assert.deepEqual(
+      events.map((event) => ('item' in event ? event.item.name : event)),
+      ['滷肉飯', '燙青菜'],
+    );
+  });
+
+  it('falls back to the next provider and resets its streamed items', async () => {
+    const partial = '{"items": [{"name": "魯肉飯", "confidence": 0.5}, {"name": "燙';
+    const first = timesOut('gemini', partial);
+    providerChain = [first, succeeds('openai')];
+    const events: Parameters<typeof runRecognition>[1] = [];
+
+    const run = await runRecognition('recognize-stream', events);
+
+    assert.equal(run.status, 200);
+    assert.equal(run.response.success && run.response.data.items.length, 2);
+    assert.deepEqual(
+      events.map((event) => ('item' in event ? event.item.name : event)),
+      ['魯肉飯', { reset: 'openai' }, '滷肉飯', '燙青菜'],
+    );
+  });
+
+  it('answers 504 when every provider times out', async () => {
+    providerChain = [timesOut('gemini'), timesOut('openai')];
+
+    const run = await runRecognition('recognize');
+
+    assert.equal(run.status, 504);
+    assert.equal(!run.response.success && run.response.error.code, 'TIMEOUT');
+  });
+
+  it('serves repeated photos from the cache without calling providers', async () => {
+    const provider = succeeds('gemini');
+    providerChain = [provider];
+    await runRecognition('recognize');
+
+    const events: Parameters<typeof runRecognition>[1] = [];
+    const run = await runRecognition('recognize-stream', events);
+
+    assert.equal(provider.calls, 1);
+    assert.equal(run.response.success && run.response.cached, true);
+    assert.equal(events.length, 2);
+  });
+
+  it('rejects requests without consent before calling providers', async () => {
+    const provider = succeeds('gemini');
+    providerChain = [provider];
+
+    const run = await runRecognition('recognize', undefined, { consent: false });
+
+    assert.equal(run.status, 400);
+    assert.equal(!run.response.success && run.response.error.code, 'CONSENT_REQUIRED');
+    assert.equal(provider.calls, 0);
+  });
+
+  it('answers 429 with quota headers once the quota is used up', async () => {
+    const provider = succeeds('gemini');
+    providerChain = [provider];
+    const resetsAt = new Date(Date.now() + 3600_000).toISOString();
+    quota.exceeded = { daily: { limit: 10, used: 10, remaining: 0, resetsAt }, monthly: null };
+
+    const run = await runRecognition('recognize');
+
+    assert.equal(run.status, 429);
+    assert.ok(run.headers && Object.keys(run.headers).length > 0);
+    assert.equal(provider.calls, 0);
+  });
+});
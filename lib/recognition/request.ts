@@ -0,0 +1,843 @@
+/**
+ * Recognition Request Helpers (server-side)
+ * Based on Spec 003 - Multi-item Recognition
+ *
+ * Validation, error mapping and logging shared by the JSON and streaming
+ * variants of /api/recognize, /api/recognize/label, /api/recognize/leftover,
+ * /api/recognize/components and /api/recognize-text, and the recognition
+ * pipeline both variants of /api/recognize run (see createRecognitionRun).
+ */
+
+import { translate } from '@/lib/i18n';
+import { getSessionCorrectionHints } from '@/lib/corrections/store';
+import { createUsageMeter, recordProbeUsage, type UsageMeter } from '@/lib/usage/ledger';
+import { getQuotaExceededMessage, getQuotaHeaders } from '@/lib/usage/quota';
+import { buildRecognitionCacheKey, getCachedRecognition, setCachedRecognition } from './cache';
+import {
+  runEnsembleRecognition,
+  type EnsembleProviderOutput,
+  type EnsembleResult,
+} from './ensemble';
+import { createStreamingItemParser, finalizeRecognitionItems, parseAndValidate } from './parser';
+import { buildRecognitionPrompt, type RecognitionPromptOptions } from './prompt';
+import { assignPromptVersion } from './prompt-experiment';
+import type { ProviderResponse } from './provider/base';
+import {
+  createProviderChain,
+  resolveEnsembleProviderChain,
+  resolveProviderChain,
+} from './provider/registry';
+import { parseReferenceObject } from './reference-object';
+import { MAX_IMAGE_BYTES, MIN_IMAGE_DIMENSION, normalizeImages } from './image-normalization';
+import type { UsageQuotaStatus, UsageRoute, UsageTotals } from '@/types/usage';
+import {
+  type RecognitionApiRequest,
+  type NutritionLabelApiRequest,
+  type LeftoverApiRequest,
+  type LeftoverItemInput,
+  type ItemComponentsApiRequest,
+  type ComponentsDishInput,
+  type TextRecognitionApiRequest,
+  type RecognitionApiErrorResponse,
+  type MultiItemRecognitionApiResponse,
+  type RecognitionItem,
+  type InvalidImageReason,
+  type ReferenceObject,
+  type ReferenceObjectType,
+  type SupportedLocale,
+  DEFAULT_LOCALE,
+  MAX_RECOGNITION_IMAGES,
+  MAX_RECOGNITION_TEXT_LENGTH,
+  MAX_SPREAD_RECOGNITION_ITEMS,
+  isSupportedLocale,
+  MultiItemRecognitionError,
+} from '@/types/recognition';
+
+/**
+ * Maximum items returned per recognition (per FR-001).
+ */
+export const MAX_RECOGNITION_ITEMS = 6;
+
+/**
+ * Item limit of a recognition request (spread mode allows more items).
+ */
+export function getRecognitionItemLimit(spread: boolean): number {
+  return spread ? MAX_SPREAD_RECOGNITION_ITEMS : MAX_RECOGNITION_ITEMS;
+}
+
+/**
+ * Log event structure for recognition requests.
+ */
+export interface RecognitionLogEvent {
+  event: 'recognition_request';
+  requestId: string;
+  apiType: string;
+  success: boolean;
+  status: number;
+  errorCode?: string;
+  invalidImageReason?: InvalidImageReason;
+  itemCount?: number;
+  imageCount?: number;
+  cached?: boolean;
+  streamed?: boolean;
+  ensemble?: boolean;
+  spread?: boolean;
+  referenceObject?: ReferenceObjectType; // Scale reference set by the user
+  // Nutrition label (/api/recognize/label), text (/api/recognize-text), leftovers
+  // (/api/recognize/leftover) or ingredient breakdown (/api/recognize/components)
+  mode?: 'label' | 'text' | 'leftover' | 'components';
+  textLength?: number; // Characters of the meal description in text mode
+  providerOutputs?: EnsembleProviderOutput[]; // Per-provider items in ensemble mode
+  correctionHints?: number; // User corrections sent as prompt hints
+  promptVersion?: string; // Recognition prompt version (see prompt-experiment.ts)
+  usage?: UsageTotals; // Provider calls, tokens and estimated cost
+  locale: string;
+  processingTimeMs: number;
+  timestamp: string;
+}
+
+/**
+ * Log recognition events.
+ */
+export function logRecognitionEvent(event: RecognitionLogEvent) {
+  const payload = JSON.stringify(event);
+  if (event.success) {
+    console.info(payload);
+  } else {
+    console.warn(payload);
+  }
+}
+
+/**
+ * Map error code to translated message.
+ */
+export function getRecognitionErrorMessage(code: MultiItemRecognitionError): string {
+  const messageMap: Record<MultiItemRecognitionError, string> = {
+    [MultiItemRecognitionError.CONSENT_REQUIRED]: translate('errors.consentRequired'),
+    [MultiItemRecognitionError.INVALID_IMAGE]: translate('errors.invalidImage'),
+    [MultiItemRecognitionError.NO_FOOD_DETECTED]: translate('errors.noFoodDetected'),
+    [MultiItemRecognitionError.TIMEOUT]: translate('errors.recognitionTimeout'),
+    [MultiItemRecognitionError.INVALID_JSON]: translate('errors.invalidJson'),
+    [MultiItemRecognitionError.VALIDATION_ERROR]: translate('errors.validationError'),
+    [MultiItemRecognitionError.INVALID_LOCALE]: translate('errors.invalidLocale'),
+    [MultiItemRecognitionError.NETWORK_ERROR]: translate('errors.networkError'),
+    [MultiItemRecognitionError.API_ERROR]: translate('errors.recognitionFailed'),
+    [MultiItemRecognitionError.NO_LABEL_DETECTED]: translate('errors.noLabelDetected'),
+    [MultiItemRecognitionError.INVALID_TEXT]: translate('errors.invalidMealText', {
+      max: MAX_RECOGNITION_TEXT_LENGTH,
+    }),
+    [MultiItemRecognitionError.QUOTA_EXCEEDED]: translate('errors.quotaExceeded'),
+  };
+  return messageMap[code] || translate('errors.recognitionFailed');
+}
+
+/**
+ * Build an error response body for an error code.
+ */
+export function createRecognitionErrorResponse(
+  code: MultiItemRecognitionError,
+  message: string = getRecognitionErrorMessage(code),
+): RecognitionApiErrorResponse {
+  return {
+    success: false,
+    error: {
+      code,
+      message,
+    },
+  };
+}
+
+/**
+ * Build the 400 response body for an image rejected before any provider call.
+ */
+export function createInvalidImageResponse(
+  reason: InvalidImageReason,
+): RecognitionApiErrorResponse {
+  const messageMap: Record<InvalidImageReason, string> = {
+    MISSING_IMAGE: translate('errors.invalidImageReasons.missingImage'),
+    TOO_MANY_IMAGES: translate('errors.invalidImageReasons.tooManyImages', {
+      max: MAX_RECOGNITION_IMAGES,
+    }),
+    MALFORMED_DATA_URL: translate('errors.invalidImageReasons.malformedDataUrl'),
+    FILE_TOO_LARGE: translate('errors.invalidImageReasons.fileTooLarge', {
+      max: Math.round(MAX_IMAGE_BYTES / (1024 * 1024)),
+    }),
+    UNSUPPORTED_FORMAT: translate('errors.invalidImageReasons.unsupportedFormat'),
+    CORRUPT_IMAGE: translate('errors.invalidImageReasons.corruptImage'),
+    DIMENSIONS_TOO_SMALL: translate('errors.invalidImageReasons.dimensionsTooSmall', {
+      min: MIN_IMAGE_DIMENSION,
+    }),
+    DIMENSIONS_TOO_LARGE: translate('errors.invalidImageReasons.dimensionsTooLarge'),
+  };
+  const response = createRecognitionErrorResponse(
+    MultiItemRecognitionError.INVALID_IMAGE,
+    messageMap[reason],
+  );
+  response.error.reason = reason;
+  return response;
+}
+
+/**
+ * Build the 429 response body for a caller who used up an AI usage quota.
+ */
+export function createQuotaExceededResponse(quota: UsageQuotaStatus): RecognitionApiErrorResponse {
+  return createRecognitionErrorResponse(
+    MultiItemRecognitionError.QUOTA_EXCEEDED,
+    getQuotaExceededMessage(quota),
+  );
+}
+
+/**
+ * Whether the next provider in the chain should be tried after this error.
+ */
+export function shouldFallback(code: MultiItemRecognitionError): boolean {
+  return (
+    code === MultiItemRecognitionError.API_ERROR ||
+    code === MultiItemRecognitionError.TIMEOUT ||
+    code === MultiItemRecognitionError.INVALID_JSON ||
+    code === MultiItemRecognitionError.VALIDATION_ERROR ||
+    code === MultiItemRecognitionError.NETWORK_ERROR
+  );
+}
+
+/**
+ * Error code of a provider failure on a request without images (text and
+ * ingredient breakdown prompts). An "invalid image" answer there is the
+ * provider's fault, not the client's, so it is treated as an API error and
+ * the next provider is tried.
+ */
+export function getPromptOnlyProviderErrorCode(
+  code: MultiItemRecognitionError,
+): MultiItemRecognitionError {
+  return code === MultiItemRecognitionError.INVALID_IMAGE
+    ? MultiItemRecognitionError.API_ERROR
+    : code;
+}
+
+/**
+ * HTTP status for a provider error that ends the request.
+ */
+export function getProviderErrorStatus(code: MultiItemRecognitionError): number {
+  if (code === MultiItemRecognitionError.INVALID_IMAGE) return 400;
+  if (code === MultiItemRecognitionError.TIMEOUT) return 504;
+  return 500;
+}
+
+/**
+ * Cache mode of a recognition request. Ensemble runs, spread mode and prompts with
+ * a user's correction hints or reference object produce different results, so
+ * they are cached separately.
+ */
+export function getRecognitionCacheMode(
+  ensemble: boolean,
+  promptOptions: RecognitionPromptOptions,
+): string | undefined {
+  const { corrections = [], spread, referenceObject } = promptOptions;
+  const modes: string[] = [];
+  if (ensemble) modes.push('ensemble');
+  if (spread) modes.push('spread');
+  if (corrections.length > 0) modes.push(`hints:${JSON.stringify(corrections)}`);
+  if (referenceObject) modes.push(`ref:${referenceObject.type}:${referenceObject.sizeCm}`);
+  return modes.length > 0 ? modes.join('|') : undefined;
+}
+
+/**
+ * Build the API response and status for an ensemble run.
+ */
+export function resolveEnsembleResponse(
+  result: EnsembleResult,
+  locale: SupportedLocale,
+  maxItems: number = MAX_RECOGNITION_ITEMS,
+  promptVersion?: string,
+): { status: number; response: MultiItemRecognitionApiResponse } {
+  if (result.providers.length === 0) {
+    const errorCode = result.errorCode ?? MultiItemRecognitionError.API_ERROR;
+    return {
+      status: getProviderErrorStatus(errorCode),
+      response: createRecognitionErrorResponse(errorCode),
+    };
+  }
+
+  const items = finalizeRecognitionItems(result.items, maxItems);
+  if (items.length === 0) {
+    return {
+      status: 200,
+      response: createRecognitionErrorResponse(MultiItemRecognitionError.NO_FOOD_DETECTED),
+    };
+  }
+
+  return {
+    status: 200,
+    response: { success: true, data: { items, locale, promptVersion }, cached: false },
+  };
+}
+
+function isImageDataUrl(image: unknown): image is string {
+  return typeof image === 'string' && image.startsWith('data:image/');
+}
+
+/**
+ * Collect request images in order, accepting the legacy single `image` field.
+ */
+function resolveRequestImages(body: RecognitionApiRequest): string[] {
+  if (Array.isArray(body.images)) {
+    return body.images;
+  }
+  return body.image ? [body.image] : [];
+}
+
+export type RecognitionRequestValidation =
+  | {
+      valid: true;
+      images: string[];
+      locale: SupportedLocale;
+      ensemble: boolean;
+      spread: boolean;
+      referenceObject?: ReferenceObject;
+    }
+  | { valid: false; status: number; response: RecognitionApiErrorResponse; imageCount?: number };
+
+/**
+ * Validate consent, images and locale of a recognition request body.
+ * Unsupported locales fall back to the default locale.
+ */
+export function validateRecognitionRequest(
+  body: RecognitionApiRequest,
+): RecognitionRequestValidation {
+  // Validate consent
+  if (!body.consent) {
+    return {
+      valid: false,
+      status: 400,
+      response: createRecognitionErrorResponse(MultiItemRecognitionError.CONSENT_REQUIRED),
+    };
+  }
+
+  // Validate image data
+  const images = resolveRequestImages(body);
+  const imageError =
+    images.length === 0
+      ? 'MISSING_IMAGE'
+      : images.length > MAX_RECOGNITION_IMAGES
+        ? 'TOO_MANY_IMAGES'
+        : images.some((image) => !isImageDataUrl(image))
+          ? 'MALFORMED_DATA_URL'
+          : undefined;
+  if (imageError) {
+    return {
+      valid: false,
+      status: 400,
+      response: createInvalidImageResponse(imageError),
+      imageCount: images.length,
+    };
+  }
+
+  return {
+    valid: true,
+    images,
+    locale: resolveRequestLocale(body.locale),
+    ensemble: body.ensemble === true,
+    spread: body.spread === true,
+    // An invalid reference object is ignored rather than failing the request
+    referenceObject: parseReferenceObject(body.referenceObject),
+  };
+}
+
+export type NutritionLabelRequestValidation =
+  | { valid: true; image: string; locale: SupportedLocale }
+  | { valid: false; status: number; response: RecognitionApiErrorResponse };
+
+/**
+ * Validate consent, image and locale of a nutrition label request body.
+ */
+export function validateNutritionLabelRequest(
+  body: NutritionLabelApiRequest,
+): NutritionLabelRequestValidation {
+  if (!body.consent) {
+    return {
+      valid: false,
+      status: 400,
+      response: createRecognitionErrorResponse(MultiItemRecognitionError.CONSENT_REQUIRED),
+    };
+  }
+
+  if (!isImageDataUrl(body.image)) {
+    return {
+      valid: false,
+      status: 400,
+      response: createInvalidImageResponse(body.image ? 'MALFORMED_DATA_URL' : 'MISSING_IMAGE'),
+    };
+  }
+
+  return { valid: true, image: body.image, locale: resolveRequestLocale(body.locale) };
+}
+
+export type LeftoverRequestValidation =
+  | { valid: true; image: string; items: LeftoverItemInput[]; locale: SupportedLocale }
+  | { valid: false; status: number; response: RecognitionApiErrorResponse };
+
+/**
+ * Validate consent, image, logged items and locale of a leftover request body.
+ */
+export function validateLeftoverRequest(body: LeftoverApiRequest): LeftoverRequestValidation {
+  if (!body.consent) {
+    return {
+      valid: false,
+      status: 400,
+      response: createRecognitionErrorResponse(MultiItemRecognitionError.CONSENT_REQUIRED),
+    };
+  }
+
+  if (!isImageDataUrl(body.image)) {
+    return {
+      valid: false,
+      status: 400,
+      response: createInvalidImageResponse(body.image ? 'MALFORMED_DATA_URL' : 'MISSING_IMAGE'),
+    };
+  }
+
+  const items = Array.isArray(body.items) ? body.items : [];
+  const isValidItem = (item: LeftoverItemInput) =>
+    typeof item?.name === 'string' &&
+    item.name.trim().length > 0 &&
+    typeof item.portionSize === 'number' &&
+    item.portionSize > 0 &&
+    typeof item.portionUnit === 'string';
+  if (
+    items.length === 0 ||
+    items.length > MAX_SPREAD_RECOGNITION_ITEMS ||
+    !items.every(isValidItem)
+  ) {
+    return {
+      valid: false,
+      status: 400,
+      response: createRecognitionErrorResponse(MultiItemRecognitionError.VALIDATION_ERROR),
+    };
+  }
+
+  return {
+    valid: true,
+    image: body.image,
+    items: items.map((item) => ({
+      name: item.name.trim().slice(0, 100),
+      portionSize: item.portionSize,
+      portionUnit: item.portionUnit.trim().slice(0, 20),
+      estimatedWeightGrams:
+        typeof item.estimatedWeightGrams === 'number' && item.estimatedWeightGrams > 0
+          ? item.estimatedWeightGrams
+          : undefined,
+    })),
+    locale: resolveRequestLocale(body.locale),
+  };
+}
+
+export type ItemComponentsRequestValidation =
+  | { valid: true; dish: ComponentsDishInput; locale: SupportedLocale }
+  | { valid: false; status: number; response: RecognitionApiErrorResponse };
+
+/**
+ * Validate consent, the logged dish and locale of an ingredient breakdown request body.
+ */
+export function validateItemComponentsRequest(
+  body: ItemComponentsApiRequest,
+): ItemComponentsRequestValidation {
+  if (!body.consent) {
+    return {
+      valid: false,
+      status: 400,
+      response: createRecognitionErrorResponse(MultiItemRecognitionError.CONSENT_REQUIRED),
+    };
+  }
+
+  if (
+    typeof body.name !== 'string' ||
+    body.name.trim().length === 0 ||
+    typeof body.portionSize !== 'number' ||
+    !(body.portionSize > 0) ||
+    typeof body.portionUnit !== 'string'
+  ) {
+    return {
+      valid: false,
+      status: 400,
+      response: createRecognitionErrorResponse(MultiItemRecognitionError.VALIDATION_ERROR),
+    };
+  }
+
+  return {
+    valid: true,
+    dish: {
+      name: body.name.trim().slice(0, 100),
+      portionSize: body.portionSize,
+      portionUnit: body.portionUnit.trim().slice(0, 20),
+      estimatedWeightGrams:
+        typeof body.estimatedWeightGrams === 'number' && body.estimatedWeightGrams > 0
+          ? body.estimatedWeightGrams
+          : undefined,
+    },
+    locale: resolveRequestLocale(body.locale),
+  };
+}
+
+export type TextRecognitionRequestValidation =
+  | { valid: true; text: string; locale: SupportedLocale }
+  | { valid: false; status: number; response: RecognitionApiErrorResponse };
+
+/**
+ * Validate consent, text and locale of a text recognition request body.
+ */
+export function validateTextRecognitionRequest(
+  body: TextRecognitionApiRequest,
+): TextRecognitionRequestValidation {
+  if (!body.consent) {
+    return {
+      valid: false,
+      status: 400,
+      response: createRecognitionErrorResponse(MultiItemRecognitionError.CONSENT_REQUIRED),
+    };
+  }
+
+  const text = typeof body.text === 'string' ? body.text.trim() : '';
+  if (text.length === 0 || text.length > MAX_RECOGNITION_TEXT_LENGTH) {
+    return {
+      valid: false,
+      status: 400,
+      response: createRecognitionErrorResponse(MultiItemRecognitionError.INVALID_TEXT),
+    };
+  }
+
+  return { valid: true, text, locale: resolveRequestLocale(body.locale) };
+}
+
+/**
+ * Decode, check and re-encode validated request images before any provider
+ * sees them (see image-normalization.ts).
+ */
+export async function normalizeRequestImages(
+  images: string[],
+): Promise<
+  | { valid: true; images: string[] }
+  | { valid: false; status: number; response: RecognitionApiErrorResponse }
+> {
+  const result = await normalizeImages(images);
+  if (!result.valid) {
+    return { valid: false, status: 400, response: createInvalidImageResponse(result.reason) };
+  }
+  return result;
+}
+
+/**
+ * Item callbacks of a streamed recognition (POST /api/recognize/stream).
+ */
+export interface RecognitionStreamHandlers {
+  /** An item parsed from the provider's streamed JSON, or of a cached or ensemble result. */
+  onItem: (index: number, item: RecognitionItem) => void;
+  /** The items sent so far came from a provider that failed; `provider` is tried next. */
+  onReset: (provider: string) => void;
+}
+
+/**
+ * One multi-item recognition request. `status` and `response` are updated as
+ * it runs; the route replies with them (plus `headers`) and calls log() once
+ * it is done.
+ */
+export interface RecognitionRun {
+  status: number;
+  response: MultiItemRecognitionApiResponse;
+  headers?: Record<string, string>; // Quota headers of a 429 response
+  /**
+   * Validate the request body, normalize the images and check the caller's quota.
+   *
+   * @returns false when `response` is already the error to send
+   */
+  prepare: (request: Request) => Promise<boolean>;
+  /**
+   * Recognize the prepared images: correction hints, prompt version, cache,
+   * ensemble mode, then the provider fallback chain.
+   *
+   * @param stream - Item callbacks; without them providers answer in one response
+   */
+  recognize: (stream?: RecognitionStreamHandlers) => Promise<MultiItemRecognitionApiResponse>;
+  /** Answer an unexpected error with a 500. */
+  fail: () => void;
+  log: () => void;
+}
+
+/**
+ * Create the pipeline of POST /api/recognize ('recognize') or its streaming
+ * variant ('recognize-stream'), so both answer and log the same way.
+ */
+export function createRecognitionRun(
+  route: Extract<UsageRoute, 'recognize' | 'recognize-stream'>,
+): RecognitionRun {
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  let apiType = process.env.RECOGNITION_API_TYPE || 'gemini';
+  let locale: SupportedLocale = DEFAULT_LOCALE;
+  let images: string[] = [];
+  let imageCount: number | undefined;
+  let ensemble = false;
+  let spread = false;
+  let referenceObject: ReferenceObject | undefined;
+  let providerOutputs: EnsembleProviderOutput[] | undefined;
+  let correctionHintCount: number | undefined;
+  let promptVersion: string | undefined;
+  let usageMeter: UsageMeter | undefined;
+
+  const run: RecognitionRun = {
+    status: 200,
+    response: createRecognitionErrorResponse(MultiItemRecognitionError.API_ERROR),
+
+    async prepare(request) {
+      const body: RecognitionApiRequest = await request.json();
+
+      // Validate consent, image data and locale
+      const validation = validateRecognitionRequest(body);
+      if (!validation.valid) {
+        run.status = validation.status;
+        run.response = validation.response;
+        imageCount = validation.imageCount;
+        return false;
+      }
+
+      locale = validation.locale;
+      ensemble = validation.ensemble;
+      spread = validation.spread;
+      referenceObject = validation.referenceObject;
+      imageCount = validation.images.length;
+
+      // Re-encode images (limits, orientation, metadata) before any provider sees them
+      const normalized = await normalizeRequestImages(validation.images);
+      if (!normalized.valid) {
+        run.status = normalized.status;
+        run.response = normalized.response;
+        return false;
+      }
+      images = normalized.images;
+
+      // Enforce the caller's AI usage quota before any provider is called
+      usageMeter = await createUsageMeter(request, route);
+      if (usageMeter.exceededQuota) {
+        run.status = 429;
+        run.response = createQuotaExceededResponse(usageMeter.exceededQuota);
+        run.headers = getQuotaHeaders(usageMeter.exceededQuota);
+        return false;
+      }
+
+      return true;
+    },
+
+    async recognize(stream) {
+      run.response = await recognizeImages(stream);
+      return run.response;
+    },
+
+    fail() {
+      run.status = 500;
+      run.response = createRecognitionErrorResponse(
+        MultiItemRecognitionError.API_ERROR,
+        translate('errors.recognitionFailed'),
+      );
+    },
+
+    log() {
+      const { response } = run;
+      logRecognitionEvent({
+        event: 'recognition_request',
+        requestId,
+        apiType,
+        success: response.success,
+        status: run.status,
+        errorCode: response.success ? undefined : response.error.code,
+        invalidImageReason: response.success ? undefined : response.error.reason,
+        itemCount: response.success ? response.data.items.length : undefined,
+        imageCount,
+        cached: response.success ? response.cached : undefined,
+        streamed: route === 'recognize-stream' || undefined,
+        ensemble: ensemble || undefined,
+        spread: spread || undefined,
+        referenceObject: referenceObject?.type,
+        providerOutputs,
+        correctionHints: correctionHintCount,
+        promptVersion,
+        usage: usageMeter?.totals.calls ? usageMeter.totals : undefined,
+        locale,
+        processingTimeMs: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+      });
+    },
+  };
+
+  async function recognizeImages(
+    stream?: RecognitionStreamHandlers,
+  ): Promise<MultiItemRecognitionApiResponse> {
+    if (!usageMeter) {
+      throw new Error('Recognition run was not prepared');
+    }
+    const maxItems = getRecognitionItemLimit(spread);
+    const sendItems = (items: RecognitionItem[]) =>
+      items.forEach((item, index) => stream?.onItem(index, item));
+
+    // Personalize the prompt with the signed-in user's frequent corrections
+    const correctionHints = await getSessionCorrectionHints();
+    correctionHintCount = correctionHints.length || undefined;
+    promptVersion = await assignPromptVersion();
+    const promptOptions: RecognitionPromptOptions = {
+      corrections: correctionHints,
+      spread,
+      referenceObject,
+      promptVersion,
+    };
+    const prompt = buildRecognitionPrompt(locale, images.length, promptOptions);
+
+    // Serve repeated requests for the same photos from the cache
+    const cacheKey = buildRecognitionCacheKey(
+      images,
+      locale,
+      getRecognitionCacheMode(ensemble, promptOptions),
+      promptVersion,
+    );
+    const cachedResult = await getCachedRecognition(cacheKey);
+    if (cachedResult) {
+      apiType = cachedResult.provider;
+      sendItems(cachedResult.data.items);
+      return { success: true, data: { ...cachedResult.data, promptVersion }, cached: true };
+    }
+
+    // Opt-in ensemble: run several providers in parallel and merge their items
+    if (ensemble) {
+      const ensembleProviders = usageMeter.meter(
+        createProviderChain(resolveEnsembleProviderChain(), { onProbeUsage: recordProbeUsage }),
+      );
+      if (ensembleProviders.length > 1) {
+        const result = await runEnsembleRecognition(
+          ensembleProviders,
+          images,
+          locale,
+          prompt,
+          maxItems,
+        );
+        apiType = ensembleProviders.map((provider) => provider.name).join('+');
+        providerOutputs = result.outputs;
+        const { status, response } = resolveEnsembleResponse(
+          result,
+          locale,
+          maxItems,
+          promptVersion,
+        );
+        run.status = status;
+        if (response.success) {
+          sendItems(response.data.items);
+          await setCachedRecognition(cacheKey, response.data, apiType);
+        }
+        return response;
+      }
+    }
+
+    // Ordered fallback chain from the provider registry
+    const providers = usageMeter.meter(
+      createProviderChain(resolveProviderChain(), { onProbeUsage: recordProbeUsage }),
+    );
+
+    if (providers.length === 0) {
+      console.error('No recognition providers configured');
+      run.status = 500;
+      return createRecognitionErrorResponse(
+        MultiItemRecognitionError.API_ERROR,
+        translate('errors.recognitionUnavailable'),
+      );
+    }
+
+    let lastErrorCode: MultiItemRecognitionError | undefined;
+    let streamedCount = 0;
+
+    for (const provider of providers) {
+      // Discard items streamed by a provider that failed
+      if (streamedCount > 0) {
+        stream?.onReset(provider.name);
+        streamedCount = 0;
+      }
+      apiType = provider.name;
+
+      let providerResponse: ProviderResponse;
+      if (stream) {
+        const itemParser = createStreamingItemParser();
+        providerResponse = await provider.streamJsonResponse(
+          images,
+          locale,
+          (delta) => {
+            for (const item of itemParser.push(delta)) {
+              stream.onItem(streamedCount, item);
+              streamedCount += 1;
+            }
+          },
+          prompt,
+        );
+      } else {
+        providerResponse = await provider.getJsonResponse(images, locale, prompt);
+      }
+
+      if (!providerResponse.success || !providerResponse.rawJson) {
+        const errorCode =
+          (providerResponse.error?.code as MultiItemRecognitionError) ||
+          MultiItemRecognitionError.API_ERROR;
+
+        if (shouldFallback(errorCode)) {
+          lastErrorCode = errorCode;
+          continue;
+        }
+
+        run.status = getProviderErrorStatus(errorCode);
+        return createRecognitionErrorResponse(errorCode);
+      }
+
+      const parseResult = parseAndValidate(providerResponse.rawJson, maxItems, locale);
+
+      if (!parseResult.success || !parseResult.data) {
+        const errorCode =
+          (parseResult.error?.code as MultiItemRecognitionError) ||
+          MultiItemRecognitionError.VALIDATION_ERROR;
+
+        if (shouldFallback(errorCode)) {
+          lastErrorCode = errorCode;
+          continue;
+        }
+
+        run.status = 500;
+        return createRecognitionErrorResponse(errorCode);
+      }
+
+      // Merge duplicates across photos, then truncate if more than 6 (per FR-001; 20 in spread mode)
+      const items: RecognitionItem[] = finalizeRecognitionItems(parseResult.data.items, maxItems);
+
+      // Still a valid response (status 200), just no food detected
+      if (items.length === 0) {
+        return createRecognitionErrorResponse(MultiItemRecognitionError.NO_FOOD_DETECTED);
+      }
+
+      const data = { items, locale, promptVersion };
+      await setCachedRecognition(cacheKey, data, provider.name);
+      return { success: true, data, cached: false };
+    }
+
+    const finalError = lastErrorCode ?? MultiItemRecognitionError.API_ERROR;
+    run.status = finalError === MultiItemRecognitionError.TIMEOUT ? 504 : 500;
+    return createRecognitionErrorResponse(finalError);
+  }
+
+  return run;
+}
+
+/**
+ * Validate and set locale; unsupported locales fall back to the default locale.
+ */
+function resolveRequestLocale(requested?: string): SupportedLocale {
+  if (!requested) {
+    return DEFAULT_LOCALE;
+  }
+  if (isSupportedLocale(requested)) {
+    return requested;
+  }
+  // Log warning but default to zh-TW
+  console.warn(`Invalid locale "${requested}", defaulting to ${DEFAULT_LOCALE}`);
+  return DEFAULT_LOCALE;
+}
@@ -4,12 +4,38 @@
  */
 
 import { z } from 'zod';
+import { ALLERGENS, isAllergen } from '@/types/recognition';
 
 /**
  * Valid food categories.
  */
 export const FOOD_CATEGORIES = ['food', 'beverage', 'soup', 'dessert'] as const;
 
+/**
+ * Schema for a normalized bounding box (0-1 relative to image width/height).
+ * Values are clamped to the image; boxes with no area are rejected.
+ */
+export const BoundingBoxSchema = z
+  .object({
+    x: z.number(),
+    y: z.number(),
+    width: z.number(),
+    height: z.number(),
+    imageIndex: z.number().int().min(0).optional(),
+  })
+  .transform((box) => {
+    const x = Math.min(Math.max(box.x, 0), 1);
+    const y = Math.min(Math.max(box.y, 0), 1);
+    return {
+      ...box,
+      x,
+      y,
+      width: Math.min(Math.max(box.width, 0), 1 - x),
+      height: Math.min(Math.max(box.height, 0), 1 - y),
+    };
+  })
+  .refine((box) => box.width > 0 && box.height > 0, 'Bounding box must have an area');
+
 /**
  * Schema for a single recognition item.
  */
@@ -22,19 +48,58 @@ export const RecognitionItemSchema = z.object({
   estimatedCount: z.union([z.number(), z.string().min(1)]).optional(),
   estimatedWeightGrams: z.union([z.number(), z.string().min(1)]).optional(),
   containerSize: z.enum(['small', 'medium', 'large']).optional(),
+  // An unusable box is dropped instead of failing the whole item
+  boundingBox: BoundingBoxSchema.optional().catch(undefined),
+  shared: z.boolean().optional().catch(undefined),
+  scaledWeightGrams: z.number().positive().optional().catch(undefined),
+  // Unknown allergen names and repeats are dropped, keeping the known ones
+  allergens: z
+    .preprocess(
+      (value) => (Array.isArray(value) ? [...new Set(value.filter(isAllergen))] : value),
+      z.array(z.enum(ALLERGENS)),
+    )
+    .optional()
+    .catch(undefined),
 });
 
+/**
+ * Build the multi-item recognition response schema for an item limit.
+ *
+ * @param maxItems - Maximum items allowed (6 per FR-001; more in spread mode)
+ */
+export function createMultiItemResponseSchema(maxItems: number) {
+  return z.object({
+    items: z
+      .array(RecognitionItemSchema)
+      .min(1, 'At least one item is required')
+      .max(maxItems, `Maximum ${maxItems} items allowed`),
+    locale: z.string().min(1, 'Locale is required'),
+  });
+}
+
+/**
+ * JSON Schema of the multi-item response, sent to providers that support
+ * structured output (Gemini `responseJsonSchema`, OpenAI `json_schema`).
+ * Describes the accepted input: box clamping and dropped fields still happen
+ * when the response is validated.
+ *
+ * @param maxItems - Maximum items allowed (6 per FR-001; more in spread mode)
+ */
+export function createRecognitionJsonSchema(maxItems: number): Record<string, unknown> {
+  const schema = z.toJSONSchema(createMultiItemResponseSchema(maxItems), {
+    io: 'input',
+    target: 'draft-7',
+  });
+  // Providers reject the draft URI
+  delete schema.$schema;
+  return schema;
+}
+
 /**
  * Schema for multi-item recognition response.
  * Enforces 1-6 items as per FR-001.
  */
-export const MultiItemRecognitionResponseSchema = z.object({
-  items: z
-    .array(RecognitionItemSchema)
-    .min(1, 'At least one item is required')
-    .max(6, 'Maximum 6 items allowed'),
-  locale: z.string().min(1, 'Locale is required'),
-});
+export const MultiItemRecognitionResponseSchema = createMultiItemResponseSchema(6);
 
 /**
  * Type inference from Zod schema.
@@ -0,0 +1,93 @@
+/**
+ * Client-side Food Correction Service
+ *
+ * Reads, records and clears the signed-in user's learned corrections via
+ * /api/corrections.
+ */
+
+import { translate } from '@/lib/i18n';
+import { clearRecognitionCache } from '@/lib/db/indexeddb/recognition-cache';
+import type {
+  CorrectionSource,
+  CorrectionsApiResponse,
+  FoodCorrection,
+  RecordCorrectionsApiRequest,
+} from '@/types/correction';
+
+const API_TIMEOUT = 10000; // 10 seconds
+
+async function requestCorrections(
+  query: string,
+  init: RequestInit = {},
+): Promise<CorrectionsApiResponse> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), API_TIMEOUT);
+
+  try {
+    const response = await fetch(`/api/corrections${query}`, {
+      ...init,
+      signal: controller.signal,
+    });
+    return (await response.json()) as CorrectionsApiResponse;
+  } catch (error) {
+    console.error('Food correction service error:', error);
+    return {
+      success: false,
+      error: {
+        code: 'API_ERROR',
+        message: translate('errors.correctionsUnavailable'),
+      },
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Drop locally cached recognition results once the corrections changed, since
+ * they were recognized with the previous correction hints.
+ */
+async function invalidateCachedRecognitions(
+  result: CorrectionsApiResponse,
+): Promise<CorrectionsApiResponse> {
+  if (result.success) {
+    await clearRecognitionCache().catch((error) => {
+      console.warn('Failed to clear recognition cache:', error);
+    });
+  }
+  return result;
+}
+
+/**
+ * Load the user's learned corrections, most frequent first.
+ */
+export function fetchLearnedCorrections(): Promise<CorrectionsApiResponse> {
+  return requestCorrections('');
+}
+
+/**
+ * Record the corrections of a saved meal.
+ *
+ * @param corrections - Recognized items the user renamed or re-portioned
+ * @param source - Prompt version and saved meal of the items, when known
+ */
+export function recordFoodCorrections(
+  corrections: FoodCorrection[],
+  source: CorrectionSource = {},
+): Promise<CorrectionsApiResponse> {
+  const body: RecordCorrectionsApiRequest = { corrections, ...source };
+  return requestCorrections('', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  }).then(invalidateCachedRecognitions);
+}
+
+/**
+ * Forget one learned correction, or all of them when no id is given.
+ */
+export function deleteLearnedCorrections(id?: string): Promise<CorrectionsApiResponse> {
+  return requestCorrections(id ? `?id=${encodeURIComponent(id)}` : '', { method: 'DELETE' }).then(
+    invalidateCachedRecognitions,
+  );
+}
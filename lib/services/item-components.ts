@@ -0,0 +1,164 @@
+/**
+ * Item Components Mapper
+ *
+ * Helpers for dishes broken down into ingredients (/api/recognize/components):
+ * each component's nutrition is looked up for its grams and the item's
+ * nutrition becomes the sum of its components.
+ */
+
+import { resolvePortionScale, scaleNutritionValues } from '@/lib/nutrition/portion-conversion';
+import type { NutritionData } from '@/lib/nutrition/lookup';
+import type { ComponentsDishInput, ItemComponentEstimate } from '@/types/recognition';
+import type { MealItem, MealItemComponent } from '@/types/sync';
+
+/**
+ * Nutrition fields a component contributes to its item.
+ */
+const COMPONENT_NUTRITION_FIELDS = [
+  'calories',
+  'protein',
+  'carbs',
+  'fat',
+  'fiber',
+  'sugar',
+  'saturatedFat',
+  'sodium',
+  'potassium',
+  'calcium',
+  'iron',
+  'vitaminA',
+  'vitaminC',
+  'vitaminD',
+  'vitaminB12',
+  'cholesterol',
+] as const;
+
+type ComponentNutritionValues = Partial<
+  Record<(typeof COMPONENT_NUTRITION_FIELDS)[number], number>
+>;
+
+/**
+ * Fields rounded to whole numbers (the rest keep one decimal, vitamin B12 two).
+ */
+const WHOLE_NUMBER_FIELDS = new Set<string>([
+  'calories',
+  'sodium',
+  'potassium',
+  'calcium',
+  'vitaminA',
+  'cholesterol',
+]);
+
+function roundNutrient(field: string, value: number): number {
+  const precision = WHOLE_NUMBER_FIELDS.has(field) ? 0 : field === 'vitaminB12' ? 2 : 1;
+  const multiplier = Math.pow(10, precision);
+  return Math.round(value * multiplier) / multiplier;
+}
+
+/**
+ * Nutrition fields cleared, e.g. before a new lookup.
+ */
+export function emptyComponentNutrition(): ComponentNutritionValues & { nutritionSource?: string } {
+  return {
+    ...Object.fromEntries(COMPONENT_NUTRITION_FIELDS.map((field) => [field, undefined])),
+    nutritionSource: undefined,
+  };
+}
+
+/**
+ * Describe an item for the breakdown request, with its estimated grams.
+ */
+export function toComponentsDishInput(item: MealItem): ComponentsDishInput {
+  return {
+    name: item.foodName,
+    portionSize: item.portionSize > 0 ? item.portionSize : 1,
+    portionUnit: item.portionUnit,
+    estimatedWeightGrams: resolvePortionScale(
+      item.foodName,
+      item.portionSize,
+      item.portionUnit,
+      item.containerSize,
+      item.aiEstimatedWeightGrams,
+      item.referenceWeightGrams,
+    ).grams,
+  };
+}
+
+/**
+ * Components from a breakdown response, before their nutrition is looked up.
+ */
+export function toMealItemComponents(estimates: ItemComponentEstimate[]): MealItemComponent[] {
+  return estimates.map((estimate) => ({ name: estimate.name, grams: estimate.grams }));
+}
+
+/**
+ * Component nutrition from a lookup of its grams (see lookupNutrition).
+ */
+export function toComponentNutrition(data: NutritionData): Partial<MealItemComponent> {
+  return {
+    calories: data.calories,
+    protein: data.protein,
+    carbs: data.carbohydrates,
+    fat: data.fats,
+    fiber: data.fiber,
+    sugar: data.sugar,
+    saturatedFat: data.saturatedFat,
+    sodium: data.sodium,
+    potassium: data.potassium,
+    calcium: data.calcium,
+    iron: data.iron,
+    vitaminA: data.vitaminA,
+    vitaminC: data.vitaminC,
+    vitaminD: data.vitaminD,
+    vitaminB12: data.vitaminB12,
+    cholesterol: data.cholesterol,
+    nutritionSource: data.sourceDatabase,
+  };
+}
+
+/**
+ * Item nutrition as the sum of its components.
+ * A field stays unset when no component has it; the source lists the distinct
+ * component sources so AI estimates are still flagged.
+ */
+export function sumComponentNutrition(
+  components: MealItemComponent[],
+): ComponentNutritionValues & { nutritionSource?: string } {
+  const totals: ComponentNutritionValues = {};
+  for (const field of COMPONENT_NUTRITION_FIELDS) {
+    const values = components
+      .map((component) => component[field])
+      .filter((value): value is number => value != null);
+    totals[field] =
+      values.length > 0
+        ? roundNutrient(
+            field,
+            values.reduce((sum, value) => sum + value, 0),
+          )
+        : undefined;
+  }
+
+  const sources = [
+    ...new Set(components.map((component) => component.nutritionSource).filter(Boolean)),
+  ];
+  return { ...totals, nutritionSource: sources.length > 0 ? sources.join(' + ') : undefined };
+}
+
+/**
+ * Scale components (grams and nutrition) when the item's portion changes.
+ */
+export function scaleItemComponents(
+  components: MealItemComponent[],
+  ratio: number,
+): MealItemComponent[] {
+  return components.map((component) => {
+    const values = Object.fromEntries(
+      COMPONENT_NUTRITION_FIELDS.map((field) => [field, component[field]]),
+    ) as ComponentNutritionValues;
+    return {
+      ...component,
+      ...scaleNutritionValues(values, ratio),
+      grams: Math.max(1, Math.round(component.grams * ratio)),
+    };
+  });
+}
@@ -0,0 +1,97 @@
+/**
+ * Leftover Mapper
+ *
+ * Applies the leftover estimates read from a meal's "after" photo
+ * (/api/recognize/leftover) to its items: each portion and its nutrition are
+ * scaled to the share that was actually eaten.
+ */
+
+import { resolvePortionScale, scaleNutritionValues } from '@/lib/nutrition/portion-conversion';
+import type { LeftoverEstimate, LeftoverItemInput } from '@/types/recognition';
+import type { MealItem } from '@/types/sync';
+
+/**
+ * Item fields scaled with the eaten share (nutrition and the beverage base sugar).
+ */
+const SCALED_FIELDS = [
+  'calories',
+  'protein',
+  'carbs',
+  'fat',
+  'fiber',
+  'sugar',
+  'saturatedFat',
+  'sodium',
+  'potassium',
+  'calcium',
+  'iron',
+  'vitaminA',
+  'vitaminC',
+  'vitaminD',
+  'vitaminB12',
+  'cholesterol',
+  'baseSugar',
+] as const;
+
+type ScaledValues = Partial<Record<(typeof SCALED_FIELDS)[number], number>>;
+
+/**
+ * Describe the meal's items for the leftover request, with their estimated grams.
+ */
+export function toLeftoverItemInputs(items: MealItem[]): LeftoverItemInput[] {
+  return items.map((item) => ({
+    name: item.foodName,
+    portionSize: item.portionSize > 0 ? item.portionSize : 1,
+    portionUnit: item.portionUnit,
+    estimatedWeightGrams: resolvePortionScale(
+      item.foodName,
+      item.portionSize,
+      item.portionUnit,
+      item.containerSize,
+      item.aiEstimatedWeightGrams,
+      item.referenceWeightGrams,
+    ).grams,
+  }));
+}
+
+/**
+ * Scale items to what was eaten.
+ * Items without an estimate are kept as logged. For shared dishes the leftover
+ * applies to the whole dish; the user's share still applies on top.
+ *
+ * @param items - The meal's items, in the order sent to the leftover request
+ * @param estimates - Leftover estimates by item index
+ * @returns Items with scaled portion and nutrition and their `leftoverFraction`
+ */
+export function applyLeftoverEstimates(
+  items: MealItem[],
+  estimates: LeftoverEstimate[],
+): MealItem[] {
+  const remainingByIndex = new Map(
+    estimates.map((estimate) => [estimate.index, estimate.remainingFraction]),
+  );
+
+  return items.map((item, index) => {
+    const remaining = remainingByIndex.get(index);
+    if (remaining == null) return item;
+
+    const eaten = Math.round((1 - remaining) * 100) / 100;
+    const values = Object.fromEntries(
+      SCALED_FIELDS.map((field) => [field, item[field] ?? undefined]),
+    ) as ScaledValues;
+    // scaleNutritionValues leaves values unchanged for a ratio of 0
+    const scaled =
+      eaten > 0
+        ? scaleNutritionValues(values, eaten)
+        : (Object.fromEntries(
+            Object.entries(values).map(([field, value]) => [field, value != null ? 0 : undefined]),
+          ) as ScaledValues);
+
+    return {
+      ...item,
+      ...scaled,
+      portionSize: Math.round(item.portionSize * eaten * 100) / 100,
+      leftoverFraction: Math.round(remaining * 100) / 100,
+    };
+  });
+}
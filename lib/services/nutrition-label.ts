@@ -0,0 +1,57 @@
+/**
+ * Nutrition Label Mapper
+ *
+ * Maps a nutrition facts label read by /api/recognize/label (or a barcode
+ * product with the same columns) to a pre-filled MealItem.
+ */
+
+import { PORTION_UNIT_OPTIONS } from '@/lib/nutrition/portion-conversion';
+import { NUTRITION_LABEL_SOURCE } from '@/types/meal';
+import type { NutritionLabelResult, SupportedLocale } from '@/types/recognition';
+import type { MealItem } from '@/types/sync';
+
+/**
+ * Map a nutrition label to a meal item for one serving.
+ *
+ * The serving weight is stored as `aiEstimatedWeightGrams`, so changing the
+ * portion (e.g. to grams) scales the label values like other items.
+ * Labels without a per-serving column are entered as 100 g.
+ *
+ * @param label - Label values from the recognition service
+ * @param fallbackName - Food name when the product name is not readable
+ * @param locale - Locale of the serving unit (e.g. "份" or "serving")
+ * @returns Meal item with label-derived nutrition
+ */
+export function mapNutritionLabelToMealItem(
+  label: Omit<NutritionLabelResult, 'locale'>,
+  fallbackName: string,
+  locale: SupportedLocale,
+): MealItem {
+  const perServing = Boolean(label.perServing);
+  const values = label.perServing ?? label.per100g ?? {};
+
+  return {
+    id: `item-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    foodName: label.productName ?? fallbackName,
+    portionSize: perServing ? 1 : 100,
+    portionUnit: perServing ? PORTION_UNIT_OPTIONS[locale][0] : 'g',
+    aiEstimatedWeightGrams: perServing ? label.servingSize?.amount : undefined,
+    calories: values.calories,
+    protein: values.protein,
+    carbs: values.carbohydrates,
+    fat: values.fats,
+    fiber: values.fiber,
+    sugar: values.sugar,
+    saturatedFat: values.saturatedFat,
+    sodium: values.sodium,
+    potassium: values.potassium,
+    calcium: values.calcium,
+    iron: values.iron,
+    vitaminA: values.vitaminA,
+    vitaminC: values.vitaminC,
+    vitaminD: values.vitaminD,
+    vitaminB12: values.vitaminB12,
+    cholesterol: values.cholesterol,
+    nutritionSource: NUTRITION_LABEL_SOURCE,
+  };
+}
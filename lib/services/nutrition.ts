@@ -9,7 +9,7 @@ import type { NutritionData, NutritionApiResponse, CachedNutritionData } from '@
 import { getCachedNutrition, cacheNutrition } from '@/lib/db/indexeddb';
 import { translate } from '@/lib/i18n';
 
-const API_TIMEOUT = 2000; // 2 seconds
+const API_TIMEOUT = 8000; // 8 seconds: the server's AI name translation (4 s) + USDA search (4 s)
 const CACHE_TTL_DAYS = 30;
 
 interface NutritionServiceResult {
@@ -282,7 +282,8 @@ async function getAINutritionEstimateWithRetry(
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     const result = await getAINutritionEstimate(foodName, portionSize);
 
-    if (result.success || result.fromCache) {
+    // Retrying cannot help once the AI usage quota is used up
+    if (result.success || result.fromCache || result.error?.code === 'QUOTA_EXCEEDED') {
       return result;
     }
 
@@ -304,7 +305,8 @@ async function getAINutritionEstimateWithRetry(
 
 /**
  * Get nutrition data with AI fallback.
- * First tries USDA database, then falls back to AI estimation.
+ * First tries the nutrition database (local food composition table, then USDA),
+ * then falls back to AI estimation.
  *
  * @param foodName - Name of the food to look up
  * @param portionSize - Optional portion size for AI estimation
@@ -314,7 +316,7 @@ export async function getNutritionWithAIFallback(
   foodName: string,
   portionSize?: string,
 ): Promise<NutritionServiceResult> {
-  // First, try USDA database
+  // First, try the nutrition database (/api/nutrition)
   const usdaResult = await getNutritionWithRetry(foodName);
 
   // If successful with complete data, return it
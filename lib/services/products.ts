@@ -0,0 +1,68 @@
+/**
+ * Client-side Barcode Product Service
+ *
+ * Looks up scanned barcodes via /api/products/{barcode} and maps the product
+ * to a ready-made MealItem, without calling a vision provider.
+ */
+
+import { translate } from '@/lib/i18n';
+import { mapNutritionLabelToMealItem } from '@/lib/services/nutrition-label';
+import { PRODUCT_DATABASE_SOURCE } from '@/types/meal';
+import type { ProductInfo, ProductLookupApiResponse } from '@/types/product';
+import type { SupportedLocale } from '@/types/recognition';
+import type { MealItem } from '@/types/sync';
+
+const API_TIMEOUT = 10000; // 10 seconds
+
+/**
+ * Look up a product by barcode.
+ *
+ * @param barcode - Normalized barcode from the scanner
+ * @returns Lookup result; PRODUCT_NOT_FOUND when the barcode is not in the product table
+ */
+export async function lookupProductByBarcode(barcode: string): Promise<ProductLookupApiResponse> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), API_TIMEOUT);
+
+  try {
+    const response = await fetch(`/api/products/${encodeURIComponent(barcode)}`, {
+      signal: controller.signal,
+    });
+    return (await response.json()) as ProductLookupApiResponse;
+  } catch (error) {
+    console.error('Product lookup service error:', error);
+    return {
+      success: false,
+      error: {
+        code: 'API_ERROR',
+        message: translate('errors.productLookupUnavailable'),
+      },
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Map a product to a meal item for one serving (100 g when the serving size is unknown).
+ *
+ * @param product - Product from the barcode lookup
+ * @param locale - Locale of the serving unit
+ * @returns Meal item with product database nutrition
+ */
+export function mapProductToMealItem(product: ProductInfo, locale: SupportedLocale): MealItem {
+  // Prefix the brand unless the product name already contains it
+  const showBrand = product.brand && !product.name.includes(product.brand);
+  const item = mapNutritionLabelToMealItem(
+    {
+      productName: showBrand ? `${product.brand} ${product.name}` : product.name,
+      servingSize: product.servingSize,
+      perServing: product.perServing,
+      per100g: product.per100g,
+    },
+    product.name,
+    locale,
+  );
+
+  return { ...item, nutritionSource: PRODUCT_DATABASE_SOURCE };
+}
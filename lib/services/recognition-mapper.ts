@@ -8,6 +8,7 @@
 
 import type { RecognitionItem, MultiItemRecognitionResponse } from '@/types/recognition';
 import { derivePortionFromRecognition } from '@/lib/recognition/estimate-utils';
+import { applyLearnedCorrection, type LearnedCorrectionIndex } from '@/lib/corrections/learned';
 
 /**
  * MealItem structure for multi-item meals.
@@ -21,6 +22,10 @@ export interface MealItem {
   containerSize?: RecognitionItem['containerSize'];
   aiEstimatedCount?: number;
   aiEstimatedWeightGrams?: number;
+  referenceWeightGrams?: number; // Per portion unit, scaled from the user's reference object
+  boundingBox?: RecognitionItem['boundingBox'];
+  alternativeCandidates?: string[];
+  allergens?: RecognitionItem['allergens'];
   calories: number | null;
   protein: number | null;
   carbs: number | null;
@@ -46,30 +51,42 @@ function generateItemId(): string {
 
 /**
  * Map a single recognition item to a MealItem.
+ * Names the user has frequently corrected are replaced with their usual name and portion.
  *
  * @param item - Recognition item from API response
+ * @param corrections - The user's frequent corrections (optional)
  * @returns MealItem object with default values
  */
-export function mapRecognitionItemToMealItem(item: RecognitionItem): MealItem {
+export function mapRecognitionItemToMealItem(
+  item: RecognitionItem,
+  corrections?: LearnedCorrectionIndex,
+): MealItem {
   const portion = derivePortionFromRecognition(item);
 
-  return {
-    id: generateItemId(),
-    foodName: item.name,
-    portionSize: portion.portionSize ?? DEFAULT_PORTION_SIZE,
-    portionUnit: portion.portionUnit ?? DEFAULT_PORTION_UNIT,
-    containerSize: portion.containerSize,
-    aiEstimatedCount: portion.aiEstimatedCount,
-    aiEstimatedWeightGrams: portion.aiEstimatedWeightGrams,
-    calories: null,
-    protein: null,
-    carbs: null,
-    fat: null,
-    confidence: item.confidence ?? null,
-    notes: item.notes ?? null,
-    nutritionSource: null,
-    isLoadingNutrition: false,
-  };
+  return applyLearnedCorrection<MealItem>(
+    {
+      id: generateItemId(),
+      foodName: item.name,
+      portionSize: portion.portionSize ?? DEFAULT_PORTION_SIZE,
+      portionUnit: portion.portionUnit ?? DEFAULT_PORTION_UNIT,
+      containerSize: portion.containerSize,
+      aiEstimatedCount: portion.aiEstimatedCount,
+      aiEstimatedWeightGrams: portion.aiEstimatedWeightGrams,
+      referenceWeightGrams: portion.referenceWeightGrams,
+      boundingBox: item.boundingBox,
+      alternativeCandidates: item.alternativeCandidates,
+      allergens: item.allergens,
+      calories: null,
+      protein: null,
+      carbs: null,
+      fat: null,
+      confidence: item.confidence ?? null,
+      notes: item.notes ?? null,
+      nutritionSource: null,
+      isLoadingNutrition: false,
+    },
+    corrections,
+  );
 }
 
 /**
@@ -80,13 +97,15 @@ export function mapRecognitionItemToMealItem(item: RecognitionItem): MealItem {
  * never take only the first item.
  *
  * @param response - Multi-item recognition API response
+ * @param corrections - The user's frequent corrections (optional)
  * @returns Array of MealItem objects
  */
 export function mapRecognitionResponseToMealItems(
   response: MultiItemRecognitionResponse,
+  corrections?: LearnedCorrectionIndex,
 ): MealItem[] {
   // Map ALL items - never take only first item (FR-006)
-  return response.items.map(mapRecognitionItemToMealItem);
+  return response.items.map((item) => mapRecognitionItemToMealItem(item, corrections));
 }
 
 /**
@@ -2,22 +2,41 @@
  * Client-side Recognition Service
  * Based on Spec 003 - Multi-item Recognition
  *
- * Calls the /api/recognize route for multi-item food recognition.
+ * Calls the /api/recognize routes for multi-item food recognition from
+ * photos, nutrition labels and text descriptions, and for breaking mixed
+ * dishes down into ingredients.
  * Handles timeout and error cases.
  */
 
 import type { FoodRecognitionResult, RecognitionError, RecognitionApiResponse } from '@/types/meal';
 import type {
+  ComponentsDishInput,
+  ItemComponentsApiResponse,
+  ItemComponentsResult,
+  LeftoverApiResponse,
+  LeftoverItemInput,
+  LeftoverResult,
   MultiItemRecognitionApiResponse,
   MultiItemRecognitionResponse,
   MultiItemRecognitionError,
+  NutritionLabelApiResponse,
+  NutritionLabelResult,
+  RecognitionItem,
+  RecognitionStreamEvent,
+  ReferenceObject,
   SupportedLocale,
 } from '@/types/recognition';
-import { DEFAULT_LOCALE } from '@/types/recognition';
+import { DEFAULT_LOCALE, MAX_RECOGNITION_IMAGES } from '@/types/recognition';
 import { blobToDataUrl } from '@/lib/utils/image-compression';
+import {
+  buildRecognitionCacheKey,
+  cacheRecognition,
+  getCachedRecognition,
+} from '@/lib/db/indexeddb/recognition-cache';
 import { translate } from '@/lib/i18n';
 
 const API_TIMEOUT = 15000; // 15 seconds
+const STREAM_IDLE_TIMEOUT = 15000; // Abort a stream that sends nothing for 15 seconds
 
 /**
  * Multi-item recognition service result.
@@ -25,12 +44,25 @@ const API_TIMEOUT = 15000; // 15 seconds
 interface MultiItemRecognitionServiceResult {
   success: boolean;
   data?: MultiItemRecognitionResponse;
+  cached?: boolean; // Served from the local or server recognition cache
   error?: {
     code: MultiItemRecognitionError;
     message: string;
   };
 }
 
+/**
+ * Options for multi-item recognition.
+ */
+export interface RecognitionOptions {
+  /** Run several providers in parallel and merge their items (slower, for hard photos). */
+  ensemble?: boolean;
+  /** Large shared meal (hot pot, banquet, bento): more items, marked shared or personal. */
+  spread?: boolean;
+  /** Object of known size the model can use to scale portions when it is in the photo. */
+  referenceObject?: ReferenceObject;
+}
+
 /**
  * Legacy single-item recognition service result.
  * @deprecated Use MultiItemRecognitionServiceResult instead
@@ -158,7 +190,8 @@ export async function recognizeFoodWithRetry(
     if (
       result.error?.code === 'CONSENT_REQUIRED' ||
       result.error?.code === 'INVALID_IMAGE' ||
-      result.error?.code === 'NO_FOOD_DETECTED'
+      result.error?.code === 'NO_FOOD_DETECTED' ||
+      result.error?.code === 'QUOTA_EXCEEDED'
     ) {
       return result;
     }
@@ -181,32 +214,311 @@ export async function recognizeFoodWithRetry(
 }
 
 /**
- * Recognize multiple food items from an image blob.
+ * Recognize multiple food items from one or more photos of the same meal.
  * Based on Spec 003 - Multi-item Recognition
  *
- * @param imageBlob - Compressed image blob
+ * @param imageBlobs - Compressed image blobs, in capture order
  * @param hasConsent - Whether user has consented to cloud processing
  * @param locale - Target locale for recognition results (default: "zh-TW")
+ * @param options - Recognition options (e.g. ensemble or spread mode)
  * @returns Promise resolving to multi-item recognition result
  */
 export async function recognizeMultipleFood(
-  imageBlob: Blob,
+  imageBlobs: Blob[],
   hasConsent: boolean,
   locale: SupportedLocale = DEFAULT_LOCALE,
+  options: RecognitionOptions = {},
 ): Promise<MultiItemRecognitionServiceResult> {
-  // Require consent
-  if (!hasConsent) {
+  const inputError = validateRecognitionInput(imageBlobs, hasConsent);
+  if (inputError) {
+    return inputError;
+  }
+
+  // Reuse an earlier result for the same photos, so offline retries still work
+  const cacheKey = await buildLocalCacheKey(imageBlobs, locale, options);
+  const cached = await getLocalCachedRecognition(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    // Convert blobs to base64 data URLs, keeping capture order
+    const imageDataUrls = await Promise.all(imageBlobs.map(blobToDataUrl));
+
+    // Create abort controller for timeout
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), API_TIMEOUT);
+
+    try {
+      const response = await fetch('/api/recognize', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          images: imageDataUrls,
+          consent: hasConsent,
+          locale,
+          ensemble: options.ensemble || undefined,
+          spread: options.spread || undefined,
+          referenceObject: options.referenceObject,
+        }),
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      const result: MultiItemRecognitionApiResponse = await response.json();
+
+      return toServiceResult(result, cacheKey);
+    } catch (error) {
+      clearTimeout(timeoutId);
+
+      if (error instanceof Error && error.name === 'AbortError') {
+        return {
+          success: false,
+          error: {
+            code: 'TIMEOUT' as MultiItemRecognitionError,
+            message: translate('errors.recognitionTimeout'),
+          },
+        };
+      }
+
+      throw error;
+    }
+  } catch (error) {
+    console.error('Multi-item recognition service error:', error);
     return {
       success: false,
       error: {
-        code: 'CONSENT_REQUIRED' as MultiItemRecognitionError,
-        message: translate('errors.consentRequired'),
+        code: 'NETWORK_ERROR' as MultiItemRecognitionError,
+        message: translate('errors.networkError'),
       },
     };
   }
+}
+
+/**
+ * Recognize multiple food items with retry logic.
+ *
+ * @param imageBlobs - Compressed image blobs, in capture order
+ * @param hasConsent - Whether user has consented to cloud processing
+ * @param locale - Target locale for recognition results (default: "zh-TW")
+ * @param maxRetries - Maximum number of retries (default: 2)
+ * @param options - Recognition options (e.g. ensemble or spread mode)
+ * @returns Promise resolving to multi-item recognition result
+ */
+export async function recognizeMultipleFoodWithRetry(
+  imageBlobs: Blob[],
+  hasConsent: boolean,
+  locale: SupportedLocale = DEFAULT_LOCALE,
+  maxRetries: number = 2,
+  options: RecognitionOptions = {},
+): Promise<MultiItemRecognitionServiceResult> {
+  return withMultiItemRetry(
+    () => recognizeMultipleFood(imageBlobs, hasConsent, locale, options),
+    maxRetries,
+  );
+}
+
+/**
+ * Callbacks for streamed recognition.
+ */
+export interface RecognitionStreamHandlers {
+  /** Called for each item as soon as the server has parsed it. */
+  onItem?: (item: RecognitionItem, index: number) => void;
+  /** Called when previously streamed items must be discarded (provider fallback or retry). */
+  onReset?: () => void;
+}
+
+/**
+ * Streaming callbacks plus recognition options.
+ */
+export type RecognitionStreamOptions = RecognitionStreamHandlers & RecognitionOptions;
+
+/**
+ * Recognize multiple food items, streaming items as they are recognized.
+ * Uses POST /api/recognize/stream (Server-Sent Events).
+ *
+ * @param imageBlobs - Compressed image blobs, in capture order
+ * @param hasConsent - Whether user has consented to cloud processing
+ * @param locale - Target locale for recognition results (default: "zh-TW")
+ * @param handlers - Callbacks for streamed items and recognition options
+ * @returns Promise resolving to the final validated recognition result
+ */
+export async function recognizeMultipleFoodStream(
+  imageBlobs: Blob[],
+  hasConsent: boolean,
+  locale: SupportedLocale = DEFAULT_LOCALE,
+  handlers: RecognitionStreamOptions = {},
+): Promise<MultiItemRecognitionServiceResult> {
+  const inputError = validateRecognitionInput(imageBlobs, hasConsent);
+  if (inputError) {
+    return inputError;
+  }
+
+  // Reuse an earlier result for the same photos, so offline retries still work
+  const cacheKey = await buildLocalCacheKey(imageBlobs, locale, handlers);
+  const cached = await getLocalCachedRecognition(cacheKey);
+  if (cached) {
+    cached.data?.items.forEach((item, index) => handlers.onItem?.(item, index));
+    return cached;
+  }
+
+  const controller = new AbortController();
+  let idleTimeoutId: ReturnType<typeof setTimeout> | undefined;
+  const resetIdleTimeout = () => {
+    clearTimeout(idleTimeoutId);
+    idleTimeoutId = setTimeout(() => controller.abort(), STREAM_IDLE_TIMEOUT);
+  };
+
+  try {
+    // Convert blobs to base64 data URLs, keeping capture order
+    const imageDataUrls = await Promise.all(imageBlobs.map(blobToDataUrl));
+
+    resetIdleTimeout();
+    const response = await fetch('/api/recognize/stream', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        images: imageDataUrls,
+        consent: hasConsent,
+        locale,
+        ensemble: handlers.ensemble || undefined,
+        spread: handlers.spread || undefined,
+        referenceObject: handlers.referenceObject,
+      }),
+      signal: controller.signal,
+    });
+
+    // Validation errors come back as plain JSON
+    if (!response.body || !response.headers.get('Content-Type')?.includes('text/event-stream')) {
+      clearTimeout(idleTimeoutId);
+      return toServiceResult(await response.json(), cacheKey);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let finalResult: MultiItemRecognitionApiResponse | null = null;
+
+    while (!finalResult) {
+      resetIdleTimeout();
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop() ?? '';
+
+      for (const block of blocks) {
+        const event = parseStreamEvent(block);
+        if (event?.event === 'item') {
+          handlers.onItem?.(event.data.item, event.data.index);
+        } else if (event?.event === 'reset') {
+          handlers.onReset?.();
+        } else if (event?.event === 'result') {
+          finalResult = event.data;
+        }
+      }
+    }
+
+    clearTimeout(idleTimeoutId);
+
+    if (!finalResult) {
+      return {
+        success: false,
+        error: {
+          code: 'NETWORK_ERROR' as MultiItemRecognitionError,
+          message: translate('errors.networkError'),
+        },
+      };
+    }
+
+    return toServiceResult(finalResult, cacheKey);
+  } catch (error) {
+    clearTimeout(idleTimeoutId);
+
+    if (error instanceof Error && error.name === 'AbortError') {
+      return {
+        success: false,
+        error: {
+          code: 'TIMEOUT' as MultiItemRecognitionError,
+          message: translate('errors.recognitionTimeout'),
+        },
+      };
+    }
+
+    console.error('Streaming recognition service error:', error);
+    return {
+      success: false,
+      error: {
+        code: 'NETWORK_ERROR' as MultiItemRecognitionError,
+        message: translate('errors.networkError'),
+      },
+    };
+  }
+}
+
+/**
+ * Streamed multi-item recognition with retry logic.
+ * Streamed items are reset before each retry.
+ *
+ * @param imageBlobs - Compressed image blobs, in capture order
+ * @param hasConsent - Whether user has consented to cloud processing
+ * @param locale - Target locale for recognition results (default: "zh-TW")
+ * @param handlers - Callbacks for streamed items and recognition options
+ * @param maxRetries - Maximum number of retries (default: 2)
+ * @returns Promise resolving to the final validated recognition result
+ */
+export async function recognizeMultipleFoodStreamWithRetry(
+  imageBlobs: Blob[],
+  hasConsent: boolean,
+  locale: SupportedLocale = DEFAULT_LOCALE,
+  handlers: RecognitionStreamOptions = {},
+  maxRetries: number = 2,
+): Promise<MultiItemRecognitionServiceResult> {
+  return withMultiItemRetry(
+    () => recognizeMultipleFoodStream(imageBlobs, hasConsent, locale, handlers),
+    maxRetries,
+    handlers.onReset,
+  );
+}
+
+/**
+ * Nutrition label service result.
+ */
+interface NutritionLabelServiceResult {
+  success: boolean;
+  data?: NutritionLabelResult;
+  error?: {
+    code: MultiItemRecognitionError;
+    message: string;
+  };
+}
+
+/**
+ * Read the nutrition facts label on a packaged food photo.
+ * Uses POST /api/recognize/label.
+ *
+ * @param imageBlob - Compressed photo of the label
+ * @param hasConsent - Whether user has consented to cloud processing
+ * @param locale - Target locale for the product name (default: "zh-TW")
+ * @returns Promise resolving to per-serving and per-100g label values
+ */
+export async function recognizeNutritionLabel(
+  imageBlob: Blob,
+  hasConsent: boolean,
+  locale: SupportedLocale = DEFAULT_LOCALE,
+): Promise<NutritionLabelServiceResult> {
+  const inputError = validateRecognitionInput([imageBlob], hasConsent);
+  if (inputError) {
+    return inputError;
+  }
 
   try {
-    // Convert blob to base64 data URL
     const imageDataUrl = await blobToDataUrl(imageBlob);
 
     // Create abort controller for timeout
@@ -214,7 +526,7 @@ export async function recognizeMultipleFood(
     const timeoutId = setTimeout(() => controller.abort(), API_TIMEOUT);
 
     try {
-      const response = await fetch('/api/recognize', {
+      const response = await fetch('/api/recognize/label', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -229,27 +541,207 @@ export async function recognizeMultipleFood(
 
       clearTimeout(timeoutId);
 
-      const result: MultiItemRecognitionApiResponse = await response.json();
+      const result: NutritionLabelApiResponse = await response.json();
+      if (result.success) {
+        return { success: true, data: result.data };
+      }
+      return {
+        success: false,
+        error: result.error || {
+          code: 'API_ERROR' as MultiItemRecognitionError,
+          message: translate('errors.recognitionFailed'),
+        },
+      };
+    } catch (error) {
+      clearTimeout(timeoutId);
 
-      if (result.success && result.data) {
+      if (error instanceof Error && error.name === 'AbortError') {
         return {
-          success: true,
-          data: result.data,
-        };
-      } else {
-        // When success is false, error exists on the response
-        const errorResponse = result as {
-          success: false;
-          error: { code: MultiItemRecognitionError; message: string };
+          success: false,
+          error: {
+            code: 'TIMEOUT' as MultiItemRecognitionError,
+            message: translate('errors.recognitionTimeout'),
+          },
         };
+      }
+
+      throw error;
+    }
+  } catch (error) {
+    console.error('Nutrition label service error:', error);
+    return {
+      success: false,
+      error: {
+        code: 'NETWORK_ERROR' as MultiItemRecognitionError,
+        message: translate('errors.networkError'),
+      },
+    };
+  }
+}
+
+/**
+ * Leftover service result.
+ */
+interface LeftoverServiceResult {
+  success: boolean;
+  data?: LeftoverResult;
+  error?: {
+    code: MultiItemRecognitionError;
+    message: string;
+  };
+}
+
+/**
+ * Estimate how much of each logged item is left in an "after" photo.
+ * Uses POST /api/recognize/leftover.
+ *
+ * @param imageBlob - Compressed photo taken after the meal
+ * @param items - The meal's logged items (see toLeftoverItemInputs)
+ * @param hasConsent - Whether user has consented to cloud processing
+ * @param locale - Locale of the request (default: "zh-TW")
+ * @returns Promise resolving to the remaining fraction per item index
+ */
+export async function recognizeLeftovers(
+  imageBlob: Blob,
+  items: LeftoverItemInput[],
+  hasConsent: boolean,
+  locale: SupportedLocale = DEFAULT_LOCALE,
+): Promise<LeftoverServiceResult> {
+  const inputError = validateRecognitionInput([imageBlob], hasConsent);
+  if (inputError) {
+    return inputError;
+  }
+
+  try {
+    const imageDataUrl = await blobToDataUrl(imageBlob);
+
+    // Create abort controller for timeout
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), API_TIMEOUT);
+
+    try {
+      const response = await fetch('/api/recognize/leftover', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          image: imageDataUrl,
+          items,
+          consent: hasConsent,
+          locale,
+        }),
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      const result: LeftoverApiResponse = await response.json();
+      if (result.success) {
+        return { success: true, data: result.data };
+      }
+      return {
+        success: false,
+        error: result.error || {
+          code: 'API_ERROR' as MultiItemRecognitionError,
+          message: translate('errors.recognitionFailed'),
+        },
+      };
+    } catch (error) {
+      clearTimeout(timeoutId);
+
+      if (error instanceof Error && error.name === 'AbortError') {
         return {
           success: false,
-          error: errorResponse.error || {
-            code: 'API_ERROR' as MultiItemRecognitionError,
-            message: translate('errors.recognitionFailed'),
+          error: {
+            code: 'TIMEOUT' as MultiItemRecognitionError,
+            message: translate('errors.recognitionTimeout'),
           },
         };
       }
+
+      throw error;
+    }
+  } catch (error) {
+    console.error('Leftover service error:', error);
+    return {
+      success: false,
+      error: {
+        code: 'NETWORK_ERROR' as MultiItemRecognitionError,
+        message: translate('errors.networkError'),
+      },
+    };
+  }
+}
+
+/**
+ * Ingredient breakdown service result.
+ */
+interface ItemComponentsServiceResult {
+  success: boolean;
+  data?: ItemComponentsResult;
+  error?: {
+    code: MultiItemRecognitionError;
+    message: string;
+  };
+}
+
+/**
+ * Break a logged mixed dish down into ingredients with gram estimates.
+ * Uses POST /api/recognize/components.
+ *
+ * @param dish - The logged dish (see toComponentsDishInput)
+ * @param hasConsent - Whether user has consented to cloud processing
+ * @param locale - Locale of the ingredient names (default: "zh-TW")
+ * @returns Promise resolving to the dish's ingredients
+ */
+export async function breakDownItem(
+  dish: ComponentsDishInput,
+  hasConsent: boolean,
+  locale: SupportedLocale = DEFAULT_LOCALE,
+): Promise<ItemComponentsServiceResult> {
+  if (!hasConsent) {
+    return {
+      success: false,
+      error: {
+        code: 'CONSENT_REQUIRED' as MultiItemRecognitionError,
+        message: translate('errors.consentRequired'),
+      },
+    };
+  }
+
+  try {
+    // Create abort controller for timeout
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), API_TIMEOUT);
+
+    try {
+      const response = await fetch('/api/recognize/components', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...dish,
+          consent: hasConsent,
+          locale,
+        }),
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      const result: ItemComponentsApiResponse = await response.json();
+      if (result.success) {
+        return { success: true, data: result.data };
+      }
+      return {
+        success: false,
+        error: result.error || {
+          code: 'API_ERROR' as MultiItemRecognitionError,
+          message: translate('errors.recognitionFailed'),
+        },
+      };
     } catch (error) {
       clearTimeout(timeoutId);
 
@@ -266,7 +758,7 @@ export async function recognizeMultipleFood(
       throw error;
     }
   } catch (error) {
-    console.error('Multi-item recognition service error:', error);
+    console.error('Ingredient breakdown service error:', error);
     return {
       success: false,
       error: {
@@ -278,24 +770,218 @@ export async function recognizeMultipleFood(
 }
 
 /**
- * Recognize multiple food items with retry logic.
+ * Recognize food items from a free-text meal description.
+ * Uses POST /api/recognize-text, which returns the same shape as photo recognition.
  *
- * @param imageBlob - Compressed image blob
+ * @param text - Meal description, e.g. "兩顆茶葉蛋和一杯無糖豆漿"
  * @param hasConsent - Whether user has consented to cloud processing
  * @param locale - Target locale for recognition results (default: "zh-TW")
- * @param maxRetries - Maximum number of retries (default: 2)
  * @returns Promise resolving to multi-item recognition result
  */
-export async function recognizeMultipleFoodWithRetry(
-  imageBlob: Blob,
+export async function recognizeMealText(
+  text: string,
   hasConsent: boolean,
   locale: SupportedLocale = DEFAULT_LOCALE,
-  maxRetries: number = 2,
+): Promise<MultiItemRecognitionServiceResult> {
+  if (!hasConsent) {
+    return {
+      success: false,
+      error: {
+        code: 'CONSENT_REQUIRED' as MultiItemRecognitionError,
+        message: translate('errors.consentRequired'),
+      },
+    };
+  }
+
+  try {
+    // Create abort controller for timeout
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), API_TIMEOUT);
+
+    try {
+      const response = await fetch('/api/recognize-text', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          text,
+          consent: hasConsent,
+          locale,
+        }),
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      const result: MultiItemRecognitionApiResponse = await response.json();
+
+      // Descriptions are cheap to resend, so results are not cached locally
+      return toServiceResult(result, null);
+    } catch (error) {
+      clearTimeout(timeoutId);
+
+      if (error instanceof Error && error.name === 'AbortError') {
+        return {
+          success: false,
+          error: {
+            code: 'TIMEOUT' as MultiItemRecognitionError,
+            message: translate('errors.recognitionTimeout'),
+          },
+        };
+      }
+
+      throw error;
+    }
+  } catch (error) {
+    console.error('Text recognition service error:', error);
+    return {
+      success: false,
+      error: {
+        code: 'NETWORK_ERROR' as MultiItemRecognitionError,
+        message: translate('errors.networkError'),
+      },
+    };
+  }
+}
+
+/**
+ * Check consent and image count before calling the recognition API.
+ */
+function validateRecognitionInput(
+  imageBlobs: Blob[],
+  hasConsent: boolean,
+): Pick<MultiItemRecognitionServiceResult, 'success' | 'error'> | null {
+  // Require consent
+  if (!hasConsent) {
+    return {
+      success: false,
+      error: {
+        code: 'CONSENT_REQUIRED' as MultiItemRecognitionError,
+        message: translate('errors.consentRequired'),
+      },
+    };
+  }
+
+  if (imageBlobs.length === 0 || imageBlobs.length > MAX_RECOGNITION_IMAGES) {
+    return {
+      success: false,
+      error: {
+        code: 'INVALID_IMAGE' as MultiItemRecognitionError,
+        message: translate('errors.invalidImage'),
+      },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Local cache key for the photos, locale and recognition mode (null if hashing fails).
+ */
+function buildLocalCacheKey(
+  imageBlobs: Blob[],
+  locale: SupportedLocale,
+  options: RecognitionOptions,
+): Promise<string | null> {
+  const { referenceObject } = options;
+  const modes = [
+    options.ensemble && 'ensemble',
+    options.spread && 'spread',
+    referenceObject && `ref:${referenceObject.type}:${referenceObject.sizeCm}`,
+  ].filter(Boolean);
+  return buildRecognitionCacheKey(
+    imageBlobs,
+    locale,
+    modes.length > 0 ? modes.join('|') : undefined,
+  ).catch(() => null);
+}
+
+async function getLocalCachedRecognition(
+  cacheKey: string | null,
+): Promise<MultiItemRecognitionServiceResult | null> {
+  if (!cacheKey) {
+    return null;
+  }
+  const cached = await getCachedRecognition(cacheKey).catch(() => null);
+  return cached ? { success: true, data: cached, cached: true } : null;
+}
+
+/**
+ * Convert an API response to a service result, caching successful results locally.
+ */
+async function toServiceResult(
+  result: MultiItemRecognitionApiResponse,
+  cacheKey: string | null,
+): Promise<MultiItemRecognitionServiceResult> {
+  if (result.success && result.data) {
+    if (cacheKey) {
+      await cacheRecognition(cacheKey, result.data).catch((error) => {
+        console.warn('Failed to cache recognition result:', error);
+      });
+    }
+    return {
+      success: true,
+      data: result.data,
+      cached: result.cached ?? false,
+    };
+  }
+
+  // When success is false, error exists on the response
+  const errorResponse = result as {
+    success: false;
+    error: { code: MultiItemRecognitionError; message: string };
+  };
+  return {
+    success: false,
+    error: errorResponse.error || {
+      code: 'API_ERROR' as MultiItemRecognitionError,
+      message: translate('errors.recognitionFailed'),
+    },
+  };
+}
+
+/**
+ * Parse one SSE block ("event: ...\ndata: ...").
+ */
+function parseStreamEvent(block: string): RecognitionStreamEvent | null {
+  let event = '';
+  let data = '';
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice('event:'.length).trim();
+    } else if (line.startsWith('data:')) {
+      data += line.slice('data:'.length).trim();
+    }
+  }
+
+  if (!event || !data) {
+    return null;
+  }
+
+  try {
+    return { event, data: JSON.parse(data) } as RecognitionStreamEvent;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Retry a multi-item recognition attempt with exponential backoff.
+ */
+async function withMultiItemRetry(
+  attemptRecognition: () => Promise<MultiItemRecognitionServiceResult>,
+  maxRetries: number,
+  onRetry?: () => void,
 ): Promise<MultiItemRecognitionServiceResult> {
   let lastError: MultiItemRecognitionServiceResult['error'];
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    const result = await recognizeMultipleFood(imageBlob, hasConsent, locale);
+    if (attempt > 0) {
+      onRetry?.();
+    }
+
+    const result = await attemptRecognition();
 
     if (result.success) {
       return result;
@@ -305,7 +991,8 @@ export async function recognizeMultipleFoodWithRetry(
     if (
       result.error?.code === 'CONSENT_REQUIRED' ||
       result.error?.code === 'INVALID_IMAGE' ||
-      result.error?.code === 'NO_FOOD_DETECTED'
+      result.error?.code === 'NO_FOOD_DETECTED' ||
+      result.error?.code === 'QUOTA_EXCEEDED'
     ) {
       return result;
     }
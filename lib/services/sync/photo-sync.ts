@@ -1,4 +1,5 @@
 import { generateThumbnail } from '@/lib/services/thumbnail/generator';
+import type { PhotoKind } from '@/types/sync';
 
 export interface UploadedPhotoResponse {
   photoId: string;
@@ -9,12 +10,23 @@ export interface UploadedPhotoResponse {
   mimeType: string;
   width?: number;
   height?: number;
+  kind: PhotoKind;
+  beforePhotoId?: string;
   uploadedAt: string;
 }
 
+/**
+ * Upload options for an "after" photo of leftovers, linked to the meal's photo.
+ */
+export interface PhotoUploadOptions {
+  kind?: PhotoKind;
+  beforePhotoId?: string;
+}
+
 export async function uploadPhotoWithThumbnail(
   file: File,
   mealId?: string,
+  options: PhotoUploadOptions = {},
 ): Promise<UploadedPhotoResponse> {
   const thumbnail = await generateThumbnail(file);
   const formData = new FormData();
@@ -25,6 +37,12 @@ export async function uploadPhotoWithThumbnail(
   if (mealId) {
     formData.append('mealId', mealId);
   }
+  if (options.kind) {
+    formData.append('kind', options.kind);
+  }
+  if (options.beforePhotoId) {
+    formData.append('beforePhotoId', options.beforePhotoId);
+  }
 
   const response = await fetch('/api/sync/photos/upload', {
     method: 'POST',
@@ -0,0 +1,34 @@
+/**
+ * Client-side AI Usage Service
+ *
+ * Reads the caller's remaining AI call quota via /api/usage.
+ */
+
+import { translate } from '@/lib/i18n';
+import type { UsageApiResponse } from '@/types/usage';
+
+const API_TIMEOUT = 10000; // 10 seconds
+
+/**
+ * Load the caller's daily and monthly AI call quota.
+ */
+export async function fetchUsageQuota(): Promise<UsageApiResponse> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), API_TIMEOUT);
+
+  try {
+    const response = await fetch('/api/usage', { signal: controller.signal });
+    return (await response.json()) as UsageApiResponse;
+  } catch (error) {
+    console.error('AI usage service error:', error);
+    return {
+      success: false,
+      error: {
+        code: 'API_ERROR',
+        message: translate('errors.usageUnavailable'),
+      },
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
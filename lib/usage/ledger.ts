@@ -0,0 +1,171 @@
+/**
+ * AI Usage Ledger (server-side)
+ *
+ * Records every paid provider call (provider, model, tokens, estimated cost)
+ * in the usage_records table and enforces the daily/monthly quotas on it.
+ * Signed-out callers are identified by a hash of their IP address.
+ *
+ * The ledger needs DATABASE_URL; without it nothing is recorded or limited.
+ * Ledger failures never fail a request: they are logged and the call is allowed.
+ */
+
+import { createHash } from 'node:crypto';
+import { auth } from '@/auth';
+import { prisma } from '@/lib/db/prisma/client';
+import { getClientIp } from '@/lib/auth/rate-limit';
+import { meterProviders } from '@/lib/recognition/provider/metered';
+import type { ProviderUsage, RecognitionProvider } from '@/lib/recognition/provider/base';
+import { estimateUsageCost } from './pricing';
+import {
+  buildUsageQuotaStatus,
+  getExhaustedQuotaWindow,
+  getQuotaWindows,
+  getUsageQuotaLimits,
+} from './quota';
+import type { UsageQuotaStatus, UsageRoute, UsageTotals } from '@/types/usage';
+
+/**
+ * Usage tracking for one request.
+ */
+export interface UsageMeter {
+  /** Quota before this request; null when the ledger is disabled or unavailable. */
+  quota: UsageQuotaStatus | null;
+  /** The quota status when the caller has used up a quota and must not call a provider. */
+  exceededQuota: UsageQuotaStatus | null;
+  /** Calls and cost recorded so far in this request. */
+  totals: UsageTotals;
+  /** Record one provider call. */
+  record: (provider: string, usage: ProviderUsage) => Promise<void>;
+  /** Wrap providers so their calls are recorded. */
+  meter: (providers: RecognitionProvider[]) => RecognitionProvider[];
+}
+
+/** Ledger id of calls no user made, i.e. circuit breaker health probes. */
+export const PROBE_USAGE_SUBJECT = 'system:provider-probe';
+
+function isLedgerEnabled(): boolean {
+  return Boolean(process.env.DATABASE_URL);
+}
+
+/**
+ * Ledger id of the caller: the user id, or a hash of the IP when signed out.
+ */
+async function resolveUsageSubject(request: Request): Promise<string> {
+  const session = await auth();
+  if (session?.user?.id) {
+    return session.user.id;
+  }
+  const ipHash = createHash('sha256').update(getClientIp(request)).digest('hex').slice(0, 16);
+  return `anonymous:${ipHash}`;
+}
+
+/**
+ * Quota status of a ledger id.
+ */
+async function getSubjectQuotaStatus(subjectId: string): Promise<UsageQuotaStatus> {
+  const now = new Date();
+  const limits = getUsageQuotaLimits();
+  const { dayStart, monthStart } = getQuotaWindows(now);
+  const countSince = (since: Date) =>
+    prisma.usageRecord.count({ where: { userId: subjectId, createdAt: { gte: since } } });
+
+  const [daily, monthly] = await Promise.all([
+    limits.daily === null ? 0 : countSince(dayStart),
+    limits.monthly === null ? 0 : countSince(monthStart),
+  ]);
+  return buildUsageQuotaStatus(limits, { daily, monthly }, now);
+}
+
+/**
+ * Quota status of the caller; unlimited when the ledger is disabled.
+ */
+export async function getRequestUsageQuota(request: Request): Promise<UsageQuotaStatus> {
+  if (!isLedgerEnabled()) {
+    return { daily: null, monthly: null };
+  }
+  return getSubjectQuotaStatus(await resolveUsageSubject(request));
+}
+
+/**
+ * Write one provider call to the ledger; failures are logged, not thrown.
+ */
+async function writeUsageRecord(
+  subjectId: string,
+  route: UsageRoute,
+  provider: string,
+  usage: ProviderUsage,
+  costUsd: number | null,
+): Promise<void> {
+  try {
+    await prisma.usageRecord.create({
+      data: {
+        userId: subjectId,
+        route,
+        provider,
+        model: usage.model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        costUsd,
+      },
+    });
+  } catch (error) {
+    console.warn('Failed to record AI usage:', error);
+  }
+}
+
+/**
+ * Check the caller's quota and start recording the provider calls of a request.
+ *
+ * @param request - Incoming request (identifies the caller)
+ * @param route - Endpoint recorded with each call
+ */
+export async function createUsageMeter(request: Request, route: UsageRoute): Promise<UsageMeter> {
+  const totals: UsageTotals = { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+  let subjectId: string | null = null;
+  let quota: UsageQuotaStatus | null = null;
+
+  if (isLedgerEnabled()) {
+    try {
+      subjectId = await resolveUsageSubject(request);
+      quota = await getSubjectQuotaStatus(subjectId);
+    } catch (error) {
+      console.warn('AI usage quota check failed:', error);
+    }
+  }
+
+  const record = async (provider: string, usage: ProviderUsage) => {
+    const costUsd = estimateUsageCost(usage);
+    totals.calls += 1;
+    totals.inputTokens += usage.inputTokens;
+    totals.outputTokens += usage.outputTokens;
+    totals.costUsd += costUsd ?? 0;
+
+    if (subjectId) {
+      await writeUsageRecord(subjectId, route, provider, usage, costUsd);
+    }
+  };
+
+  return {
+    quota,
+    exceededQuota: quota && getExhaustedQuotaWindow(quota) ? quota : null,
+    totals,
+    record,
+    meter: (providers) => meterProviders(providers, record),
+  };
+}
+
+/**
+ * Record a circuit breaker health probe (see createProviderChain's onProbeUsage).
+ * Probes count toward no user's quota.
+ */
+export async function recordProbeUsage(provider: string, usage: ProviderUsage): Promise<void> {
+  if (isLedgerEnabled()) {
+    await writeUsageRecord(
+      PROBE_USAGE_SUBJECT,
+      'provider-probe',
+      provider,
+      usage,
+      estimateUsageCost(usage),
+    );
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * AI model pricing: cost estimates from token usage.
+ *
+ * Run: npm test
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { estimateUsageCost } from './pricing';
+
+describe('estimateUsageCost', () => {
+  it('prices input and output tokens per million', () => {
+    const cost = estimateUsageCost({
+      model: 'gpt-4o',
+      inputTokens: 1_000_000,
+      outputTokens: 100_000,
+    });
+
+    assert.equal(cost, 2.5 + 1);
+  });
+
+  it('uses the longest matching model prefix', () => {
+    const usage = { inputTokens: 1_000_000, outputTokens: 0 };
+
+    assert.equal(estimateUsageCost({ ...usage, model: 'gpt-4o-mini-2024-07-18' }), 0.15);
+    assert.equal(estimateUsageCost({ ...usage, model: 'gemini-2.5-flash-lite' }), 0.1);
+    assert.equal(estimateUsageCost({ ...usage, model: 'gemini-2.5-flash-preview' }), 0.3);
+  });
+
+  it('returns null for models without a known price', () => {
+    assert.equal(
+      estimateUsageCost({ model: 'llava:13b', inputTokens: 1000, outputTokens: 1000 }),
+      null,
+    );
+  });
+});
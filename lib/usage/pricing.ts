@@ -0,0 +1,54 @@
+/**
+ * AI Model Pricing
+ *
+ * List prices used to estimate the cost of a provider call from its token
+ * usage. Estimates only: cached-input discounts, batch pricing and long-context
+ * surcharges are ignored. Self-hosted (OpenAI-compatible) models have no price.
+ */
+
+import type { ProviderUsage } from '@/lib/recognition/provider/base';
+
+/**
+ * USD per million tokens.
+ */
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Prices keyed by model name prefix; the longest matching prefix wins, so
+ * dated snapshots ("gpt-4o-mini-2024-07-18") use their base model's price.
+ */
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+};
+
+function findModelPrice(model: string): ModelPrice | undefined {
+  const prefix = Object.keys(MODEL_PRICES)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_PRICES[prefix] : undefined;
+}
+
+/**
+ * Estimate the cost of a provider call.
+ *
+ * @returns Cost in USD, or null for models without a known price
+ */
+export function estimateUsageCost(usage: ProviderUsage): number | null {
+  const price = findModelPrice(usage.model);
+  if (!price) {
+    return null;
+  }
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,145 @@
+/**
+ * AI usage quotas: limits from the environment, UTC windows, exhausted
+ * windows and the rate limit headers.
+ *
+ * Run: npm test
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import {
+  buildUsageQuotaStatus,
+  getExhaustedQuotaWindow,
+  getQuotaExceededMessage,
+  getQuotaHeaders,
+  getQuotaWindows,
+  getUsageQuotaLimits,
+} from './quota';
+
+const NOW = new Date('2026-10-31T18:30:00.000Z');
+
+describe('getUsageQuotaLimits', () => {
+  afterEach(() => {
+    delete process.env.AI_DAILY_QUOTA;
+    delete process.env.AI_MONTHLY_QUOTA;
+    mock.restoreAll();
+  });
+
+  it('defaults to 50 calls a day and 1000 a month', () => {
+    assert.deepEqual(getUsageQuotaLimits(), { daily: 50, monthly: 1000 });
+  });
+
+  it('reads the limits, with 0 meaning unlimited', () => {
+    process.env.AI_DAILY_QUOTA = '5';
+    process.env.AI_MONTHLY_QUOTA = '0';
+
+    assert.deepEqual(getUsageQuotaLimits(), { daily: 5, monthly: null });
+  });
+
+  it('falls back to the default for invalid limits', () => {
+    mock.method(console, 'warn', () => undefined);
+    process.env.AI_DAILY_QUOTA = '-1';
+    process.env.AI_MONTHLY_QUOTA = '2.5';
+
+    assert.deepEqual(getUsageQuotaLimits(), { daily: 50, monthly: 1000 });
+  });
+});
+
+describe('getQuotaWindows', () => {
+  it('uses UTC days and months, rolling over at the end of the month', () => {
+    assert.deepEqual(getQuotaWindows(NOW), {
+      dayStart: new Date('2026-10-31T00:00:00.000Z'),
+      dayEnd: new Date('2026-11-01T00:00:00.000Z'),
+      monthStart: new Date('2026-10-01T00:00:00.000Z'),
+      monthEnd: new Date('2026-11-01T00:00:00.000Z'),
+    });
+  });
+});
+
+describe('buildUsageQuotaStatus', () => {
+  it('reports the remaining calls of each limited window', () => {
+    const status = buildUsageQuotaStatus(
+      { daily: 10, monthly: null },
+      { daily: 12, monthly: 40 },
+      NOW,
+    );
+
+    assert.deepEqual(status, {
+      daily: { limit: 10, used: 12, remaining: 0, resetsAt: '2026-11-01T00:00:00.000Z' },
+      monthly: null,
+    });
+  });
+});
+
+describe('getExhaustedQuotaWindow', () => {
+  it('returns null while calls are left', () => {
+    const status = buildUsageQuotaStatus(
+      { daily: 10, monthly: 100 },
+      { daily: 9, monthly: 9 },
+      NOW,
+    );
+
+    assert.equal(getExhaustedQuotaWindow(status), null);
+  });
+
+  it('prefers the monthly window when both are used up', () => {
+    const status = buildUsageQuotaStatus(
+      { daily: 10, monthly: 10 },
+      { daily: 10, monthly: 10 },
+      NOW,
+    );
+
+    assert.equal(getExhaustedQuotaWindow(status)?.period, 'monthly');
+  });
+
+  it('returns the daily window when only it is used up', () => {
+    const status = buildUsageQuotaStatus(
+      { daily: 10, monthly: 100 },
+      { daily: 10, monthly: 50 },
+      NOW,
+    );
+
+    assert.equal(getExhaustedQuotaWindow(status)?.period, 'daily');
+    assert.match(getQuotaExceededMessage(status), /10/);
+  });
+});
+
+describe('getQuotaHeaders', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: NOW });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('describes the window with the fewest calls left', () => {
+    const status = buildUsageQuotaStatus(
+      { daily: 50, monthly: 100 },
+      { daily: 5, monthly: 90 },
+      NOW,
+    );
+
+    assert.deepEqual(getQuotaHeaders(status), {
+      'X-RateLimit-Limit': '100',
+      'X-RateLimit-Remaining': '10',
+      'X-RateLimit-Reset': String(Date.parse('2026-11-01T00:00:00.000Z') / 1000),
+    });
+  });
+
+  it('adds Retry-After when the quota is used up', () => {
+    const status = buildUsageQuotaStatus(
+      { daily: 5, monthly: null },
+      { daily: 5, monthly: 5 },
+      NOW,
+    );
+
+    const headers = getQuotaHeaders(status);
+    assert.equal(headers['X-RateLimit-Remaining'], '0');
+    assert.equal(headers['Retry-After'], String(5.5 * 60 * 60));
+  });
+
+  it('sends no headers without limits', () => {
+    assert.deepEqual(getQuotaHeaders({ daily: null, monthly: null }), {});
+  });
+});
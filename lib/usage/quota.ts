@@ -0,0 +1,142 @@
+/**
+ * AI Usage Quotas
+ *
+ * Daily and monthly limits on paid AI calls per user. Every provider call that
+ * reports token usage counts as one call (an ensemble run counts once per
+ * provider); cached results are free. Windows are calendar days and months in
+ * UTC.
+ *
+ * Configuration:
+ * - AI_DAILY_QUOTA: calls per UTC day (default 50, 0 = unlimited)
+ * - AI_MONTHLY_QUOTA: calls per UTC month (default 1000, 0 = unlimited)
+ */
+
+import { translate } from '@/lib/i18n';
+import type { UsageQuotaStatus, UsageQuotaWindow } from '@/types/usage';
+
+const DEFAULT_DAILY_QUOTA = 50;
+const DEFAULT_MONTHLY_QUOTA = 1000;
+
+/**
+ * Calls allowed per window; null when the window is not limited.
+ */
+export interface UsageQuotaLimits {
+  daily: number | null;
+  monthly: number | null;
+}
+
+function parseQuota(value: string | undefined, fallback: number): number | null {
+  if (value === undefined || value.trim() === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    console.warn(`Invalid AI quota "${value}", using ${fallback}`);
+    return fallback;
+  }
+  return parsed === 0 ? null : parsed;
+}
+
+/**
+ * Read the quota limits from the environment.
+ */
+export function getUsageQuotaLimits(): UsageQuotaLimits {
+  return {
+    daily: parseQuota(process.env.AI_DAILY_QUOTA, DEFAULT_DAILY_QUOTA),
+    monthly: parseQuota(process.env.AI_MONTHLY_QUOTA, DEFAULT_MONTHLY_QUOTA),
+  };
+}
+
+/**
+ * Start of the current and next UTC day and month.
+ */
+export function getQuotaWindows(now: Date = new Date()) {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const date = now.getUTCDate();
+
+  return {
+    dayStart: new Date(Date.UTC(year, month, date)),
+    dayEnd: new Date(Date.UTC(year, month, date + 1)),
+    monthStart: new Date(Date.UTC(year, month, 1)),
+    monthEnd: new Date(Date.UTC(year, month + 1, 1)),
+  };
+}
+
+function toWindow(limit: number | null, used: number, resetsAt: Date): UsageQuotaWindow | null {
+  if (limit === null) {
+    return null;
+  }
+  return {
+    limit,
+    used,
+    remaining: Math.max(limit - used, 0),
+    resetsAt: resetsAt.toISOString(),
+  };
+}
+
+/**
+ * Build the quota status from the calls used in the current day and month.
+ */
+export function buildUsageQuotaStatus(
+  limits: UsageQuotaLimits,
+  used: { daily: number; monthly: number },
+  now: Date = new Date(),
+): UsageQuotaStatus {
+  const { dayEnd, monthEnd } = getQuotaWindows(now);
+  return {
+    daily: toWindow(limits.daily, used.daily, dayEnd),
+    monthly: toWindow(limits.monthly, used.monthly, monthEnd),
+  };
+}
+
+/**
+ * The exhausted window that resets last, or null when calls are still allowed.
+ */
+export function getExhaustedQuotaWindow(
+  status: UsageQuotaStatus,
+): { period: 'daily' | 'monthly'; window: UsageQuotaWindow } | null {
+  if (status.monthly && status.monthly.remaining === 0) {
+    return { period: 'monthly', window: status.monthly };
+  }
+  if (status.daily && status.daily.remaining === 0) {
+    return { period: 'daily', window: status.daily };
+  }
+  return null;
+}
+
+/**
+ * Translated message for an exhausted quota.
+ */
+export function getQuotaExceededMessage(status: UsageQuotaStatus): string {
+  const exhausted = getExhaustedQuotaWindow(status);
+  return exhausted?.period === 'monthly'
+    ? translate('errors.monthlyQuotaExceeded', { limit: exhausted.window.limit })
+    : translate('errors.dailyQuotaExceeded', { limit: exhausted?.window.limit ?? 0 });
+}
+
+/**
+ * Rate limit headers for a quota status, describing the tightest window.
+ * Adds Retry-After when the quota is exhausted.
+ */
+export function getQuotaHeaders(status: UsageQuotaStatus): Record<string, string> {
+  const exhausted = getExhaustedQuotaWindow(status);
+  const windows = [status.daily, status.monthly].filter(
+    (window): window is UsageQuotaWindow => window !== null,
+  );
+  const tightest = exhausted?.window ?? windows.sort((a, b) => a.remaining - b.remaining)[0];
+  if (!tightest) {
+    return {};
+  }
+
+  const resetTime = new Date(tightest.resetsAt).getTime();
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': tightest.limit.toString(),
+    'X-RateLimit-Remaining': tightest.remaining.toString(),
+    'X-RateLimit-Reset': Math.ceil(resetTime / 1000).toString(),
+  };
+  if (exhausted) {
+    headers['Retry-After'] = Math.max(Math.ceil((resetTime - Date.now()) / 1000), 0).toString();
+  }
+  return headers;
+}
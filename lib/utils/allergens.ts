@@ -0,0 +1,34 @@
+import type { Allergen } from '../../types/recognition';
+import type { MealItem } from '../../types/sync';
+
+/**
+ * An item that probably contains allergens from the user's profile.
+ */
+export interface AllergenMatch {
+  index: number; // Position of the item in the meal
+  foodName: string;
+  allergens: Allergen[]; // Tagged allergens that are in the profile
+}
+
+/**
+ * Allergens of an item that are in the user's profile.
+ */
+export function findProfileAllergens(
+  item: Pick<MealItem, 'allergens'>,
+  profile: Allergen[],
+): Allergen[] {
+  return (item.allergens ?? []).filter((allergen) => profile.includes(allergen));
+}
+
+/**
+ * Items tagged with allergens from the user's profile, in meal order.
+ */
+export function findAllergenMatches(items: MealItem[], profile: Allergen[]): AllergenMatch[] {
+  if (profile.length === 0) {
+    return [];
+  }
+  return items.flatMap((item, index) => {
+    const allergens = findProfileAllergens(item, profile);
+    return allergens.length > 0 ? [{ index, foodName: item.foodName, allergens }] : [];
+  });
+}
@@ -0,0 +1,75 @@
+/**
+ * Delimited text helpers shared by the dataset importers in scripts/.
+ */
+
+/**
+ * Split one CSV/TSV record, honoring double-quoted fields.
+ */
+export function splitRecord(record: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < record.length; i++) {
+    const char = record[i];
+    if (quoted) {
+      if (char === '"' && record[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * Whether a record ends inside a quoted field (the field continues on the next line).
+ */
+export function hasOpenQuote(record: string): boolean {
+  return (record.match(/"/g)?.length ?? 0) % 2 === 1;
+}
+
+/**
+ * Yield the records of a CSV/TSV file as objects keyed by column name.
+ * The delimiter is taken from the header line (tab if it has one, else comma);
+ * a UTF-8 byte order mark is dropped.
+ *
+ * @param lines - Lines of the file, e.g. from readline
+ */
+export async function* readDelimitedRecords(
+  lines: AsyncIterable<string>,
+): AsyncGenerator<Record<string, string>> {
+  let header: string[] | null = null;
+  let delimiter = ',';
+  let pending = '';
+
+  for await (const line of lines) {
+    pending = pending ? `${pending}\n${line}` : line;
+    if (hasOpenQuote(pending)) continue;
+    const record = pending;
+    pending = '';
+
+    if (!header) {
+      delimiter = record.includes('\t') ? '\t' : ',';
+      header = splitRecord(record.replace(/^\uFEFF/, ''), delimiter).map((name) => name.trim());
+      continue;
+    }
+    if (!record.trim()) continue;
+
+    const fields = splitRecord(record, delimiter);
+    yield Object.fromEntries(header.map((name, index) => [name, fields[index] ?? '']));
+  }
+}
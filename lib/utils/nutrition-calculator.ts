@@ -7,14 +7,26 @@ export interface NutritionTotals {
   totalFat: number;
 }
 
+/**
+ * Fraction of an item the user ate: the marked share of a shared dish, otherwise all of it.
+ * Item nutrition of a shared dish is for the whole dish.
+ */
+export function getItemShareRatio(item: Pick<MealItem, 'shared' | 'shareRatio'>): number {
+  const ratio = item.shareRatio;
+  return item.shared && ratio != null && ratio > 0 && ratio <= 1 ? ratio : 1;
+}
+
 export function calculateNutritionTotals(items: MealItem[]): NutritionTotals {
   return items.reduce(
-    (totals, item) => ({
-      totalCalories: totals.totalCalories + (item.calories ?? 0),
-      totalProtein: totals.totalProtein + (item.protein ?? 0),
-      totalCarbs: totals.totalCarbs + (item.carbs ?? 0),
-      totalFat: totals.totalFat + (item.fat ?? 0),
-    }),
+    (totals, item) => {
+      const share = getItemShareRatio(item);
+      return {
+        totalCalories: totals.totalCalories + (item.calories ?? 0) * share,
+        totalProtein: totals.totalProtein + (item.protein ?? 0) * share,
+        totalCarbs: totals.totalCarbs + (item.carbs ?? 0) * share,
+        totalFat: totals.totalFat + (item.fat ?? 0) * share,
+      };
+    },
     { totalCalories: 0, totalProtein: 0, totalCarbs: 0, totalFat: 0 },
   );
 }
@@ -5,6 +5,8 @@ const withNextIntl = createNextIntlPlugin('./i18n.ts');
 
 const nextConfig: NextConfig = {
   allowedDevOrigins: ['http://localhost:3000', 'http://192.168.68.37:3000'],
+  // libheif WebAssembly decoder for HEIC uploads; loaded from node_modules at runtime
+  serverExternalPackages: ['heic-decode'],
 };
 
 export default withNextIntl(nextConfig);
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "recognition_cache" (
+    "cacheKey" TEXT NOT NULL,
+    "locale" TEXT NOT NULL,
+    "promptVersion" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "response" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "recognition_cache_pkey" PRIMARY KEY ("cacheKey")
+);
+
+-- CreateIndex
+CREATE INDEX "recognition_cache_expiresAt_idx" ON "recognition_cache"("expiresAt");
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "products" (
+    "barcode" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "brand" TEXT,
+    "servingSize" DOUBLE PRECISION,
+    "servingUnit" TEXT,
+    "calories" DOUBLE PRECISION,
+    "protein" DOUBLE PRECISION,
+    "carbs" DOUBLE PRECISION,
+    "fat" DOUBLE PRECISION,
+    "fiber" DOUBLE PRECISION,
+    "sugar" DOUBLE PRECISION,
+    "saturatedFat" DOUBLE PRECISION,
+    "sodium" DOUBLE PRECISION,
+    "potassium" DOUBLE PRECISION,
+    "calcium" DOUBLE PRECISION,
+    "iron" DOUBLE PRECISION,
+    "vitaminA" DOUBLE PRECISION,
+    "vitaminC" DOUBLE PRECISION,
+    "vitaminD" DOUBLE PRECISION,
+    "vitaminB12" DOUBLE PRECISION,
+    "cholesterol" DOUBLE PRECISION,
+    "source" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "products_pkey" PRIMARY KEY ("barcode")
+);
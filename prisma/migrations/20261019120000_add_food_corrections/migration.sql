@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "food_corrections" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "recognizedName" TEXT NOT NULL,
+    "correctedName" TEXT NOT NULL,
+    "portionSize" DOUBLE PRECISION,
+    "portionUnit" TEXT,
+    "count" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "food_corrections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "food_corrections_userId_idx" ON "food_corrections"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "food_corrections_userId_recognizedName_correctedName_key" ON "food_corrections"("userId", "recognizedName", "correctedName");
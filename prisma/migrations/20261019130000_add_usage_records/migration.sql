@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "usage_records" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "route" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "inputTokens" INTEGER NOT NULL,
+    "outputTokens" INTEGER NOT NULL,
+    "costUsd" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "usage_records_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "usage_records_userId_createdAt_idx" ON "usage_records"("userId", "createdAt");
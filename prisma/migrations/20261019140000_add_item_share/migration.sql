@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "meal_items" ADD COLUMN     "shared" BOOLEAN,
+ADD COLUMN     "shareRatio" DOUBLE PRECISION;
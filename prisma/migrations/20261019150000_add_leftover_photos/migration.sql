@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "meals" ADD COLUMN     "leftoverPhotoId" TEXT;
+
+-- AlterTable
+ALTER TABLE "meal_items" ADD COLUMN     "leftoverFraction" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "photos" ADD COLUMN     "kind" TEXT NOT NULL DEFAULT 'before',
+ADD COLUMN     "beforePhotoId" TEXT;
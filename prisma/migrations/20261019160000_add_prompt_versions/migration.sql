@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "meals" ADD COLUMN     "promptVersion" TEXT;
+
+-- CreateTable
+CREATE TABLE "correction_events" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "mealId" TEXT,
+    "promptVersion" TEXT NOT NULL,
+    "recognizedName" TEXT NOT NULL,
+    "correctedName" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "correction_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "correction_events_promptVersion_createdAt_idx" ON "correction_events"("promptVersion", "createdAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "meal_items" ADD COLUMN     "components" JSONB;
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "food_compositions" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "englishName" TEXT,
+    "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "category" TEXT,
+    "searchName" TEXT NOT NULL,
+    "searchAliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "calories" DOUBLE PRECISION,
+    "protein" DOUBLE PRECISION,
+    "carbs" DOUBLE PRECISION,
+    "fat" DOUBLE PRECISION,
+    "fiber" DOUBLE PRECISION,
+    "sugar" DOUBLE PRECISION,
+    "saturatedFat" DOUBLE PRECISION,
+    "sodium" DOUBLE PRECISION,
+    "potassium" DOUBLE PRECISION,
+    "calcium" DOUBLE PRECISION,
+    "iron" DOUBLE PRECISION,
+    "vitaminA" DOUBLE PRECISION,
+    "vitaminC" DOUBLE PRECISION,
+    "vitaminD" DOUBLE PRECISION,
+    "vitaminB12" DOUBLE PRECISION,
+    "cholesterol" DOUBLE PRECISION,
+    "source" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "food_compositions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "food_compositions_searchName_idx" ON "food_compositions"("searchName");
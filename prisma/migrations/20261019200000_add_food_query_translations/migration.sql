@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "food_query_translations" (
+    "query" TEXT NOT NULL,
+    "translation" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "food_query_translations_pkey" PRIMARY KEY ("query")
+);
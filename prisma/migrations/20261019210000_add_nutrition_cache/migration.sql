@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "nutrition_cache" (
+    "cacheKey" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "foodName" TEXT NOT NULL,
+    "response" JSONB NOT NULL,
+    "hits" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "nutrition_cache_pkey" PRIMARY KEY ("cacheKey")
+);
+
+-- CreateIndex
+CREATE INDEX "nutrition_cache_foodName_idx" ON "nutrition_cache"("foodName");
+
+-- CreateIndex
+CREATE INDEX "nutrition_cache_expiresAt_idx" ON "nutrition_cache"("expiresAt");
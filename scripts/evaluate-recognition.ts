@@ -0,0 +1,384 @@
+/**
+ * Recognition evaluation harness
+ * Usage:
+ *   npm run eval:recognition                          # replay recordings for the current prompt version
+ *   npm run eval:recognition -- --prompt-version v2   # replay recordings of another prompt version
+ *   npm run eval:recognition -- --diff v2 v3          # compare two prompt versions
+ *   npm run eval:recognition -- --record              # call providers and record responses
+ *
+ * Options:
+ *   --provider <name>   Only use recordings from (or record with) this provider
+ *   --case <id>         Only evaluate this case
+ *   --json              Print results as JSON
+ *   --verbose           Show per-item matches and parser logs
+ *
+ * Cases live in evaluation/recognition/cases/<case-id>/ (see evaluation/recognition/README.md).
+ * Recording requires provider API keys (read from .env.local).
+ */
+
+import { existsSync } from 'node:fs';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { config } from 'dotenv';
+import {
+  evaluateRecordedResponse,
+  summarizeEvaluations,
+  type CaseEvaluation,
+  type EvaluationCase,
+  type EvaluationMetrics,
+  type RecordedResponse,
+} from '@/lib/recognition/evaluation';
+import { PROMPT_VERSION } from '@/lib/recognition/prompt';
+import { createProviderChain, resolveProviderChain } from '@/lib/recognition/provider/registry';
+
+config({ path: '.env.local', quiet: true });
+
+const CASES_DIR = path.join(process.cwd(), 'evaluation', 'recognition', 'cases');
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+interface CliOptions {
+  promptVersion: string;
+  diff?: [string, string];
+  record: boolean;
+  provider?: string;
+  caseId?: string;
+  json: boolean;
+  verbose: boolean;
+}
+
+interface LoadedCase {
+  dir: string;
+  testCase: EvaluationCase;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    promptVersion: PROMPT_VERSION,
+    record: false,
+    json: false,
+    verbose: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--prompt-version') {
+      options.promptVersion = argv[++i];
+    } else if (arg === '--diff') {
+      options.diff = [argv[++i], argv[++i]];
+    } else if (arg === '--record') {
+      options.record = true;
+    } else if (arg === '--provider') {
+      options.provider = argv[++i];
+    } else if (arg === '--case') {
+      options.caseId = argv[++i];
+    } else if (arg === '--json') {
+      options.json = true;
+    } else if (arg === '--verbose') {
+      options.verbose = true;
+    } else {
+      console.error(`Unknown option: ${arg}`);
+      process.exit(1);
+    }
+  }
+
+  if (options.diff && options.diff.some((version) => !version)) {
+    console.error('--diff requires two prompt versions, e.g. --diff v2 v3');
+    process.exit(1);
+  }
+
+  return options;
+}
+
+async function loadCases(caseId?: string): Promise<LoadedCase[]> {
+  if (!existsSync(CASES_DIR)) {
+    return [];
+  }
+
+  const entries = await readdir(CASES_DIR, { withFileTypes: true });
+  const cases: LoadedCase[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory() || (caseId && entry.name !== caseId)) continue;
+    const dir = path.join(CASES_DIR, entry.name);
+    const testCase = JSON.parse(await readFile(path.join(dir, 'case.json'), 'utf8'));
+    cases.push({ dir, testCase: { ...testCase, id: testCase.id ?? entry.name } });
+  }
+  return cases.sort((a, b) => a.testCase.id.localeCompare(b.testCase.id));
+}
+
+async function loadRecordings(
+  { dir }: LoadedCase,
+  promptVersion: string,
+  provider?: string,
+): Promise<RecordedResponse[]> {
+  const versionDir = path.join(dir, 'recordings', promptVersion);
+  if (!existsSync(versionDir)) {
+    return [];
+  }
+
+  const files = (await readdir(versionDir)).filter((file) => file.endsWith('.json')).sort();
+  const recordings: RecordedResponse[] = [];
+  for (const file of files) {
+    const recording: RecordedResponse = JSON.parse(
+      await readFile(path.join(versionDir, file), 'utf8'),
+    );
+    if (!provider || recording.provider === provider) {
+      recordings.push(recording);
+    }
+  }
+  return recordings;
+}
+
+async function evaluateVersion(
+  cases: LoadedCase[],
+  promptVersion: string,
+  provider?: string,
+): Promise<CaseEvaluation[]> {
+  const results: CaseEvaluation[] = [];
+  for (const loaded of cases) {
+    for (const recording of await loadRecordings(loaded, promptVersion, provider)) {
+      results.push(evaluateRecordedResponse(loaded.testCase, recording));
+    }
+  }
+  return results;
+}
+
+async function recordResponses(cases: LoadedCase[], providerName?: string): Promise<void> {
+  // Record every requested provider, even one that is failing
+  const providers = createProviderChain(providerName ? [providerName] : resolveProviderChain(), {
+    skipUnavailable: false,
+  });
+  if (providers.length === 0) {
+    console.error('No recognition providers configured');
+    process.exit(1);
+  }
+
+  for (const loaded of cases) {
+    const photoPaths = loaded.testCase.photos.map((photo) => path.join(loaded.dir, photo));
+    const missing = photoPaths.filter((photoPath) => !existsSync(photoPath));
+    if (photoPaths.length === 0 || missing.length > 0) {
+      console.warn(`Skipping ${loaded.testCase.id}: missing photos ${missing.join(', ')}`);
+      continue;
+    }
+
+    const images = await Promise.all(
+      photoPaths.map(async (photoPath) => {
+        const mimeType = MIME_TYPES[path.extname(photoPath).toLowerCase()] ?? 'image/jpeg';
+        const base64 = (await readFile(photoPath)).toString('base64');
+        return `data:${mimeType};base64,${base64}`;
+      }),
+    );
+
+    const versionDir = path.join(loaded.dir, 'recordings', PROMPT_VERSION);
+    await mkdir(versionDir, { recursive: true });
+
+    for (const provider of providers) {
+      const response = await provider.getJsonResponse(images, loaded.testCase.locale);
+      if (!response.success || !response.rawJson) {
+        console.warn(
+          `Recording ${loaded.testCase.id} with ${provider.name} failed: ${response.error?.code}`,
+        );
+        continue;
+      }
+
+      const recording: RecordedResponse = {
+        provider: provider.name,
+        promptVersion: PROMPT_VERSION,
+        recordedAt: new Date().toISOString(),
+        rawJson: response.rawJson,
+      };
+      await writeFile(
+        path.join(versionDir, `${provider.name}.json`),
+        `${JSON.stringify(recording, null, 2)}\n`,
+      );
+      console.log(`Recorded ${loaded.testCase.id} (${provider.name}, ${PROMPT_VERSION})`);
+    }
+  }
+}
+
+function formatPercent(value?: number): string {
+  return value == null ? '-' : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatGrams(value?: number): string {
+  return value == null ? '-' : `${value.toFixed(1)}g`;
+}
+
+function formatDelta(base?: number, candidate?: number, percent = true): string {
+  if (base == null || candidate == null) return '';
+  const delta = candidate - base;
+  if (delta === 0) return '  (±0)';
+  const formatted = percent ? `${(delta * 100).toFixed(1)}pp` : `${delta.toFixed(1)}g`;
+  return `  (${delta > 0 ? '+' : ''}${formatted})`;
+}
+
+function printMetrics(label: string, metrics: EvaluationMetrics, baseline?: EvaluationMetrics) {
+  console.log(`\n${label}`);
+  console.log(`  cases:           ${metrics.cases} (parse failures: ${metrics.parseFailures})`);
+  console.log(
+    `  precision:       ${formatPercent(metrics.precision)}${formatDelta(baseline?.precision, metrics.precision)}`,
+  );
+  console.log(
+    `  recall:          ${formatPercent(metrics.recall)}${formatDelta(baseline?.recall, metrics.recall)}`,
+  );
+  console.log(
+    `  f1:              ${formatPercent(metrics.f1)}${formatDelta(baseline?.f1, metrics.f1)}`,
+  );
+  console.log(
+    `  weight MAE:      ${formatGrams(metrics.weightMeanAbsoluteError)}${formatDelta(
+      baseline?.weightMeanAbsoluteError,
+      metrics.weightMeanAbsoluteError,
+      false,
+    )} (n=${metrics.weightSamples})`,
+  );
+  console.log(
+    `  weight MAPE:     ${formatPercent(metrics.weightMeanAbsolutePercentError)}${formatDelta(
+      baseline?.weightMeanAbsolutePercentError,
+      metrics.weightMeanAbsolutePercentError,
+    )}`,
+  );
+  console.log(
+    `  category acc.:   ${formatPercent(metrics.categoryAccuracy)}${formatDelta(
+      baseline?.categoryAccuracy,
+      metrics.categoryAccuracy,
+    )} (n=${metrics.categorySamples})`,
+  );
+}
+
+function printCaseResults(results: CaseEvaluation[], verbose: boolean) {
+  for (const result of results) {
+    const status = result.parseError
+      ? `parse error ${result.parseError}`
+      : `${result.matches.length}/${result.expectedCount} matched, ${result.extra.length} extra`;
+    console.log(`  ${result.caseId} [${result.provider}] ${status}`);
+    if (!verbose) continue;
+    for (const match of result.matches) {
+      console.log(
+        `    ✓ ${match.expected} ← ${match.predicted} (${match.similarity}) ` +
+          `${formatGrams(match.predictedGrams)} / ${formatGrams(match.expectedGrams)}` +
+          (match.expectedCategory
+            ? ` ${match.predictedCategory ?? 'food'}/${match.expectedCategory}`
+            : ''),
+      );
+    }
+    result.missed.forEach((name) => console.log(`    ✗ missed ${name}`));
+    result.extra.forEach((name) => console.log(`    + extra ${name}`));
+  }
+}
+
+/**
+ * Per-case changes between two prompt versions (same case and provider).
+ */
+function printCaseDiff(base: CaseEvaluation[], candidate: CaseEvaluation[]) {
+  console.log('\nChanged cases');
+  let changed = 0;
+  for (const result of candidate) {
+    const previous = base.find(
+      (entry) => entry.caseId === result.caseId && entry.provider === result.provider,
+    );
+    if (!previous) continue;
+
+    const gained = result.matches
+      .map((match) => match.expected)
+      .filter((name) => previous.missed.includes(name));
+    const lost = result.missed.filter((name) =>
+      previous.matches.some((match) => match.expected === name),
+    );
+    const extraDelta = result.extra.length - previous.extra.length;
+    if (gained.length === 0 && lost.length === 0 && extraDelta === 0) continue;
+
+    changed += 1;
+    const parts = [
+      gained.length > 0 ? `+found ${gained.join(', ')}` : '',
+      lost.length > 0 ? `-lost ${lost.join(', ')}` : '',
+      extraDelta !== 0 ? `extra ${extraDelta > 0 ? '+' : ''}${extraDelta}` : '',
+    ].filter(Boolean);
+    console.log(`  ${result.caseId} [${result.provider}] ${parts.join('; ')}`);
+  }
+  if (changed === 0) {
+    console.log('  (none)');
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  // parseAndValidate logs every parse; keep the report readable
+  if (!options.verbose) {
+    console.info = () => {};
+  }
+
+  const cases = await loadCases(options.caseId);
+  if (cases.length === 0) {
+    console.error(`No evaluation cases found in ${CASES_DIR}`);
+    process.exit(1);
+  }
+
+  if (options.record) {
+    await recordResponses(cases, options.provider);
+    return;
+  }
+
+  if (options.diff) {
+    const [baseVersion, candidateVersion] = options.diff;
+    const base = await evaluateVersion(cases, baseVersion, options.provider);
+    const candidate = await evaluateVersion(cases, candidateVersion, options.provider);
+    const missingVersion = [
+      [baseVersion, base],
+      [candidateVersion, candidate],
+    ].find(([, results]) => results.length === 0)?.[0];
+    if (missingVersion) {
+      console.error(`No recordings for prompt ${missingVersion}`);
+      process.exit(1);
+    }
+    const baseMetrics = summarizeEvaluations(base);
+    const candidateMetrics = summarizeEvaluations(candidate);
+
+    if (options.json) {
+      console.log(
+        JSON.stringify(
+          {
+            [baseVersion]: { metrics: baseMetrics, results: base },
+            [candidateVersion]: { metrics: candidateMetrics, results: candidate },
+          },
+          null,
+          2,
+        ),
+      );
+      return;
+    }
+
+    printMetrics(`Prompt ${baseVersion}`, baseMetrics);
+    printMetrics(`Prompt ${candidateVersion} (vs ${baseVersion})`, candidateMetrics, baseMetrics);
+    printCaseDiff(base, candidate);
+    return;
+  }
+
+  const results = await evaluateVersion(cases, options.promptVersion, options.provider);
+  if (results.length === 0) {
+    console.error(
+      `No recordings for prompt ${options.promptVersion}; run with --record to create them`,
+    );
+    process.exit(1);
+  }
+
+  const metrics = summarizeEvaluations(results);
+  if (options.json) {
+    console.log(JSON.stringify({ metrics, results }, null, 2));
+    return;
+  }
+
+  console.log(`Prompt ${options.promptVersion}`);
+  printCaseResults(results, options.verbose);
+  printMetrics('Summary', metrics);
+}
+
+main().catch((error) => {
+  console.error('Evaluation failed:', error);
+  process.exit(1);
+});
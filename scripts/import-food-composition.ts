@@ -0,0 +1,155 @@
+/**
+ * Food composition importer (Taiwan FDA 食品營養成分資料庫)
+ * Usage:
+ *   npm run import:food-composition -- 20_2.csv               # Open data CSV (gzip ok)
+ *   npm run import:food-composition -- 20_2.json              # Open data JSON
+ *   npm run import:food-composition -- 20_2.csv --dry-run     # parse only, no database writes
+ *
+ * Options:
+ *   --format <csv|json>    Input format (default: from the file extension)
+ *   --source <name>        Dataset stored with each food and reported as sourceDatabase
+ *                          (default: "Taiwan FDA Food Composition"; include the edition,
+ *                          e.g. "Taiwan FDA Food Composition 2023")
+ *   --batch-size <n>       Foods per database transaction (default: 200)
+ *   --dry-run              Parse and count without writing
+ *
+ * The dataset has one row per food and analysis item; rows are merged per
+ * food code (整合編號). Foods without a code, a name or any nutrient are
+ * skipped. Existing foods with the same code are updated. Requires
+ * DATABASE_URL (read from .env.local).
+ */
+
+import { createReadStream, existsSync, readFileSync } from 'node:fs';
+import { createInterface } from 'node:readline';
+import { createGunzip, gunzipSync } from 'node:zlib';
+import { config } from 'dotenv';
+import { TAIWAN_FDA_SOURCE, createTaiwanFdaRecordBuilder } from '@/lib/food-composition/taiwan-fda';
+import { readDelimitedRecords } from '@/lib/utils/csv';
+
+config({ path: '.env.local', quiet: true });
+
+const PROGRESS_INTERVAL = 50_000;
+
+interface CliOptions {
+  file: string;
+  format: 'csv' | 'json';
+  source: string;
+  batchSize: number;
+  dryRun: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  let file: string | undefined;
+  let format: string | undefined;
+  let source = TAIWAN_FDA_SOURCE;
+  let batchSize = 200;
+  let dryRun = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--format') {
+      format = argv[++i];
+    } else if (arg === '--source') {
+      source = argv[++i];
+    } else if (arg === '--batch-size') {
+      batchSize = Number(argv[++i]);
+    } else if (arg === '--dry-run') {
+      dryRun = true;
+    } else if (!arg.startsWith('--') && !file) {
+      file = arg;
+    } else {
+      console.error(`Unknown option: ${arg}`);
+      process.exit(1);
+    }
+  }
+
+  if (!file || !existsSync(file)) {
+    console.error(
+      file ? `File not found: ${file}` : 'Usage: import-food-composition <file> [options]',
+    );
+    process.exit(1);
+  }
+
+  const baseName = file.replace(/\.gz$/, '');
+  format ??= /\.json$/i.test(baseName) ? 'json' : 'csv';
+  if (format !== 'csv' && format !== 'json') {
+    console.error(`Unknown format: ${format} (expected csv or json)`);
+    process.exit(1);
+  }
+
+  if (!source?.trim()) {
+    console.error('--source must not be empty');
+    process.exit(1);
+  }
+
+  if (!Number.isInteger(batchSize) || batchSize <= 0) {
+    console.error('--batch-size must be a positive integer');
+    process.exit(1);
+  }
+
+  return { file, format, source: source.trim(), batchSize, dryRun };
+}
+
+/**
+ * Yield dataset rows from the input file as objects keyed by column name.
+ */
+async function* readRows(options: CliOptions): AsyncGenerator<Record<string, unknown>> {
+  if (options.format === 'json') {
+    // The open data JSON is a single array (a few tens of MB)
+    const buffer = readFileSync(options.file);
+    const text = (options.file.endsWith('.gz') ? gunzipSync(buffer) : buffer).toString('utf8');
+    const parsed: unknown = JSON.parse(text.replace(/^\uFEFF/, ''));
+    if (!Array.isArray(parsed)) {
+      throw new Error('Expected a JSON array of dataset rows');
+    }
+    yield* parsed as Record<string, unknown>[];
+    return;
+  }
+
+  const stream = createReadStream(options.file);
+  const input = options.file.endsWith('.gz') ? stream.pipe(createGunzip()) : stream;
+  yield* readDelimitedRecords(createInterface({ input, crlfDelay: Infinity }));
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const builder = createTaiwanFdaRecordBuilder(options.source);
+
+  let read = 0;
+  let skipped = 0;
+  for await (const row of readRows(options)) {
+    read++;
+    if (!builder.add(row)) {
+      skipped++;
+    }
+    if (read % PROGRESS_INTERVAL === 0) {
+      console.log(`Read ${read} rows (${skipped} skipped)`);
+    }
+  }
+
+  const records = builder.build();
+  if (options.dryRun) {
+    console.log(`Parsed ${records.length} foods from ${read} rows (${skipped} rows skipped)`);
+    return;
+  }
+
+  // Load the database client only when writing, after .env.local is loaded
+  const db = await import('@/lib/db/prisma/client');
+  const store = await import('@/lib/food-composition/store');
+
+  let imported = 0;
+  try {
+    for (let i = 0; i < records.length; i += options.batchSize) {
+      imported += await store.upsertFoodCompositions(records.slice(i, i + options.batchSize));
+    }
+  } finally {
+    await db.prisma.$disconnect();
+  }
+
+  console.log(`Imported ${imported} foods from ${read} rows (${skipped} rows skipped)`);
+}
+
+main().catch((error) => {
+  console.error('Food composition import failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,155 @@
+/**
+ * Barcode product importer
+ * Usage:
+ *   npm run import:products -- products.jsonl             # Open Food Facts JSONL dump
+ *   npm run import:products -- products.csv.gz            # Open Food Facts CSV/TSV export (gzip ok)
+ *   npm run import:products -- products.csv --dry-run     # parse only, no database writes
+ *
+ * Options:
+ *   --format <csv|jsonl>   Input format (default: from the file extension)
+ *   --source <name>        Source stored with each product (default: openfoodfacts)
+ *   --batch-size <n>       Products per database transaction (default: 500)
+ *   --dry-run              Parse and count without writing
+ *
+ * Rows without a valid EAN/UPC barcode, a name or any nutrient are skipped.
+ * Existing products with the same barcode are updated. Requires DATABASE_URL
+ * (read from .env.local).
+ */
+
+import { createReadStream, existsSync } from 'node:fs';
+import { createInterface } from 'node:readline';
+import { createGunzip } from 'node:zlib';
+import { config } from 'dotenv';
+import { mapOpenFoodFactsProduct } from '@/lib/products/open-food-facts';
+import { readDelimitedRecords } from '@/lib/utils/csv';
+import type { ProductRecord } from '@/lib/products/store';
+
+config({ path: '.env.local', quiet: true });
+
+const PROGRESS_INTERVAL = 10_000;
+
+interface CliOptions {
+  file: string;
+  format: 'csv' | 'jsonl';
+  source: string;
+  batchSize: number;
+  dryRun: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  let file: string | undefined;
+  let format: string | undefined;
+  let source = 'openfoodfacts';
+  let batchSize = 500;
+  let dryRun = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--format') {
+      format = argv[++i];
+    } else if (arg === '--source') {
+      source = argv[++i];
+    } else if (arg === '--batch-size') {
+      batchSize = Number(argv[++i]);
+    } else if (arg === '--dry-run') {
+      dryRun = true;
+    } else if (!arg.startsWith('--') && !file) {
+      file = arg;
+    } else {
+      console.error(`Unknown option: ${arg}`);
+      process.exit(1);
+    }
+  }
+
+  if (!file || !existsSync(file)) {
+    console.error(file ? `File not found: ${file}` : 'Usage: import-products <file> [options]');
+    process.exit(1);
+  }
+
+  const baseName = file.replace(/\.gz$/, '');
+  format ??= /\.(jsonl|ndjson|json)$/i.test(baseName) ? 'jsonl' : 'csv';
+  if (format !== 'csv' && format !== 'jsonl') {
+    console.error(`Unknown format: ${format} (expected csv or jsonl)`);
+    process.exit(1);
+  }
+
+  if (!Number.isInteger(batchSize) || batchSize <= 0) {
+    console.error('--batch-size must be a positive integer');
+    process.exit(1);
+  }
+
+  return { file, format, source, batchSize, dryRun };
+}
+
+/**
+ * Yield products from the input file as objects keyed by field/column name.
+ */
+async function* readProducts(options: CliOptions): AsyncGenerator<Record<string, unknown>> {
+  const stream = createReadStream(options.file);
+  const input = options.file.endsWith('.gz') ? stream.pipe(createGunzip()) : stream;
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  if (options.format === 'csv') {
+    // Open Food Facts "CSV" exports are tab-separated
+    yield* readDelimitedRecords(lines);
+    return;
+  }
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      yield JSON.parse(line);
+    } catch {
+      console.warn(`Skipping invalid JSON line: ${line.slice(0, 80)}`);
+    }
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  // Load the database client only when writing, after .env.local is loaded
+  const db = options.dryRun ? null : await import('@/lib/db/prisma/client');
+  const store = options.dryRun ? null : await import('@/lib/products/store');
+
+  let read = 0;
+  let imported = 0;
+  let skipped = 0;
+  let batch: ProductRecord[] = [];
+
+  const flush = async () => {
+    await store?.upsertProducts(batch);
+    imported += batch.length;
+    batch = [];
+  };
+
+  try {
+    for await (const product of readProducts(options)) {
+      read++;
+      const record = mapOpenFoodFactsProduct(product, options.source);
+      if (record) {
+        batch.push(record);
+      } else {
+        skipped++;
+      }
+
+      if (batch.length >= options.batchSize) {
+        await flush();
+      }
+      if (read % PROGRESS_INTERVAL === 0) {
+        console.log(`Read ${read} products (${imported + batch.length} valid, ${skipped} skipped)`);
+      }
+    }
+    await flush();
+  } finally {
+    await db?.prisma.$disconnect();
+  }
+
+  const action = options.dryRun ? 'Parsed' : 'Imported';
+  console.log(`${action} ${imported} products from ${read} rows (${skipped} skipped)`);
+}
+
+main().catch((error) => {
+  console.error('Product import failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,126 @@
+/**
+ * Recognition prompt version report
+ * Usage:
+ *   npm run report:prompts                  # last 30 days
+ *   npm run report:prompts -- --days 7
+ *
+ * Options:
+ *   --days <n>   Only meals and corrections from the last n days (default: 30)
+ *
+ * For each prompt version (see RECOGNITION_PROMPT_VERSIONS), prints the meals
+ * saved from its recognition results, how many of them the user corrected and
+ * the resulting correction rate. Requires DATABASE_URL (read from .env.local).
+ */
+
+import { config } from 'dotenv';
+
+config({ path: '.env.local', quiet: true });
+
+interface CliOptions {
+  days: number;
+}
+
+interface VersionReport {
+  version: string;
+  meals: number;
+  correctedMeals: number;
+  corrections: number;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  let days = 30;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--days') {
+      days = Number(argv[++i]);
+    } else {
+      console.error(`Unknown option: ${arg}`);
+      process.exit(1);
+    }
+  }
+
+  if (!Number.isInteger(days) || days <= 0) {
+    console.error('--days must be a positive integer');
+    process.exit(1);
+  }
+
+  return { days };
+}
+
+function formatRate(part: number, total: number): string {
+  return total > 0 ? `${((part / total) * 100).toFixed(1)}%` : '-';
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const since = new Date(Date.now() - options.days * 24 * 60 * 60 * 1000);
+
+  // Load the database client after .env.local is loaded
+  const { prisma } = await import('@/lib/db/prisma/client');
+
+  try {
+    const [mealCounts, correctedMeals, correctionCounts] = await Promise.all([
+      prisma.meal.groupBy({
+        by: ['promptVersion'],
+        where: { promptVersion: { not: null }, createdAt: { gte: since } },
+        _count: { _all: true },
+      }),
+      prisma.correctionEvent.groupBy({
+        by: ['promptVersion', 'mealId'],
+        where: { mealId: { not: null }, createdAt: { gte: since } },
+      }),
+      prisma.correctionEvent.groupBy({
+        by: ['promptVersion'],
+        where: { createdAt: { gte: since } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const reports = new Map<string, VersionReport>();
+    const getReport = (version: string) => {
+      let report = reports.get(version);
+      if (!report) {
+        report = { version, meals: 0, correctedMeals: 0, corrections: 0 };
+        reports.set(version, report);
+      }
+      return report;
+    };
+
+    for (const row of mealCounts as { promptVersion: string; _count: { _all: number } }[]) {
+      getReport(row.promptVersion).meals = row._count._all;
+    }
+    for (const row of correctedMeals as { promptVersion: string }[]) {
+      getReport(row.promptVersion).correctedMeals += 1;
+    }
+    for (const row of correctionCounts as { promptVersion: string; _count: { _all: number } }[]) {
+      getReport(row.promptVersion).corrections = row._count._all;
+    }
+
+    if (reports.size === 0) {
+      console.log(`No recognized meals in the last ${options.days} days`);
+      return;
+    }
+
+    console.log(`Prompt versions, last ${options.days} days`);
+    console.log('version  meals  corrected  rate    corrections');
+    for (const report of [...reports.values()].sort((a, b) => a.version.localeCompare(b.version))) {
+      console.log(
+        [
+          report.version.padEnd(8),
+          String(report.meals).padStart(5),
+          String(report.correctedMeals).padStart(10),
+          formatRate(report.correctedMeals, report.meals).padStart(6),
+          String(report.corrections).padStart(12),
+        ].join(' '),
+      );
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error('Prompt version report failed:', error);
+  process.exit(1);
+});
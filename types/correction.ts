@@ -0,0 +1,58 @@
+/**
+ * Food Correction Types
+ *
+ * Per-user corrections of recognition results, learned from the meals users save.
+ */
+
+/**
+ * A recognized item as the user saved it.
+ */
+export interface FoodCorrection {
+  recognizedName: string; // Name returned by recognition
+  correctedName: string; // Name the user saved (same as recognizedName for portion-only fixes)
+  portionSize?: number; // Portion the user saved, when they changed it
+  portionUnit?: string;
+}
+
+/**
+ * A stored correction with how often the user made it.
+ */
+export interface LearnedCorrection extends FoodCorrection {
+  id: string;
+  count: number;
+  updatedAt: string; // ISO string
+}
+
+/**
+ * Correction API error codes.
+ */
+export type CorrectionApiError = 'UNAUTHORIZED' | 'VALIDATION_ERROR' | 'API_ERROR';
+
+/**
+ * Corrections API response (GET/POST/DELETE /api/corrections).
+ */
+export interface CorrectionsApiResponse {
+  success: boolean;
+  data?: LearnedCorrection[];
+  error?: {
+    code: CorrectionApiError;
+    message: string;
+  };
+}
+
+/**
+ * Request body for POST /api/corrections.
+ */
+export interface RecordCorrectionsApiRequest {
+  corrections: FoodCorrection[];
+  promptVersion?: string; // Prompt version that recognized the corrected items
+  mealId?: string; // Saved meal the corrections came from
+}
+
+/**
+ * Where recorded corrections came from, for correction rates per prompt version.
+ */
+export interface CorrectionSource {
+  promptVersion?: string;
+  mealId?: string;
+}
@@ -0,0 +1,11 @@
+declare module 'heic-decode' {
+  interface DecodedHeicImage {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray; // RGBA pixels
+  }
+
+  function decode(input: { buffer: ArrayBufferLike | Uint8Array }): Promise<DecodedHeicImage>;
+
+  export default decode;
+}
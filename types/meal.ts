@@ -93,8 +93,19 @@ export enum RecognitionError {
   INVALID_IMAGE = 'INVALID_IMAGE',
   NO_FOOD_DETECTED = 'NO_FOOD_DETECTED',
   CONSENT_REQUIRED = 'CONSENT_REQUIRED',
+  QUOTA_EXCEEDED = 'QUOTA_EXCEEDED',
 }
 
+/**
+ * `sourceDatabase` / `nutritionSource` for values read from a package's nutrition facts label.
+ */
+export const NUTRITION_LABEL_SOURCE = 'Nutrition Label';
+
+/**
+ * `sourceDatabase` / `nutritionSource` for values from the barcode product database.
+ */
+export const PRODUCT_DATABASE_SOURCE = 'Product Database';
+
 /**
  * Nutrition data structure.
  */
@@ -124,7 +135,8 @@ export interface NutritionData {
   cholesterol?: number; // in milligrams
 
   // Metadata
-  sourceDatabase: string; // "USDA FoodData Central" or "AI Estimate (OpenAI)"
+  sourceDatabase: string; // "USDA FoodData Central", "AI Estimate (OpenAI)", NUTRITION_LABEL_SOURCE or PRODUCT_DATABASE_SOURCE
+  matchedDescription?: string; // Name of the matched food in the database, e.g. "Sweet potato, cooked, baked in skin"
   dataComplete: boolean; // true if all values present
   isAIEstimate?: boolean; // true if nutrition was estimated by AI
 }
@@ -0,0 +1,36 @@
+/**
+ * Barcode Product Types
+ *
+ * Packaged products looked up by barcode from the server-side product table.
+ */
+
+import type { NutritionLabelValues } from './recognition';
+
+/**
+ * Product returned by a barcode lookup.
+ */
+export interface ProductInfo {
+  barcode: string; // Normalized barcode (EAN-13, or EAN-8)
+  name: string;
+  brand?: string;
+  servingSize?: { amount: number; unit: 'g' | 'ml' };
+  perServing?: NutritionLabelValues; // Derived from per100g when the serving size is known
+  per100g: NutritionLabelValues; // Per 100 g (100 ml for beverages)
+}
+
+/**
+ * Product lookup error codes.
+ */
+export type ProductLookupError = 'INVALID_BARCODE' | 'PRODUCT_NOT_FOUND' | 'API_ERROR';
+
+/**
+ * Product lookup API response (GET /api/products/{barcode}).
+ */
+export interface ProductLookupApiResponse {
+  success: boolean;
+  data?: ProductInfo;
+  error?: {
+    code: ProductLookupError;
+    message: string;
+  };
+}
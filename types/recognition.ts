@@ -3,12 +3,51 @@
  * Based on Spec 003 - Multi-item Recognition
  */
 
+import type { NutritionData } from './meal';
+
 /**
  * Food category types for classification.
  */
 export type RecognitionCategory = 'food' | 'beverage' | 'soup' | 'dessert';
 export type ContainerSize = 'small' | 'medium' | 'large';
 
+/**
+ * Allergens the recognition can tag items with (the common allergens of
+ * Taiwan's labeling rules).
+ */
+export const ALLERGENS = [
+  'gluten',
+  'shellfish',
+  'fish',
+  'egg',
+  'milk',
+  'peanut',
+  'tree_nut',
+  'soy',
+  'sesame',
+  'mango',
+] as const;
+export type Allergen = (typeof ALLERGENS)[number];
+
+/**
+ * Check if a value is a known allergen.
+ */
+export function isAllergen(value: unknown): value is Allergen {
+  return ALLERGENS.includes(value as Allergen);
+}
+
+/**
+ * Region of a photo that an item was recognized from.
+ * Coordinates are normalized to 0-1 relative to the image width/height.
+ */
+export interface BoundingBox {
+  x: number; // Left edge
+  y: number; // Top edge
+  width: number;
+  height: number;
+  imageIndex?: number; // Index of the photo in a multi-photo request (default: 0)
+}
+
 /**
  * Single food item from recognition response.
  */
@@ -21,14 +60,20 @@ export interface RecognitionItem {
   estimatedCount?: number | string; // Estimated count (free format)
   estimatedWeightGrams?: number | string; // Estimated weight in grams (free format)
   containerSize?: ContainerSize; // Plate/bowl size hint (small/medium/large)
+  boundingBox?: BoundingBox; // Region of the photo the item was recognized from
+  alternativeCandidates?: string[]; // Names other providers proposed (ensemble mode)
+  shared?: boolean; // Dish shared by the table rather than one person's portion (spread mode)
+  scaledWeightGrams?: number; // Weight of the visible portion measured against the reference object
+  allergens?: Allergen[]; // Allergens the dish probably contains (a hint, not a guarantee)
 }
 
 /**
  * Multi-item recognition response from API.
  */
 export interface MultiItemRecognitionResponse {
-  items: RecognitionItem[]; // Array of recognized food items (1-6 items)
+  items: RecognitionItem[]; // Array of recognized food items (1-6 items, up to 20 in spread mode)
   locale: string; // Locale identifier (e.g., "zh-TW")
+  promptVersion?: string; // Recognition prompt version that produced the items
 }
 
 /**
@@ -37,6 +82,7 @@ export interface MultiItemRecognitionResponse {
 export interface RecognitionApiSuccessResponse {
   success: true;
   data: MultiItemRecognitionResponse;
+  cached?: boolean; // True when served from the recognition cache
 }
 
 /**
@@ -47,6 +93,7 @@ export interface RecognitionApiErrorResponse {
   error: {
     code: MultiItemRecognitionError;
     message: string;
+    reason?: InvalidImageReason; // Set with INVALID_IMAGE
   };
 }
 
@@ -57,6 +104,17 @@ export type MultiItemRecognitionApiResponse =
   | RecognitionApiSuccessResponse
   | RecognitionApiErrorResponse;
 
+/**
+ * Server-Sent Events emitted by POST /api/recognize/stream.
+ * - item: a recognized item, sent as soon as the provider output makes it parseable
+ * - reset: discard streamed items (the next provider in the chain is being tried)
+ * - result: final validated payload (same shape as POST /api/recognize)
+ */
+export type RecognitionStreamEvent =
+  | { event: 'item'; data: { index: number; item: RecognitionItem } }
+  | { event: 'reset'; data: { provider: string } }
+  | { event: 'result'; data: MultiItemRecognitionApiResponse };
+
 /**
  * Recognition error types for multi-item recognition.
  */
@@ -70,26 +128,203 @@ export enum MultiItemRecognitionError {
   VALIDATION_ERROR = 'VALIDATION_ERROR',
   CONSENT_REQUIRED = 'CONSENT_REQUIRED',
   INVALID_LOCALE = 'INVALID_LOCALE',
+  NO_LABEL_DETECTED = 'NO_LABEL_DETECTED',
+  INVALID_TEXT = 'INVALID_TEXT',
+  QUOTA_EXCEEDED = 'QUOTA_EXCEEDED',
 }
 
+/**
+ * Why an image was rejected with INVALID_IMAGE (before reaching any provider).
+ */
+export type InvalidImageReason =
+  | 'MISSING_IMAGE'
+  | 'TOO_MANY_IMAGES'
+  | 'MALFORMED_DATA_URL'
+  | 'FILE_TOO_LARGE'
+  | 'UNSUPPORTED_FORMAT'
+  | 'CORRUPT_IMAGE'
+  | 'DIMENSIONS_TOO_SMALL'
+  | 'DIMENSIONS_TOO_LARGE';
+
 /**
  * Recognition API request body.
  */
 export interface RecognitionApiRequest {
-  image: string; // Base64-encoded image data
+  images?: string[]; // Ordered base64-encoded images of the same meal (angles or separate plates)
+  image?: string; // Single base64-encoded image (legacy, use images)
+  consent: boolean; // User consent for cloud processing
+  locale?: string; // Optional locale parameter (default: "zh-TW")
+  ensemble?: boolean; // Opt-in: run several providers in parallel and merge their items
+  spread?: boolean; // Opt-in: large shared meal (hot pot, banquet, bento) with more items
+  referenceObject?: ReferenceObject; // Object of known size the user keeps in their photos
+}
+
+/**
+ * Objects of known size that can be set as a scale reference in settings.
+ */
+export type ReferenceObjectType = 'bowl' | 'card' | 'chopsticks';
+
+/**
+ * The user's scale reference: their own rice bowl (rim diameter), a credit card
+ * (width) or chopsticks (length).
+ */
+export interface ReferenceObject {
+  type: ReferenceObjectType;
+  sizeCm: number;
+}
+
+/**
+ * Text recognition API request body (POST /api/recognize-text).
+ * Responds with the same MultiItemRecognitionApiResponse as /api/recognize.
+ */
+export interface TextRecognitionApiRequest {
+  text: string; // Free-text meal description, e.g. "兩顆茶葉蛋和一杯無糖豆漿"
   consent: boolean; // User consent for cloud processing
   locale?: string; // Optional locale parameter (default: "zh-TW")
 }
 
+/**
+ * Maximum length of a text meal description.
+ */
+export const MAX_RECOGNITION_TEXT_LENGTH = 500;
+
+/**
+ * Nutrient values read from a nutrition facts label (same fields and units as NutritionData).
+ */
+export type NutritionLabelValues = Omit<
+  NutritionData,
+  'sourceDatabase' | 'dataComplete' | 'isAIEstimate'
+>;
+
+/**
+ * Nutrition facts label read from a package photo.
+ */
+export interface NutritionLabelResult {
+  productName?: string;
+  servingSize?: { amount: number; unit: 'g' | 'ml' }; // 每一份量
+  servingsPerContainer?: number; // 本包裝含 N 份
+  perServing?: NutritionLabelValues; // 每份
+  per100g?: NutritionLabelValues; // 每100公克 (每100毫升 for beverages)
+  locale: SupportedLocale;
+}
+
+/**
+ * Nutrition label API request body (POST /api/recognize/label).
+ */
+export interface NutritionLabelApiRequest {
+  image: string; // Base64-encoded photo of the nutrition facts label
+  consent: boolean;
+  locale?: string;
+}
+
+export type NutritionLabelApiResponse =
+  | { success: true; data: NutritionLabelResult }
+  | RecognitionApiErrorResponse;
+
+/**
+ * A logged item whose leftovers are estimated from an "after" photo.
+ */
+export interface LeftoverItemInput {
+  name: string;
+  portionSize: number;
+  portionUnit: string;
+  estimatedWeightGrams?: number; // Grams of the whole logged portion, when known
+}
+
+/**
+ * Estimated leftover of one logged item, by its index in the request.
+ */
+export interface LeftoverEstimate {
+  index: number;
+  remainingFraction: number; // 0 (finished) to 1 (untouched)
+  confidence?: number;
+}
+
+/**
+ * Leftovers of a meal read from an "after" photo.
+ */
+export interface LeftoverResult {
+  items: LeftoverEstimate[]; // Items the model could estimate, sorted by index
+  locale: SupportedLocale;
+}
+
+/**
+ * Leftover API request body (POST /api/recognize/leftover).
+ */
+export interface LeftoverApiRequest {
+  image: string; // Base64-encoded "after" photo of what was left
+  items: LeftoverItemInput[]; // The meal's logged items
+  consent: boolean;
+  locale?: string;
+}
+
+export type LeftoverApiResponse =
+  | { success: true; data: LeftoverResult }
+  | RecognitionApiErrorResponse;
+
+/**
+ * Maximum number of ingredients a dish is broken down into.
+ */
+export const MAX_ITEM_COMPONENTS = 8;
+
+/**
+ * One ingredient of a mixed dish with its estimated weight in the logged portion.
+ */
+export interface ItemComponentEstimate {
+  name: string; // Localized ingredient name, e.g. "牛肉"
+  grams: number;
+}
+
+/**
+ * Ingredients of a mixed dish, as estimated by the model.
+ */
+export interface ItemComponentsResult {
+  components: ItemComponentEstimate[];
+  locale: SupportedLocale;
+}
+
+/**
+ * A logged dish to break down into ingredients.
+ */
+export interface ComponentsDishInput {
+  name: string;
+  portionSize: number;
+  portionUnit: string;
+  estimatedWeightGrams?: number; // Grams of the whole logged portion, when known
+}
+
+/**
+ * Ingredient breakdown API request body (POST /api/recognize/components).
+ */
+export interface ItemComponentsApiRequest extends ComponentsDishInput {
+  consent: boolean;
+  locale?: string;
+}
+
+export type ItemComponentsApiResponse =
+  | { success: true; data: ItemComponentsResult }
+  | RecognitionApiErrorResponse;
+
+/**
+ * Maximum number of photos that can be recognized together as one meal.
+ */
+export const MAX_RECOGNITION_IMAGES = 4;
+
+/**
+ * Maximum items returned per recognition in spread mode (hot pot, banquets, bento boxes).
+ */
+export const MAX_SPREAD_RECOGNITION_ITEMS = 20;
+
 /**
  * Default locale for recognition.
  */
 export const DEFAULT_LOCALE = 'zh-TW';
 
 /**
- * Supported locales.
+ * Supported locales. Adding one here makes the type checker point at every
+ * per-locale table (message catalogs, prompt examples, locale labels) that needs an entry.
  */
-export const SUPPORTED_LOCALES = ['zh-TW'] as const;
+export const SUPPORTED_LOCALES = ['zh-TW', 'en'] as const;
 export type SupportedLocale = (typeof SUPPORTED_LOCALES)[number];
 
 /**
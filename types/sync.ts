@@ -1,3 +1,5 @@
+import type { Allergen, BoundingBox } from './recognition';
+
 export type FoodCategory = 'food' | 'beverage' | 'soup' | 'dessert';
 export type SugarLevel = 'full' | 'less' | 'half' | 'light' | 'none';
 export type IceLevel = 'normal' | 'less' | 'light' | 'none' | 'warm' | 'hot';
@@ -12,6 +14,7 @@ export interface MealItem {
   containerSize?: 'small' | 'medium' | 'large';
   aiEstimatedCount?: number;
   aiEstimatedWeightGrams?: number;
+  referenceWeightGrams?: number; // Per portion unit, scaled from a reference object
   calories?: number;
   protein?: number;
   carbs?: number;
@@ -39,6 +42,50 @@ export interface MealItem {
   sugarLevel?: SugarLevel;
   iceLevel?: IceLevel;
   baseSugar?: number; // Original AI-estimated sugar value for percentage calculation
+
+  // Region of the recognition photo the item came from
+  boundingBox?: BoundingBox;
+  // Dish shared by the table (spread mode): nutrition is for the whole dish,
+  // totals count shareRatio (0-1] of it
+  shared?: boolean;
+  shareRatio?: number;
+  // Share of the logged portion left uneaten (0-1), from the meal's "after" photo;
+  // portion and nutrition are already scaled to what was eaten
+  leftoverFraction?: number;
+  // Allergens the dish probably contains, as tagged by recognition
+  allergens?: Allergen[];
+  // Ingredients of a mixed dish ("break down"); when set, the item's nutrition
+  // is the sum of its components
+  components?: MealItemComponent[];
+  // Names other providers proposed in ensemble mode (not persisted)
+  alternativeCandidates?: string[];
+}
+
+/**
+ * One ingredient of a broken-down dish, with the nutrition of its grams.
+ */
+export interface MealItemComponent extends Pick<
+  MealItem,
+  | 'calories'
+  | 'protein'
+  | 'carbs'
+  | 'fat'
+  | 'fiber'
+  | 'sugar'
+  | 'saturatedFat'
+  | 'sodium'
+  | 'potassium'
+  | 'calcium'
+  | 'iron'
+  | 'vitaminA'
+  | 'vitaminC'
+  | 'vitaminD'
+  | 'vitaminB12'
+  | 'cholesterol'
+  | 'nutritionSource'
+> {
+  name: string;
+  grams: number;
 }
 
 export interface Meal {
@@ -48,6 +95,8 @@ export interface Meal {
   updatedAt?: string;
   mealType?: MealType | null;
   photoId?: string | null;
+  leftoverPhotoId?: string | null; // "After" photo of what was left
+  promptVersion?: string | null; // Recognition prompt version of the items
   totalCalories?: number | null;
   totalProtein?: number | null;
   totalCarbs?: number | null;
@@ -66,9 +115,16 @@ export interface Photo {
   mimeType: string;
   width?: number | null;
   height?: number | null;
+  kind?: PhotoKind;
+  beforePhotoId?: string | null; // Set on "after" photos
   uploadedAt: string;
 }
 
+/**
+ * A meal photo taken before eating, or after eating to record leftovers.
+ */
+export type PhotoKind = 'before' | 'after';
+
 export type SyncQueueStatus = 'pending' | 'syncing' | 'failed' | 'completed';
 export type SyncOperationType = 'create' | 'update' | 'delete';
 
@@ -0,0 +1,66 @@
+/**
+ * AI Usage Types
+ *
+ * Per-user usage of paid AI calls (recognition and AI nutrition estimates)
+ * and the quotas enforced on it.
+ */
+
+/**
+ * Endpoints whose provider calls are recorded in the usage ledger
+ * (stored in UsageRecord.route; add new endpoints here only).
+ */
+export type UsageRoute =
+  | 'recognize'
+  | 'recognize-stream'
+  | 'recognize-label'
+  | 'recognize-leftover'
+  | 'recognize-components'
+  | 'recognize-text'
+  | 'nutrition-ai'
+  | 'nutrition-translate'
+  | 'provider-probe'; // Circuit breaker health probes, recorded under PROBE_USAGE_SUBJECT
+
+/**
+ * Usage in one quota window (UTC day or UTC month).
+ */
+export interface UsageQuotaWindow {
+  limit: number; // AI calls allowed in the window
+  used: number;
+  remaining: number;
+  resetsAt: string; // ISO string, start of the next window
+}
+
+/**
+ * A caller's quota status. A null window is not limited.
+ */
+export interface UsageQuotaStatus {
+  daily: UsageQuotaWindow | null;
+  monthly: UsageQuotaWindow | null;
+}
+
+/**
+ * Provider calls and estimated cost of one request, for logging.
+ */
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number; // Models without a known price count as 0
+}
+
+/**
+ * Usage API error codes.
+ */
+export type UsageApiError = 'API_ERROR';
+
+/**
+ * Usage API response (GET /api/usage).
+ */
+export interface UsageApiResponse {
+  success: boolean;
+  data?: UsageQuotaStatus;
+  error?: {
+    code: UsageApiError;
+    message: string;
+  };
+}